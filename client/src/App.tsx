@@ -2,11 +2,18 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/NotFound";
 import Home from "@/pages/Home";
 import PropertyDetail from "@/pages/PropertyDetail";
+import Checkout from "@/pages/Checkout";
+import AuthPage from "@/pages/AuthPage";
+import ResetPassword from "@/pages/ResetPassword";
+import TeamInvite from "@/pages/TeamInvite";
 import SearchResults from "@/pages/SearchResults";
 import CityPage from "@/pages/CityPage";
+import HostProfile from "@/pages/HostProfile";
 import Admin from "@/pages/Admin";
 import ApiPropertiesPage from "@/pages/ApiPropertiesPage";
 import ApiPropertyDetailPage from "@/pages/ApiPropertyDetailPage";
@@ -20,6 +27,10 @@ import HospitableImport from "@/pages/HospitableImport";
 import Navbar from "@/components/layout/Navbar";
 import Footer from "@/components/layout/Footer";
 import { APIProvider } from "@vis.gl/react-google-maps"; 
+import type { UserRole } from "@shared/schema";
+
+// Pages for managing listings
+const HOST_ROLES: UserRole[] = ["host", "admin"];
 
 function Router() {
   return (
@@ -29,17 +40,23 @@ function Router() {
         <Switch>
           <Route path="/" component={Home} />
           <Route path="/property/:slug" component={PropertyDetail} />
+          <Route path="/checkout/:propertyId" component={Checkout} />
           <Route path="/search" component={SearchResults} />
+          <Route path="/auth" component={AuthPage} />
+          <Route path="/reset-password" component={ResetPassword} />
+          <Route path="/team-invite" component={TeamInvite} />
           <Route path="/city/:name" component={CityPage} />
-          <Route path="/admin" component={Admin} />
+          <Route path="/host/:slug" component={HostProfile} />
+          {/* Team members reach the dashboard without being hosts; the server scopes what they see */}
+          <ProtectedRoute path="/admin" component={Admin} />
           <Route path="/api-properties" component={ApiPropertiesPage} />
           <Route path="/api-properties/:id" component={ApiPropertyDetailPage} />
           <Route path="/hospitable-search" component={HospitableSearch} />
-          <Route path="/connect" component={HospitableConnect} />
-          <Route path="/customer-listings" component={CustomerListings} />
-          <Route path="/published-properties" component={PublishedProperties} />
-          <Route path="/hospitable-integration" component={HospitableIntegration} />
-          <Route path="/import" component={HospitableImport} />
+          <ProtectedRoute path="/connect" component={HospitableConnect} roles={HOST_ROLES} />
+          <ProtectedRoute path="/customer-listings" component={CustomerListings} roles={HOST_ROLES} />
+          <ProtectedRoute path="/published-properties" component={PublishedProperties} roles={HOST_ROLES} />
+          <ProtectedRoute path="/hospitable-integration" component={HospitableIntegration} roles={HOST_ROLES} />
+          <ProtectedRoute path="/import" component={HospitableImport} roles={HOST_ROLES} />
           <Route component={NotFound} />
         </Switch>
       </main>
@@ -52,10 +69,12 @@ function App() {
   
   return (
     <QueryClientProvider client={queryClient}>
-      <APIProvider apiKey={import.meta.env.VITE_GOOGLE_MAPS_API_KEY}>
-        <Router />
-      </APIProvider>
-      <Toaster />
+      <AuthProvider>
+        <APIProvider apiKey={import.meta.env.VITE_GOOGLE_MAPS_API_KEY}>
+          <Router />
+        </APIProvider>
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { getPropertyAvailability } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface AvailabilityDatePickerProps {
+  propertyId: number;
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+  className?: string;
+}
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const AvailabilityDatePicker: React.FC<AvailabilityDatePickerProps> = ({
+  propertyId,
+  value,
+  onChange,
+  className,
+}) => {
+  const today = useMemo(() => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    return date;
+  }, []);
+  const from = toKey(today);
+  const to = toKey(addDays(today, 365));
+
+  const { data: availability, isLoading } = useQuery({
+    queryKey: [`/api/properties/${propertyId}/availability`, from, to],
+    queryFn: () => getPropertyAvailability(propertyId, from, to),
+    enabled: !!propertyId,
+  });
+
+  const unavailable = useMemo(
+    () => new Set(availability?.unavailableDates ?? []),
+    [availability]
+  );
+
+  // Once check-in is picked, the first unavailable night after it can still be
+  // the check-out day, since the guest leaves that morning
+  const firstUnavailableAfterCheckIn = useMemo(() => {
+    if (!value?.from || value.to) return undefined;
+    const checkInKey = toKey(value.from);
+    return availability?.unavailableDates.find(date => date > checkInKey);
+  }, [availability, value]);
+
+  const isDisabled = (date: Date) => {
+    if (date < today) return true;
+    const key = toKey(date);
+    if (!unavailable.has(key)) return false;
+    return key !== firstUnavailableAfterCheckIn;
+  };
+
+  // Pricing rules can change the minimum stay depending on the arrival date
+  const minStay = value?.from
+    ? availability?.minStayByDate[toKey(value.from)] ?? availability?.minStay
+    : availability?.minStay;
+
+  const handleSelect = (range: DateRange | undefined) => {
+    if (range?.from && range.to) {
+      // Start over if the range would swallow booked nights
+      const checkIn = toKey(range.from);
+      const checkOut = toKey(range.to);
+      const crossesUnavailable = availability?.unavailableDates.some(
+        date => date >= checkIn && date < checkOut
+      );
+      if (crossesUnavailable) {
+        onChange({ from: range.to, to: undefined });
+        return;
+      }
+    }
+    onChange(range);
+  };
+
+  return (
+    <div className={className}>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn(
+              'w-full justify-start text-left font-normal',
+              !value?.from && 'text-muted-foreground'
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value?.from ? (
+              value.to ? (
+                <>
+                  {format(value.from, 'MMM d, yyyy')} - {format(value.to, 'MMM d, yyyy')}
+                </>
+              ) : (
+                format(value.from, 'MMM d, yyyy')
+              )
+            ) : (
+              <span>{isLoading ? 'Loading availability...' : 'Check in - Check out'}</span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={value}
+            onSelect={handleSelect}
+            numberOfMonths={2}
+            initialFocus
+            disabled={isDisabled}
+            modifiersClassNames={{ disabled: 'line-through' }}
+          />
+        </PopoverContent>
+      </Popover>
+      {minStay && minStay > 1 ? (
+        <p className="text-xs text-gray-500 mt-2">Minimum stay: {minStay} nights</p>
+      ) : null}
+    </div>
+  );
+};
+
+export default AvailabilityDatePicker;
@@ -1,75 +1,77 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Calendar, Clock, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { format, addWeeks, isAfter } from 'date-fns';
-import { hospitable } from '@/lib/api';
-import { useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { JobRun, JobType, SyncFrequency } from '@shared/schema';
 
-// Schedule weekly updates for a specific customer's listings
+// A scheduled job as returned by GET /api/admin/jobs
+interface SyncJob {
+  jobType: JobType;
+  targetId: string;
+  label: string;
+  frequency: SyncFrequency | null;
+  lastRun: JobRun | null;
+  nextRunAt: string | null;
+}
+
+const JOB_LABELS: Record<JobType, string> = {
+  listing_import: 'Listing import',
+  image_refresh: 'Image refresh',
+  ical_sync: 'Calendar sync',
+};
+
+const RUN_VARIANTS: Record<JobRun['status'], 'default' | 'secondary' | 'destructive'> = {
+  running: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+// Server-side sync schedule for a specific customer's listings
 const DataRefreshScheduler: React.FC<{ customerId: string }> = ({ customerId }) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [nextUpdateDate, setNextUpdateDate] = useState<Date | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  
-  // On mount, check localStorage for the next scheduled update
-  useEffect(() => {
-    const storedDate = localStorage.getItem(`next-update-${customerId}`);
-    if (storedDate) {
-      const parsedDate = new Date(storedDate);
-      // Validate the stored date - ensure it's in the future
-      if (isAfter(parsedDate, new Date())) {
-        setNextUpdateDate(parsedDate);
-      } else {
-        // If date is in the past, schedule a new one
-        scheduleNextUpdate();
-      }
-    } else {
-      // If not found, schedule the first update
-      scheduleNextUpdate();
-    }
-  }, [customerId]);
-  
-  // Schedule next update (1 week from now)
-  const scheduleNextUpdate = () => {
-    const newUpdateDate = addWeeks(new Date(), 1);
-    setNextUpdateDate(newUpdateDate);
-    localStorage.setItem(`next-update-${customerId}`, newUpdateDate.toISOString());
-  };
-  
-  // Manually trigger an update
-  const triggerManualUpdate = async () => {
-    if (!customerId) return;
-    
-    setIsLoading(true);
-    try {
-      // Call the import listings function
-      await hospitable.importListings(customerId);
-      
-      // Update scheduled date
-      scheduleNextUpdate();
-      
-      // Invalidate queries to refresh data
+  const jobsUrl = `/api/admin/jobs?customerId=${encodeURIComponent(customerId)}`;
+
+  const { data, isLoading } = useQuery<{ jobs: SyncJob[]; runs: JobRun[] }>({
+    queryKey: [jobsUrl],
+    enabled: !!customerId,
+  });
+
+  // Run the listing import now instead of waiting for its next scheduled run
+  const runImport = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/jobs/run', {
+        jobType: 'listing_import',
+        targetId: customerId,
+      });
+      return (await response.json()) as JobRun;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: [jobsUrl] });
       queryClient.invalidateQueries({ queryKey: ['/api/properties'] });
       queryClient.invalidateQueries({ queryKey: ['/api/hospitable/customers', customerId, 'listings'] });
-      
-      toast({
-        title: "Data Updated Successfully",
-        description: "Your property data has been refreshed from Hospitable API.",
-      });
-    } catch (error) {
-      toast({
-        title: "Update Failed",
-        description: error instanceof Error ? error.message : "Failed to update property data",
-        variant: "destructive"
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-  
+
+      if (run.status === 'failed') {
+        toast({ title: "Update Failed", description: run.error ?? "The import failed", variant: "destructive" });
+      } else {
+        toast({
+          title: "Data Updated Successfully",
+          description: "Your property data has been refreshed from Hospitable API.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const jobs = data?.jobs ?? [];
+
   return (
     <Card>
       <CardHeader>
@@ -78,31 +80,59 @@ const DataRefreshScheduler: React.FC<{ customerId: string }> = ({ customerId })
           Data Refresh Schedule
         </CardTitle>
         <CardDescription>
-          Your property data is automatically refreshed on a weekly basis
+          Your property data is refreshed automatically by the server on the schedule below
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {nextUpdateDate && (
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading schedule...</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No refreshes scheduled yet. They start once this Hospitable account is connected and imported.
+          </p>
+        ) : (
           <div className="space-y-4">
-            <div className="flex items-center gap-2">
-              <Calendar className="h-4 w-4 text-muted-foreground" />
-              <span>Next scheduled refresh: {format(nextUpdateDate, 'MMMM dd, yyyy')}</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Clock className="h-4 w-4 text-muted-foreground" />
-              <span>Time: {format(nextUpdateDate, 'h:mm a')}</span>
-            </div>
+            {jobs.map(job => (
+              <div key={`${job.jobType}:${job.targetId}`} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {JOB_LABELS[job.jobType]}
+                    {job.jobType === 'ical_sync' && <span className="text-muted-foreground"> · {job.label}</span>}
+                  </span>
+                  {job.lastRun && (
+                    <Badge variant={RUN_VARIANTS[job.lastRun.status]}>{job.lastRun.status}</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Calendar className="h-4 w-4" />
+                  <span>
+                    {job.frequency && job.nextRunAt
+                      ? `Runs ${job.frequency}, next ${format(new Date(job.nextRunAt), 'MMMM dd, yyyy h:mm a')}`
+                      : 'Paused'}
+                  </span>
+                </div>
+                {job.lastRun?.startedAt && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Clock className="h-4 w-4" />
+                    <span>Last run {formatDistanceToNow(new Date(job.lastRun.startedAt), { addSuffix: true })}</span>
+                  </div>
+                )}
+                {job.lastRun?.status === 'failed' && job.lastRun.error && (
+                  <p className="text-xs text-red-600">{job.lastRun.error}</p>
+                )}
+              </div>
+            ))}
           </div>
         )}
       </CardContent>
       <CardFooter>
-        <Button 
-          variant="outline" 
-          onClick={triggerManualUpdate} 
-          disabled={isLoading}
+        <Button
+          variant="outline"
+          onClick={() => runImport.mutate()}
+          disabled={runImport.isPending}
           className="w-full"
         >
-          {isLoading ? (
+          {runImport.isPending ? (
             <>
               <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
               Updating...
@@ -119,4 +149,4 @@ const DataRefreshScheduler: React.FC<{ customerId: string }> = ({ customerId })
   );
 };
 
-export default DataRefreshScheduler;
\ No newline at end of file
+export default DataRefreshScheduler;
@@ -1,5 +1,4 @@
 import React, { useState } from 'react';
-import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import FilterButton from '@/components/ui/FilterButton';
 import {
@@ -11,15 +10,14 @@ import { Slider } from '@/components/ui/slider';
 import { formatPrice } from '@/lib/utils';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import type { PropertySearchFilters } from '@shared/property-search';
 
 interface FilterListProps {
-  onFilterChange: (filters: any) => void;
-  currentFilters: any;
+  onFilterChange: (changes: Partial<PropertySearchFilters>) => void; // undefined values clear a filter
+  currentFilters: PropertySearchFilters;
 }
 
 const FilterList: React.FC<FilterListProps> = ({ onFilterChange, currentFilters }) => {
-  const [location, setLocation] = useLocation();
-  
   // Price range filter
   const [priceRange, setPriceRange] = useState<[number, number]>([
     currentFilters.minPrice || 0,
@@ -53,27 +51,12 @@ const FilterList: React.FC<FilterListProps> = ({ onFilterChange, currentFilters
 
   // Amenities filter
   const [selectedAmenities, setSelectedAmenities] = useState<string[]>(
-    currentFilters.amenities ? currentFilters.amenities.split(',') : []
+    currentFilters.amenities ?? []
   );
 
-  // Apply filters and update URL
-  const applyFilters = (newFilters: any) => {
-    const filters = { ...currentFilters, ...newFilters };
-    onFilterChange(filters);
-    
-    // Update URL with filters
-    const params = new URLSearchParams(location.split('?')[1] || '');
-    
-    Object.entries(filters).forEach(([key, value]) => {
-      if (value !== undefined && value !== null && value !== '') {
-        params.set(key, String(value));
-      } else {
-        params.delete(key);
-      }
-    });
-    
-    const newLocation = location.split('?')[0] + (params.toString() ? `?${params.toString()}` : '');
-    setLocation(newLocation);
+  // Apply filters; the search page puts them in the URL
+  const applyFilters = (changes: Partial<PropertySearchFilters>) => {
+    onFilterChange(changes);
   };
 
   // Toggle amenity selection
@@ -85,7 +68,7 @@ const FilterList: React.FC<FilterListProps> = ({ onFilterChange, currentFilters
       newAmenities = [...selectedAmenities, amenity];
     }
     setSelectedAmenities(newAmenities);
-    applyFilters({ amenities: newAmenities.length ? newAmenities.join(',') : undefined });
+    applyFilters({ amenities: newAmenities.length ? newAmenities : undefined });
   };
 
   // Clear all filters
@@ -98,16 +81,16 @@ const FilterList: React.FC<FilterListProps> = ({ onFilterChange, currentFilters
     setBathrooms(0);
     setSelectedAmenities([]);
     
-    const params = new URLSearchParams(location.split('?')[1] || '');
-    ['minPrice', 'maxPrice', 'city', 'propertyType', 'guests', 'bedrooms', 'bathrooms', 'amenities'].forEach(key => {
-      params.delete(key);
+    onFilterChange({
+      city: undefined,
+      propertyType: undefined,
+      minPrice: undefined,
+      maxPrice: undefined,
+      guests: undefined,
+      bedrooms: undefined,
+      bathrooms: undefined,
+      amenities: undefined,
     });
-    
-    const query = params.get('q');
-    const newLocation = location.split('?')[0] + (query ? `?q=${query}` : '');
-    setLocation(newLocation);
-    
-    onFilterChange({});
   };
 
   return (
@@ -353,7 +336,7 @@ const FilterList: React.FC<FilterListProps> = ({ onFilterChange, currentFilters
       </Popover>
 
       {/* Clear Filters Button (only show if filters are applied) */}
-      {Object.keys(currentFilters).length > 0 && (
+      {Object.values(currentFilters).some(value => value !== undefined) && (
         <Button 
           variant="ghost" 
           className="text-primary hover:text-primary/80"
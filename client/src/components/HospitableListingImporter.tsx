@@ -82,21 +82,11 @@ const HospitableListingImporter: React.FC<HospitableListingImporterProps> = ({
       setImportedCount(0);
 
       try {
-        // Simulate progress updates
-        const progressInterval = setInterval(() => {
-          setImportProgress(prev => {
-            if (prev >= 90) {
-              clearInterval(progressInterval);
-              return 90;
-            }
-            return prev + 10;
-          });
-        }, 500);
-
-        // Pass the customer ID to the import endpoint
-        const data = await hospitable.importListings(customerId);
+        // Pass the customer ID to the import endpoint and follow the import job's progress
+        const data = await hospitable.importListings(customerId, (done, total) => {
+          setImportProgress(total > 0 ? Math.round((done / total) * 100) : 0);
+        });
         
-        clearInterval(progressInterval);
         setImportProgress(100);
         
         // If there's a callback function, call it with the imported properties
@@ -130,7 +120,7 @@ const HospitableListingImporter: React.FC<HospitableListingImporterProps> = ({
       setIsImporting(false);
       toast({
         title: 'Import failed',
-        description: error.response?.data?.message || 'An error occurred during import',
+        description: error.response?.data?.message || error.message || 'An error occurred during import',
         variant: 'destructive',
       });
     }
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { ArrowRight, Eye, Loader2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { hospitable } from '@/lib/api';
+import type {
+  ImportableField,
+  ImportPreview as ImportPreviewData,
+  ImportPreviewEntry,
+  ImportPreviewStatus,
+  ImportSelection,
+} from '@shared/import-preview';
+
+const STATUS_VARIANTS: Record<ImportPreviewStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'default',
+  changed: 'secondary',
+  unchanged: 'outline',
+  missing: 'destructive',
+};
+
+const STATUS_LABELS: Record<ImportPreviewStatus, string> = {
+  new: 'New',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  missing: 'Missing upstream',
+};
+
+// Short, readable rendering of a stored or incoming field value
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : `${value.length} items`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+// Everything that can be applied is picked by default: new listings, and every field of changed ones
+function getDefaultSelection(entries: ImportPreviewEntry[]): ImportSelection {
+  const selection: ImportSelection = {};
+  for (const entry of entries) {
+    if (!entry.canApply) continue;
+    if (entry.status === 'new') selection[entry.listingId] = [];
+    if (entry.status === 'changed') selection[entry.listingId] = entry.changes.map(change => change.field);
+  }
+  return selection;
+}
+
+// Dry run of a customer's listing import: review the diff and apply only the picked listings and fields
+const ImportPreview: React.FC<{ customerId: string }> = ({ customerId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<ImportPreviewData | null>(null);
+  const [selection, setSelection] = useState<ImportSelection>({});
+
+  const loadPreview = useMutation({
+    mutationFn: () => hospitable.previewImport(customerId),
+    onSuccess: (data) => {
+      setPreview(data);
+      setSelection(getDefaultSelection(data.entries));
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preview Failed",
+        description: error.response?.data?.message || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applySelection = useMutation({
+    mutationFn: () => hospitable.importListings(customerId, undefined, selection),
+    onSuccess: (properties) => {
+      setPreview(null);
+      setSelection({});
+      queryClient.invalidateQueries({ queryKey: ['/api/hospitable/customers', customerId, 'listings'] });
+      toast({
+        title: "Import Applied",
+        description: `${properties.length} properties were created or updated.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import Failed",
+        description: error.response?.data?.message || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleListing = (entry: ImportPreviewEntry, checked: boolean) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[entry.listingId] = entry.changes.map(change => change.field);
+      } else {
+        delete next[entry.listingId];
+      }
+      return next;
+    });
+  };
+
+  const toggleField = (entry: ImportPreviewEntry, field: ImportableField, checked: boolean) => {
+    setSelection(prev => {
+      const fields = (prev[entry.listingId] ?? []).filter(selected => selected !== field);
+      if (checked) fields.push(field);
+
+      const next = { ...prev };
+      if (fields.length > 0) {
+        next[entry.listingId] = fields;
+      } else {
+        delete next[entry.listingId];
+      }
+      return next;
+    });
+  };
+
+  const selectedCount = Object.keys(selection).length;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Review Import
+        </CardTitle>
+        <CardDescription>
+          See what an import would change before anything is written, then apply only the listings and fields you pick
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!preview ? (
+          <p className="text-sm text-muted-foreground">
+            Preview the changes to compare this customer's Hospitable listings with the stored properties.
+          </p>
+        ) : preview.entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No listings found for this customer.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Listing</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.entries.map(entry => {
+                const selectable = entry.canApply && (entry.status === 'new' || entry.status === 'changed');
+                const selectedFields = selection[entry.listingId];
+
+                return (
+                  <TableRow key={`${entry.status}:${entry.listingId}:${entry.propertyId ?? ''}`}>
+                    <TableCell className="align-top">
+                      <Checkbox
+                        checked={!!selectedFields}
+                        disabled={!selectable}
+                        onCheckedChange={(checked) => toggleListing(entry, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="font-medium">{entry.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Listing {entry.listingId || '—'}
+                        {entry.propertyId !== null && ` · Property ${entry.propertyId}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Badge variant={STATUS_VARIANTS[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>
+                      {!entry.canApply && entry.status !== 'missing' && (
+                        <div className="text-xs text-muted-foreground mt-1">Managed by another host</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {entry.status === 'new' && (
+                        <span className="text-sm text-muted-foreground">Creates a new property</span>
+                      )}
+                      {entry.status === 'missing' && (
+                        <span className="text-sm text-muted-foreground">No longer in the Hospitable account</span>
+                      )}
+                      {entry.changes.length > 0 && (
+                        <div className="space-y-1">
+                          {entry.changes.map(change => (
+                            <label key={change.field} className="flex items-start gap-2 text-sm">
+                              <Checkbox
+                                className="mt-0.5"
+                                checked={!!selectedFields?.includes(change.field)}
+                                disabled={!selectable}
+                                onCheckedChange={(checked) => toggleField(entry, change.field, checked === true)}
+                              />
+                              <span>
+                                <span className="font-medium">{change.field}</span>{' '}
+                                <span className="text-muted-foreground">{formatValue(change.current)}</span>
+                                <ArrowRight className="inline h-3 w-3 mx-1" />
+                                <span>{formatValue(change.incoming)}</span>
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={() => loadPreview.mutate()}
+          disabled={!customerId || loadPreview.isPending || applySelection.isPending}
+        >
+          {loadPreview.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Comparing...
+            </>
+          ) : (
+            'Preview Changes'
+          )}
+        </Button>
+        {preview && (
+          <Button
+            onClick={() => applySelection.mutate()}
+            disabled={selectedCount === 0 || applySelection.isPending}
+          >
+            {applySelection.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              `Apply Selected (${selectedCount})`
+            )}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { Loader2 } from 'lucide-react';
+import type { PriceQuote } from '@shared/pricing';
+import { getPropertyQuote } from '@/lib/api';
+import { formatPrice } from '@/lib/utils';
+
+interface PriceQuoteBreakdownProps {
+  propertyId: number;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  // An already-issued quote (e.g. from checkout) to show instead of fetching a new one
+  quote?: PriceQuote;
+}
+
+const PriceQuoteBreakdown: React.FC<PriceQuoteBreakdownProps> = ({
+  propertyId,
+  checkIn,
+  checkOut,
+  guests,
+  quote: issuedQuote,
+}) => {
+  const { data: fetchedQuote, isLoading, error } = useQuery({
+    queryKey: [`/api/properties/${propertyId}/quote`, checkIn, checkOut, guests],
+    queryFn: () => getPropertyQuote(propertyId, checkIn, checkOut, guests),
+    retry: false,
+    enabled: !issuedQuote,
+  });
+  const quote = issuedQuote ?? fetchedQuote;
+
+  if (!issuedQuote && isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!quote) {
+    const message = axios.isAxiosError(error) && error.response?.data?.message
+      ? error.response.data.message
+      : 'Unable to price these dates';
+    return <p className="text-sm text-red-500 py-2">{message}</p>;
+  }
+
+  // Group nights by price so the breakdown reads "$120 x 4 nights"
+  const rateGroups = quote.nights.reduce<Record<number, number>>((groups, night) => {
+    groups[night.price] = (groups[night.price] || 0) + 1;
+    return groups;
+  }, {});
+
+  return (
+    <div className="space-y-2 text-sm">
+      {Object.entries(rateGroups).map(([price, count]) => (
+        <div key={price} className="flex justify-between">
+          <span className="text-gray-600">
+            {formatPrice(Number(price), quote.currency)} x {count} {count === 1 ? 'night' : 'nights'}
+          </span>
+          <span>{formatPrice(Number(price) * count, quote.currency)}</span>
+        </div>
+      ))}
+      {quote.discount && (
+        <div className="flex justify-between text-green-600">
+          <span>{quote.discount.type === 'monthly' ? 'Monthly' : 'Weekly'} stay discount</span>
+          <span>-{formatPrice(quote.discount.amount, quote.currency)}</span>
+        </div>
+      )}
+      {quote.cleaningFee > 0 && (
+        <div className="flex justify-between">
+          <span className="text-gray-600">Cleaning fee</span>
+          <span>{formatPrice(quote.cleaningFee, quote.currency)}</span>
+        </div>
+      )}
+      {quote.serviceFee > 0 && (
+        <div className="flex justify-between">
+          <span className="text-gray-600">Service fee</span>
+          <span>{formatPrice(quote.serviceFee, quote.currency)}</span>
+        </div>
+      )}
+      {quote.taxes > 0 && (
+        <div className="flex justify-between">
+          <span className="text-gray-600">Taxes ({quote.taxRate}%)</span>
+          <span>{formatPrice(quote.taxes, quote.currency)}</span>
+        </div>
+      )}
+      <div className="flex justify-between font-bold border-t pt-2">
+        <span>Total</span>
+        <span>{formatPrice(quote.total, quote.currency)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceQuoteBreakdown;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { AuditLogEntry } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+// An entry as returned by GET /api/admin/audit-log
+type AuditLogRow = AuditLogEntry & { username: string | null };
+
+const PAGE_SIZE = 100;
+
+const formatTimestamp = (value: Date | string | null) =>
+  value ? format(new Date(value), 'MMM d, HH:mm:ss') : '—';
+
+interface AuditLogFilterValues {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actorId: string;
+}
+
+const EMPTY_FILTERS: AuditLogFilterValues = { action: '', entityType: '', entityId: '', actorId: '' };
+
+const AuditLogPanel = () => {
+  const [filters, setFilters] = useState<AuditLogFilterValues>(EMPTY_FILTERS);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [openEntry, setOpenEntry] = useState<AuditLogRow | null>(null);
+
+  const params = new URLSearchParams({ limit: String(limit) });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  const entriesUrl = `/api/admin/audit-log?${params.toString()}`;
+
+  const { data: entries, isLoading, isFetching, refetch } = useQuery<AuditLogRow[]>({
+    queryKey: [entriesUrl],
+  });
+
+  const updateFilter = (key: keyof AuditLogFilterValues, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Audit Log</h2>
+          <p className="text-sm text-muted-foreground">
+            Every change made through the API: who made it, from where, and what it looked like before and after.
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Input
+          placeholder="Action, e.g. property.update"
+          value={filters.action}
+          onChange={(e) => updateFilter('action', e.target.value)}
+        />
+        <Input
+          placeholder="Entity type, e.g. property"
+          value={filters.entityType}
+          onChange={(e) => updateFilter('entityType', e.target.value)}
+        />
+        <Input
+          placeholder="Entity ID"
+          value={filters.entityId}
+          onChange={(e) => updateFilter('entityId', e.target.value)}
+        />
+        <Input
+          placeholder="Actor user ID"
+          inputMode="numeric"
+          value={filters.actorId}
+          onChange={(e) => updateFilter('actorId', e.target.value.replace(/\D/g, ''))}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : entries && entries.length > 0 ? (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap text-xs">{formatTimestamp(entry.createdAt)}</TableCell>
+                  <TableCell className="text-sm">
+                    {entry.actorId !== null ? (
+                      <>
+                        {entry.username ?? `User ${entry.actorId}`}
+                        {entry.actorRole && <Badge variant="outline" className="ml-2">{entry.actorRole}</Badge>}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">System</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                  <TableCell className="text-xs">
+                    {entry.entityType}
+                    {entry.entityId && <span className="text-muted-foreground"> #{entry.entityId}</span>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{entry.ip ?? '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOpenEntry(entry)}
+                      disabled={!entry.before && !entry.after}
+                    >
+                      View
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {entries.length >= limit && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)} disabled={isFetching}>
+                {isFetching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4">No audit entries match these filters.</p>
+      )}
+
+      <Dialog open={!!openEntry} onOpenChange={(open) => !open && setOpenEntry(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{openEntry?.action}</DialogTitle>
+          </DialogHeader>
+          {openEntry && (
+            <div className="space-y-2 text-sm">
+              <div className="text-muted-foreground">
+                {openEntry.entityType}
+                {openEntry.entityId && ` #${openEntry.entityId}`} · {formatTimestamp(openEntry.createdAt)}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <div>
+                  <div className="font-medium mb-1">Before</div>
+                  <pre className="max-h-96 overflow-auto rounded bg-gray-100 p-3 text-xs">
+                    {openEntry.before ? JSON.stringify(openEntry.before, null, 2) : '—'}
+                  </pre>
+                </div>
+                <div>
+                  <div className="font-medium mb-1">After</div>
+                  <pre className="max-h-96 overflow-auto rounded bg-gray-100 p-3 text-xs">
+                    {openEntry.after ? JSON.stringify(openEntry.after, null, 2) : '—'}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { HospitableConnectionStatus, PublicHospitableConnection } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+type ConnectionWithCounts = PublicHospitableConnection & {
+  host: { id: number; slug: string; displayName: string } | null; // Host new listings are assigned to
+  propertyCount: number;
+  activePropertyCount: number;
+};
+
+const STATUS_VARIANTS: Record<HospitableConnectionStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  connected: 'default',
+  disconnected: 'secondary',
+  revoked: 'destructive',
+};
+
+const formatTimestamp = (value: Date | string | null) =>
+  value ? format(new Date(value), 'MMM d, yyyy HH:mm') : '—';
+
+const HospitableConnectionsPanel = () => {
+  const { data: connections, isLoading } = useQuery<ConnectionWithCounts[]>({
+    queryKey: ['/api/admin/hospitable-connections'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!connections || connections.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        No Hospitable customers yet. Customers appear here once they are created, authorize access
+        or Hospitable reports a connection change.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Listings of disconnected or revoked customers are unpublished and come back when the customer reconnects.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Customer</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Host</TableHead>
+            <TableHead>Live listings</TableHead>
+            <TableHead>Last event</TableHead>
+            <TableHead>Token expires</TableHead>
+            <TableHead>Last sync</TableHead>
+            <TableHead>Connected</TableHead>
+            <TableHead>Disconnected</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {connections.map(connection => (
+            <TableRow key={connection.id}>
+              <TableCell className="font-mono text-xs">{connection.customerId}</TableCell>
+              <TableCell>
+                <Badge variant={STATUS_VARIANTS[connection.status]}>{connection.status}</Badge>
+              </TableCell>
+              <TableCell>
+                {connection.host ? (
+                  <Link href={`/host/${connection.host.slug}`} className="text-primary hover:underline">
+                    {connection.host.displayName}
+                  </Link>
+                ) : '—'}
+              </TableCell>
+              <TableCell>{connection.activePropertyCount} / {connection.propertyCount}</TableCell>
+              <TableCell className="font-mono text-xs">{connection.lastEvent ?? '—'}</TableCell>
+              <TableCell className="text-xs" title={connection.scopes?.join(' ') || undefined}>
+                {formatTimestamp(connection.tokenExpiresAt)}
+              </TableCell>
+              <TableCell className="text-xs">{formatTimestamp(connection.lastSyncedAt)}</TableCell>
+              <TableCell className="text-xs">{formatTimestamp(connection.connectedAt)}</TableCell>
+              <TableCell className="text-xs">{formatTimestamp(connection.disconnectedAt)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default HospitableConnectionsPanel;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { Host } from '@shared/schema';
+import type { UpdateHostProfile } from '@shared/hosts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { ExternalLink, Loader2 } from 'lucide-react';
+
+interface HostProfileForm {
+  displayName: string;
+  slug: string;
+  bio: string;
+  avatarUrl: string;
+  languages: string; // Comma separated
+  responseRate: string;
+}
+
+const toForm = (host: Host): HostProfileForm => ({
+  displayName: host.displayName,
+  slug: host.slug,
+  bio: host.bio ?? '',
+  avatarUrl: host.avatarUrl ?? '',
+  languages: host.languages?.join(', ') ?? '',
+  responseRate: host.responseRate?.toString() ?? '',
+});
+
+// The signed-in host's public profile, shown on /host/:slug and next to their listings
+const HostProfilePanel = () => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<HostProfileForm | null>(null);
+
+  const { data: host, isLoading } = useQuery<Host>({
+    queryKey: ['/api/host-profile'],
+  });
+
+  useEffect(() => {
+    if (host) setForm(toForm(host));
+  }, [host]);
+
+  const saveProfile = useMutation({
+    mutationFn: async (changes: UpdateHostProfile) => {
+      const response = await apiRequest('PATCH', '/api/host-profile', changes);
+      return (await response.json()) as Host;
+    },
+    onSuccess: (updatedHost) => {
+      queryClient.setQueryData(['/api/host-profile'], updatedHost);
+      queryClient.invalidateQueries({ queryKey: [`/api/hosts/${updatedHost.slug}`] });
+      toast({ title: 'Host profile saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save host profile', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading || !form) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const updateField = (field: keyof HostProfileForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [field]: e.target.value });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveProfile.mutate({
+      displayName: form.displayName,
+      slug: form.slug,
+      bio: form.bio.trim() || null,
+      avatarUrl: form.avatarUrl.trim() || null,
+      languages: form.languages.split(',').map(language => language.trim()).filter(Boolean),
+      responseRate: form.responseRate.trim() ? Number(form.responseRate) : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-w-2xl">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Guests see this profile on your public host page and on each of your listings.
+        </p>
+        {host && (
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/host/${host.slug}`}>
+              <ExternalLink className="mr-2 h-4 w-4" />
+              View profile
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="hostDisplayName">Display name</Label>
+          <Input id="hostDisplayName" required value={form.displayName} onChange={updateField('displayName')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="hostSlug">Profile URL</Label>
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground">/host/</span>
+            <Input id="hostSlug" required value={form.slug} onChange={updateField('slug')} />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="hostBio">Bio</Label>
+        <Textarea id="hostBio" rows={5} value={form.bio} onChange={updateField('bio')} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="hostAvatarUrl">Avatar URL</Label>
+        <Input id="hostAvatarUrl" type="url" value={form.avatarUrl} onChange={updateField('avatarUrl')} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="hostLanguages">Languages</Label>
+          <Input
+            id="hostLanguages"
+            placeholder="English, Spanish"
+            value={form.languages}
+            onChange={updateField('languages')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="hostResponseRate">Response rate (%)</Label>
+          <Input
+            id="hostResponseRate"
+            type="number"
+            min={0}
+            max={100}
+            value={form.responseRate}
+            onChange={updateField('responseRate')}
+          />
+        </div>
+      </div>
+
+      <Button type="submit" disabled={saveProfile.isPending}>
+        {saveProfile.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save profile
+      </Button>
+    </form>
+  );
+};
+
+export default HostProfilePanel;
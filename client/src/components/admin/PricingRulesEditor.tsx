@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { PricingRule } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/lib/utils';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+const DAYS_OF_WEEK = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface PricingRuleForm {
+  name: string;
+  startDate: string;
+  endDate: string;
+  daysOfWeek: number[];
+  priceMode: 'fixed' | 'percent';
+  nightlyPrice: string;
+  adjustmentPercent: string;
+  minStay: string;
+  priority: string;
+}
+
+const emptyForm: PricingRuleForm = {
+  name: '',
+  startDate: '',
+  endDate: '',
+  daysOfWeek: [],
+  priceMode: 'fixed',
+  nightlyPrice: '',
+  adjustmentPercent: '',
+  minStay: '',
+  priority: '0',
+};
+
+// Convert the form into the API payload; blank fields mean "not set"
+const toPayload = (form: PricingRuleForm) => ({
+  name: form.name.trim(),
+  startDate: form.startDate || null,
+  endDate: form.endDate || null,
+  daysOfWeek: form.daysOfWeek.length > 0 ? form.daysOfWeek : null,
+  nightlyPrice: form.priceMode === 'fixed' && form.nightlyPrice ? parseInt(form.nightlyPrice) : null,
+  adjustmentPercent: form.priceMode === 'percent' && form.adjustmentPercent ? parseFloat(form.adjustmentPercent) : null,
+  minStay: form.minStay ? parseInt(form.minStay) : null,
+  priority: parseInt(form.priority) || 0,
+});
+
+const describeRule = (rule: PricingRule) => {
+  const parts: string[] = [];
+  if (rule.nightlyPrice != null) parts.push(`${formatPrice(rule.nightlyPrice)}/night`);
+  if (rule.adjustmentPercent != null) parts.push(`${rule.adjustmentPercent > 0 ? '+' : ''}${rule.adjustmentPercent}%`);
+  if (rule.minStay != null) parts.push(`min ${rule.minStay} nights`);
+  return parts.join(' · ');
+};
+
+const describeDates = (rule: PricingRule) => {
+  const range = rule.startDate || rule.endDate
+    ? `${rule.startDate || '…'} to ${rule.endDate || '…'}`
+    : 'All dates';
+  const days = rule.daysOfWeek && rule.daysOfWeek.length > 0
+    ? ` · ${rule.daysOfWeek.map(day => DAYS_OF_WEEK[day]).join(', ')}`
+    : '';
+  return range + days;
+};
+
+interface PricingRulesEditorProps {
+  propertyId: number;
+}
+
+const PricingRulesEditor = ({ propertyId }: PricingRulesEditorProps) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PricingRuleForm>(emptyForm);
+  const rulesKey = [`/api/properties/${propertyId}/pricing-rules`];
+
+  const { data: rules, isLoading } = useQuery<PricingRule[]>({
+    queryKey: rulesKey,
+  });
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: rulesKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/properties/${propertyId}/availability`] });
+  };
+
+  const createRule = useMutation({
+    mutationFn: async (payload: ReturnType<typeof toPayload>) => {
+      const response = await apiRequest('POST', `/api/properties/${propertyId}/pricing-rules`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRules();
+      setForm(emptyForm);
+      toast({ title: 'Pricing rule added' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not add pricing rule', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<PricingRule> }) => {
+      const response = await apiRequest('PATCH', `/api/pricing-rules/${id}`, data);
+      return response.json();
+    },
+    onSuccess: invalidateRules,
+    onError: (error: Error) => {
+      toast({ title: 'Could not update pricing rule', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/pricing-rules/${id}`);
+    },
+    onSuccess: invalidateRules,
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete pricing rule', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setForm({
+      ...form,
+      daysOfWeek: checked
+        ? [...form.daysOfWeek, day].sort()
+        : form.daysOfWeek.filter(d => d !== day),
+    });
+  };
+
+  const handleAddRule = () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Give the rule a name', variant: 'destructive' });
+      return;
+    }
+    createRule.mutate(toPayload(form));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Existing rules */}
+      <div className="space-y-2">
+        <Label>Pricing rules</Label>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : rules && rules.length > 0 ? (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between border rounded p-2 text-sm">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {rule.name}
+                    <Badge variant="outline">Priority {rule.priority}</Badge>
+                  </div>
+                  <div className="text-muted-foreground text-xs">{describeDates(rule)}</div>
+                  <div className="text-xs">{describeRule(rule)}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.isActive !== false}
+                    onCheckedChange={(checked) => updateRule.mutate({ id: rule.id, data: { isActive: checked } })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteRule.mutate(rule.id)}
+                    disabled={deleteRule.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No rules yet. Every night uses the base price (and the weekend price on Friday and Saturday).
+          </p>
+        )}
+      </div>
+
+      {/* New rule */}
+      <div className="space-y-3 border-t pt-4">
+        <Label>Add a rule</Label>
+        <input
+          className="w-full p-2 border rounded"
+          placeholder="Rule name, e.g. Summer season"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="ruleStartDate" className="text-xs">First night</Label>
+            <input
+              id="ruleStartDate"
+              type="date"
+              className="w-full p-2 border rounded"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ruleEndDate" className="text-xs">Last night</Label>
+            <input
+              id="ruleEndDate"
+              type="date"
+              className="w-full p-2 border rounded"
+              value={form.endDate}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {DAYS_OF_WEEK.map((label, day) => (
+            <label key={label} className="flex items-center gap-1 text-xs">
+              <Checkbox
+                checked={form.daysOfWeek.includes(day)}
+                onCheckedChange={(checked) => toggleDay(day, checked === true)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Price</Label>
+            <select
+              className="w-full p-2 border rounded"
+              value={form.priceMode}
+              onChange={(e) => setForm({ ...form, priceMode: e.target.value as PricingRuleForm['priceMode'] })}
+            >
+              <option value="fixed">Fixed ($)</option>
+              <option value="percent">Adjust (%)</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{form.priceMode === 'fixed' ? 'Nightly price' : 'Adjustment %'}</Label>
+            <input
+              type="number"
+              className="w-full p-2 border rounded"
+              placeholder={form.priceMode === 'fixed' ? '250' : '20 or -10'}
+              value={form.priceMode === 'fixed' ? form.nightlyPrice : form.adjustmentPercent}
+              onChange={(e) => setForm(form.priceMode === 'fixed'
+                ? { ...form, nightlyPrice: e.target.value }
+                : { ...form, adjustmentPercent: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Min. nights</Label>
+            <input
+              type="number"
+              min={1}
+              className="w-full p-2 border rounded"
+              value={form.minStay}
+              onChange={(e) => setForm({ ...form, minStay: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex items-end justify-between gap-2">
+          <div className="space-y-1 w-24">
+            <Label className="text-xs">Priority</Label>
+            <input
+              type="number"
+              className="w-full p-2 border rounded"
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+            />
+          </div>
+          <Button type="button" onClick={handleAddRule} disabled={createRule.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add rule
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          When rules overlap, the one with the highest priority sets the price and minimum stay.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PricingRulesEditor;
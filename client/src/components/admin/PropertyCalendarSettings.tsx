@@ -0,0 +1,164 @@
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Loader2, RefreshCw } from 'lucide-react';
+
+interface PropertyCalendarStatus {
+  propertyId: number;
+  calendarSyncUrl: string | null;
+  importStatus: string;
+  importError: string | null;
+  importedEventCount: number;
+  lastImportedAt: string | null;
+  exportUrl: string | null;
+}
+
+interface PropertyCalendarSettingsProps {
+  propertyId: number;
+  calendarSyncUrl: string;
+  onCalendarSyncUrlChange: (url: string) => void;
+}
+
+const PropertyCalendarSettings = ({
+  propertyId,
+  calendarSyncUrl,
+  onCalendarSyncUrlChange,
+}: PropertyCalendarSettingsProps) => {
+  const { toast } = useToast();
+  const statusKey = [`/api/properties/${propertyId}/calendar`];
+
+  const { data: status, isLoading } = useQuery<PropertyCalendarStatus>({
+    queryKey: statusKey,
+  });
+
+  const syncNow = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/properties/${propertyId}/calendar/sync`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Calendar imported',
+        description: `${result.eventCount} events in feed, ${result.created} added, ${result.removed} removed`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Calendar import failed', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: statusKey });
+    },
+  });
+
+  const rotateToken = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/properties/${propertyId}/calendar/export-token`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: statusKey });
+      toast({
+        title: 'New export link created',
+        description: 'Update the link on your other channels. The old link no longer works.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not create export link', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const copyExportUrl = async () => {
+    if (!status?.exportUrl) return;
+    await navigator.clipboard.writeText(status.exportUrl);
+    toast({ title: 'Export link copied' });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Import */}
+      <div className="space-y-2">
+        <Label htmlFor="calendarSyncUrl">Import calendar (iCal URL)</Label>
+        <input
+          id="calendarSyncUrl"
+          className="w-full p-2 border rounded"
+          placeholder="https://www.airbnb.com/calendar/ical/..."
+          value={calendarSyncUrl}
+          onChange={(e) => onCalendarSyncUrlChange(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Dates booked on other channels are blocked here. Save changes before importing a new URL.
+        </p>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant={status?.importStatus === 'error' ? 'destructive' : 'secondary'}>
+              {status?.importStatus === 'never' ? 'Not imported yet' : status?.importStatus}
+            </Badge>
+            {status?.lastImportedAt && (
+              <span className="text-muted-foreground">
+                {status.importedEventCount} events, last imported {new Date(status.lastImportedAt).toLocaleString()}
+              </span>
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => syncNow.mutate()}
+            disabled={!status?.calendarSyncUrl || syncNow.isPending}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncNow.isPending ? 'animate-spin' : ''}`} />
+            Import now
+          </Button>
+        </div>
+        {status?.importStatus === 'error' && status.importError && (
+          <p className="text-xs text-red-500">{status.importError}</p>
+        )}
+      </div>
+
+      {/* Export */}
+      <div className="space-y-2">
+        <Label>Export calendar</Label>
+        {status?.exportUrl ? (
+          <div className="flex gap-2">
+            <input
+              readOnly
+              className="flex-1 p-2 border rounded font-mono text-xs bg-gray-50"
+              value={status.exportUrl}
+            />
+            <Button type="button" variant="outline" size="icon" onClick={copyExportUrl}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No export link yet.</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Add this link to your other channels so StayDirectly bookings block those dates.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => rotateToken.mutate()}
+          disabled={rotateToken.isPending}
+        >
+          {status?.exportUrl ? 'Generate new link' : 'Create export link'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyCalendarSettings;
@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import PropertyCalendarSettings from '@/components/admin/PropertyCalendarSettings';
+import PricingRulesEditor from '@/components/admin/PricingRulesEditor';
+import PropertyRevisionHistory from '@/components/admin/PropertyRevisionHistory';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { CheckCircle2, Lock, Unlock } from 'lucide-react';
+import type { LockableField } from '@shared/schema';
+
+// Lock toggle next to an edit dialog field; locked fields keep their local edits when the listing is re-imported
+interface FieldLockToggleProps {
+  field: LockableField;
+  lockedFields: LockableField[];
+  onChange: (lockedFields: LockableField[]) => void;
+}
+
+const FieldLockToggle: React.FC<FieldLockToggleProps> = ({ field, lockedFields, onChange }) => {
+  const isLocked = lockedFields.includes(field);
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className={`h-6 px-2 text-xs ${isLocked ? 'text-amber-600' : 'text-muted-foreground'}`}
+            onClick={() => onChange(isLocked ? lockedFields.filter(locked => locked !== field) : [...lockedFields, field])}
+          >
+            {isLocked ? <Lock className="h-3 w-3 mr-1" /> : <Unlock className="h-3 w-3 mr-1" />}
+            {isLocked ? 'Locked' : 'Synced'}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          {isLocked
+            ? 'Kept as edited here when the listing is re-imported. Click to sync from Hospitable again.'
+            : 'Overwritten from Hospitable on the next import. Click to lock your edits.'}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+interface PropertyEditDialogProps {
+  property: any; // The property to edit; the dialog is closed while null
+  onClose: () => void;
+}
+
+// Full property editor shared by the Published Properties page and the admin property table
+const PropertyEditDialog: React.FC<PropertyEditDialogProps> = ({ property, onClose }) => {
+  const [draft, setDraft] = useState<any>(property);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setDraft(property);
+  }, [property]);
+
+  const updateProperty = useMutation({
+    mutationFn: async ({ id, propertyData }: { id: number; propertyData: any }) => {
+      const res = await apiRequest('PATCH', `/api/properties/${id}`, propertyData);
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || 'Failed to update property');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/properties'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/properties'] });
+      toast({
+        title: "Success",
+        description: "Property updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update property",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const handleSave = () => {
+    if (!draft) return;
+    
+    // Extract all fields to update from draft state
+    const propertyData = {
+      title: draft.title,
+      price: draft.price,
+      description: draft.description,
+      
+      // SEO fields
+      slug: draft.slug,
+      metaTitle: draft.metaTitle,
+      metaDescription: draft.metaDescription,
+      
+      // Embed codes
+      bookingWidgetHtml: draft.bookingWidgetHtml,
+      reviewsWidgetHtml: draft.reviewsWidgetHtml,
+      
+      // Amenities
+      featuredAmenities: draft.featuredAmenities,
+      
+      // Calendar
+      calendarSyncUrl: draft.calendarSyncUrl || null,
+      
+      // Fields re-imports leave alone
+      lockedFields: draft.lockedFields ?? []
+    };
+    
+    updateProperty.mutate({
+      id: draft.id,
+      propertyData
+    });
+    
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!draft} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Property</DialogTitle>
+          <DialogDescription>
+            Update the details of your property listing.
+          </DialogDescription>
+        </DialogHeader>
+        
+        {draft && (
+          <div className="space-y-4 py-4">
+            <Tabs defaultValue="basic">
+              <TabsList className="mb-4 w-full">
+                <TabsTrigger value="basic">Basic Info</TabsTrigger>
+                <TabsTrigger value="pricing">Pricing</TabsTrigger>
+                <TabsTrigger value="seo">SEO & URL</TabsTrigger>
+                <TabsTrigger value="embeds">Embed Codes</TabsTrigger>
+                <TabsTrigger value="amenities">Amenities</TabsTrigger>
+                <TabsTrigger value="calendar">Calendar</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+            
+              {/* Basic Info Tab */}
+              <TabsContent value="basic">
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="title">Property Title</Label>
+                        <FieldLockToggle field="title" lockedFields={draft.lockedFields ?? []} onChange={(lockedFields) => setDraft({...draft, lockedFields})} />
+                      </div>
+                      <input
+                        id="title"
+                        className="w-full p-2 border rounded"
+                        defaultValue={draft.title || draft.name}
+                        onChange={(e) => setDraft({...draft, title: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="price">Price per night ($)</Label>
+                        <FieldLockToggle field="price" lockedFields={draft.lockedFields ?? []} onChange={(lockedFields) => setDraft({...draft, lockedFields})} />
+                      </div>
+                      <input
+                        id="price"
+                        type="number"
+                        className="w-full p-2 border rounded"
+                        defaultValue={draft.price}
+                        onChange={(e) => setDraft({...draft, price: parseFloat(e.target.value)})}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="description">Property Description</Label>
+                      <FieldLockToggle field="description" lockedFields={draft.lockedFields ?? []} onChange={(lockedFields) => setDraft({...draft, lockedFields})} />
+                    </div>
+                    <textarea
+                      id="description"
+                      className="w-full p-2 border rounded h-32"
+                      defaultValue={draft.description}
+                      onChange={(e) => setDraft({...draft, description: e.target.value})}
+                    />
+                  </div>
+                </div>
+              </TabsContent>
+              
+              {/* SEO & URL Tab */}
+              <TabsContent value="seo">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="slug">URL Slug</Label>
+                    <div className="flex items-center">
+                      <span className="text-muted-foreground mr-2">/property/</span>
+                      <input
+                        id="slug"
+                        className="flex-1 p-2 border rounded"
+                        placeholder="your-custom-url-slug"
+                        defaultValue={draft.slug || ''}
+                        onChange={(e) => setDraft({...draft, slug: e.target.value})}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Custom URL for better SEO. Use lowercase letters, numbers, and hyphens.
+                    </p>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="metaTitle">Title Tag (SEO)</Label>
+                      <FieldLockToggle field="metaTitle" lockedFields={draft.lockedFields ?? []} onChange={(lockedFields) => setDraft({...draft, lockedFields})} />
+                    </div>
+                    <input
+                      id="metaTitle"
+                      className="w-full p-2 border rounded"
+                      placeholder="Vacation Rental in [Location] with [Feature] - Your Brand"
+                      defaultValue={draft.metaTitle || ''}
+                      onChange={(e) => setDraft({...draft, metaTitle: e.target.value})}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Recommended length: 50-60 characters
+                    </p>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="metaDescription">Meta Description</Label>
+                      <FieldLockToggle field="metaDescription" lockedFields={draft.lockedFields ?? []} onChange={(lockedFields) => setDraft({...draft, lockedFields})} />
+                    </div>
+                    <textarea
+                      id="metaDescription"
+                      className="w-full p-2 border rounded h-24"
+                      placeholder="Experience a luxurious stay at our [Property Type] in [Location]. Features include [key amenities]. Perfect for [target guests]. Book now!"
+                      defaultValue={draft.metaDescription || ''}
+                      onChange={(e) => setDraft({...draft, metaDescription: e.target.value})}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Recommended length: 120-160 characters
+                    </p>
+                  </div>
+                </div>
+              </TabsContent>
+              
+              {/* Embed Codes Tab */}
+              <TabsContent value="embeds">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bookingWidgetHtml">Booking Widget HTML</Label>
+                    <textarea
+                      id="bookingWidgetHtml"
+                      className="w-full p-2 border rounded h-36 font-mono text-sm"
+                      placeholder="<iframe src='your-booking-widget-url' width='100%' height='500'></iframe>"
+                      defaultValue={draft.bookingWidgetHtml || ''}
+                      onChange={(e) => setDraft({...draft, bookingWidgetHtml: e.target.value})}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Paste the HTML code for the booking widget specific to this property
+                    </p>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="reviewsWidgetHtml">Reviews Widget HTML</Label>
+                    <textarea
+                      id="reviewsWidgetHtml"
+                      className="w-full p-2 border rounded h-36 font-mono text-sm"
+                      placeholder="<div class='reviews-widget' data-property-id='123'>...</div>"
+                      defaultValue={draft.reviewsWidgetHtml || ''}
+                      onChange={(e) => setDraft({...draft, reviewsWidgetHtml: e.target.value})}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Paste the HTML code for the reviews widget specific to this property
+                    </p>
+                  </div>
+                </div>
+              </TabsContent>
+              
+              {/* Amenities Tab */}
+              <TabsContent value="amenities">
+                <div className="space-y-4">
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <Label>Featured Amenities (Select up to 6)</Label>
+                      <FieldLockToggle field="featuredAmenities" lockedFields={draft.lockedFields ?? []} onChange={(lockedFields) => setDraft({...draft, lockedFields})} />
+                    </div>
+                    <p className="text-xs text-muted-foreground mb-4">
+                      Choose the 6 most important amenities to highlight on the property page
+                    </p>
+                    
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {[
+                        { id: 'wifi', label: 'WiFi', icon: 'wifi' },
+                        { id: 'pool', label: 'Swimming Pool', icon: 'pool' },
+                        { id: 'hottub', label: 'Hot Tub', icon: 'hot-tub' },
+                        { id: 'ac', label: 'Air Conditioning', icon: 'snowflake' },
+                        { id: 'kitchen', label: 'Full Kitchen', icon: 'utensils' },
+                        { id: 'tv', label: 'Smart TV', icon: 'tv' },
+                        { id: 'washer', label: 'Washer/Dryer', icon: 'washing-machine' },
+                        { id: 'parking', label: 'Free Parking', icon: 'car' },
+                        { id: 'workspace', label: 'Workspace', icon: 'briefcase' },
+                        { id: 'bbq', label: 'BBQ Grill', icon: 'flame' },
+                        { id: 'patio', label: 'Patio/Balcony', icon: 'sun' },
+                        { id: 'pets', label: 'Pet Friendly', icon: 'paw' },
+                      ].map(amenity => (
+                        <div 
+                          key={amenity.id}
+                          className={`
+                            border rounded-md p-3 flex items-center space-x-2 cursor-pointer
+                            ${draft.featuredAmenities?.includes(amenity.id) 
+                              ? 'border-primary bg-primary/5' 
+                              : 'border-gray-200 hover:border-gray-300'
+                            }
+                          `}
+                          onClick={() => {
+                            const current = draft.featuredAmenities || [];
+                            const updated = current.includes(amenity.id)
+                              ? current.filter((id: string) => id !== amenity.id)
+                              : current.length < 6
+                                ? [...current, amenity.id]
+                                : current;
+                            
+                            setDraft({
+                              ...draft, 
+                              featuredAmenities: updated
+                            });
+                          }}
+                        >
+                          <div className="flex-shrink-0">
+                            {/* Placeholder for icon - in a real app we'd have actual icons */}
+                            <div className="w-5 h-5 rounded-full bg-primary/20 flex items-center justify-center text-xs">
+                              {amenity.icon.charAt(0).toUpperCase()}
+                            </div>
+                          </div>
+                          <div className="flex-1 text-sm">{amenity.label}</div>
+                          {draft.featuredAmenities?.includes(amenity.id) && (
+                            <CheckCircle2 className="h-4 w-4 text-primary" />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    
+                    <p className="text-xs text-primary mt-3">
+                      {draft.featuredAmenities?.length || 0} of 6 amenities selected
+                    </p>
+                  </div>
+                </div>
+              </TabsContent>
+              
+              {/* Pricing Tab */}
+              <TabsContent value="pricing">
+                <PricingRulesEditor propertyId={draft.id} />
+              </TabsContent>
+              
+              {/* Calendar Tab */}
+              <TabsContent value="calendar">
+                <PropertyCalendarSettings
+                  propertyId={draft.id}
+                  calendarSyncUrl={draft.calendarSyncUrl || ''}
+                  onCalendarSyncUrlChange={(url) => setDraft({...draft, calendarSyncUrl: url})}
+                />
+              </TabsContent>
+              
+              {/* History Tab */}
+              <TabsContent value="history">
+                <PropertyRevisionHistory
+                  propertyId={draft.id}
+                  onRestored={(property) => setDraft({...draft, ...property})}
+                />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+        
+        <DialogFooter>
+          <Button 
+            variant="outline" 
+            onClick={onClose}
+            disabled={updateProperty.isPending}
+          >
+            Cancel
+          </Button>
+          <Button 
+            type="submit" 
+            onClick={handleSave}
+            disabled={updateProperty.isPending}
+          >
+            {updateProperty.isPending ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PropertyEditDialog;
@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { differenceInDays, formatDistanceToNow } from 'date-fns';
+import type { Property } from '@shared/schema';
+import type {
+  AdminPropertyPage,
+  AdminPropertySortField,
+  BulkPropertyAction,
+  BulkPropertyActionResult,
+} from '@shared/admin-properties';
+import PropertyEditDialog from '@/components/admin/PropertyEditDialog';
+import Pagination from '@/components/Pagination';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2, Pencil, RefreshCw, Star } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+// Images older than this are flagged for a refresh
+const STALE_IMAGE_DAYS = 30;
+
+const PROPERTY_STATUSES = ['active', 'pending', 'inactive', 'disconnected'];
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  active: 'default',
+  pending: 'secondary',
+  inactive: 'outline',
+  disconnected: 'destructive',
+};
+
+const BULK_ACTION_LABELS: Record<BulkPropertyAction, string> = {
+  publish: 'Publish',
+  unpublish: 'Unpublish',
+  feature: 'Feature',
+  unfeature: 'Unfeature',
+  delete: 'Delete',
+};
+
+const formatRelative = (value: Date | string | null) =>
+  value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : 'Never';
+
+interface PropertyTableFilters {
+  search: string;
+  status: string;
+  source: string;
+  published: string;
+  featured: string;
+}
+
+const ALL_FILTERS: PropertyTableFilters = { search: '', status: 'all', source: 'all', published: 'all', featured: 'all' };
+
+// Header cell that sorts the table by its column, toggling the direction on repeated clicks
+interface SortableHeadProps {
+  field: AdminPropertySortField;
+  sort: AdminPropertySortField;
+  direction: 'asc' | 'desc';
+  onSort: (field: AdminPropertySortField) => void;
+  children: React.ReactNode;
+}
+
+const SortableHead: React.FC<SortableHeadProps> = ({ field, sort, direction, onSort, children }) => {
+  const Icon = sort !== field ? ArrowUpDown : direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => onSort(field)}>
+        {children}
+        <Icon className={`h-3 w-3 ${sort === field ? '' : 'opacity-40'}`} />
+      </button>
+    </TableHead>
+  );
+};
+
+// Price cell edited in place; saved on blur or Enter
+const QuickPriceInput: React.FC<{ property: Property; onSave: (price: number) => void }> = ({ property, onSave }) => {
+  const [value, setValue] = useState(String(property.price));
+
+  const save = () => {
+    const price = parseInt(value);
+    if (isNaN(price) || price < 0) {
+      setValue(String(property.price));
+    } else if (price !== property.price) {
+      onSave(price);
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      className="h-8 w-24"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+    />
+  );
+};
+
+const PropertyManagementPanel = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Featuring and the disconnected status are admin decisions
+  const isAdmin = user?.role === 'admin';
+  const [filters, setFilters] = useState<PropertyTableFilters>(ALL_FILTERS);
+  const [sort, setSort] = useState<AdminPropertySortField>('updatedAt');
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [propertyToEdit, setPropertyToEdit] = useState<Property | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const params = new URLSearchParams({ sort, direction, page: String(page), pageSize: String(PAGE_SIZE) });
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.source !== 'all') params.set('source', filters.source);
+  if (filters.published !== 'all') params.set('published', filters.published);
+  if (filters.featured !== 'all') params.set('featured', filters.featured);
+  const propertiesUrl = `/api/admin/properties?${params.toString()}`;
+
+  const { data, isLoading, isFetching, refetch } = useQuery<AdminPropertyPage>({
+    queryKey: [propertiesUrl],
+  });
+  const properties = data?.items ?? [];
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const invalidateProperties = () => {
+    queryClient.invalidateQueries({
+      predicate: query => typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/admin/properties'),
+    });
+    queryClient.invalidateQueries({ queryKey: ['/api/properties'] });
+  };
+
+  const quickUpdate = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: Record<string, unknown> }) => {
+      const response = await apiRequest('PATCH', `/api/properties/${id}`, changes);
+      return (await response.json()) as Property;
+    },
+    onSuccess: invalidateProperties,
+    onError: (error: Error) => {
+      toast({ title: 'Could not update property', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const bulkAction = useMutation({
+    mutationFn: async (action: BulkPropertyAction) => {
+      const response = await apiRequest('POST', '/api/admin/properties/bulk', { action, ids: selectedIds });
+      return (await response.json()) as BulkPropertyActionResult;
+    },
+    onSuccess: (result) => {
+      invalidateProperties();
+      setSelectedIds(result.failed.map(failure => failure.id));
+      toast({
+        title: `${BULK_ACTION_LABELS[result.action]}: ${result.succeeded.length} propert${result.succeeded.length === 1 ? 'y' : 'ies'}`,
+        description: result.failed.length > 0
+          ? `${result.failed.length} failed: ${result.failed.map(failure => `#${failure.id} ${failure.message}`).join(', ')}`
+          : undefined,
+        variant: result.failed.length > 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Bulk action failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateFilter = (key: keyof PropertyTableFilters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  const handleSort = (field: AdminPropertySortField) => {
+    if (field === sort) {
+      setDirection(direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setDirection('asc');
+    }
+    setPage(1);
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const allSelected = properties.length > 0 && properties.every(property => selectedIds.includes(property.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Property Management</h2>
+          <p className="text-sm text-muted-foreground">
+            {data ? `${data.total} properties` : 'Every property'}, including unpublished and inactive ones.
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        <Input
+          className="col-span-2 md:col-span-1"
+          placeholder="Search name, city or platform ID"
+          value={filters.search}
+          onChange={(e) => updateFilter('search', e.target.value)}
+        />
+        <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {PROPERTY_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.source} onValueChange={(value) => updateFilter('source', value)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All sources</SelectItem>
+            <SelectItem value="hospitable">Hospitable</SelectItem>
+            <SelectItem value="manual">Manual</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filters.published} onValueChange={(value) => updateFilter('published', value)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Published or not</SelectItem>
+            <SelectItem value="true">Published</SelectItem>
+            <SelectItem value="false">Unpublished</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filters.featured} onValueChange={(value) => updateFilter('featured', value)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Featured or not</SelectItem>
+            <SelectItem value="true">Featured</SelectItem>
+            <SelectItem value="false">Not featured</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 p-2">
+          <span className="text-sm font-medium mr-2">{selectedIds.length} selected</span>
+          {(isAdmin ? ['publish', 'unpublish', 'feature', 'unfeature'] as const : ['publish', 'unpublish'] as const).map(action => (
+            <Button
+              key={action}
+              variant="outline"
+              size="sm"
+              onClick={() => bulkAction.mutate(action)}
+              disabled={bulkAction.isPending}
+            >
+              {BULK_ACTION_LABELS[action]}
+            </Button>
+          ))}
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setConfirmDelete(true)}
+            disabled={bulkAction.isPending}
+          >
+            Delete
+          </Button>
+          {bulkAction.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : properties.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? properties.map(property => property.id) : [])}
+                />
+              </TableHead>
+              <SortableHead field="name" sort={sort} direction={direction} onSort={handleSort}>Property</SortableHead>
+              <SortableHead field="status" sort={sort} direction={direction} onSort={handleSort}>Status</SortableHead>
+              <TableHead>Source</TableHead>
+              <SortableHead field="publishedAt" sort={sort} direction={direction} onSort={handleSort}>Published</SortableHead>
+              <SortableHead field="lastSyncedAt" sort={sort} direction={direction} onSort={handleSort}>Last sync</SortableHead>
+              <SortableHead field="imagesStoredAt" sort={sort} direction={direction} onSort={handleSort}>Images</SortableHead>
+              <SortableHead field="rating" sort={sort} direction={direction} onSort={handleSort}>Rating</SortableHead>
+              <SortableHead field="price" sort={sort} direction={direction} onSort={handleSort}>Price</SortableHead>
+              <TableHead>Featured</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {properties.map(property => {
+              const imagesStale = !property.imagesStoredAt
+                || differenceInDays(new Date(), new Date(property.imagesStoredAt)) > STALE_IMAGE_DAYS;
+
+              return (
+                <TableRow key={property.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(property.id)}
+                      onCheckedChange={(checked) => toggleSelected(property.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{property.title || property.name}</div>
+                    <div className="text-xs text-muted-foreground">#{property.id} · {property.city}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={property.status ?? 'active'}
+                      onValueChange={(status) => quickUpdate.mutate({ id: property.id, changes: { status } })}
+                      disabled={!isAdmin && property.status === 'disconnected'}
+                    >
+                      <SelectTrigger className="h-8 w-32 border-none p-0 shadow-none">
+                        <Badge variant={STATUS_VARIANTS[property.status ?? 'active'] ?? 'outline'}>
+                          {property.status ?? 'active'}
+                        </Badge>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROPERTY_STATUSES.filter(status => isAdmin || status !== 'disconnected').map(status => (
+                          <SelectItem key={status} value={status}>{status}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-xs">{property.externalSource ?? 'manual'}</TableCell>
+                  <TableCell className="text-xs">
+                    {property.publishedAt ? formatRelative(property.publishedAt) : <Badge variant="outline">Draft</Badge>}
+                  </TableCell>
+                  <TableCell className="text-xs">{property.externalSource ? formatRelative(property.lastSyncedAt) : '—'}</TableCell>
+                  <TableCell className={`text-xs ${imagesStale ? 'text-amber-600' : ''}`}>
+                    {formatRelative(property.imagesStoredAt)}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {property.rating ? (
+                      <>
+                        <Star className="inline h-3 w-3 mr-1 fill-yellow-400 text-yellow-400" />
+                        {property.rating.toFixed(1)} ({property.reviewCount ?? 0})
+                      </>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <QuickPriceInput
+                      key={`${property.id}:${property.price}`}
+                      property={property}
+                      onSave={(price) => quickUpdate.mutate({ id: property.id, changes: { price } })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={!!property.isFeatured}
+                      disabled={!isAdmin}
+                      onCheckedChange={(isFeatured) => quickUpdate.mutate({ id: property.id, changes: { isFeatured } })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setPropertyToEdit(property)}>
+                      <Pencil className="mr-1 h-3 w-3" />
+                      Edit
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4">No properties match these filters.</p>
+      )}
+
+      {totalPages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={totalPages}
+          onPageChange={(nextPage) => {
+            setPage(nextPage);
+            setSelectedIds([]);
+          }}
+        />
+      )}
+
+      <PropertyEditDialog property={propertyToEdit} onClose={() => setPropertyToEdit(null)} />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedIds.length} properties?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected properties are removed permanently. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => bulkAction.mutate('delete')}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              Delete Properties
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default PropertyManagementPanel;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import type { Property, PropertyRevision, RevisionSource } from '@shared/schema';
+
+// A revision as returned by GET /api/properties/:id/revisions
+type PropertyRevisionEntry = PropertyRevision & { username: string | null };
+
+interface PropertyRevisionHistoryProps {
+  propertyId: number;
+  onRestored: (property: Property) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  admin_ui: 'Edited',
+  import: 'Import',
+  webhook: 'Hospitable webhook',
+  sync: 'Scheduled sync',
+  restore: 'Restored',
+  system: 'System',
+};
+
+// Short, readable rendering of a field value in the history
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+const PropertyRevisionHistory = ({ propertyId, onRestored }: PropertyRevisionHistoryProps) => {
+  const { toast } = useToast();
+  const revisionsKey = [`/api/properties/${propertyId}/revisions`];
+
+  const { data: revisions = [], isLoading } = useQuery<PropertyRevisionEntry[]>({
+    queryKey: revisionsKey,
+  });
+
+  const restore = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest('POST', `/api/properties/${propertyId}/revisions/${revisionId}/restore`);
+      return (await response.json()) as Property;
+    },
+    onSuccess: (property) => {
+      queryClient.invalidateQueries({ queryKey: revisionsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/properties'] });
+      onRestored(property);
+      toast({ title: 'Change rolled back', description: 'The fields are back to their previous values.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not roll back', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="h-4 w-4" />
+        No changes recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+      {revisions.map(revision => (
+        <div key={revision.id} className="border rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant={revision.source === 'admin_ui' || revision.source === 'restore' ? 'default' : 'secondary'}>
+                {SOURCE_LABELS[revision.source] ?? revision.source}
+              </Badge>
+              <span className="text-muted-foreground">
+                {revision.username ?? 'Automatic'}
+                {revision.createdAt && ` · ${formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}`}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => restore.mutate(revision.id)}
+              disabled={restore.isPending}
+            >
+              <RotateCcw className="mr-1 h-3 w-3" />
+              Roll back
+            </Button>
+          </div>
+          <ul className="text-xs space-y-1">
+            {Object.entries(revision.changes).map(([field, change]) => (
+              <li key={field}>
+                <span className="font-medium">{field}</span>{' '}
+                <span className="text-muted-foreground line-through">{formatValue(change.from)}</span>{' '}
+                → {formatValue(change.to)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PropertyRevisionHistory;
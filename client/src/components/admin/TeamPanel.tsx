@@ -0,0 +1,390 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { teamRoles, type Host, type Property, type PublicHostTeamMember, type TeamRole } from '@shared/schema';
+import { teamRoleLabels, teamRolePermissions, type TeamInviteLink, type TeamMembership } from '@shared/host-teams';
+import type { AdminPropertyPage } from '@shared/admin-properties';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { Copy, Loader2, UserPlus } from 'lucide-react';
+
+const formatDate = (value: Date | string | null) =>
+  value ? format(new Date(value), 'MMM d, yyyy') : '—';
+
+const memberStatus = (member: PublicHostTeamMember) => {
+  if (member.acceptedAt) return { label: 'active', variant: 'default' as const };
+  if (new Date(member.expiresAt).getTime() < Date.now()) return { label: 'expired', variant: 'destructive' as const };
+  return { label: 'invited', variant: 'outline' as const };
+};
+
+// Pick "all properties" (null) or some of the host's properties
+const PropertyScopePicker: React.FC<{
+  properties: Property[];
+  value: number[] | null;
+  onChange: (value: number[] | null) => void;
+}> = ({ properties, value, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex items-center gap-2">
+      <Checkbox
+        id="scopeAllProperties"
+        checked={value === null}
+        onCheckedChange={(checked) => onChange(checked ? null : [])}
+      />
+      <Label htmlFor="scopeAllProperties">All properties, including future ones</Label>
+    </div>
+    {value !== null && (
+      <div className="max-h-48 overflow-y-auto border rounded-md p-2 space-y-1">
+        {properties.length === 0 && <p className="text-sm text-muted-foreground">No properties yet.</p>}
+        {properties.map(property => (
+          <div key={property.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`scopeProperty${property.id}`}
+              checked={value.includes(property.id)}
+              onCheckedChange={(checked) => onChange(checked
+                ? [...value, property.id]
+                : value.filter(id => id !== property.id))}
+            />
+            <Label htmlFor={`scopeProperty${property.id}`} className="font-normal">{property.name}</Label>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// Team members who help run a host's properties, and the teams the signed-in user belongs to
+const TeamPanel = () => {
+  const { toast } = useToast();
+  const [selectedHostId, setSelectedHostId] = useState<number | null>(null);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState<{ email: string; role: TeamRole; propertyIds: number[] | null }>({
+    email: '',
+    role: 'co_host',
+    propertyIds: null,
+  });
+  const [inviteLink, setInviteLink] = useState<TeamInviteLink | null>(null);
+  const [memberToScope, setMemberToScope] = useState<PublicHostTeamMember | null>(null);
+  const [scope, setScope] = useState<number[] | null>(null);
+
+  const { user } = useAuth();
+  // Only hosts have a team of their own
+  const { data: ownHost } = useQuery<Host>({ queryKey: ['/api/host-profile'], enabled: user?.role !== 'guest' });
+  const { data: memberships = [] } = useQuery<TeamMembership[]>({ queryKey: ['/api/team-memberships'] });
+
+  // Teams the user can manage: their own and those they are an owner of
+  const manageableTeams = [
+    ...(ownHost ? [{ id: ownHost.id, userId: ownHost.userId, displayName: `${ownHost.displayName} (your team)` }] : []),
+    ...memberships
+      .filter(membership => membership.member.role === 'owner')
+      .map(membership => ({ id: membership.host.id, userId: null, displayName: membership.host.displayName })),
+  ];
+  const hostId = selectedHostId ?? manageableTeams[0]?.id ?? null;
+  const membersUrl = `/api/teams/${hostId}/members`;
+
+  const { data: members = [], isLoading } = useQuery<PublicHostTeamMember[]>({
+    queryKey: [membersUrl],
+    enabled: hostId !== null,
+  });
+
+  // Properties the invite scope can be picked from
+  const { data: propertyPage } = useQuery<AdminPropertyPage>({
+    queryKey: ['/api/admin/properties?pageSize=100&sort=name&direction=asc'],
+  });
+  const team = manageableTeams.find(manageableTeam => manageableTeam.id === hostId);
+  const teamProperties = (propertyPage?.items ?? [])
+    .filter(property => team?.userId === null || property.hostId === team?.userId);
+  const propertyNames = new Map(teamProperties.map(property => [property.id, property.name]));
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const sendInvite = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/teams/${hostId}/invites`, invite);
+      return (await response.json()) as TeamInviteLink;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: [membersUrl] });
+      setInviteOpen(false);
+      setInvite({ email: '', role: 'co_host', propertyIds: null });
+      setInviteLink(link);
+    },
+    onError: onError('Could not invite team member'),
+  });
+
+  const updateMember = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: { role?: TeamRole; propertyIds?: number[] | null } }) => {
+      await apiRequest('PATCH', `/api/teams/${hostId}/members/${id}`, changes);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersUrl] });
+      setMemberToScope(null);
+    },
+    onError: onError('Could not update team member'),
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async ({ teamHostId, id }: { teamHostId: number; id: number }) => {
+      await apiRequest('DELETE', `/api/teams/${teamHostId}/members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersUrl] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team-memberships'] });
+    },
+    onError: onError('Could not remove team member'),
+  });
+
+  const describeScope = (propertyIds: number[] | null) =>
+    propertyIds === null
+      ? 'All properties'
+      : propertyIds.map(id => propertyNames.get(id) ?? `#${id}`).join(', ') || 'No properties';
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h2 className="text-2xl font-bold">Team</h2>
+            <p className="text-sm text-muted-foreground">
+              Give co-hosts, cleaners and accountants access to some or all of your properties.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {manageableTeams.length > 1 && (
+              <Select value={String(hostId)} onValueChange={(value) => setSelectedHostId(parseInt(value))}>
+                <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {manageableTeams.map(manageableTeam => (
+                    <SelectItem key={manageableTeam.id} value={String(manageableTeam.id)}>
+                      {manageableTeam.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button onClick={() => setInviteOpen(true)} disabled={hostId === null}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-xs text-muted-foreground">
+          {teamRoles.map(role => (
+            <div key={role} className="border rounded-md p-2">
+              <div className="font-medium text-foreground">{teamRoleLabels[role]}</div>
+              {teamRolePermissions[role].join(', ')}
+              {role === 'owner' && ', team.manage'}
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Nobody has been invited yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Properties</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Invited</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map(member => {
+                const status = memberStatus(member);
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => updateMember.mutate({ id: member.id, changes: { role: role as TeamRole } })}
+                      >
+                        <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {teamRoles.map(role => (
+                            <SelectItem key={role} value={role}>{teamRoleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs truncate" title={describeScope(member.propertyIds)}>
+                      {describeScope(member.propertyIds)}
+                    </TableCell>
+                    <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                    <TableCell className="text-xs">{formatDate(member.createdAt)}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setMemberToScope(member);
+                          setScope(member.propertyIds);
+                        }}
+                      >
+                        Properties
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={removeMember.isPending}
+                        onClick={() => hostId !== null && removeMember.mutate({ teamHostId: hostId, id: member.id })}
+                      >
+                        {member.acceptedAt ? 'Remove' : 'Revoke'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {memberships.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">Teams you belong to</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Host</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Properties</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {memberships.map(({ member, host }) => (
+                <TableRow key={member.id}>
+                  <TableCell>{host.displayName}</TableCell>
+                  <TableCell>{teamRoleLabels[member.role]}</TableCell>
+                  <TableCell className="text-sm">{describeScope(member.propertyIds)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={removeMember.isPending}
+                      onClick={() => removeMember.mutate({ teamHostId: host.id, id: member.id })}
+                    >
+                      Leave
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite a team member</DialogTitle>
+            <DialogDescription>
+              You get a link to send to them. They accept it signed in with this email address.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="inviteEmail">Email</Label>
+              <Input
+                id="inviteEmail"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={invite.role} onValueChange={(role) => setInvite({ ...invite, role: role as TeamRole })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {teamRoles.map(role => (
+                    <SelectItem key={role} value={role}>{teamRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <PropertyScopePicker
+              properties={teamProperties}
+              value={invite.propertyIds}
+              onChange={(propertyIds) => setInvite({ ...invite, propertyIds })}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)}>Cancel</Button>
+            <Button onClick={() => sendInvite.mutate()} disabled={!invite.email.trim() || sendInvite.isPending}>
+              {sendInvite.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create invite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!memberToScope} onOpenChange={(open) => !open && setMemberToScope(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Properties of {memberToScope?.email}</DialogTitle>
+            <DialogDescription>Their role applies to these properties only.</DialogDescription>
+          </DialogHeader>
+          <PropertyScopePicker properties={teamProperties} value={scope} onChange={setScope} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMemberToScope(null)}>Cancel</Button>
+            <Button
+              onClick={() => memberToScope && updateMember.mutate({ id: memberToScope.id, changes: { propertyIds: scope } })}
+              disabled={updateMember.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!inviteLink} onOpenChange={(open) => !open && setInviteLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite link</DialogTitle>
+            <DialogDescription>
+              Send this link to {inviteLink?.member.email}. It works once and expires{' '}
+              {inviteLink && format(new Date(inviteLink.expiresAt), 'MMM d, HH:mm')}. It cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={inviteLink?.inviteUrl ?? ''} className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                if (!inviteLink) return;
+                navigator.clipboard.writeText(inviteLink.inviteUrl);
+                toast({ title: 'Link copied' });
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TeamPanel;
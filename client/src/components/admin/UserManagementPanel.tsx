@@ -0,0 +1,524 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { userRoles, type PublicUser, type UserRole } from '@shared/schema';
+import type { AdminUserDetail, AdminUserPage, PasswordResetLink, UpdateUser } from '@shared/admin-users';
+import Pagination from '@/components/Pagination';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, KeyRound, Loader2, RefreshCw } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+const formatDate = (value: Date | string | null) =>
+  value ? format(new Date(value), 'MMM d, yyyy') : '—';
+
+const ROLE_VARIANTS: Record<UserRole, 'default' | 'secondary' | 'outline'> = {
+  admin: 'default',
+  host: 'secondary',
+  guest: 'outline',
+};
+
+const invalidateUsers = () => {
+  queryClient.invalidateQueries({
+    predicate: query => typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/admin/users'),
+  });
+};
+
+// Account details plus the user's favorites, reviews and bookings, read through the admin API
+const UserDetailDialog: React.FC<{ userId: number | null; onClose: () => void }> = ({ userId, onClose }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ email: '', fullName: '' });
+
+  const { data: detail, isLoading } = useQuery<AdminUserDetail>({
+    queryKey: [`/api/admin/users/${userId}`],
+    enabled: userId !== null,
+  });
+
+  useEffect(() => {
+    if (detail) setForm({ email: detail.user.email ?? '', fullName: detail.user.fullName ?? '' });
+  }, [detail]);
+
+  const saveUser = useMutation({
+    mutationFn: async (changes: UpdateUser) => {
+      const response = await apiRequest('PATCH', `/api/admin/users/${userId}`, changes);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: 'User updated' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update user', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={userId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{detail?.user.username ?? 'User'}</DialogTitle>
+          <DialogDescription>
+            {detail ? `${detail.user.role} · joined ${formatDate(detail.user.createdAt)}` : 'Loading account...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="account">
+            <TabsList className="mb-4">
+              <TabsTrigger value="account">Account</TabsTrigger>
+              <TabsTrigger value="bookings">Bookings ({detail.bookings.length})</TabsTrigger>
+              <TabsTrigger value="reviews">Reviews ({detail.reviews.length})</TabsTrigger>
+              <TabsTrigger value="favorites">Favorites ({detail.favorites.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="account">
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveUser.mutate({ email: form.email.trim() || null, fullName: form.fullName.trim() || null });
+                }}
+              >
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="userFullName">Full name</Label>
+                    <Input
+                      id="userFullName"
+                      value={form.fullName}
+                      onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="userEmail">Email</Label>
+                    <Input
+                      id="userEmail"
+                      type="email"
+                      value={form.email}
+                      onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {detail.user.suspendedAt && (
+                  <p className="text-sm text-red-600">
+                    Suspended {formatDate(detail.user.suspendedAt)}
+                    {detail.user.suspendedReason && `: ${detail.user.suspendedReason}`}
+                  </p>
+                )}
+                <DialogFooter>
+                  <Button type="submit" disabled={saveUser.isPending}>
+                    {saveUser.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save
+                  </Button>
+                </DialogFooter>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="bookings">
+              {detail.bookings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No bookings.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Booking</TableHead>
+                      <TableHead>Property</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.bookings.map(booking => (
+                      <TableRow key={booking.id}>
+                        <TableCell>#{booking.id}</TableCell>
+                        <TableCell>#{booking.propertyId}</TableCell>
+                        <TableCell className="text-xs">{booking.checkIn} → {booking.checkOut}</TableCell>
+                        <TableCell><Badge variant="outline">{booking.status}</Badge></TableCell>
+                        <TableCell className="text-right">
+                          {booking.totalPrice !== null ? `$${booking.totalPrice}` : '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="reviews">
+              {detail.reviews.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reviews.</p>
+              ) : (
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                  {detail.reviews.map(review => (
+                    <div key={review.id} className="border rounded-md p-3 text-sm">
+                      <div className="flex justify-between text-muted-foreground text-xs mb-1">
+                        <span>Property #{review.propertyId} · {review.rating}/5</span>
+                        <span>{formatDate(review.date)}</span>
+                      </div>
+                      {review.title && <div className="font-medium">{review.title}</div>}
+                      <p>{review.comment}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="favorites">
+              {detail.favorites.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No favorites.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {detail.favorites.map(property => (
+                    <li key={property.id}>
+                      {property.title || property.name}
+                      <span className="text-muted-foreground"> · {property.city}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const UserManagementPanel = () => {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'suspended'>('all');
+  const [page, setPage] = useState(1);
+  const [openUserId, setOpenUserId] = useState<number | null>(null);
+  const [userToSuspend, setUserToSuspend] = useState<PublicUser | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
+  const [userToDelete, setUserToDelete] = useState<PublicUser | null>(null);
+  const [resetLink, setResetLink] = useState<PasswordResetLink | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (search.trim()) params.set('search', search.trim());
+  if (roleFilter !== 'all') params.set('role', roleFilter);
+  if (statusFilter !== 'all') params.set('suspended', String(statusFilter === 'suspended'));
+  const usersUrl = `/api/admin/users?${params.toString()}`;
+
+  const { data, isLoading, isFetching, refetch } = useQuery<AdminUserPage>({
+    queryKey: [usersUrl],
+  });
+  const users = data?.items ?? [];
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const changeRole = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      await apiRequest('PATCH', `/api/admin/users/${id}`, { role });
+    },
+    onSuccess: invalidateUsers,
+    onError: onError('Could not change role'),
+  });
+
+  const suspendUser = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      await apiRequest('POST', `/api/admin/users/${id}/suspend`, { reason: reason || undefined });
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      setUserToSuspend(null);
+      setSuspendReason('');
+      toast({ title: 'User suspended', description: 'They are signed out and cannot log in until unsuspended.' });
+    },
+    onError: onError('Could not suspend user'),
+  });
+
+  const unsuspendUser = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('POST', `/api/admin/users/${id}/unsuspend`);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({ title: 'User reactivated' });
+    },
+    onError: onError('Could not unsuspend user'),
+  });
+
+  const deleteUser = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/admin/users/${id}`);
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      setUserToDelete(null);
+      toast({ title: 'User deleted' });
+    },
+    onError: onError('Could not delete user'),
+  });
+
+  const issueResetLink = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/users/${id}/password-reset`);
+      return (await response.json()) as PasswordResetLink;
+    },
+    onSuccess: setResetLink,
+    onError: onError('Could not create reset link'),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">User Management</h2>
+          <p className="text-sm text-muted-foreground">
+            Roles, suspensions and password resets{data ? ` for ${data.total} accounts` : ''}.
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Input
+          placeholder="Search username, email or name"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+        />
+        <Select
+          value={roleFilter}
+          onValueChange={(value) => {
+            setRoleFilter(value as UserRole | 'all');
+            setPage(1);
+          }}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {userRoles.map(role => (
+              <SelectItem key={role} value={role}>{role}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value as 'all' | 'active' | 'suspended');
+            setPage(1);
+          }}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Active or suspended</SelectItem>
+            <SelectItem value="active">Active</SelectItem>
+            <SelectItem value="suspended">Suspended</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : users.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Joined</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map(user => {
+              const isSelf = user.id === currentUser?.id;
+
+              return (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    <div className="font-medium">{user.username}{isSelf && ' (you)'}</div>
+                    {user.fullName && <div className="text-xs text-muted-foreground">{user.fullName}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">{user.email ?? '—'}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      disabled={isSelf || changeRole.isPending}
+                      onValueChange={(role) => changeRole.mutate({ id: user.id, role: role as UserRole })}
+                    >
+                      <SelectTrigger className="h-8 w-28 border-none p-0 shadow-none">
+                        <Badge variant={ROLE_VARIANTS[user.role]}>{user.role}</Badge>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userRoles.map(role => (
+                          <SelectItem key={role} value={role}>{role}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {user.suspendedAt ? (
+                      <Badge variant="destructive" title={user.suspendedReason ?? undefined}>Suspended</Badge>
+                    ) : (
+                      <Badge variant="outline">Active</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{formatDate(user.createdAt)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => setOpenUserId(user.id)}>
+                      View
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => issueResetLink.mutate(user.id)}
+                      disabled={issueResetLink.isPending}
+                    >
+                      <KeyRound className="mr-1 h-3 w-3" />
+                      Reset password
+                    </Button>
+                    {user.suspendedAt ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => unsuspendUser.mutate(user.id)}
+                        disabled={unsuspendUser.isPending}
+                      >
+                        Unsuspend
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => setUserToSuspend(user)} disabled={isSelf}>
+                        Suspend
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => setUserToDelete(user)}
+                      disabled={isSelf}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4">No users match these filters.</p>
+      )}
+
+      {totalPages > 1 && <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />}
+
+      <UserDetailDialog userId={openUserId} onClose={() => setOpenUserId(null)} />
+
+      <Dialog open={!!userToSuspend} onOpenChange={(open) => !open && setUserToSuspend(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Suspend {userToSuspend?.username}?</DialogTitle>
+            <DialogDescription>
+              They are signed out right away and cannot log in until the account is unsuspended.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspendReason">Reason (optional)</Label>
+            <Input id="suspendReason" value={suspendReason} onChange={(e) => setSuspendReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUserToSuspend(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => userToSuspend && suspendUser.mutate({ id: userToSuspend.id, reason: suspendReason.trim() })}
+              disabled={suspendUser.isPending}
+            >
+              {suspendUser.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Suspend
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resetLink} onOpenChange={(open) => !open && setResetLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Password reset link</DialogTitle>
+            <DialogDescription>
+              Send this link to the user. It works once and expires {resetLink && format(new Date(resetLink.expiresAt), 'MMM d, HH:mm')}.
+              It cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={resetLink?.resetUrl ?? ''} className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                if (!resetLink) return;
+                navigator.clipboard.writeText(resetLink.resetUrl);
+                toast({ title: 'Link copied' });
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!userToDelete} onOpenChange={(open) => !open && setUserToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {userToDelete?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The account and its favorites are removed permanently. Bookings and reviews are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteUser.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => userToDelete && deleteUser.mutate(userToDelete.id)}
+              disabled={deleteUser.isPending}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              Delete User
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default UserManagementPanel;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { webhookEventStatuses, type WebhookEvent, type WebhookEventStatus } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+
+const STATUS_VARIANTS: Record<WebhookEventStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  received: 'outline',
+  processing: 'secondary',
+  processed: 'default',
+  failed: 'destructive',
+  dead: 'destructive',
+};
+
+const formatTimestamp = (value: Date | string | null) =>
+  value ? format(new Date(value), 'MMM d, HH:mm:ss') : '—';
+
+interface ReplayResult {
+  replayed: number;
+  processed: number;
+  events: WebhookEvent[];
+}
+
+const WebhookEventsPanel = () => {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [openEvent, setOpenEvent] = useState<WebhookEvent | null>(null);
+
+  const eventsUrl = statusFilter === 'all'
+    ? '/api/admin/webhook-events'
+    : `/api/admin/webhook-events?status=${statusFilter}`;
+
+  const { data: events, isLoading, isFetching, refetch } = useQuery<WebhookEvent[]>({
+    queryKey: [eventsUrl],
+  });
+
+  const replayEvents = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiRequest('POST', '/api/admin/webhook-events/replay', { ids });
+      return (await response.json()) as ReplayResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [eventsUrl] });
+      setSelectedIds([]);
+      const failed = result.replayed - result.processed;
+      toast({
+        title: `Replayed ${result.replayed} event${result.replayed === 1 ? '' : 's'}`,
+        description: failed > 0 ? `${failed} failed again, see the error column` : 'All processed successfully',
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not replay events', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const allSelected = !!events && events.length > 0 && selectedIds.length === events.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Webhook Events</h2>
+          <p className="text-sm text-muted-foreground">
+            Deliveries from Hospitable. Failed events are retried automatically; dead events need a replay.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value as WebhookEventStatus | 'all');
+              setSelectedIds([]);
+            }}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {webhookEventStatuses.map(status => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            onClick={() => replayEvents.mutate(selectedIds)}
+            disabled={selectedIds.length === 0 || replayEvents.isPending}
+          >
+            {replayEvents.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Replay selected ({selectedIds.length})
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : events && events.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? events.map(event => event.id) : [])}
+                />
+              </TableHead>
+              <TableHead>Received</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Signature</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Error</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map(event => (
+              <TableRow key={event.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(event.id)}
+                    onCheckedChange={(checked) => toggleSelected(event.id, checked === true)}
+                  />
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-xs">{formatTimestamp(event.receivedAt)}</TableCell>
+                <TableCell className="font-mono text-xs">{event.eventType}</TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[event.status]}>{event.status}</Badge>
+                  {event.status === 'failed' && event.nextAttemptAt && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Retry {formatTimestamp(event.nextAttemptAt)}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={event.signatureStatus === 'valid' ? 'outline' : 'destructive'}>
+                    {event.signatureStatus}
+                  </Badge>
+                </TableCell>
+                <TableCell>{event.attempts}</TableCell>
+                <TableCell className="max-w-xs truncate text-xs text-red-600" title={event.lastError ?? undefined}>
+                  {event.lastError}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="sm" onClick={() => setOpenEvent(event)}>
+                    View
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => replayEvents.mutate([event.id])}
+                    disabled={replayEvents.isPending || event.status === 'processing'}
+                  >
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                    Replay
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4">No webhook events received yet.</p>
+      )}
+
+      <Dialog open={!!openEvent} onOpenChange={(open) => !open && setOpenEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{openEvent?.eventType}</DialogTitle>
+          </DialogHeader>
+          {openEvent && (
+            <div className="space-y-2 text-sm">
+              <div className="text-muted-foreground">
+                Event ID <span className="font-mono">{openEvent.eventId}</span> · received{' '}
+                {formatTimestamp(openEvent.receivedAt)} · processed {formatTimestamp(openEvent.processedAt)}
+              </div>
+              {openEvent.lastError && <p className="text-red-600">{openEvent.lastError}</p>}
+              <pre className="max-h-96 overflow-auto rounded bg-gray-100 p-3 text-xs">
+                {JSON.stringify(openEvent.payload, null, 2)}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WebhookEventsPanel;
@@ -16,6 +16,7 @@ import {
   SheetTrigger 
 } from '@/components/ui/sheet';
 import HospitableSearchBar from '@/components/HospitableSearchBar';
+import { useAuth } from '@/hooks/use-auth';
 import { 
   Menu, 
   User, 
@@ -23,6 +24,7 @@ import {
   MapPin, 
   Heart, 
   LogIn, 
+  LogOut, 
   Building, 
   ChevronDown, 
   Link as LinkIcon, 
@@ -34,6 +36,7 @@ import {
 const Navbar: React.FC = () => {
   const [location] = useLocation();
   const [isOpen, setIsOpen] = useState(false);
+  const { user, logoutMutation } = useAuth();
   const isHomePage = location === '/';
 
   return (
@@ -88,38 +91,34 @@ const Navbar: React.FC = () => {
             </DropdownMenu>
             
 
-            {/* User Menu Dropdown - temporarily hidden
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" className="rounded-full flex items-center gap-2 px-4">
-                  <Menu className="h-4 w-4" />
-                  <Avatar className="h-6 w-6">
-                    <AvatarImage src="" />
-                    <AvatarFallback>
-                      <User className="h-4 w-4" />
-                    </AvatarFallback>
-                  </Avatar>
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-56">
-                <DropdownMenuLabel>My Account</DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem>
-                  <LogIn className="mr-2 h-4 w-4" /> Sign in
-                </DropdownMenuItem>
-                <DropdownMenuItem>
-                  <Home className="mr-2 h-4 w-4" /> Dashboard
-                </DropdownMenuItem>
-                <DropdownMenuItem>
-                  <Heart className="mr-2 h-4 w-4" /> Favorites
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem>
-                  <MapPin className="mr-2 h-4 w-4" /> Host your place
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-            */}
+            {/* User Menu */}
+            {user ? (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="rounded-full flex items-center gap-2 px-4">
+                    <Menu className="h-4 w-4" />
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage src="" />
+                      <AvatarFallback>
+                        <User className="h-4 w-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuLabel>{user.fullName || user.username}</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => logoutMutation.mutate()} className="cursor-pointer">
+                    <LogOut className="mr-2 h-4 w-4" /> Sign out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Link to="/auth" className="flex items-center text-gray-600 hover:text-primary transition-colors">
+                <LogIn className="mr-1 h-4 w-4" />
+                <span>Sign in</span>
+              </Link>
+            )}
           </nav>
           
           {/* Mobile menu button */}
@@ -166,11 +165,18 @@ const Navbar: React.FC = () => {
                   </div>
                   
 
-                  {/* Sign in link hidden for now
-                  <Link href="#" className="block py-2 px-4 hover:bg-gray-100 rounded-md">
-                    Sign in
-                  </Link>
-                  */}
+                  {user ? (
+                    <button
+                      onClick={() => logoutMutation.mutate()}
+                      className="block w-full text-left py-2 px-4 hover:bg-gray-100 rounded-md"
+                    >
+                      Sign out ({user.username})
+                    </button>
+                  ) : (
+                    <Link to="/auth" className="block py-2 px-4 hover:bg-gray-100 rounded-md">
+                      Sign in
+                    </Link>
+                  )}
                 </div>
               </div>
             </SheetContent>
@@ -1,41 +1,47 @@
 import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
 import { Heart } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { addFavorite, removeFavorite } from '@/lib/api';
+import { useAuth } from '@/hooks/use-auth';
 
 interface HeartButtonProps {
   propertyId: number;
-  userId?: number;
-  initialFavorited?: boolean;
   className?: string;
 }
 
 const HeartButton: React.FC<HeartButtonProps> = ({
   propertyId,
-  userId = 1, // Default user ID for demo purposes
-  initialFavorited = false,
   className,
 }) => {
-  const [isFavorited, setIsFavorited] = useState(initialFavorited);
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
   const [isLoading, setIsLoading] = useState(false);
 
+  // One shared request for every heart on the page
+  const { data: favorites } = useQuery<{ id: number }[]>({
+    queryKey: ['/api/favorites'],
+    enabled: !!user,
+  });
+  const isFavorited = !!user && !!favorites?.some(property => property.id === propertyId);
+
   const toggleFavorite = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
     
-    if (!userId) {
-      // Handle unauthenticated users (e.g., show login modal)
+    if (!user) {
+      navigate('/auth');
       return;
     }
     
     setIsLoading(true);
     try {
       if (isFavorited) {
-        await removeFavorite(userId, propertyId);
+        await removeFavorite(propertyId);
       } else {
-        await addFavorite(userId, propertyId);
+        await addFavorite(propertyId);
       }
-      setIsFavorited(!isFavorited);
     } catch (error) {
       console.error('Error toggling favorite:', error);
     } finally {
@@ -0,0 +1,104 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useMutation, useQuery, UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser, RegisterUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+// Error messages from apiRequest look like `401: {"message":"..."}`
+export function getAuthErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (user: PublicUser) => {
+    queryClient.setQueryData(AUTH_QUERY_KEY, user);
+    // Favorites and other per-user data belong to the new session
+    queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: "Login failed", description: getAuthErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (userData: RegisterUser) => {
+      const res = await apiRequest("POST", "/api/auth/register", userData);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: "Registration failed", description: getAuthErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+      queryClient.removeQueries({ queryKey: ["/api/favorites"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout failed", description: getAuthErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -1,5 +1,11 @@
 import axios from 'axios';
 import { queryClient } from './queryClient';
+import { getImportedProperties, isQueuedJobResponse, waitForQueueJob } from './queue-jobs';
+import type { CheckoutRequest, CheckoutSession, CheckoutStatus, PriceQuote } from '@shared/pricing';
+import type { ImportPreview, ImportSelection } from '@shared/import-preview';
+import type { HostProfile } from '@shared/hosts';
+import { propertySearchParamsSchema, type PropertySearchPage, type PropertySearchParams } from '@shared/property-search';
+import type { Host } from '@shared/schema';
 
 
 // API client for communicating with Hospitable and our backend API
@@ -72,19 +78,47 @@ class HospitableApiClient {
   }
   
   /**
-   * Import customer listings into our database
+   * Compare a customer's listings with the stored properties without importing anything
    */
-  async importListings(customerId: string): Promise<any[]> {
+  async previewImport(customerId: string): Promise<ImportPreview> {
     try {
-      const response = await axios.post(`${this.baseUrl}/import-listings`, { customerId });
+      const response = await axios.post(`${this.baseUrl}/import-listings?dryRun=true`, { customerId });
+      return response.data;
+    } catch (error) {
+      console.error(`Error previewing import for customer ${customerId}:`, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Import customer listings into our database.
+   * The server answers with the stored properties when they are fresh, otherwise it queues
+   * an import job that is polled here until it finishes.
+   *
+   * @param onProgress Called with imported/total listings while the job runs
+   * @param selection Listings and fields picked from previewImport; everything when left out
+   */
+  async importListings(
+    customerId: string,
+    onProgress?: (done: number, total: number) => void,
+    selection?: ImportSelection
+  ): Promise<any[]> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/import-listings`, { customerId, selection });
+      
+      let properties = response.data;
+      if (isQueuedJobResponse(response.data)) {
+        const job = await waitForQueueJob(response.data.statusUrl, onProgress);
+        properties = await getImportedProperties(job);
+      }
       
       // Invalidate property queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/properties'] });
       
-      return response.data;
+      return properties;
     } catch (error) {
       console.error(`Error importing listings for customer ${customerId}:`, error);
-      return []; // Return empty array on error
+      throw error;
     }
   }
   
@@ -200,19 +234,41 @@ export async function getFeaturedProperties(): Promise<any[]> {
   }
 }
 
-export async function searchProperties(query: string, filters?: any): Promise<any[]> {
-  const params = new URLSearchParams({ q: query });
+const defaultSearchParams: Partial<Record<string, unknown>> = propertySearchParamsSchema.parse({});
 
-  if (filters && Object.keys(filters).length > 0) {
-    params.append('filters', JSON.stringify(filters));
+/**
+ * Query string of a search, for both the /search URL and the API request.
+ * Empty values and defaults are left out; propertySearchParamsSchema parses it back.
+ */
+export function toPropertySearchQuery(params: Partial<PropertySearchParams>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '' || value === defaultSearchParams[key]) continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) query.set(key, value.join(','));
+    } else {
+      query.set(key, String(value));
+    }
   }
+  return query.toString();
+}
 
+/**
+ * Search params of a /search URL. Invalid URLs keep only their text query.
+ */
+export function parsePropertySearchParams(search: string): PropertySearchParams {
+  const query = new URLSearchParams(search);
+  const result = propertySearchParamsSchema.safeParse(Object.fromEntries(query));
+  return result.success ? result.data : propertySearchParamsSchema.parse({ q: query.get('q') ?? '' });
+}
+
+export async function searchProperties(params: PropertySearchParams): Promise<PropertySearchPage> {
   try {
-    const response = await axios.get(`/api/properties/search?${params.toString()}`);
+    const response = await axios.get(`/api/properties/search?${toPropertySearchQuery(params)}`);
     return response.data;
   } catch (error) {
     console.error('Error searching properties:', error);
-    return [];
+    throw error;
   }
 }
 
@@ -238,13 +294,95 @@ export async function getPropertyReviews(propertyId: number): Promise<any[]> {
   }
 }
 
-// Favorites API functions
-export async function addFavorite(userId: number, propertyId: number): Promise<any> {
+// Profile of the property's host; null while the host has none
+export async function getPropertyHost(propertyId: number): Promise<Host | null> {
+  try {
+    const response = await axios.get(`/api/properties/${propertyId}/host`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) return null;
+    console.error(`Error fetching host of property ${propertyId}:`, error);
+    throw error;
+  }
+}
+
+export async function getHostProfile(slug: string): Promise<HostProfile> {
+  try {
+    const response = await axios.get(`/api/hosts/${encodeURIComponent(slug)}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching host ${slug}:`, error);
+    throw error;
+  }
+}
+
+export interface PropertyAvailability {
+  propertyId: number;
+  from: string;
+  to: string;
+  minStay: number | null;
+  maxStay: number | null;
+  minStayByDate: Record<string, number>; // Arrival dates where a pricing rule changes the minimum stay
+  unavailableDates: string[];
+}
+
+export async function getPropertyAvailability(propertyId: number, from: string, to: string): Promise<PropertyAvailability> {
+  try {
+    const response = await axios.get(`/api/properties/${propertyId}/availability`, { params: { from, to } });
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching availability for property ${propertyId}:`, error);
+    throw error;
+  }
+}
+
+export async function getPropertyQuote(
+  propertyId: number,
+  checkIn: string,
+  checkOut: string,
+  guests: number
+): Promise<PriceQuote> {
+  try {
+    const response = await axios.post(`/api/properties/${propertyId}/quote`, { checkIn, checkOut, guests });
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching quote for property ${propertyId}:`, error);
+    throw error;
+  }
+}
+
+// Checkout API functions
+export async function createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+  try {
+    const response = await axios.post('/api/checkout', request);
+    return response.data;
+  } catch (error) {
+    console.error('Error starting checkout:', error);
+    throw error;
+  }
+}
+
+export async function getCheckoutStatus(bookingId: number, paymentIntentId: string): Promise<CheckoutStatus> {
+  try {
+    const response = await axios.get(`/api/checkout/${bookingId}`, { params: { paymentIntentId } });
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching checkout status of booking ${bookingId}:`, error);
+    throw error;
+  }
+}
+
+// Settles a payment with the fake gateway (development only; the server rejects it when Stripe is configured)
+export async function completeTestPayment(paymentIntentId: string): Promise<void> {
+  await axios.post('/api/payments/webhook', { type: 'payment_succeeded', paymentIntentId });
+}
+
+// Favorites API functions (for the logged-in user)
+export async function addFavorite(propertyId: number): Promise<any> {
   try {
-    
-    const response = await axios.post('/api/favorites', { userId, propertyId });
+    const response = await axios.post('/api/favorites', { propertyId });
     // Invalidate favorites queries to refresh data
-    queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'favorites'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/favorites'] });
     queryClient.invalidateQueries({ queryKey: ['/api/favorites/check'] });
     return response.data;
   } catch (error) {
@@ -253,11 +391,11 @@ export async function addFavorite(userId: number, propertyId: number): Promise<a
   }
 }
 
-export async function removeFavorite(userId: number, propertyId: number): Promise<any> {
+export async function removeFavorite(propertyId: number): Promise<any> {
   try {
-    const response = await axios.delete('/api/favorites', { data: { userId, propertyId } });
+    const response = await axios.delete('/api/favorites', { data: { propertyId } });
     // Invalidate favorites queries to refresh data
-    queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'favorites'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/favorites'] });
     queryClient.invalidateQueries({ queryKey: ['/api/favorites/check'] });
     return response.data;
   } catch (error) {
@@ -0,0 +1,49 @@
+import React from "react";
+import { Redirect, Route, useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import type { UserRole } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+type ProtectedRouteProps = {
+  path: string;
+  component: React.ComponentType<any>;
+  roles?: UserRole[];
+};
+
+/**
+ * Route that requires a signed-in user (and optionally one of the given roles).
+ * Anonymous visitors are sent to /auth and brought back after signing in.
+ */
+export function ProtectedRoute({ path, component: Component, roles }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  return (
+    <Route path={path}>
+      {(params) => {
+        if (isLoading) {
+          return (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          );
+        }
+
+        if (!user) {
+          return <Redirect to={`/auth?next=${encodeURIComponent(location)}`} />;
+        }
+
+        if (roles && !roles.includes(user.role)) {
+          return (
+            <div className="container mx-auto px-4 py-16 text-center">
+              <h1 className="text-2xl font-bold mb-2">Access denied</h1>
+              <p className="text-gray-600">Your account does not have access to this page.</p>
+            </div>
+          );
+        }
+
+        return <Component params={params} />;
+      }}
+    </Route>
+  );
+}
@@ -0,0 +1,59 @@
+// queue-jobs.ts - Follow long-running server jobs (e.g. listing imports) until they finish
+
+import type { Property, QueueJob } from '@shared/schema';
+
+// Answer of endpoints that queue their work instead of finishing it in the request
+export interface QueuedJobResponse {
+  jobId: number;
+  status: QueueJob['status'];
+  statusUrl: string;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+export function isQueuedJobResponse(data: unknown): data is QueuedJobResponse {
+  return !!data && typeof data === 'object' && 'jobId' in data && 'statusUrl' in data;
+}
+
+/**
+ * Poll a job until it succeeds, and throw with its error if it fails or is dead-lettered.
+ * Jobs waiting for a retry keep being polled.
+ *
+ * @param onProgress Called with the job's progress while it runs
+ */
+export async function waitForQueueJob(
+  statusUrl: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<QueueJob> {
+  for (;;) {
+    const response = await fetch(statusUrl, { credentials: 'include' });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || `Could not check job status (${response.status})`);
+    }
+
+    const job: QueueJob = await response.json();
+    if (job.progress && onProgress) {
+      onProgress(job.progress.done, job.progress.total);
+    }
+
+    if (job.status === 'succeeded') return job;
+    if (job.status === 'failed' || job.status === 'dead') {
+      throw new Error(job.lastError || 'The job failed');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Load the properties an import job reports in its result
+ */
+export async function getImportedProperties(job: QueueJob): Promise<Property[]> {
+  const propertyIds: number[] = job.result?.propertyIds ?? [];
+  const properties = await Promise.all(propertyIds.map(async id => {
+    const response = await fetch(`/api/properties/${id}`, { credentials: 'include' });
+    return response.ok ? (await response.json() as Property) : null;
+  }));
+  return properties.filter((property): property is Property => property !== null);
+}
@@ -30,16 +30,6 @@ export function truncateText(text: string, maxLength: number): string {
   return text.slice(0, maxLength) + "...";
 }
 
-// Calculate total price for a stay
-export function calculateTotalPrice(
-  nightPrice: number,
-  nights: number,
-  cleaningFee: number = 85,
-  serviceFee: number = 0
-): number {
-  return nightPrice * nights + cleaningFee + serviceFee;
-}
-
 // Format location string (e.g., "Brooklyn, New York" -> "Brooklyn")
 export function formatLocation(location: string): string {
   return location.split(",")[0].trim();
@@ -1,10 +1,20 @@
 import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import PropertyEmbedsManager from '@/components/admin/PropertyEmbedsManager';
+import PropertyManagementPanel from '@/components/admin/PropertyManagementPanel';
+import HostProfilePanel from '@/components/admin/HostProfilePanel';
+import TeamPanel from '@/components/admin/TeamPanel';
+import UserManagementPanel from '@/components/admin/UserManagementPanel';
+import WebhookEventsPanel from '@/components/admin/WebhookEventsPanel';
+import AuditLogPanel from '@/components/admin/AuditLogPanel';
+import { useAuth } from '@/hooks/use-auth';
 import { Card } from '@/components/ui/card';
 
 const AdminPage = () => {
   const [activeTab, setActiveTab] = useState('embeds');
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const isHost = isAdmin || user?.role === 'host';
   
   return (
     <div className="container mx-auto py-8 px-4">
@@ -14,7 +24,11 @@ const AdminPage = () => {
         <TabsList className="mb-6">
           <TabsTrigger value="embeds">Embed Codes</TabsTrigger>
           <TabsTrigger value="properties">Properties</TabsTrigger>
-          <TabsTrigger value="users">Users</TabsTrigger>
+          {isHost && <TabsTrigger value="host-profile">Host Profile</TabsTrigger>}
+          <TabsTrigger value="team">Team</TabsTrigger>
+          {isAdmin && <TabsTrigger value="users">Users</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="webhooks">Webhooks</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="audit">Audit Log</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="embeds">
@@ -25,17 +39,47 @@ const AdminPage = () => {
         
         <TabsContent value="properties">
           <Card className="p-6">
-            <h2 className="text-2xl font-bold mb-4">Property Management</h2>
-            <p>Property management functionality will be implemented in future updates.</p>
+            <PropertyManagementPanel />
           </Card>
         </TabsContent>
         
-        <TabsContent value="users">
+        {isHost && (
+          <TabsContent value="host-profile">
+            <Card className="p-6">
+              <HostProfilePanel />
+            </Card>
+          </TabsContent>
+        )}
+        
+        <TabsContent value="team">
           <Card className="p-6">
-            <h2 className="text-2xl font-bold mb-4">User Management</h2>
-            <p>User management functionality will be implemented in future updates.</p>
+            <TeamPanel />
           </Card>
         </TabsContent>
+        
+        {isAdmin && (
+          <TabsContent value="users">
+            <Card className="p-6">
+              <UserManagementPanel />
+            </Card>
+          </TabsContent>
+        )}
+        
+        {isAdmin && (
+          <TabsContent value="webhooks">
+            <Card className="p-6">
+              <WebhookEventsPanel />
+            </Card>
+          </TabsContent>
+        )}
+        
+        {isAdmin && (
+          <TabsContent value="audit">
+            <Card className="p-6">
+              <AuditLogPanel />
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
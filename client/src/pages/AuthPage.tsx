@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Redirect, useSearch } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { Meta } from '@/lib/seo';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+// Only follow same-site paths after login
+const getRedirectPath = (search: string) => {
+  const next = new URLSearchParams(search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+};
+
+const AuthPage: React.FC = () => {
+  const { user, isLoading, loginMutation, registerMutation } = useAuth();
+  const redirectPath = getRedirectPath(useSearch());
+
+  const [loginData, setLoginData] = useState({ username: '', password: '' });
+  const [registerData, setRegisterData] = useState({ username: '', email: '', fullName: '', password: '' });
+  const [registerError, setRegisterError] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (user) {
+    return <Redirect to={redirectPath} />;
+  }
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(loginData);
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    setRegisterError(null);
+    if (registerData.password.length < 8) {
+      setRegisterError('Password must be at least 8 characters');
+      return;
+    }
+    registerMutation.mutate({
+      username: registerData.username,
+      password: registerData.password,
+      email: registerData.email || undefined,
+      fullName: registerData.fullName || undefined,
+    });
+  };
+
+  return (
+    <>
+      <Meta
+        title="Sign in | StayDirectly"
+        description="Sign in to StayDirectly to save your favorite stays and manage your bookings."
+        canonical="/auth"
+      />
+
+      <div className="container mx-auto px-4 py-12 max-w-md">
+        <Tabs defaultValue="login">
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="login">Sign in</TabsTrigger>
+            <TabsTrigger value="register">Create account</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="login">
+            <Card>
+              <CardHeader>
+                <CardTitle>Welcome back</CardTitle>
+                <CardDescription>Sign in with your username and password.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="loginUsername">Username</Label>
+                    <Input
+                      id="loginUsername"
+                      autoComplete="username"
+                      required
+                      value={loginData.username}
+                      onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="loginPassword">Password</Label>
+                    <Input
+                      id="loginPassword"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      value={loginData.password}
+                      onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                    {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Sign in
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="register">
+            <Card>
+              <CardHeader>
+                <CardTitle>Create an account</CardTitle>
+                <CardDescription>Save favorite stays and keep track of your bookings.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleRegister} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="registerUsername">Username</Label>
+                    <Input
+                      id="registerUsername"
+                      autoComplete="username"
+                      required
+                      minLength={3}
+                      value={registerData.username}
+                      onChange={(e) => setRegisterData({ ...registerData, username: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registerFullName">Full name (optional)</Label>
+                    <Input
+                      id="registerFullName"
+                      autoComplete="name"
+                      value={registerData.fullName}
+                      onChange={(e) => setRegisterData({ ...registerData, fullName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registerEmail">Email (optional)</Label>
+                    <Input
+                      id="registerEmail"
+                      type="email"
+                      autoComplete="email"
+                      value={registerData.email}
+                      onChange={(e) => setRegisterData({ ...registerData, email: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registerPassword">Password</Label>
+                    <Input
+                      id="registerPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      required
+                      value={registerData.password}
+                      onChange={(e) => setRegisterData({ ...registerData, password: e.target.value })}
+                    />
+                  </div>
+                  {registerError && <p className="text-sm text-red-500">{registerError}</p>}
+                  <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                    {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Create account
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </>
+  );
+};
+
+export default AuthPage;
@@ -0,0 +1,335 @@
+import React, { useState } from 'react';
+import { Link, useRoute, useSearch } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { format, parseISO } from 'date-fns';
+import { loadStripe, type Stripe } from '@stripe/stripe-js';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import type { CheckoutSession } from '@shared/pricing';
+import { completeTestPayment, createCheckout, getCheckoutStatus, getProperty } from '@/lib/api';
+import { getPropertyUrl } from '@/lib/slugify';
+import { Meta } from '@/lib/seo';
+import PriceQuoteBreakdown from '@/components/PriceQuoteBreakdown';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+// loadStripe must only run once per key
+const stripePromises = new Map<string, Promise<Stripe | null>>();
+const getStripe = (publishableKey: string) => {
+  if (!stripePromises.has(publishableKey)) {
+    stripePromises.set(publishableKey, loadStripe(publishableKey));
+  }
+  return stripePromises.get(publishableKey)!;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message
+    ? error.response.data.message
+    : fallback;
+
+interface PaymentStepProps {
+  session: CheckoutSession;
+  returnUrl: string;
+  onPaid: () => void;
+}
+
+const StripePaymentForm: React.FC<PaymentStepProps> = ({ returnUrl, onPaid }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    // Cards confirm in place; redirect-based methods come back to returnUrl
+    const { error } = await stripe.confirmPayment({
+      elements,
+      confirmParams: { return_url: returnUrl },
+      redirect: 'if_required',
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      setErrorMessage(error.message || 'Payment failed');
+    } else {
+      onPaid();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      {errorMessage && <p className="text-sm text-red-500">{errorMessage}</p>}
+      <Button type="submit" className="w-full" disabled={!stripe || isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Pay now
+      </Button>
+    </form>
+  );
+};
+
+const TestPaymentForm: React.FC<PaymentStepProps> = ({ session, onPaid }) => {
+  const payment = useMutation({
+    mutationFn: () => completeTestPayment(session.paymentIntentId),
+    onSuccess: onPaid,
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Test mode: no payment provider is configured, so no card is charged.
+      </p>
+      {payment.error && (
+        <p className="text-sm text-red-500">{getErrorMessage(payment.error, 'Test payment failed')}</p>
+      )}
+      <Button className="w-full" onClick={() => payment.mutate()} disabled={payment.isPending}>
+        {payment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Complete test payment
+      </Button>
+    </div>
+  );
+};
+
+interface PaidCheckout {
+  bookingId: number;
+  paymentIntentId: string;
+}
+
+const BookingConfirmation: React.FC<PaidCheckout> = ({ bookingId, paymentIntentId }) => {
+  // The webhook confirms the booking, which can land a moment after the payment
+  const { data: booking } = useQuery({
+    queryKey: [`/api/checkout/${bookingId}`, paymentIntentId],
+    queryFn: () => getCheckoutStatus(bookingId, paymentIntentId),
+    refetchInterval: (query) => query.state.data?.status === 'pending' ? 2000 : false,
+  });
+
+  if (!booking || booking.status === 'pending') {
+    return (
+      <div className="flex flex-col items-center py-8 text-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+        <p className="text-gray-600">Confirming your payment...</p>
+      </div>
+    );
+  }
+
+  if (booking.status !== 'confirmed') {
+    return (
+      <div className="py-8 text-center">
+        <h2 className="text-xl font-semibold mb-2">Booking {booking.status}</h2>
+        <p className="text-gray-600">
+          {booking.paymentStatus === 'paid'
+            ? 'Your payment went through after the booking was released. Please contact us for a refund.'
+            : 'Your payment could not be completed. No charge has been made.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center py-8 text-center">
+      <CheckCircle2 className="h-12 w-12 text-green-600 mb-4" />
+      <h2 className="text-2xl font-semibold mb-2">Your stay is booked!</h2>
+      <p className="text-gray-600">
+        Booking #{booking.bookingId}: {format(parseISO(booking.checkIn), 'MMM d, yyyy')} to{' '}
+        {format(parseISO(booking.checkOut), 'MMM d, yyyy')}
+      </p>
+    </div>
+  );
+};
+
+const Checkout: React.FC = () => {
+  const [, params] = useRoute('/checkout/:propertyId');
+  const propertyId = params ? parseInt(params.propertyId) : 0;
+  const searchParams = new URLSearchParams(useSearch());
+  const checkIn = searchParams.get('checkIn') || '';
+  const checkOut = searchParams.get('checkOut') || '';
+  const guests = parseInt(searchParams.get('guests') || '1') || 1;
+  // Set when Stripe redirects back after an off-page payment method; Stripe adds payment_intent itself
+  const returnedBookingId = parseInt(searchParams.get('booking') || '') || null;
+  const returnedPaymentIntentId = searchParams.get('payment_intent');
+
+  const [guestDetails, setGuestDetails] = useState({ guestName: '', guestEmail: '', guestPhone: '', notes: '' });
+  const [session, setSession] = useState<CheckoutSession | null>(null);
+  const [paidCheckout, setPaidCheckout] = useState<PaidCheckout | null>(
+    returnedBookingId && returnedPaymentIntentId
+      ? { bookingId: returnedBookingId, paymentIntentId: returnedPaymentIntentId }
+      : null
+  );
+
+  const { data: property, isLoading } = useQuery({
+    queryKey: [`/api/properties/${propertyId}`],
+    queryFn: () => getProperty(propertyId),
+    enabled: !!propertyId,
+  });
+
+  const checkout = useMutation({
+    mutationFn: () => createCheckout({
+      propertyId,
+      checkIn,
+      checkOut,
+      guests,
+      guestName: guestDetails.guestName,
+      guestEmail: guestDetails.guestEmail,
+      guestPhone: guestDetails.guestPhone || undefined,
+      notes: guestDetails.notes || undefined,
+    }),
+    onSuccess: setSession,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!property || !checkIn || !checkOut) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-semibold mb-4">Nothing to check out</h1>
+        <p className="text-gray-600 mb-6">Pick your dates on a property page to start a booking.</p>
+        <Button asChild variant="outline">
+          <Link href="/search">Browse properties</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const propertyTitle = property.title || property.name;
+  const returnUrl = session
+    ? `${window.location.origin}/checkout/${propertyId}?${new URLSearchParams({
+        checkIn, checkOut, guests: String(guests), booking: String(session.bookingId),
+      })}`
+    : '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    checkout.mutate();
+  };
+
+  return (
+    <>
+      <Meta
+        title={`Book ${propertyTitle} | StayDirectly`}
+        description={`Complete your direct booking at ${propertyTitle}.`}
+        canonical={`/checkout/${propertyId}`}
+      />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <Link href={getPropertyUrl(property.id, propertyTitle)} className="text-sm text-primary hover:underline">
+          &larr; Back to {propertyTitle}
+        </Link>
+        <h1 className="text-3xl font-bold mt-2 mb-6">Confirm and pay</h1>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card className="lg:col-span-2">
+            <CardContent className="p-6">
+              {paidCheckout ? (
+                <BookingConfirmation {...paidCheckout} />
+              ) : session ? (
+                <>
+                  <h2 className="text-xl font-semibold mb-4">Payment</h2>
+                  {session.gateway === 'stripe' && session.publishableKey ? (
+                    <Elements stripe={getStripe(session.publishableKey)} options={{ clientSecret: session.clientSecret }}>
+                      <StripePaymentForm
+                        session={session}
+                        returnUrl={returnUrl}
+                        onPaid={() => setPaidCheckout({ bookingId: session.bookingId, paymentIntentId: session.paymentIntentId })}
+                      />
+                    </Elements>
+                  ) : (
+                    <TestPaymentForm
+                      session={session}
+                      returnUrl={returnUrl}
+                      onPaid={() => setPaidCheckout({ bookingId: session.bookingId, paymentIntentId: session.paymentIntentId })}
+                    />
+                  )}
+                </>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <h2 className="text-xl font-semibold">Your details</h2>
+                  <div className="space-y-2">
+                    <Label htmlFor="guestName">Full name</Label>
+                    <Input
+                      id="guestName"
+                      required
+                      value={guestDetails.guestName}
+                      onChange={(e) => setGuestDetails({ ...guestDetails, guestName: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="guestEmail">Email</Label>
+                      <Input
+                        id="guestEmail"
+                        type="email"
+                        required
+                        value={guestDetails.guestEmail}
+                        onChange={(e) => setGuestDetails({ ...guestDetails, guestEmail: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="guestPhone">Phone (optional)</Label>
+                      <Input
+                        id="guestPhone"
+                        type="tel"
+                        value={guestDetails.guestPhone}
+                        onChange={(e) => setGuestDetails({ ...guestDetails, guestPhone: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Message to the host (optional)</Label>
+                    <Textarea
+                      id="notes"
+                      value={guestDetails.notes}
+                      onChange={(e) => setGuestDetails({ ...guestDetails, notes: e.target.value })}
+                    />
+                  </div>
+                  {checkout.error && (
+                    <p className="text-sm text-red-500">{getErrorMessage(checkout.error, 'Could not start checkout')}</p>
+                  )}
+                  <Button type="submit" className="w-full" disabled={checkout.isPending}>
+                    {checkout.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Continue to payment
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6">
+              <h2 className="font-semibold">{propertyTitle}</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                {format(parseISO(checkIn), 'MMM d, yyyy')} - {format(parseISO(checkOut), 'MMM d, yyyy')}
+                {' · '}{guests} {guests === 1 ? 'guest' : 'guests'}
+              </p>
+              {/* After a payment redirect the nights are held by this booking, so a fresh quote would fail */}
+              {(session || !paidCheckout) && (
+                <PriceQuoteBreakdown
+                  propertyId={propertyId}
+                  checkIn={checkIn}
+                  checkOut={checkOut}
+                  guests={guests}
+                  quote={session?.quote}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default Checkout;
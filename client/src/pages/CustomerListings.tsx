@@ -9,6 +9,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Loader2, Search, Star, ExternalLink, Save } from 'lucide-react';
 import HospitableListingImporter from '@/components/HospitableListingImporter';
 import DataRefreshScheduler from '@/components/DataRefreshScheduler';
+import ImportPreview from '@/components/ImportPreview';
 import ListingDataDetail from '@/components/ListingDataDetail';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
@@ -359,6 +360,10 @@ const CustomerListings: React.FC = () => {
               <DataRefreshScheduler customerId={customerId} />
             )}
           </div>
+
+          {customerId && (
+            <ImportPreview customerId={customerId} />
+          )}
           
           <div className="mt-8 p-6 bg-primary/5 rounded-lg border border-primary/20 text-center">
             <h3 className="text-xl font-medium mb-2">View Your Published Properties</h3>
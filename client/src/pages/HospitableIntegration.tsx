@@ -1,12 +1,15 @@
 import React, { useState } from 'react';
 import { Link } from 'wouter';
 import HospitableListingImporter from '@/components/HospitableListingImporter';
+import HospitableConnectionsPanel from '@/components/admin/HospitableConnectionsPanel';
+import { useAuth } from '@/hooks/use-auth';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Property } from '@/types';
 
 export default function HospitableIntegration() {
   const [importedProperties, setImportedProperties] = useState<Property[]>([]);
+  const { user } = useAuth();
 
   const handleImportComplete = (properties: Property[]) => {
     setImportedProperties(properties);
@@ -39,6 +42,7 @@ export default function HospitableIntegration() {
         <TabsList className="mb-6">
           <TabsTrigger value="import">Import Listings</TabsTrigger>
           <TabsTrigger value="imported">Imported Properties</TabsTrigger>
+          {user?.role === 'admin' && <TabsTrigger value="connections">Connections</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="import">
@@ -95,6 +99,22 @@ export default function HospitableIntegration() {
             </Card>
           )}
         </TabsContent>
+
+        {user?.role === 'admin' && (
+          <TabsContent value="connections">
+            <Card>
+              <CardHeader>
+                <CardTitle>Customer Connections</CardTitle>
+                <CardDescription>
+                  Whether each Hospitable customer still grants access to their account
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HospitableConnectionsPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Languages, MessageCircle, Star, UserCircle2 } from 'lucide-react';
+import { getHostProfile } from '@/lib/api';
+import { Meta } from '@/lib/seo';
+import Breadcrumb from '@/components/ui/Breadcrumb';
+import PropertyCard from '@/components/PropertyCard';
+import { Button } from '@/components/ui/button';
+
+const HostProfile: React.FC = () => {
+  const [match, params] = useRoute('/host/:slug');
+  const slug = match ? params.slug : '';
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: [`/api/hosts/${slug}`],
+    queryFn: () => getHostProfile(slug),
+    enabled: !!slug,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/3 mb-6"></div>
+          <div className="flex items-center gap-6 mb-8">
+            <div className="w-24 h-24 rounded-full bg-gray-200"></div>
+            <div className="flex-1">
+              <div className="h-8 bg-gray-200 rounded mb-3 w-1/3"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          </div>
+          <div className="h-4 bg-gray-200 rounded mb-2 w-full"></div>
+          <div className="h-4 bg-gray-200 rounded mb-6 w-2/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-white p-6 rounded-lg shadow-sm">
+          <h1 className="text-2xl font-bold text-red-500 mb-2">Host Not Found</h1>
+          <p>The host you are looking for does not exist or has been removed.</p>
+          <Link href="/">
+            <Button className="mt-4">Return to Home</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { host, properties, rating, reviewCount } = profile;
+
+  const breadcrumbItems = [
+    { label: 'Home', href: '/' },
+    { label: host.displayName }
+  ];
+
+  return (
+    <>
+      <Meta
+        title={`${host.displayName} | StayDirectly`}
+        description={host.bio?.substring(0, 160) || `Book ${host.displayName}'s vacation rentals directly, without booking fees.`}
+        canonical={`/host/${host.slug}`}
+        image={host.avatarUrl || undefined}
+      />
+
+      <div className="container mx-auto px-4 pt-6">
+        <Breadcrumb items={breadcrumbItems} className="mb-4" />
+
+        {/* Host Header */}
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+            <div className="w-24 h-24 overflow-hidden rounded-full flex-shrink-0 bg-gray-100 flex items-center justify-center">
+              {host.avatarUrl ? (
+                <img src={host.avatarUrl} alt={host.displayName} className="w-full h-full object-cover" />
+              ) : (
+                <UserCircle2 className="w-16 h-16 text-gray-400" />
+              )}
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold mb-2">{host.displayName}</h1>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                {rating !== null && (
+                  <span className="flex items-center">
+                    <Star className="h-4 w-4 text-amber-500 fill-current mr-1" />
+                    <span className="font-medium text-gray-900 mr-1">{rating.toFixed(2)}</span>
+                    ({reviewCount} reviews)
+                  </span>
+                )}
+                {host.joinedAt && <span>Hosting since {format(new Date(host.joinedAt), 'MMMM yyyy')}</span>}
+                {host.responseRate != null && (
+                  <span className="flex items-center">
+                    <MessageCircle className="h-4 w-4 mr-1" />
+                    {host.responseRate}% response rate
+                  </span>
+                )}
+                {host.languages && host.languages.length > 0 && (
+                  <span className="flex items-center">
+                    <Languages className="h-4 w-4 mr-1" />
+                    Speaks {host.languages.join(', ')}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          {host.bio && <p className="text-gray-600 mt-6 whitespace-pre-line">{host.bio}</p>}
+        </div>
+
+        {/* Host Properties */}
+        <div className="mb-12">
+          <h2 className="text-2xl font-bold mb-6">Properties hosted by {host.displayName}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {properties.length === 0 ? (
+              <div className="col-span-3 text-center py-8 bg-gray-50 rounded-lg">
+                <p className="text-gray-600">This host has no published properties yet.</p>
+              </div>
+            ) : (
+              properties.map((property) => (
+                <PropertyCard key={property.id} property={property} />
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default HostProfile;
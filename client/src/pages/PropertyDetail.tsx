@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { useRoute } from 'wouter';
+import { Link, useLocation, useRoute } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
-import { getProperty, getPropertyReviews } from '@/lib/api';
+import type { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { getProperty, getPropertyHost, getPropertyReviews } from '@/lib/api';
 import { getIdFromSlug, slugify } from '@/lib/slugify';
 import RevyoosIframe from '@/components/RevyoosIframe';
 import RevyoosScriptWidget from '@/components/RevyoosScriptWidget';
@@ -12,6 +14,8 @@ import GoogleMapView from '@/components/GoogleMapView';
 import DynamicReviewWidget from '@/components/DynamicReviewWidget';
 
 import NearbyPlaces from '@/components/NearbyPlaces';
+import AvailabilityDatePicker from '@/components/AvailabilityDatePicker';
+import PriceQuoteBreakdown from '@/components/PriceQuoteBreakdown';
 
 // Function to convert amenity IDs to display names
 const getAmenityDisplayName = (amenityId: string): string => {
@@ -120,9 +124,9 @@ const PropertyDetail: React.FC = () => {
   
   const [isHeartFilled, setIsHeartFilled] = useState(false);
   const [amenitiesExpanded, setAmenitiesExpanded] = useState(false);
-  const [checkIn, setCheckIn] = useState('');
-  const [checkOut, setCheckOut] = useState('');
-  const [guests, setGuests] = useState('1 guest');
+  const [stayDates, setStayDates] = useState<DateRange | undefined>();
+  const [guests, setGuests] = useState(1);
+  const [, navigate] = useLocation();
   
   const { data: property, isLoading: isLoadingProperty } = useQuery({
     queryKey: [`/api/properties/${propertyId}`],
@@ -137,6 +141,12 @@ const PropertyDetail: React.FC = () => {
     }
   }, [property]);
   
+  const { data: host } = useQuery({
+    queryKey: [`/api/properties/${propertyId}/host`],
+    queryFn: () => getPropertyHost(propertyId),
+    enabled: !!propertyId,
+  });
+  
   const { data: reviews, isLoading: isLoadingReviews } = useQuery({
     queryKey: [`/api/properties/${propertyId}/reviews`],
     queryFn: () => getPropertyReviews(propertyId),
@@ -151,8 +161,13 @@ const PropertyDetail: React.FC = () => {
   };
   
   const handleBooking = () => {
-    // Booking logic would go here
-    alert('Booking functionality would be implemented here');
+    if (!stayDates?.from || !stayDates.to) return;
+    const search = new URLSearchParams({
+      checkIn: format(stayDates.from, 'yyyy-MM-dd'),
+      checkOut: format(stayDates.to, 'yyyy-MM-dd'),
+      guests: String(guests),
+    });
+    navigate(`/checkout/${propertyId}?${search}`);
   };
   
   if (isLoadingProperty) {
@@ -210,12 +225,6 @@ const PropertyDetail: React.FC = () => {
   // Get capacity data for this property
   const capacityData = getCapacityData();
   
-  // Calculate total price for a 6-night stay
-  const nightlyTotal = property.price * 6;
-  const cleaningFee = 85;
-  const serviceFee = 0;
-  const totalPrice = nightlyTotal + cleaningFee + serviceFee;
-  
   // Get amenity icons
   const getAmenityIcon = (amenity: string) => {
     // Comprehensive icon mapping with good fallbacks
@@ -486,14 +495,31 @@ const PropertyDetail: React.FC = () => {
               <div className="flex items-start border-t border-gray-200 pt-4">
                 <div className="w-12 h-12 overflow-hidden rounded-full mr-4 flex-shrink-0">
                   <AirbnbImageOptimizer 
-                    imageUrl={property.hostImage || 'https://randomuser.me/api/portraits/men/32.jpg'} 
-                    alt={property.hostName} 
+                    imageUrl={host?.avatarUrl || property.hostImage || 'https://randomuser.me/api/portraits/men/32.jpg'} 
+                    alt={host?.displayName || property.hostName} 
                     className="w-full h-full object-cover" 
                   />
                 </div>
                 <div>
-                  <h3 className="font-medium">Hosted by {property.hostName}</h3>
-                  <p className="text-gray-600 text-sm">Superhost · 3 years hosting</p>
+                  {host ? (
+                    <>
+                      <h3 className="font-medium">
+                        Hosted by{' '}
+                        <Link href={`/host/${host.slug}`} className="text-primary hover:underline">
+                          {host.displayName}
+                        </Link>
+                      </h3>
+                      <p className="text-gray-600 text-sm">
+                        {host.joinedAt ? `Hosting since ${format(new Date(host.joinedAt), 'MMMM yyyy')}` : 'Host'}
+                        {host.responseRate != null && ` · ${host.responseRate}% response rate`}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="font-medium">Hosted by {property.hostName}</h3>
+                      <p className="text-gray-600 text-sm">Superhost · 3 years hosting</p>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -820,6 +846,45 @@ const PropertyDetail: React.FC = () => {
               <div className="bg-white p-6 rounded-lg shadow-sm mb-4">
                 <h3 className="text-xl font-bold mb-6">Booking</h3>
                 
+                {/* Availability */}
+                <AvailabilityDatePicker
+                  propertyId={property.id}
+                  value={stayDates}
+                  onChange={setStayDates}
+                  className="mb-4"
+                />
+                
+                <div className="mb-4">
+                  <Label htmlFor="guests" className="text-sm">Guests</Label>
+                  <Select value={String(guests)} onValueChange={(value) => setGuests(parseInt(value))}>
+                    <SelectTrigger id="guests" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: capacityData.max || 1 }, (_, i) => i + 1).map((count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count} {count === 1 ? 'guest' : 'guests'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {/* Price breakdown from the quote API */}
+                {stayDates?.from && stayDates.to && (
+                  <div className="mb-6">
+                    <PriceQuoteBreakdown
+                      propertyId={property.id}
+                      checkIn={format(stayDates.from, 'yyyy-MM-dd')}
+                      checkOut={format(stayDates.to, 'yyyy-MM-dd')}
+                      guests={guests}
+                    />
+                    <Button className="w-full mt-4" onClick={handleBooking}>
+                      Reserve
+                    </Button>
+                  </div>
+                )}
+                
                 {/* Booking Widget Iframe */}
                 <div className="booking-widget-container w-full overflow-hidden">
                   <iframe 
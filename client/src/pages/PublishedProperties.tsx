@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { extractPropertyIds, getOptimizedAirbnbImageUrl } from '@/lib/hospitable/property-utils';
 import AirbnbImageOptimizer from '@/components/AirbnbImageOptimizer';
+import PropertyEditDialog from '@/components/admin/PropertyEditDialog';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,7 +9,6 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -217,36 +217,6 @@ const PublishedProperties: React.FC = () => {
     setPropertyToEdit(property);
   };
   
-  const handleUpdateProperty = () => {
-    if (!propertyToEdit) return;
-    
-    // Extract all fields to update from propertyToEdit state
-    const propertyData = {
-      title: propertyToEdit.title,
-      price: propertyToEdit.price,
-      description: propertyToEdit.description,
-      
-      // SEO fields
-      slug: propertyToEdit.slug,
-      metaTitle: propertyToEdit.metaTitle,
-      metaDescription: propertyToEdit.metaDescription,
-      
-      // Embed codes
-      bookingWidgetHtml: propertyToEdit.bookingWidgetHtml,
-      reviewsWidgetHtml: propertyToEdit.reviewsWidgetHtml,
-      
-      // Amenities
-      featuredAmenities: propertyToEdit.featuredAmenities
-    };
-    
-    updatePropertyMutation.mutate({
-      id: propertyToEdit.id,
-      propertyData
-    });
-    
-    setPropertyToEdit(null);
-  };
-  
   const handleUnpublish = (property: any) => {
     updatePropertyMutation.mutate({
       id: property.id,
@@ -346,233 +316,7 @@ const PublishedProperties: React.FC = () => {
         </div>
         
         {/* Edit Property Dialog */}
-        <Dialog open={!!propertyToEdit} onOpenChange={(open) => !open && setPropertyToEdit(null)}>
-          <DialogContent className="max-w-lg">
-            <DialogHeader>
-              <DialogTitle>Edit Property</DialogTitle>
-              <DialogDescription>
-                Update the details of your property listing.
-              </DialogDescription>
-            </DialogHeader>
-            
-            {propertyToEdit && (
-              <div className="space-y-4 py-4">
-                <Tabs defaultValue="basic">
-                  <TabsList className="mb-4 w-full">
-                    <TabsTrigger value="basic">Basic Info</TabsTrigger>
-                    <TabsTrigger value="seo">SEO & URL</TabsTrigger>
-                    <TabsTrigger value="embeds">Embed Codes</TabsTrigger>
-                    <TabsTrigger value="amenities">Amenities</TabsTrigger>
-                  </TabsList>
-                
-                  {/* Basic Info Tab */}
-                  <TabsContent value="basic">
-                    <div className="space-y-4">
-                      <div className="grid grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="title">Property Title</Label>
-                          <input
-                            id="title"
-                            className="w-full p-2 border rounded"
-                            defaultValue={propertyToEdit.title || propertyToEdit.name}
-                            onChange={(e) => setPropertyToEdit({...propertyToEdit, title: e.target.value})}
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="price">Price per night ($)</Label>
-                          <input
-                            id="price"
-                            type="number"
-                            className="w-full p-2 border rounded"
-                            defaultValue={propertyToEdit.price}
-                            onChange={(e) => setPropertyToEdit({...propertyToEdit, price: parseFloat(e.target.value)})}
-                          />
-                        </div>
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="description">Property Description</Label>
-                        <textarea
-                          id="description"
-                          className="w-full p-2 border rounded h-32"
-                          defaultValue={propertyToEdit.description}
-                          onChange={(e) => setPropertyToEdit({...propertyToEdit, description: e.target.value})}
-                        />
-                      </div>
-                    </div>
-                  </TabsContent>
-                  
-                  {/* SEO & URL Tab */}
-                  <TabsContent value="seo">
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="slug">URL Slug</Label>
-                        <div className="flex items-center">
-                          <span className="text-muted-foreground mr-2">/property/</span>
-                          <input
-                            id="slug"
-                            className="flex-1 p-2 border rounded"
-                            placeholder="your-custom-url-slug"
-                            defaultValue={propertyToEdit.slug || ''}
-                            onChange={(e) => setPropertyToEdit({...propertyToEdit, slug: e.target.value})}
-                          />
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Custom URL for better SEO. Use lowercase letters, numbers, and hyphens.
-                        </p>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <Label htmlFor="metaTitle">Title Tag (SEO)</Label>
-                        <input
-                          id="metaTitle"
-                          className="w-full p-2 border rounded"
-                          placeholder="Vacation Rental in [Location] with [Feature] - Your Brand"
-                          defaultValue={propertyToEdit.metaTitle || ''}
-                          onChange={(e) => setPropertyToEdit({...propertyToEdit, metaTitle: e.target.value})}
-                        />
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Recommended length: 50-60 characters
-                        </p>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <Label htmlFor="metaDescription">Meta Description</Label>
-                        <textarea
-                          id="metaDescription"
-                          className="w-full p-2 border rounded h-24"
-                          placeholder="Experience a luxurious stay at our [Property Type] in [Location]. Features include [key amenities]. Perfect for [target guests]. Book now!"
-                          defaultValue={propertyToEdit.metaDescription || ''}
-                          onChange={(e) => setPropertyToEdit({...propertyToEdit, metaDescription: e.target.value})}
-                        />
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Recommended length: 120-160 characters
-                        </p>
-                      </div>
-                    </div>
-                  </TabsContent>
-                  
-                  {/* Embed Codes Tab */}
-                  <TabsContent value="embeds">
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="bookingWidgetHtml">Booking Widget HTML</Label>
-                        <textarea
-                          id="bookingWidgetHtml"
-                          className="w-full p-2 border rounded h-36 font-mono text-sm"
-                          placeholder="<iframe src='your-booking-widget-url' width='100%' height='500'></iframe>"
-                          defaultValue={propertyToEdit.bookingWidgetHtml || ''}
-                          onChange={(e) => setPropertyToEdit({...propertyToEdit, bookingWidgetHtml: e.target.value})}
-                        />
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Paste the HTML code for the booking widget specific to this property
-                        </p>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <Label htmlFor="reviewsWidgetHtml">Reviews Widget HTML</Label>
-                        <textarea
-                          id="reviewsWidgetHtml"
-                          className="w-full p-2 border rounded h-36 font-mono text-sm"
-                          placeholder="<div class='reviews-widget' data-property-id='123'>...</div>"
-                          defaultValue={propertyToEdit.reviewsWidgetHtml || ''}
-                          onChange={(e) => setPropertyToEdit({...propertyToEdit, reviewsWidgetHtml: e.target.value})}
-                        />
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Paste the HTML code for the reviews widget specific to this property
-                        </p>
-                      </div>
-                    </div>
-                  </TabsContent>
-                  
-                  {/* Amenities Tab */}
-                  <TabsContent value="amenities">
-                    <div className="space-y-4">
-                      <div>
-                        <Label className="block mb-3">Featured Amenities (Select up to 6)</Label>
-                        <p className="text-xs text-muted-foreground mb-4">
-                          Choose the 6 most important amenities to highlight on the property page
-                        </p>
-                        
-                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                          {[
-                            { id: 'wifi', label: 'WiFi', icon: 'wifi' },
-                            { id: 'pool', label: 'Swimming Pool', icon: 'pool' },
-                            { id: 'hottub', label: 'Hot Tub', icon: 'hot-tub' },
-                            { id: 'ac', label: 'Air Conditioning', icon: 'snowflake' },
-                            { id: 'kitchen', label: 'Full Kitchen', icon: 'utensils' },
-                            { id: 'tv', label: 'Smart TV', icon: 'tv' },
-                            { id: 'washer', label: 'Washer/Dryer', icon: 'washing-machine' },
-                            { id: 'parking', label: 'Free Parking', icon: 'car' },
-                            { id: 'workspace', label: 'Workspace', icon: 'briefcase' },
-                            { id: 'bbq', label: 'BBQ Grill', icon: 'flame' },
-                            { id: 'patio', label: 'Patio/Balcony', icon: 'sun' },
-                            { id: 'pets', label: 'Pet Friendly', icon: 'paw' },
-                          ].map(amenity => (
-                            <div 
-                              key={amenity.id}
-                              className={`
-                                border rounded-md p-3 flex items-center space-x-2 cursor-pointer
-                                ${propertyToEdit.featuredAmenities?.includes(amenity.id) 
-                                  ? 'border-primary bg-primary/5' 
-                                  : 'border-gray-200 hover:border-gray-300'
-                                }
-                              `}
-                              onClick={() => {
-                                const current = propertyToEdit.featuredAmenities || [];
-                                const updated = current.includes(amenity.id)
-                                  ? current.filter((id: string) => id !== amenity.id)
-                                  : current.length < 6
-                                    ? [...current, amenity.id]
-                                    : current;
-                                
-                                setPropertyToEdit({
-                                  ...propertyToEdit, 
-                                  featuredAmenities: updated
-                                });
-                              }}
-                            >
-                              <div className="flex-shrink-0">
-                                {/* Placeholder for icon - in a real app we'd have actual icons */}
-                                <div className="w-5 h-5 rounded-full bg-primary/20 flex items-center justify-center text-xs">
-                                  {amenity.icon.charAt(0).toUpperCase()}
-                                </div>
-                              </div>
-                              <div className="flex-1 text-sm">{amenity.label}</div>
-                              {propertyToEdit.featuredAmenities?.includes(amenity.id) && (
-                                <CheckCircle2 className="h-4 w-4 text-primary" />
-                              )}
-                            </div>
-                          ))}
-                        </div>
-                        
-                        <p className="text-xs text-primary mt-3">
-                          {propertyToEdit.featuredAmenities?.length || 0} of 6 amenities selected
-                        </p>
-                      </div>
-                    </div>
-                  </TabsContent>
-                </Tabs>
-              </div>
-            )}
-            
-            <DialogFooter>
-              <Button 
-                variant="outline" 
-                onClick={() => setPropertyToEdit(null)}
-                disabled={updatePropertyMutation.isPending}
-              >
-                Cancel
-              </Button>
-              <Button 
-                type="submit" 
-                onClick={handleUpdateProperty}
-                disabled={updatePropertyMutation.isPending}
-              >
-                {updatePropertyMutation.isPending ? 'Saving...' : 'Save Changes'}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        <PropertyEditDialog property={propertyToEdit} onClose={() => setPropertyToEdit(null)} />
         
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={!!propertyToDelete} onOpenChange={(open) => !open && setPropertyToDelete(null)}>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Link, useSearch } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { getAuthErrorMessage } from '@/hooks/use-auth';
+import { apiRequest } from '@/lib/queryClient';
+import { Meta } from '@/lib/seo';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Landing page of the one-time reset links admins hand out
+const ResetPassword: React.FC = () => {
+  const token = new URLSearchParams(useSearch()).get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/reset-password', { token, password });
+    },
+    onError: (resetError: Error) => setError(getAuthErrorMessage(resetError)),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('The passwords do not match');
+      return;
+    }
+    resetMutation.mutate();
+  };
+
+  return (
+    <>
+      <Meta
+        title="Reset password | StayDirectly"
+        description="Choose a new password for your StayDirectly account."
+        canonical="/reset-password"
+      />
+
+      <div className="container mx-auto px-4 py-12 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Reset your password</CardTitle>
+            <CardDescription>Choose a new password for your account.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {resetMutation.isSuccess ? (
+              <div className="space-y-4">
+                <p className="text-sm">Your password has been changed.</p>
+                <Button asChild className="w-full">
+                  <Link href="/auth">Sign in</Link>
+                </Button>
+              </div>
+            ) : !token ? (
+              <p className="text-sm text-red-600">This reset link is incomplete. Ask support for a new one.</p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">New password</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    minLength={8}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm new password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set new password
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+};
+
+export default ResetPassword;
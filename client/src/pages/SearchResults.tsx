@@ -1,7 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useLocation } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
-import { searchProperties } from '@/lib/api';
+import React, { useMemo, useState } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { parsePropertySearchParams, searchProperties, toPropertySearchQuery } from '@/lib/api';
 import PropertyCard from '@/components/PropertyCard';
 import Breadcrumb from '@/components/ui/Breadcrumb';
 import FilterList from '@/components/FilterList';
@@ -9,10 +9,21 @@ import Pagination from '@/components/Pagination';
 import MapView from '@/components/MapView';
 import { Meta, SearchResultsStructuredData } from '@/lib/seo';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
 import { Grid, MapPin } from 'lucide-react';
 import { Property } from '@shared/schema';
+import type { PropertySearchFilters, PropertySearchParams, PropertySearchSort } from '@shared/property-search';
 import GoogleMapView from '@/components/GoogleMapView';
 
+const sortLabels: Record<PropertySearchSort, string> = {
+  newest: 'Newest',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  rating: 'Top rated',
+  distance: 'Nearest to me',
+};
+
 function getLocationLabel(properties: Property[]): string {
   if (!properties || properties.length === 0) return "";
 
@@ -37,91 +48,83 @@ function getLocationLabel(properties: Property[]): string {
 }
 
 
-  const SearchResults: React.FC = () => {
-    const [location] = useLocation();
-    
-    
-    
-
-
-
-    
-    const [currentPage, setCurrentPage] = useState(1);
-    
-    const [viewMode, setViewMode] = useState<'grid' | 'map'>('map');
-    const [selectedProperty, setSelectedProperty] = useState<number | string | null>(null);
-
-    const [query, setQuery] = useState<string>('');
-    const [filters, setFilters] = useState<any>({});
-
-
-    useEffect(() => {
-      const searchParams = new URLSearchParams(window.location.search);
-      console.log("Full search params:");
-      for (const [key, value] of searchParams.entries()) {
-        console.log(`${key}: ${value}`);
-      }
-
-      const q = searchParams.get('q') || '';
-      setQuery(q);
-
-      const newFilters: any = {};
-      for (const [key, value] of searchParams.entries()) {
-        switch (key) {
-          case 'minPrice':
-          case 'maxPrice':
-          case 'bedrooms':
-          case 'bathrooms':
-          case 'guests':
-            newFilters[key] = parseInt(value);
-            break;
-          case 'amenities':
-            newFilters[key] = value.split(',');
-            break;
-          default:
-            if (key !== 'q') newFilters[key] = value;
-        }
-      }
-
-      setFilters(newFilters);
-    }, [location]);
+const SearchResults: React.FC = () => {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
 
+  const [viewMode, setViewMode] = useState<'grid' | 'map'>('map');
+  const [selectedProperty, setSelectedProperty] = useState<number | string | null>(null);
 
+  // The URL holds the whole search, so results can be shared and survive a reload
+  const searchParams = useMemo(() => parsePropertySearchParams(search), [search]);
+  const { q: query, sort, lat, lng, page: currentPage, pageSize, ...filters } = searchParams;
 
+  // Changing anything but the page starts over at page 1
+  const updateSearch = (changes: Partial<PropertySearchParams>) => {
+    const queryString = toPropertySearchQuery({ ...searchParams, page: 1, ...changes });
+    setLocation(`/search${queryString ? `?${queryString}` : ''}`);
+  };
 
-  const pageSize = 12;
-
-  const { data: properties, isLoading, isError } = useQuery({
-    queryKey: ['/api/properties/search', query, filters],
-    queryFn: () => {
-      console.log("✅ Query:", query);
-      console.log("✅ Filters:", filters);
-      return searchProperties(query, filters);
-    },
-    enabled: true,
+  const { data: searchPage, isLoading, isError } = useQuery({
+    queryKey: ['/api/properties/search', searchParams],
+    queryFn: () => searchProperties(searchParams),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
   });
+  const properties = searchPage?.items;
 
-
-
-
-
-  // Calculate pagination values
-  const totalItems = properties?.length || 0;
+  // Calculate pagination values from the server's total
+  const totalItems = searchPage?.total || 0;
   const totalPages = Math.ceil(totalItems / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
-  const endIndex = Math.min(startIndex + pageSize, totalItems);
-  const currentItems = properties?.slice(startIndex, endIndex) || [];
+  const endIndex = startIndex + (properties?.length || 0);
+  const currentItems = properties || [];
+
+  // The map shows the current page's properties that have coordinates
+  const mapProperties = currentItems.flatMap(property =>
+    property.latitude !== null && property.longitude !== null
+      ? [{
+          ...property,
+          id: String(property.id),
+          title: property.title ?? property.name,
+          latitude: property.latitude,
+          longitude: property.longitude,
+          rating: property.rating ?? undefined,
+          reviewCount: property.reviewCount ?? undefined,
+        }]
+      : []
+  );
 
   // Handle page change
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    updateSearch({ page });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  // Handle sort change; sorting by distance needs the visitor's location
+  const handleSortChange = (value: PropertySearchSort) => {
+    if (value !== 'distance') {
+      updateSearch({ sort: value, lat: undefined, lng: undefined });
+      return;
+    }
+    if (!navigator.geolocation) {
+      toast({ title: 'Location unavailable', description: 'Your browser cannot share your location.', variant: 'destructive' });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => updateSearch({
+        sort: 'distance',
+        lat: Number(position.coords.latitude.toFixed(4)),
+        lng: Number(position.coords.longitude.toFixed(4)),
+      }),
+      () => toast({ title: 'Location unavailable', description: 'Allow location access to sort by distance.', variant: 'destructive' })
+    );
+  };
+
   // Handle filter change
-  const handleFilterChange = (newFilters: any) => {
-    setFilters({ ...filters, ...newFilters });
-    setCurrentPage(1);
+  const handleFilterChange = (changes: Partial<PropertySearchFilters>) => {
+    updateSearch(changes);
   };
 
   // Build breadcrumb items
@@ -141,7 +144,7 @@ function getLocationLabel(properties: Property[]): string {
       {properties && properties.length > 0 && (
         <SearchResultsStructuredData 
           query={query || 'All Properties'}
-          resultCount={properties.length}
+          resultCount={totalItems}
           properties={properties.map(property => ({
             name: property.name,
             url: `/property/${property.id}`,
@@ -188,12 +191,25 @@ function getLocationLabel(properties: Property[]): string {
           <FilterList onFilterChange={handleFilterChange} currentFilters={filters} />
         </div>
         
-        {/* Results Count */}
-        <p className="text-gray-600 mb-4">
-          {isLoading ? 'Searching...' : 
-           isError ? 'Error loading results' :
-           `Showing ${startIndex + 1}-${endIndex} of ${totalItems} properties`}
-        </p>
+        {/* Results Count and Sort */}
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <p className="text-gray-600">
+            {isLoading ? 'Searching...' : 
+             isError ? 'Error loading results' :
+             totalItems === 0 ? 'No properties' :
+             `Showing ${startIndex + 1}-${endIndex} of ${totalItems} properties`}
+          </p>
+          <Select value={sort} onValueChange={(value) => handleSortChange(value as PropertySearchSort)}>
+            <SelectTrigger className="w-48 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(sortLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         
         {/* Map and results container - responsive layout for all screen sizes */}
         <div className={`flex flex-col ${viewMode === 'map' ? 'lg:flex-row' : ''} gap-6 mb-12`}>
@@ -253,13 +269,13 @@ function getLocationLabel(properties: Property[]): string {
             <div className="order-1 lg:order-2 lg:w-2/5 h-[400px] lg:h-[calc(100vh-240px)] lg:min-h-[600px] sticky top-6 bg-gray-100 rounded-lg shadow-sm overflow-hidden">
               {properties ? (
                 <GoogleMapView 
-                  properties={properties}
+                  properties={mapProperties}
                   height="100%"
                   center={
-                    properties && properties.length
+                    mapProperties.length
                       ? [
-                          properties.reduce((sum, p) => sum + p.latitude, 0) / properties.length,
-                          properties.reduce((sum, p) => sum + p.longitude, 0) / properties.length
+                          mapProperties.reduce((sum, p) => sum + p.latitude, 0) / mapProperties.length,
+                          mapProperties.reduce((sum, p) => sum + p.longitude, 0) / mapProperties.length
                         ]
                       : [25.7617, -80.1918] // fallback to Miami
                   }
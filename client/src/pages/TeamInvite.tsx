@@ -0,0 +1,88 @@
+import React from 'react';
+import { Link, useSearch } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { getAuthErrorMessage, useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Meta } from '@/lib/seo';
+import type { TeamMembership } from '@shared/host-teams';
+import { teamRoleLabels } from '@shared/host-teams';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Landing page of the team invite links hosts hand out
+const TeamInvite: React.FC = () => {
+  const search = useSearch();
+  const token = new URLSearchParams(search).get('token') ?? '';
+  const { user, isLoading } = useAuth();
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/team-invites/accept', { token });
+      return (await response.json()) as TeamMembership;
+    },
+    onSuccess: () => {
+      // The account keeps its role; the team grants access to the host's properties
+      queryClient.invalidateQueries({ queryKey: ['/api/team-memberships'] });
+    },
+  });
+
+  const membership = acceptMutation.data;
+
+  return (
+    <>
+      <Meta
+        title="Join a team | StayDirectly"
+        description="Accept an invite to help manage a host's properties on StayDirectly."
+        canonical="/team-invite"
+      />
+
+      <div className="container mx-auto px-4 py-12 max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Join a host team</CardTitle>
+            <CardDescription>You have been invited to help manage properties on StayDirectly.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : membership ? (
+              <div className="space-y-4">
+                <p className="text-sm">
+                  You joined {membership.host.displayName}'s team as {teamRoleLabels[membership.member.role].toLowerCase()}.
+                </p>
+                <Button asChild className="w-full">
+                  <Link href="/admin">Go to dashboard</Link>
+                </Button>
+              </div>
+            ) : !token ? (
+              <p className="text-sm text-red-600">This invite link is incomplete. Ask the host for a new one.</p>
+            ) : !user ? (
+              <div className="space-y-4">
+                <p className="text-sm">Sign in or create an account with the email address the invite was sent to.</p>
+                <Button asChild className="w-full">
+                  <Link href={`/auth?next=${encodeURIComponent(`/team-invite?${search}`)}`}>Sign in</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm">You are signed in as {user.email}.</p>
+                {acceptMutation.error && (
+                  <p className="text-sm text-red-600">{getAuthErrorMessage(acceptMutation.error)}</p>
+                )}
+                <Button className="w-full" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+                  {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Accept invite
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+};
+
+export default TeamInvite;
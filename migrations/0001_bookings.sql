@@ -0,0 +1,22 @@
+CREATE TABLE "bookings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"user_id" integer,
+	"guest_name" text NOT NULL,
+	"guest_email" text,
+	"guest_phone" text,
+	"guests" integer DEFAULT 1 NOT NULL,
+	"check_in" date NOT NULL,
+	"check_out" date NOT NULL,
+	"total_price" double precision,
+	"currency" text DEFAULT 'USD',
+	"status" text DEFAULT 'inquiry' NOT NULL,
+	"source" text DEFAULT 'direct',
+	"external_id" text,
+	"notes" text,
+	"confirmed_at" timestamp,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "bookings_external_id_unique" UNIQUE("external_id")
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "availability_blocks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"source" text DEFAULT 'manual',
+	"external_uid" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
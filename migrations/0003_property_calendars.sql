@@ -0,0 +1,11 @@
+CREATE TABLE "property_calendars" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"import_status" text DEFAULT 'never',
+	"import_error" text,
+	"imported_event_count" integer DEFAULT 0,
+	"last_imported_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "property_calendars_property_id_unique" UNIQUE("property_id")
+);
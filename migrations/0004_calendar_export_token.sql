@@ -0,0 +1,2 @@
+ALTER TABLE "property_calendars" ADD COLUMN "export_token" text;--> statement-breakpoint
+ALTER TABLE "property_calendars" ADD CONSTRAINT "property_calendars_export_token_unique" UNIQUE("export_token");
\ No newline at end of file
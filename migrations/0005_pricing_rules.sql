@@ -0,0 +1,15 @@
+CREATE TABLE "pricing_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"start_date" date,
+	"end_date" date,
+	"days_of_week" integer[],
+	"nightly_price" integer,
+	"adjustment_percent" double precision,
+	"min_stay" integer,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "bookings" ADD COLUMN "payment_status" text DEFAULT 'unpaid' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "payment_intent_id" text;--> statement-breakpoint
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_payment_intent_id_unique" UNIQUE("payment_intent_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'guest' NOT NULL;--> statement-breakpoint
+UPDATE "users" SET "role" = 'admin' WHERE "is_admin" = true;
\ No newline at end of file
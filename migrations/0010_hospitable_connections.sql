@@ -0,0 +1,11 @@
+CREATE TABLE "hospitable_connections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"customer_id" text NOT NULL,
+	"status" text DEFAULT 'connected' NOT NULL,
+	"last_event" text,
+	"connected_at" timestamp,
+	"disconnected_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "hospitable_connections_customer_id_unique" UNIQUE("customer_id")
+);
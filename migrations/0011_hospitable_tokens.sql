@@ -0,0 +1,5 @@
+ALTER TABLE "hospitable_connections" ADD COLUMN "access_token" text;--> statement-breakpoint
+ALTER TABLE "hospitable_connections" ADD COLUMN "refresh_token" text;--> statement-breakpoint
+ALTER TABLE "hospitable_connections" ADD COLUMN "token_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "hospitable_connections" ADD COLUMN "scopes" text[];--> statement-breakpoint
+ALTER TABLE "hospitable_connections" ADD COLUMN "last_synced_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "job_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_type" text NOT NULL,
+	"target_id" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"trigger" text DEFAULT 'schedule' NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"started_at" timestamp DEFAULT now(),
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "job_runs_job_target_idx" ON "job_runs" USING btree ("job_type","target_id","started_at");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "queue_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"group_key" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_by" text,
+	"progress" jsonb,
+	"result" jsonb,
+	"last_error" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "rate_limit_buckets" (
+	"key" text PRIMARY KEY NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "queue_jobs_status_run_at_idx" ON "queue_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "queue_jobs_group_key_idx" ON "queue_jobs" USING btree ("group_key");
\ No newline at end of file
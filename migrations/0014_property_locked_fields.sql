@@ -0,0 +1 @@
+ALTER TABLE "properties" ADD COLUMN "locked_fields" text[];
\ No newline at end of file
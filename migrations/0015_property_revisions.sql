@@ -0,0 +1,11 @@
+CREATE TABLE "property_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"changes" jsonb NOT NULL,
+	"user_id" integer,
+	"source" text DEFAULT 'system' NOT NULL,
+	"restored_from_id" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "property_revisions_property_idx" ON "property_revisions" USING btree ("property_id","created_at");
\ No newline at end of file
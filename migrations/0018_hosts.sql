@@ -0,0 +1,33 @@
+CREATE TABLE "hosts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"slug" text NOT NULL,
+	"display_name" text NOT NULL,
+	"bio" text,
+	"avatar_url" text,
+	"languages" text[],
+	"response_rate" integer,
+	"joined_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "hosts_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "hosts_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "hospitable_connections" ADD COLUMN "host_id" integer;--> statement-breakpoint
+INSERT INTO "hosts" ("user_id", "slug", "display_name", "joined_at")
+SELECT "id",
+  trim(both '-' from regexp_replace(lower(coalesce("full_name", "username")), '[^a-z0-9]+', '-', 'g')) || '-' || "id",
+  coalesce("full_name", "username"),
+  coalesce("created_at", now())
+FROM "users"
+WHERE "role" = 'host' OR "id" IN (SELECT "host_id" FROM "properties");--> statement-breakpoint
+UPDATE "hospitable_connections" SET "host_id" = "hosts"."id"
+FROM "hosts"
+WHERE "hosts"."user_id" = (
+  SELECT "properties"."host_id" FROM "properties"
+  WHERE "properties"."platform_id" LIKE "hospitable_connections"."customer_id" || ':%'
+    OR "properties"."platform_id" LIKE "hospitable_connections"."customer_id" || '/%'
+  ORDER BY "properties"."created_at"
+  LIMIT 1
+);
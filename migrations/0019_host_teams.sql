@@ -0,0 +1,18 @@
+CREATE TABLE "host_team_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"host_id" integer NOT NULL,
+	"user_id" integer,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"property_ids" integer[],
+	"invite_token_hash" text NOT NULL,
+	"invited_by" integer,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "host_team_members_invite_token_hash_unique" UNIQUE("invite_token_hash")
+);
+--> statement-breakpoint
+CREATE INDEX "host_team_members_host_idx" ON "host_team_members" USING btree ("host_id");--> statement-breakpoint
+CREATE INDEX "host_team_members_user_idx" ON "host_team_members" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,68 @@
+// audit-log.ts - Record who changed what through the API.
+// Mutating routes call recordAuditEvent once the change is stored; the entries are
+// browsable by admins under /api/admin/audit-log.
+
+import type { Request } from 'express';
+import { storage } from './storage-factory';
+
+export interface AuditEvent {
+  action: string; // "<entity>.<verb>", e.g. property.update
+  entityType: string;
+  entityId?: string | number | null;
+  before?: unknown; // The entity before the change, if it existed
+  after?: unknown; // The entity (or request data) after the change
+}
+
+// Never copied into the log
+const SECRET_FIELDS = new Set([
+  'password',
+  'accessToken',
+  'refreshToken',
+  'access_token',
+  'refresh_token',
+  'exportToken',
+  'clientSecret',
+  'client_secret',
+]);
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== 'object') return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, SECRET_FIELDS.has(key) ? '[redacted]' : redactSecrets(field)])
+  );
+}
+
+// Plain JSON copy of the data (dates as ISO strings), wrapped when it isn't an object
+function toAuditData(data: unknown): Record<string, unknown> | null {
+  if (data === undefined || data === null) return null;
+
+  const plain = redactSecrets(JSON.parse(JSON.stringify(data)));
+  return plain && typeof plain === 'object' && !Array.isArray(plain)
+    ? plain as Record<string, unknown>
+    : { value: plain };
+}
+
+/**
+ * Add an entry to the audit log.
+ * Failures are logged and swallowed so they never undo or fail the change being audited.
+ *
+ * @param req The request that made the change (actor and IP), or null for webhooks and background jobs
+ */
+export async function recordAuditEvent(req: Request | null, event: AuditEvent): Promise<void> {
+  try {
+    await storage.createAuditLogEntry({
+      actorId: req?.user?.id ?? null,
+      actorRole: req?.user?.role ?? null,
+      ip: req?.ip ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId === undefined || event.entityId === null ? null : String(event.entityId),
+      before: toAuditData(event.before),
+      after: toAuditData(event.after),
+    });
+  } catch (error) {
+    console.error(`Could not record audit event ${event.action}:`, error);
+  }
+}
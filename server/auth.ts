@@ -0,0 +1,188 @@
+// auth.ts - Username/password login with passport and server-side sessions
+
+import type { Express, NextFunction, Request, Response } from 'express';
+import session from 'express-session';
+import passport from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
+import { z } from 'zod';
+import { loginSchema, registerUserSchema, resetPasswordSchema, type PublicUser, type User as SelectUser } from '@shared/schema';
+import { storage } from './storage-factory';
+import { recordAuditEvent } from './audit-log';
+import { PasswordResetError, resetPasswordWithToken } from './password-reset';
+import { hashPassword, verifyPassword } from './utils/password';
+import { strictRateLimiter } from './utils/rateLimiter';
+import { sendUnauthenticated } from './utils/authorization';
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    hospitableToken?: {
+      access_token: string;
+      refresh_token?: string;
+      expires_in: number;
+      expires_at: string;
+      [key: string]: unknown;
+    };
+  }
+}
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Strip the password hash before a user leaves the server
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  console.warn('SESSION_SECRET is not set - using an insecure development secret');
+  return 'staydirectly-dev-session-secret';
+}
+
+/**
+ * Mount sessions and passport, and register the /api/auth routes.
+ * Must run before any route that reads req.user or req.session.
+ */
+export function setupAuth(app: Express) {
+  const isProduction = process.env.NODE_ENV === 'production';
+  if (isProduction) {
+    // Secure cookies behind the hosting proxy
+    app.set('trust proxy', 1);
+  }
+
+  app.use(session({
+    secret: getSessionSecret(),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: isProduction,
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false, { message: 'Invalid username or password' });
+      }
+      if (user.suspendedAt) {
+        return done(null, false, { message: 'This account has been suspended' });
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted or suspended user simply ends the session
+      const user = await storage.getUser(id);
+      done(null, user && !user.suspendedAt ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/auth/register', strictRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userData = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: 'Username is already taken' });
+      }
+      if (userData.email && await storage.getUserByEmail(userData.email)) {
+        return res.status(409).json({ message: 'An account with this email already exists' });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid registration data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to register' });
+    }
+  });
+
+  app.post('/api/auth/login', strictRateLimiter, (req: Request, res: Response, next: NextFunction) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid login data', errors: parsed.error.errors });
+    }
+
+    passport.authenticate('local', (error: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || 'Invalid username or password' });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Set a new password with a link an admin issued
+  app.post('/api/auth/reset-password', strictRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const user = await resetPasswordWithToken(token, password);
+      await recordAuditEvent(req, { action: 'user.password_reset', entityType: 'user', entityId: user.id });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid reset data', errors: error.errors });
+      }
+      if (error instanceof PasswordResetError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to reset password' });
+    }
+  });
+
+  app.post('/api/auth/logout', (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get('/api/auth/me', (req: Request, res: Response) => {
+    if (!req.user) {
+      return sendUnauthenticated(res);
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
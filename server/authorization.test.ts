@@ -0,0 +1,170 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NextFunction, Request, Response } from 'express';
+import type { TeamRole, User, UserRole } from '@shared/schema';
+import { storage } from './storage-factory';
+import {
+  canManageProperty,
+  getPropertyAccessScope,
+  hasPropertyPermission,
+  hasRole,
+  requirePropertyPermission,
+  requireRole,
+} from './utils/authorization';
+import { getAdminOnlyPropertyFields, omitAdminOnlyPropertyFields } from './utils/property-helpers';
+
+let nextUser = 1;
+async function user(role: UserRole): Promise<User> {
+  return await storage.createUser({ username: `${role}-${nextUser++}`, password: 'unused', role });
+}
+
+// A host account owning the given sample properties
+async function hostOf(...propertyIds: number[]) {
+  const account = await user('host');
+  const host = await storage.createHost({ userId: account.id, slug: `host-${account.id}`, displayName: `Host ${account.id}` });
+  for (const propertyId of propertyIds) {
+    await storage.updateProperty(propertyId, { hostId: account.id });
+  }
+  return { account, host };
+}
+
+async function property(id: number) {
+  const found = await storage.getProperty(id);
+  assert.ok(found, `sample property ${id} exists`);
+  return found;
+}
+
+// Invites a user to a host's team; the invite only counts once accepted
+async function joinTeam(hostId: number, member: User, role: TeamRole, propertyIds: number[] | null = null, accept = true) {
+  const invite = await storage.createTeamMember({
+    hostId,
+    email: `${member.username}@example.com`,
+    role,
+    propertyIds,
+    inviteTokenHash: `hash-${member.id}-${hostId}`,
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+  if (accept) await storage.acceptTeamInvite(invite.id, member.id);
+}
+
+// Runs a middleware against a fake request and reports how it answered
+async function run(
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  currentUser: User | undefined,
+  params: Record<string, string> = {}
+) {
+  const outcome: { status?: number; body?: unknown; next: boolean; locals: Record<string, any> } = { next: false, locals: {} };
+  const req = { user: currentUser, params, isAuthenticated: () => !!currentUser } as unknown as Request;
+  const res = {
+    locals: outcome.locals,
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      outcome.body = body;
+      return this;
+    },
+  } as unknown as Response;
+  await middleware(req, res, () => {
+    outcome.next = true;
+  });
+  return outcome;
+}
+
+test('hasRole and canManageProperty follow the role and the property host', async () => {
+  const [guest, admin] = [await user('guest'), await user('admin')];
+  const { account: host } = await hostOf(1);
+  const { account: otherHost } = await hostOf();
+  const listing = await property(1);
+
+  assert.equal(hasRole(undefined, 'guest', 'host', 'admin'), false);
+  assert.equal(hasRole(guest, 'host', 'admin'), false);
+  assert.equal(hasRole(host, 'host', 'admin'), true);
+
+  assert.equal(canManageProperty(undefined, listing), false);
+  assert.equal(canManageProperty(admin, listing), true);
+  assert.equal(canManageProperty(host, listing), true);
+  assert.equal(canManageProperty(otherHost, listing), false);
+  // A guest with a matching ID still isn't a host
+  assert.equal(canManageProperty({ id: host.id, role: 'guest' }, listing), false);
+});
+
+test('team members get what their role grants on their host properties only', async () => {
+  const { host } = await hostOf(2, 3);
+  await hostOf(4);
+  const [manager, coHost, viewer, invited] = [await user('guest'), await user('guest'), await user('guest'), await user('guest')];
+  await joinTeam(host.id, manager, 'manager');
+  // Scoped to property 2; property 4 isn't the host's, so listing it grants nothing
+  await joinTeam(host.id, coHost, 'co_host', [2, 4]);
+  await joinTeam(host.id, viewer, 'viewer');
+  await joinTeam(host.id, invited, 'owner', null, false);
+
+  const [two, three, four] = [await property(2), await property(3), await property(4)];
+
+  assert.equal(await hasPropertyPermission(manager, two, 'property.edit', 'pricing.manage'), true);
+  assert.equal(await hasPropertyPermission(manager, three, 'property.edit'), true);
+  assert.equal(await hasPropertyPermission(manager, two, 'property.delete'), false);
+  assert.equal(await hasPropertyPermission(manager, four, 'booking.view'), false);
+
+  assert.equal(await hasPropertyPermission(coHost, two, 'calendar.manage', 'booking.manage'), true);
+  assert.equal(await hasPropertyPermission(coHost, two, 'property.edit'), false);
+  assert.equal(await hasPropertyPermission(coHost, three, 'calendar.view'), false);
+  assert.equal(await hasPropertyPermission(coHost, four, 'calendar.view'), false);
+
+  assert.equal(await hasPropertyPermission(viewer, two, 'calendar.view', 'booking.view'), true);
+  assert.equal(await hasPropertyPermission(viewer, two, 'booking.manage'), false);
+
+  assert.equal(await hasPropertyPermission(invited, two, 'booking.view'), false, 'an unaccepted invite grants nothing');
+
+  assert.deepEqual(await getPropertyAccessScope(coHost), { hostIds: [coHost.id], propertyIds: [2] });
+  assert.equal(await getPropertyAccessScope(await user('admin')), undefined);
+});
+
+test('requireRole answers 401 without a login and 403 for other roles', async () => {
+  const hostsOnly = requireRole('host', 'admin');
+
+  assert.equal((await run(hostsOnly, undefined)).status, 401);
+  assert.deepEqual((await run(hostsOnly, await user('guest'))).body, { message: 'Forbidden' });
+  assert.equal((await run(hostsOnly, await user('host'))).next, true);
+});
+
+test('requirePropertyPermission checks the property from the route and hands it on', async () => {
+  const { account: host } = await hostOf(5);
+  const editProperty = requirePropertyPermission('property.edit');
+
+  assert.equal((await run(editProperty, undefined, { id: '5' })).status, 401);
+  assert.equal((await run(editProperty, await user('host'), { id: '5' })).status, 403);
+  assert.equal((await run(editProperty, host, { id: '9999' })).status, 404);
+
+  const allowed = await run(editProperty, host, { id: '5' });
+  assert.equal(allowed.next, true);
+  assert.equal(allowed.locals.property?.id, 5);
+});
+
+test('only whitelisted property fields are left to hosts', () => {
+  const update = {
+    name: 'Sea view loft',
+    price: 180,
+    status: 'inactive',
+    lockedFields: ['name'],
+    bookingWidgetHtml: '<div></div>',
+    isFeatured: true,
+    isActive: true,
+    isVerified: true,
+    hostId: 7,
+    platformId: 'customer:listing',
+    rating: 5,
+  };
+
+  assert.deepEqual(getAdminOnlyPropertyFields(update), ['isFeatured', 'isActive', 'isVerified', 'hostId', 'platformId', 'rating']);
+  // Creating a property lets hosts name themselves as its host
+  assert.deepEqual(getAdminOnlyPropertyFields(update, ['hostId']), ['isFeatured', 'isActive', 'isVerified', 'platformId', 'rating']);
+  assert.deepEqual(omitAdminOnlyPropertyFields(update), {
+    name: 'Sea view loft',
+    price: 180,
+    status: 'inactive',
+    lockedFields: ['name'],
+    bookingWidgetHtml: '<div></div>',
+  });
+});
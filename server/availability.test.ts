@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertBooking } from '@shared/schema';
+import { storage } from './storage-factory';
+import {
+  AvailabilityConflictError,
+  MAX_STAY_NIGHTS,
+  addDays,
+  getUnavailableDates,
+  rangesOverlap,
+  validateStayLength,
+} from './utils/availability-helpers';
+
+function reservation(propertyId: number, checkIn: string, checkOut: string, guestName = 'Ada Guest'): InsertBooking {
+  return { propertyId, guestName, checkIn, checkOut, status: 'pending' };
+}
+
+test('stays that only share a changeover day do not overlap', () => {
+  assert.equal(rangesOverlap('2033-01-01', '2033-01-05', '2033-01-05', '2033-01-08'), false);
+  assert.equal(rangesOverlap('2033-01-01', '2033-01-05', '2033-01-04', '2033-01-08'), true);
+  assert.equal(rangesOverlap('2033-01-01', '2033-01-10', '2033-01-03', '2033-01-04'), true);
+});
+
+test('a booking holding any of the nights is refused, back-to-back stays are not', async () => {
+  await storage.createBooking(reservation(1, '2033-02-10', '2033-02-14'));
+
+  await assert.rejects(storage.createBooking(reservation(1, '2033-02-13', '2033-02-16')), AvailabilityConflictError);
+  await assert.rejects(storage.createBooking(reservation(1, '2033-02-08', '2033-02-20')), AvailabilityConflictError);
+
+  const before = await storage.createBooking(reservation(1, '2033-02-07', '2033-02-10'));
+  const after = await storage.createBooking(reservation(1, '2033-02-14', '2033-02-16'));
+  assert.equal(before.status, 'pending');
+  assert.equal(after.status, 'pending');
+});
+
+test('inquiries and cancelled bookings do not hold nights', async () => {
+  await storage.createBooking({ ...reservation(1, '2033-03-01', '2033-03-05'), status: 'inquiry' });
+  const cancelled = await storage.createBooking(reservation(1, '2033-03-01', '2033-03-05'));
+  await storage.updateBookingStatus(cancelled.id, 'cancelled');
+
+  const booking = await storage.createBooking(reservation(1, '2033-03-02', '2033-03-04'));
+  assert.equal(booking.status, 'pending');
+});
+
+test('concurrent bookings for the same nights let exactly one through', async () => {
+  const attempts = await Promise.allSettled(
+    ['Ada', 'Grace', 'Edsger', 'Barbara'].map(guest => storage.createBooking(reservation(2, '2033-04-01', '2033-04-04', guest)))
+  );
+
+  const created = attempts.filter(attempt => attempt.status === 'fulfilled');
+  const refused = attempts.filter(
+    (attempt): attempt is PromiseRejectedResult => attempt.status === 'rejected'
+  );
+  assert.equal(created.length, 1);
+  assert.equal(refused.length, 3);
+  for (const attempt of refused) {
+    assert.ok(attempt.reason instanceof AvailabilityConflictError);
+  }
+
+  const held = await storage.getBookings({ propertyId: 2, from: '2033-04-01', to: '2033-04-04' });
+  assert.equal(held.filter(booking => booking.status === 'pending').length, 1);
+});
+
+test('moving a booking onto held nights is refused, moving it within its own nights is not', async () => {
+  await storage.createBooking(reservation(2, '2033-05-10', '2033-05-12'));
+  const booking = await storage.createBooking(reservation(2, '2033-05-01', '2033-05-05'));
+
+  await assert.rejects(storage.updateBooking(booking.id, { checkOut: '2033-05-11' }), AvailabilityConflictError);
+
+  const shortened = await storage.updateBooking(booking.id, { checkIn: '2033-05-02' });
+  assert.equal(shortened?.checkIn, '2033-05-02');
+});
+
+test('blocked nights refuse bookings, and manual blocks refuse booked nights', async () => {
+  await storage.createAvailabilityBlock({ propertyId: 3, startDate: '2033-06-10', endDate: '2033-06-15', source: 'manual' });
+  await assert.rejects(storage.createBooking(reservation(3, '2033-06-14', '2033-06-16')), AvailabilityConflictError);
+
+  await storage.createBooking(reservation(3, '2033-06-20', '2033-06-25'));
+  await assert.rejects(
+    storage.createAvailabilityBlock(
+      { propertyId: 3, startDate: '2033-06-24', endDate: '2033-06-26', source: 'manual' },
+      { rejectBookedNights: true }
+    ),
+    AvailabilityConflictError
+  );
+
+  // Imported calendars describe bookings taken elsewhere, so they are stored regardless
+  const imported = await storage.createAvailabilityBlock({
+    propertyId: 3, startDate: '2033-06-24', endDate: '2033-06-26', source: 'ical', externalUid: 'elsewhere',
+  });
+  assert.equal(imported.source, 'ical');
+});
+
+test('getUnavailableDates lists held and blocked nights within the range', async () => {
+  const [bookings, blocks] = await Promise.all([
+    storage.getBookings({ propertyId: 3, from: '2033-06-08', to: '2033-06-22' }),
+    storage.getAvailabilityBlocks(3, '2033-06-08', '2033-06-22'),
+  ]);
+
+  assert.deepEqual(getUnavailableDates('2033-06-08', '2033-06-22', bookings, blocks), [
+    '2033-06-10', '2033-06-11', '2033-06-12', '2033-06-13', '2033-06-14',
+    '2033-06-20', '2033-06-21',
+  ]);
+});
+
+test('validateStayLength enforces the minimum, the maximum and the overall cap', () => {
+  const property = { minStay: 2, maxStay: null };
+
+  assert.equal(validateStayLength(property, '2033-07-01', '2033-07-01'), 'Check-out must be after check-in');
+  assert.equal(validateStayLength(property, '2033-07-01', '2033-07-02'), 'Minimum stay is 2 nights');
+  assert.equal(validateStayLength(property, '2033-07-01', '2033-07-03'), null);
+  assert.equal(validateStayLength({ minStay: 1, maxStay: 7 }, '2033-07-01', '2033-07-09'), 'Maximum stay is 7 nights');
+  assert.equal(validateStayLength(property, '2033-07-01', addDays('2033-07-01', MAX_STAY_NIGHTS)), null);
+  assert.equal(
+    validateStayLength(property, '2033-07-01', addDays('2033-07-01', MAX_STAY_NIGHTS + 1)),
+    `Maximum stay is ${MAX_STAY_NIGHTS} nights`
+  );
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bookingStatuses, insertBookingSchema, type BookingStatus } from '@shared/schema';
+import { storage } from './storage-factory';
+import {
+  BOOKING_STATUS_TRANSITIONS,
+  canTransitionBooking,
+  getAllowedBookingTransitions,
+  mapHospitableBookingStatus,
+} from './utils/booking-helpers';
+
+// Every move the lifecycle allows; anything else must be refused
+const LEGAL_TRANSITIONS: [BookingStatus, BookingStatus][] = [
+  ['inquiry', 'pending'],
+  ['inquiry', 'cancelled'],
+  ['pending', 'confirmed'],
+  ['pending', 'cancelled'],
+  ['confirmed', 'checked_in'],
+  ['confirmed', 'cancelled'],
+  ['checked_in', 'completed'],
+];
+
+function isLegal(from: BookingStatus, to: BookingStatus): boolean {
+  return LEGAL_TRANSITIONS.some(([legalFrom, legalTo]) => legalFrom === from && legalTo === to);
+}
+
+test('canTransitionBooking allows the lifecycle moves and refuses every other pair', () => {
+  for (const from of bookingStatuses) {
+    for (const to of bookingStatuses) {
+      assert.equal(canTransitionBooking(from, to), isLegal(from, to), `${from} -> ${to}`);
+    }
+  }
+});
+
+test('completed and cancelled bookings are final', () => {
+  assert.deepEqual(getAllowedBookingTransitions('completed'), []);
+  assert.deepEqual(getAllowedBookingTransitions('cancelled'), []);
+  // A guest who checked in can no longer cancel
+  assert.equal(canTransitionBooking('checked_in', 'cancelled'), false);
+  assert.deepEqual(Object.keys(BOOKING_STATUS_TRANSITIONS).sort(), [...bookingStatuses].sort());
+});
+
+test('a booking walked through the lifecycle is stamped when confirmed and cancelled', async () => {
+  const booking = await storage.createBooking({
+    propertyId: 1,
+    guestName: 'Lifecycle Guest',
+    checkIn: '2032-01-10',
+    checkOut: '2032-01-12',
+  });
+  assert.equal(booking.status, 'inquiry');
+  assert.equal(booking.confirmedAt, null);
+
+  let current = booking;
+  for (const next of ['pending', 'confirmed', 'checked_in', 'completed'] as const) {
+    assert.ok(canTransitionBooking(current.status, next), `${current.status} -> ${next}`);
+    current = (await storage.updateBookingStatus(current.id, next))!;
+    assert.equal(current.status, next);
+  }
+  assert.ok(current.confirmedAt, 'confirmedAt is kept after confirmation');
+  assert.equal(current.cancelledAt, null);
+
+  const cancelled = (await storage.updateBookingStatus(
+    (await storage.createBooking({ propertyId: 1, guestName: 'Cancelling Guest', checkIn: '2032-02-10', checkOut: '2032-02-12' })).id,
+    'cancelled'
+  ))!;
+  assert.ok(cancelled.cancelledAt);
+  assert.equal(cancelled.confirmedAt, null);
+});
+
+test('Hospitable reservation statuses map onto the lifecycle', () => {
+  assert.equal(mapHospitableBookingStatus('request'), 'inquiry');
+  assert.equal(mapHospitableBookingStatus('accepted'), 'confirmed');
+  assert.equal(mapHospitableBookingStatus('checkedin'), 'checked_in');
+  assert.equal(mapHospitableBookingStatus('checked_out'), 'completed');
+  assert.equal(mapHospitableBookingStatus('Declined'), 'cancelled');
+  assert.equal(mapHospitableBookingStatus(undefined), 'pending');
+});
+
+test('insertBookingSchema rejects dates that do not exist', () => {
+  const booking = { propertyId: 1, guestName: 'Ada Guest', checkIn: '2032-02-28', checkOut: '2032-03-01' };
+
+  assert.equal(insertBookingSchema.safeParse(booking).success, true);
+  assert.equal(insertBookingSchema.safeParse({ ...booking, checkIn: '2031-02-29' }).success, false);
+  assert.equal(insertBookingSchema.safeParse({ ...booking, checkOut: '2032-02-30' }).success, false);
+  assert.equal(insertBookingSchema.safeParse({ ...booking, checkIn: '2032-13-01' }).success, false);
+});
@@ -0,0 +1,175 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Property } from '@shared/schema';
+import { storage } from './storage-factory';
+import { fetchCalendarFeed, syncPropertyCalendar, type CalendarFeedFetcher } from './calendar-sync';
+import { parseICalendar } from './utils/ical-parser';
+
+const FEED_URL = 'https://calendar.example.com/listing.ics';
+
+function calendar(...events: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+}
+
+function event(uid: string, start: string, end: string, ...extra: string[]): string {
+  return ['BEGIN:VEVENT', `UID:${uid}`, `DTSTART;VALUE=DATE:${start}`, `DTEND;VALUE=DATE:${end}`, ...extra, 'END:VEVENT'].join('\r\n');
+}
+
+// Serves whatever feed the test last set, without touching the network
+function stubFeed(): { fetchFeed: CalendarFeedFetcher; urls: string[]; set(feed: string): void } {
+  let current = calendar();
+  const urls: string[] = [];
+  return {
+    fetchFeed: async (url) => {
+      urls.push(url);
+      return current;
+    },
+    urls,
+    set(feed) {
+      current = feed;
+    },
+  };
+}
+
+async function syncedProperty(id: number): Promise<Property> {
+  const property = await storage.getProperty(id);
+  assert.ok(property, `sample property ${id} exists`);
+  return { ...property, calendarSyncUrl: FEED_URL };
+}
+
+async function icalBlocks(propertyId: number) {
+  return (await storage.getAvailabilityBlocks(propertyId))
+    .filter(block => block.source === 'ical')
+    .map(block => ({ uid: block.externalUid, start: block.startDate, end: block.endDate }));
+}
+
+test('parseICalendar turns events into whole-night ranges', () => {
+  const events = parseICalendar(calendar(
+    event('all-day', '20300101', '20300104', 'SUMMARY:Reserved\\, Airbnb'),
+    [
+      'BEGIN:VEVENT',
+      'UID:timed',
+      'DTSTART:20300110T150000Z',
+      'DURATION:P2DT3H',
+      'BEGIN:VALARM',
+      'UID:alarm-uid-is-ignored',
+      'END:VALARM',
+      'END:VEVENT',
+    ].join('\r\n'),
+    ['BEGIN:VEVENT', 'UID:no-end', 'DTSTART;VALUE=DATE:20300120', 'END:VEVENT'].join('\r\n'),
+    // Folded lines continue on the next line after a space
+    ['BEGIN:VEVENT', 'UID:fol', ' ded', 'DTSTART;VALUE=DATE:20300201', 'DTEND;VALUE=DATE:20300202', 'END:VEVENT'].join('\r\n'),
+  ));
+
+  assert.deepEqual(events.map(({ uid, start, end }) => ({ uid, start, end })), [
+    { uid: 'all-day', start: '2030-01-01', end: '2030-01-04' },
+    { uid: 'timed', start: '2030-01-10', end: '2030-01-13' },
+    { uid: 'no-end', start: '2030-01-20', end: '2030-01-21' },
+    { uid: 'folded', start: '2030-02-01', end: '2030-02-02' },
+  ]);
+  assert.equal(events[0].summary, 'Reserved, Airbnb');
+});
+
+test('parseICalendar skips cancelled events and events without a UID or start', () => {
+  const events = parseICalendar(calendar(
+    event('kept', '20300301', '20300303'),
+    event('cancelled', '20300305', '20300307', 'STATUS:CANCELLED'),
+    ['BEGIN:VEVENT', 'DTSTART;VALUE=DATE:20300310', 'END:VEVENT'].join('\r\n'),
+    ['BEGIN:VEVENT', 'UID:no-start', 'END:VEVENT'].join('\r\n'),
+  ));
+
+  assert.deepEqual(events.map(e => e.uid), ['kept']);
+});
+
+test('syncPropertyCalendar imports a feed through the injected fetcher', async () => {
+  const property = await syncedProperty(1);
+  const feed = stubFeed();
+  feed.set(calendar(event('a', '20300401', '20300404'), event('b', '20300410', '20300412')));
+
+  const result = await syncPropertyCalendar(property, feed.fetchFeed);
+
+  assert.deepEqual(feed.urls, [FEED_URL]);
+  assert.deepEqual(
+    { created: result.created, updated: result.updated, removed: result.removed, unchanged: result.unchanged, eventCount: result.eventCount },
+    { created: 2, updated: 0, removed: 0, unchanged: 0, eventCount: 2 }
+  );
+  assert.deepEqual(await icalBlocks(property.id), [
+    { uid: 'a', start: '2030-04-01', end: '2030-04-04' },
+    { uid: 'b', start: '2030-04-10', end: '2030-04-12' },
+  ]);
+
+  const status = await storage.getPropertyCalendar(property.id);
+  assert.equal(status?.importStatus, 'success');
+  assert.equal(status?.importedEventCount, 2);
+});
+
+test('syncPropertyCalendar dedupes by UID across and within imports', async () => {
+  const property = await syncedProperty(2);
+  const feed = stubFeed();
+  // The same UID twice in one feed is one event
+  feed.set(calendar(event('a', '20300501', '20300503'), event('a', '20300501', '20300503'), event('b', '20300510', '20300511')));
+
+  const first = await syncPropertyCalendar(property, feed.fetchFeed);
+  assert.equal(first.created, 2);
+  assert.equal(first.eventCount, 2);
+
+  const second = await syncPropertyCalendar(property, feed.fetchFeed);
+  assert.deepEqual(
+    { created: second.created, updated: second.updated, removed: second.removed, unchanged: second.unchanged },
+    { created: 0, updated: 0, removed: 0, unchanged: 2 }
+  );
+  assert.equal((await icalBlocks(property.id)).length, 2);
+
+  // A moved event replaces its block instead of adding another
+  feed.set(calendar(event('a', '20300502', '20300505'), event('b', '20300510', '20300511')));
+  const moved = await syncPropertyCalendar(property, feed.fetchFeed);
+  assert.equal(moved.updated, 1);
+  assert.equal(moved.unchanged, 1);
+  assert.deepEqual(await icalBlocks(property.id), [
+    { uid: 'a', start: '2030-05-02', end: '2030-05-05' },
+    { uid: 'b', start: '2030-05-10', end: '2030-05-11' },
+  ]);
+});
+
+test('syncPropertyCalendar removes blocks of cancelled and deleted events', async () => {
+  const property = await syncedProperty(3);
+  const feed = stubFeed();
+  feed.set(calendar(event('a', '20300601', '20300603'), event('b', '20300610', '20300612'), event('c', '20300620', '20300622')));
+  await syncPropertyCalendar(property, feed.fetchFeed);
+
+  feed.set(calendar(event('a', '20300601', '20300603'), event('b', '20300610', '20300612', 'STATUS:CANCELLED')));
+  const result = await syncPropertyCalendar(property, feed.fetchFeed);
+
+  assert.equal(result.removed, 2);
+  assert.equal(result.unchanged, 1);
+  assert.deepEqual(await icalBlocks(property.id), [{ uid: 'a', start: '2030-06-01', end: '2030-06-03' }]);
+});
+
+test('syncPropertyCalendar keeps existing blocks and records the error when the feed is not iCalendar', async () => {
+  const property = await syncedProperty(4);
+  const feed = stubFeed();
+  feed.set(calendar(event('a', '20300701', '20300703')));
+  await syncPropertyCalendar(property, feed.fetchFeed);
+
+  feed.set('<html>Not found</html>');
+  await assert.rejects(syncPropertyCalendar(property, feed.fetchFeed), /not an iCalendar feed/);
+
+  assert.equal((await icalBlocks(property.id)).length, 1);
+  const status = await storage.getPropertyCalendar(property.id);
+  assert.equal(status?.importStatus, 'error');
+  assert.match(status?.importError ?? '', /not an iCalendar feed/);
+});
+
+test('fetchCalendarFeed refuses non-http(s) URLs and private hosts', async () => {
+  for (const url of [
+    'file:///etc/passwd',
+    'ftp://calendar.example.com/feed.ics',
+    'http://127.0.0.1/feed.ics',
+    'http://[::1]/feed.ics',
+    'http://169.254.169.254/latest/meta-data',
+    'webcal://10.0.0.5/feed.ics',
+    'http://localhost/feed.ics',
+  ]) {
+    await assert.rejects(fetchCalendarFeed(url), { name: 'CalendarFeedUrlError' }, url);
+  }
+});
@@ -0,0 +1,237 @@
+// calendar-sync.ts - Imports iCal feeds (properties.calendarSyncUrl) as availability blocks
+
+import dns from 'dns/promises';
+import net from 'net';
+import axios from 'axios';
+import type { AvailabilityBlock, Property } from '@shared/schema';
+import { storage } from './storage-factory';
+import { parseICalendar, type ICalEvent } from './utils/ical-parser';
+
+/**
+ * Loads the raw .ics text for a feed URL.
+ * Swappable so the importer can run against fixtures or a stub server.
+ */
+export type CalendarFeedFetcher = (url: string) => Promise<string>;
+
+export interface CalendarSyncResult {
+  propertyId: number;
+  created: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  eventCount: number;
+}
+
+const FEED_TIMEOUT_MS = 15000;
+
+// Properties currently being synced, so scheduled and manual runs don't interleave
+const syncInProgress = new Set<number>();
+
+const MAX_FEED_REDIRECTS = 5;
+
+/**
+ * Thrown when a feed URL isn't public HTTP(S), so the server never fetches its own network
+ */
+export class CalendarFeedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarFeedUrlError';
+  }
+}
+
+// Loopback, private, link-local and other ranges that aren't on the public internet
+const nonPublicNetworks = new net.BlockList();
+nonPublicNetworks.addSubnet('0.0.0.0', 8, 'ipv4');
+nonPublicNetworks.addSubnet('10.0.0.0', 8, 'ipv4');
+nonPublicNetworks.addSubnet('100.64.0.0', 10, 'ipv4');
+nonPublicNetworks.addSubnet('127.0.0.0', 8, 'ipv4');
+nonPublicNetworks.addSubnet('169.254.0.0', 16, 'ipv4');
+nonPublicNetworks.addSubnet('172.16.0.0', 12, 'ipv4');
+nonPublicNetworks.addSubnet('192.0.0.0', 24, 'ipv4');
+nonPublicNetworks.addSubnet('192.168.0.0', 16, 'ipv4');
+nonPublicNetworks.addSubnet('198.18.0.0', 15, 'ipv4');
+nonPublicNetworks.addSubnet('224.0.0.0', 3, 'ipv4'); // Multicast and reserved
+nonPublicNetworks.addAddress('::', 'ipv6');
+nonPublicNetworks.addAddress('::1', 'ipv6');
+nonPublicNetworks.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64
+nonPublicNetworks.addSubnet('fc00::', 7, 'ipv6');
+nonPublicNetworks.addSubnet('fe80::', 10, 'ipv6');
+nonPublicNetworks.addSubnet('ff00::', 8, 'ipv6');
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !nonPublicNetworks.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Check that a feed URL is HTTP(S) and doesn't name a non-public IP address.
+ * Hostnames are checked when they are resolved (see lookupPublicAddress).
+ */
+export function assertPublicFeedUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new CalendarFeedUrlError('Calendar feed URL is not valid');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new CalendarFeedUrlError('Calendar feeds must be http(s) URLs');
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new CalendarFeedUrlError('Calendar feed URL points to a private network');
+  }
+  return parsed;
+}
+
+// Resolves feed hosts for axios, refusing any that resolve to a non-public address.
+// Running on every connection also covers redirects and DNS answers that change after a check.
+async function lookupPublicAddress(hostname: string): Promise<{ address: string; family: number }> {
+  const addresses = await dns.lookup(hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+    throw new CalendarFeedUrlError(`Calendar feed host ${hostname} is not on a public network`);
+  }
+  return addresses[0];
+}
+
+/**
+ * Default fetcher: public HTTP(S) feeds only, including where they redirect to
+ */
+export const fetchCalendarFeed: CalendarFeedFetcher = async (url: string) => {
+  // Some providers hand out webcal:// links for the same HTTPS feed
+  const httpUrl = assertPublicFeedUrl(url.replace(/^webcal:\/\//i, 'https://'));
+  const response = await axios.get<string>(httpUrl.toString(), {
+    responseType: 'text',
+    timeout: FEED_TIMEOUT_MS,
+    headers: { Accept: 'text/calendar' },
+    maxRedirects: MAX_FEED_REDIRECTS,
+    beforeRedirect: (options) => {
+      assertPublicFeedUrl(options.href);
+    },
+    lookup: lookupPublicAddress,
+    proxy: false,
+  });
+  return response.data;
+};
+
+function isSameRange(block: AvailabilityBlock, event: ICalEvent): boolean {
+  return block.startDate === event.start && block.endDate === event.end;
+}
+
+/**
+ * Import one property's iCal feed.
+ * Blocks are matched to events by UID, so re-running the import only applies what changed:
+ * new UIDs are added, moved events are replaced and UIDs missing from the feed are removed.
+ *
+ * @param property The property whose calendarSyncUrl should be imported
+ * @param fetchFeed Loader for the feed text (defaults to public HTTP(S) fetching)
+ */
+export async function syncPropertyCalendar(
+  property: Property,
+  fetchFeed: CalendarFeedFetcher = fetchCalendarFeed
+): Promise<CalendarSyncResult> {
+  if (!property.calendarSyncUrl) {
+    throw new Error(`Property ${property.id} has no calendar sync URL`);
+  }
+  if (syncInProgress.has(property.id)) {
+    throw new Error(`Calendar sync already running for property ${property.id}`);
+  }
+
+  syncInProgress.add(property.id);
+  try {
+    const feed = await fetchFeed(property.calendarSyncUrl);
+    if (!/BEGIN:VCALENDAR/i.test(feed)) {
+      throw new Error('Response is not an iCalendar feed');
+    }
+
+    const events = parseICalendar(feed);
+    const eventsByUid = new Map(events.map(event => [event.uid, event]));
+
+    const existingBlocks = (await storage.getAvailabilityBlocks(property.id))
+      .filter(block => block.source === 'ical');
+    const blocksByUid = new Map(existingBlocks.map(block => [block.externalUid, block]));
+
+    const result: CalendarSyncResult = {
+      propertyId: property.id,
+      created: 0,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+      eventCount: eventsByUid.size,
+    };
+
+    // Remove blocks whose event disappeared from the feed
+    for (const block of existingBlocks) {
+      if (!block.externalUid || !eventsByUid.has(block.externalUid)) {
+        await storage.deleteAvailabilityBlock(block.id);
+        result.removed++;
+      }
+    }
+
+    for (const event of eventsByUid.values()) {
+      const block = blocksByUid.get(event.uid);
+
+      if (block && isSameRange(block, event)) {
+        result.unchanged++;
+        continue;
+      }
+
+      if (block) {
+        await storage.deleteAvailabilityBlock(block.id);
+        result.updated++;
+      } else {
+        result.created++;
+      }
+
+      await storage.createAvailabilityBlock({
+        propertyId: property.id,
+        startDate: event.start,
+        endDate: event.end,
+        source: 'ical',
+        externalUid: event.uid,
+        note: event.summary ?? null,
+      });
+    }
+
+    await storage.upsertPropertyCalendar(property.id, {
+      importStatus: 'success',
+      importError: null,
+      importedEventCount: result.eventCount,
+      lastImportedAt: new Date(),
+    });
+
+    console.log(`Calendar sync for property ${property.id}: ${result.created} created, ${result.updated} updated, ${result.removed} removed, ${result.unchanged} unchanged`);
+    return result;
+  } catch (error: any) {
+    console.error(`Calendar sync failed for property ${property.id}:`, error.message);
+    await storage.upsertPropertyCalendar(property.id, {
+      importStatus: 'error',
+      importError: error.message,
+    });
+    throw error;
+  } finally {
+    syncInProgress.delete(property.id);
+  }
+}
+
+/**
+ * Import the feeds of every active property that has a calendarSyncUrl.
+ * A failing feed is recorded on its property and doesn't stop the others.
+ */
+export async function syncAllCalendars(
+  fetchFeed: CalendarFeedFetcher = fetchCalendarFeed
+): Promise<CalendarSyncResult[]> {
+  const propertiesToSync = await storage.getPropertiesWithCalendarSync();
+  const results: CalendarSyncResult[] = [];
+
+  for (const property of propertiesToSync) {
+    try {
+      results.push(await syncPropertyCalendar(property, fetchFeed));
+    } catch {
+      // Already logged and recorded on the property's calendar status
+    }
+  }
+
+  return results;
+}
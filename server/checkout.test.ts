@@ -0,0 +1,163 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Property } from '@shared/schema';
+import type { CheckoutRequest } from '@shared/pricing';
+import { storage } from './storage-factory';
+import {
+  applyPaymentEvent,
+  cancelBookingPaymentIntent,
+  createCheckoutSession,
+  expireCheckoutHolds,
+  getCheckoutHoldTtlMs,
+} from './checkout';
+import { FakePaymentGateway, type CreatePaymentIntentParams, type PaymentIntent } from './payment-gateway';
+import { AvailabilityConflictError } from './utils/availability-helpers';
+
+async function sampleProperty(id: number): Promise<Property> {
+  const property = await storage.getProperty(id);
+  assert.ok(property, `sample property ${id} exists`);
+  return property;
+}
+
+function stay(checkIn: string, checkOut: string, propertyId: number): CheckoutRequest {
+  return { propertyId, checkIn, checkOut, guests: 1, guestName: 'Ada Guest', guestEmail: 'ada@example.com' };
+}
+
+// Sends a webhook through the fake gateway the way POST /api/payments/webhook does
+async function sendPaymentEvent(gateway: FakePaymentGateway, type: string, paymentIntentId: string) {
+  const event = gateway.parseWebhookEvent(Buffer.from(JSON.stringify({ type, paymentIntentId })), undefined);
+  return await applyPaymentEvent(event, gateway);
+}
+
+// Whether the stay's nights are still held, i.e. another booking for them is refused
+async function nightsHeld(propertyId: number, checkIn: string, checkOut: string): Promise<boolean> {
+  try {
+    const probe = await storage.createBooking({ propertyId, guestName: 'Probe', checkIn, checkOut, status: 'pending' });
+    await storage.updateBookingStatus(probe.id, 'cancelled');
+    return false;
+  } catch (error) {
+    if (error instanceof AvailabilityConflictError) return true;
+    throw error;
+  }
+}
+
+test('a successful payment confirms the held booking', async () => {
+  const property = await sampleProperty(1);
+  const gateway = new FakePaymentGateway();
+
+  const session = await createCheckoutSession(property, stay('2031-01-10', '2031-01-14', property.id), [], gateway);
+
+  const held = await storage.getBooking(session.bookingId);
+  assert.equal(held?.status, 'pending');
+  assert.equal(held?.paymentStatus, 'pending');
+  assert.equal(held?.paymentIntentId, session.paymentIntentId);
+  assert.equal(held?.totalPrice, session.quote.total);
+  assert.equal(gateway.getPaymentIntent(session.paymentIntentId)?.status, 'requires_payment');
+  assert.equal(await nightsHeld(property.id, '2031-01-12', '2031-01-13'), true);
+
+  const confirmed = await sendPaymentEvent(gateway, 'payment_succeeded', session.paymentIntentId);
+  assert.equal(confirmed?.status, 'confirmed');
+  assert.equal(confirmed?.paymentStatus, 'paid');
+  assert.ok(confirmed?.confirmedAt);
+  assert.equal(await nightsHeld(property.id, '2031-01-12', '2031-01-13'), true);
+
+  // Providers redeliver webhooks
+  const redelivered = await sendPaymentEvent(gateway, 'payment_succeeded', session.paymentIntentId);
+  assert.equal(redelivered?.status, 'confirmed');
+});
+
+test('a second checkout for held nights is refused', async () => {
+  const property = await sampleProperty(1);
+  const gateway = new FakePaymentGateway();
+
+  await createCheckoutSession(property, stay('2031-02-01', '2031-02-05', property.id), [], gateway);
+
+  await assert.rejects(
+    createCheckoutSession(property, stay('2031-02-03', '2031-02-06', property.id), [], gateway),
+    AvailabilityConflictError
+  );
+});
+
+test('a failed payment cancels the booking, releases the nights and cancels the intent', async () => {
+  const property = await sampleProperty(2);
+  const gateway = new FakePaymentGateway();
+
+  const session = await createCheckoutSession(property, stay('2031-03-01', '2031-03-04', property.id), [], gateway);
+  const failed = await sendPaymentEvent(gateway, 'payment_failed', session.paymentIntentId);
+
+  assert.equal(failed?.status, 'cancelled');
+  assert.equal(failed?.paymentStatus, 'failed');
+  assert.ok(failed?.cancelledAt);
+  assert.equal(gateway.getPaymentIntent(session.paymentIntentId)?.status, 'cancelled');
+  assert.equal(await nightsHeld(property.id, '2031-03-01', '2031-03-04'), false);
+
+  // The guest can start over for the same nights
+  const retry = await createCheckoutSession(property, stay('2031-03-01', '2031-03-04', property.id), [], gateway);
+  assert.equal((await storage.getBooking(retry.bookingId))?.status, 'pending');
+});
+
+test('a cancelled payment cancels the booking and releases the nights', async () => {
+  const property = await sampleProperty(3);
+  const gateway = new FakePaymentGateway();
+
+  const session = await createCheckoutSession(property, stay('2031-04-01', '2031-04-03', property.id), [], gateway);
+  const cancelled = await sendPaymentEvent(gateway, 'payment_cancelled', session.paymentIntentId);
+
+  assert.equal(cancelled?.status, 'cancelled');
+  assert.equal(cancelled?.paymentStatus, 'failed');
+  assert.equal(await nightsHeld(property.id, '2031-04-01', '2031-04-03'), false);
+});
+
+test('cancelling an unpaid booking cancels its payment intent', async () => {
+  const property = await sampleProperty(4);
+  const gateway = new FakePaymentGateway();
+
+  const session = await createCheckoutSession(property, stay('2031-05-01', '2031-05-03', property.id), [], gateway);
+  // What PATCH /api/bookings/:id/status does when a host cancels
+  const booking = (await storage.getBooking(session.bookingId))!;
+  await storage.updateBookingStatus(booking.id, 'cancelled');
+  await cancelBookingPaymentIntent(booking, gateway);
+
+  assert.equal(gateway.getPaymentIntent(session.paymentIntentId)?.status, 'cancelled');
+  assert.equal(await nightsHeld(property.id, '2031-05-01', '2031-05-03'), false);
+
+  // A payment that clears anyway is recorded but doesn't revive the booking
+  const paidLate = await sendPaymentEvent(gateway, 'payment_succeeded', session.paymentIntentId);
+  assert.equal(paidLate?.status, 'cancelled');
+  assert.equal(paidLate?.paymentStatus, 'paid');
+});
+
+test('holds that are not paid within the TTL expire', async () => {
+  const property = await sampleProperty(5);
+  const gateway = new FakePaymentGateway();
+
+  const session = await createCheckoutSession(property, stay('2031-06-01', '2031-06-05', property.id), [], gateway);
+
+  assert.deepEqual(await expireCheckoutHolds(gateway), [], 'a fresh hold is kept');
+
+  const afterTtl = new Date(Date.now() + getCheckoutHoldTtlMs() + 1000);
+  // Holds left pending by earlier tests expire too
+  const released = (await expireCheckoutHolds(gateway, afterTtl)).find(booking => booking.id === session.bookingId);
+
+  assert.equal(released?.status, 'cancelled');
+  assert.equal(released?.paymentStatus, 'failed');
+  assert.equal(gateway.getPaymentIntent(session.paymentIntentId)?.status, 'cancelled');
+  assert.equal(await nightsHeld(property.id, '2031-06-01', '2031-06-05'), false);
+});
+
+test('the nights are released when the payment intent cannot be created', async () => {
+  const property = await sampleProperty(6);
+  const gateway = new FakePaymentGateway();
+  gateway.createPaymentIntent = async (_params: CreatePaymentIntentParams): Promise<PaymentIntent> => {
+    throw new Error('Gateway unavailable');
+  };
+
+  await assert.rejects(
+    createCheckoutSession(property, stay('2031-07-01', '2031-07-03', property.id), [], gateway),
+    /Gateway unavailable/
+  );
+
+  const [booking] = await storage.getBookings({ propertyId: property.id, from: '2031-07-01', to: '2031-07-03' });
+  assert.equal(booking?.status, 'cancelled');
+  assert.equal(await nightsHeld(property.id, '2031-07-01', '2031-07-03'), false);
+});
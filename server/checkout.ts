@@ -0,0 +1,218 @@
+// checkout.ts - Direct booking checkout: holds the dates, opens a payment intent, settles it from webhooks
+// and releases holds that were never paid
+
+import type { Booking, PricingRule, Property } from '@shared/schema';
+import type { CheckoutRequest, CheckoutSession } from '@shared/pricing';
+import { storage } from './storage-factory';
+import { calculateQuote } from './pricing';
+import { getPaymentGateway, toMinorUnits, type PaymentEvent, type PaymentGateway } from './payment-gateway';
+import { canTransitionBooking } from './utils/booking-helpers';
+
+const DEFAULT_HOLD_MINUTES = 30;
+const DEFAULT_HOLD_SWEEP_INTERVAL_SECONDS = 60;
+
+/**
+ * How long checkout holds a stay's nights while the guest pays.
+ * Comes from CHECKOUT_HOLD_MINUTES (default 30).
+ */
+export function getCheckoutHoldTtlMs(): number {
+  const minutes = parseInt(process.env.CHECKOUT_HOLD_MINUTES || `${DEFAULT_HOLD_MINUTES}`);
+  return (minutes > 0 ? minutes : DEFAULT_HOLD_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Start a checkout for a stay.
+ * The booking is created as 'pending' so the nights are held while the guest pays;
+ * storage throws AvailabilityConflictError if they were taken in the meantime.
+ * Callers are expected to have validated the stay length and guest count.
+ *
+ * @param property The property being booked
+ * @param request Stay and guest details
+ * @param rules The property's pricing rules
+ * @param gateway Payment gateway that will collect the payment
+ */
+export async function createCheckoutSession(
+  property: Property,
+  request: CheckoutRequest,
+  rules: PricingRule[],
+  gateway: PaymentGateway
+): Promise<CheckoutSession> {
+  const quote = calculateQuote(property, request, rules);
+
+  const booking = await storage.createBooking({
+    propertyId: property.id,
+    guestName: request.guestName,
+    guestEmail: request.guestEmail,
+    guestPhone: request.guestPhone ?? null,
+    guests: request.guests,
+    checkIn: request.checkIn,
+    checkOut: request.checkOut,
+    totalPrice: quote.total,
+    currency: quote.currency,
+    status: 'pending',
+    source: 'direct',
+    notes: request.notes ?? null,
+  });
+
+  try {
+    const intent = await gateway.createPaymentIntent({
+      amount: toMinorUnits(quote.total),
+      currency: quote.currency,
+      bookingId: booking.id,
+      propertyId: property.id,
+      description: `${property.title || property.name}: ${request.checkIn} to ${request.checkOut}`,
+      receiptEmail: request.guestEmail,
+    });
+
+    await storage.updateBooking(booking.id, {
+      paymentIntentId: intent.id,
+      paymentStatus: 'pending',
+    });
+
+    return {
+      bookingId: booking.id,
+      gateway: gateway.name,
+      paymentIntentId: intent.id,
+      clientSecret: intent.clientSecret,
+      publishableKey: gateway.publishableKey,
+      quote,
+    };
+  } catch (error) {
+    // Release the held nights if the payment could not be started
+    await storage.updateBookingStatus(booking.id, 'cancelled');
+    throw error;
+  }
+}
+
+/**
+ * Cancel an unpaid checkout booking, freeing its nights, and cancel its payment intent
+ * so the guest can no longer pay for it. Paid and already cancelled bookings are left alone.
+ * A gateway error is logged rather than thrown: the nights are released either way.
+ *
+ * @returns The updated booking
+ */
+export async function releaseCheckoutHold(booking: Booking, gateway: PaymentGateway | null): Promise<Booking> {
+  if (booking.paymentStatus === 'paid' || booking.status === 'cancelled') return booking;
+
+  const updated = await storage.updateBooking(booking.id, {
+    status: 'cancelled',
+    paymentStatus: booking.paymentIntentId ? 'failed' : booking.paymentStatus,
+  });
+  await cancelBookingPaymentIntent(booking, gateway);
+  return updated ?? booking;
+}
+
+/**
+ * Cancel the payment intent of an unpaid booking, e.g. after a host cancels it
+ */
+export async function cancelBookingPaymentIntent(booking: Booking, gateway: PaymentGateway | null): Promise<void> {
+  if (!booking.paymentIntentId || booking.paymentStatus === 'paid' || !gateway) return;
+
+  try {
+    await gateway.cancelPaymentIntent(booking.paymentIntentId);
+  } catch (error) {
+    console.error(`Failed to cancel payment intent ${booking.paymentIntentId} of booking ${booking.id}:`, error);
+  }
+}
+
+/**
+ * Release checkout holds whose guest never paid within the hold TTL.
+ * Only direct bookings with a payment intent are checkout holds; pending bookings
+ * hosts create by hand are not touched.
+ *
+ * @param gateway Gateway the intents were opened with
+ * @param now Reference time (for tests)
+ * @returns The bookings that were released
+ */
+export async function expireCheckoutHolds(
+  gateway: PaymentGateway | null,
+  now: Date = new Date()
+): Promise<Booking[]> {
+  const cutoff = now.getTime() - getCheckoutHoldTtlMs();
+  const stale = (await storage.getBookings({ status: 'pending', source: 'direct' })).filter(booking =>
+    !!booking.paymentIntentId &&
+    booking.paymentStatus !== 'paid' &&
+    !!booking.createdAt &&
+    booking.createdAt.getTime() < cutoff
+  );
+
+  const released: Booking[] = [];
+  for (const booking of stale) {
+    released.push(await releaseCheckoutHold(booking, gateway));
+  }
+  return released;
+}
+
+/**
+ * Run expireCheckoutHolds on an interval.
+ * The interval comes from CHECKOUT_HOLD_SWEEP_INTERVAL_SECONDS (default 60); 0 disables the sweep.
+ *
+ * @returns The timer, or null when disabled
+ */
+export function startCheckoutHoldSweeper(): NodeJS.Timeout | null {
+  const seconds = parseInt(process.env.CHECKOUT_HOLD_SWEEP_INTERVAL_SECONDS || `${DEFAULT_HOLD_SWEEP_INTERVAL_SECONDS}`);
+  if (!seconds || seconds <= 0) {
+    console.log('Checkout hold sweep disabled');
+    return null;
+  }
+
+  console.log(`Checkout hold sweep running every ${seconds} seconds`);
+  const timer = setInterval(() => {
+    expireCheckoutHolds(getPaymentGateway())
+      .then(released => {
+        if (released.length > 0) {
+          console.log(`Released ${released.length} expired checkout hold(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Checkout hold sweep failed:', error);
+      });
+  }, seconds * 1000);
+
+  // Don't keep the process alive just for the sweep
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Apply a payment webhook event to its booking.
+ * Safe to call more than once for the same event.
+ *
+ * - payment_succeeded: marks the booking paid and confirms it
+ * - payment_failed: cancels the booking, frees the nights and cancels the intent;
+ *   the guest starts a new checkout to try again
+ * - payment_cancelled: cancels the booking and frees the nights
+ *
+ * @param event Normalized webhook event
+ * @param gateway Gateway the event came from, used to cancel failed intents
+ * @returns The updated booking, or undefined if the event doesn't match a booking
+ */
+export async function applyPaymentEvent(event: PaymentEvent, gateway: PaymentGateway): Promise<Booking | undefined> {
+  if (event.type === 'ignored' || !event.paymentIntentId) return undefined;
+
+  const booking = await storage.getBookingByPaymentIntentId(event.paymentIntentId);
+  if (!booking) {
+    console.warn(`No booking found for payment intent ${event.paymentIntentId}`);
+    return undefined;
+  }
+
+  switch (event.type) {
+    case 'payment_succeeded': {
+      if (booking.paymentStatus === 'paid') return booking;
+
+      if (!canTransitionBooking(booking.status, 'confirmed')) {
+        // e.g. the hold was cancelled before the payment cleared - needs a manual refund
+        console.warn(`Payment succeeded for booking ${booking.id} in status ${booking.status}; not confirming`);
+        return await storage.updateBooking(booking.id, { paymentStatus: 'paid' });
+      }
+      return await storage.updateBooking(booking.id, { paymentStatus: 'paid', status: 'confirmed' });
+    }
+
+    case 'payment_failed':
+      return await releaseCheckoutHold(booking, gateway);
+
+    case 'payment_cancelled':
+      if (booking.paymentStatus === 'paid' || booking.status === 'cancelled') return booking;
+      return await storage.updateBooking(booking.id, { paymentStatus: 'failed', status: 'cancelled' });
+  }
+}
@@ -1,19 +1,67 @@
 import { 
   users, type User, type InsertUser,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  hosts, type Host, type InsertHost,
+  hostTeamMembers, type HostTeamMember, type InsertHostTeamMember,
   properties, type Property, type InsertProperty,
   cities, type City, type InsertCity,
   reviews, type Review, type InsertReview,
   neighborhoods, type Neighborhood, type InsertNeighborhood,
-  favorites, type Favorite, type InsertFavorite
+  favorites, type Favorite, type InsertFavorite,
+  bookings, type Booking, type InsertBooking, type BookingStatus,
+  availabilityBlocks, type AvailabilityBlock, type InsertAvailabilityBlock,
+  propertyCalendars, type PropertyCalendar, type InsertPropertyCalendar,
+  propertyRevisions, type PropertyRevision,
+  auditLog, type AuditLogEntry, type InsertAuditLogEntry,
+  pricingRules, type PricingRule, type InsertPricingRule,
+  webhookEvents, type WebhookEvent, type InsertWebhookEvent,
+  hospitableConnections, type HospitableConnection, type InsertHospitableConnection,
+  apiIntegrations, type ApiIntegration,
+  jobRuns, type JobRun, type InsertJobRun, type JobType,
+  queueJobs, type QueueJob, type InsertQueueJob,
+  rateLimitBuckets
 } from "@shared/schema";
-import { IStorage } from "./storage";
-import { db } from "./db";
-import { eq, and, like, gte, lte, desc, sql, ilike } from "drizzle-orm";
+import type { PropertySearchFilters } from "@shared/property-search";
+import {
+  IStorage,
+  PropertyRevisionContext,
+  AdminPropertyFilters,
+  PropertySearchOptions,
+  UserFilters,
+  UserUpdate,
+  AuditLogFilters,
+  BookingFilters,
+  AvailabilityBlockWriteOptions,
+  BookingWriteOptions,
+  WebhookEventFilters,
+  JobRunFilters,
+  QueueJobFilters,
+  bookingStatusTimestamps,
+  claimsNewNights
+} from "./storage";
+import { db, pool } from "./db";
+import { eq, and, or, like, gte, lte, gt, lt, ne, asc, desc, sql, ilike, inArray, isNull, isNotNull } from "drizzle-orm";
+import {
+  AvailabilityConflictError,
+  HOLDING_BOOKING_STATUSES,
+  findAvailabilityConflict,
+  isHoldingStatus
+} from "./utils/availability-helpers";
+import { getPropertyChanges } from "./utils/revision-helpers";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const PostgresSessionStore = connectPg(session);
 
 // Import relations to make them available
 import "../shared/relations";
 
 export class DatabaseStorage implements IStorage {
+  // The session table is created by the migrations (see `sessions` in the schema)
+  sessionStore: session.Store = new PostgresSessionStore({ pool, tableName: "session" });
+
   // Users
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -25,11 +73,180 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [createdUser] = await db.insert(users).values(user).returning();
     return createdUser;
   }
 
+  async getUsers(filters?: UserFilters): Promise<{ items: User[]; total: number }> {
+    const conditions = [];
+
+    if (filters?.search) {
+      const searchTerm = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(users.username, searchTerm),
+        ilike(users.email, searchTerm),
+        ilike(users.fullName, searchTerm)
+      ));
+    }
+    if (filters?.role) {
+      conditions.push(eq(users.role, filters.role));
+    }
+    if (filters?.suspended !== undefined) {
+      conditions.push(filters.suspended ? isNotNull(users.suspendedAt) : isNull(users.suspendedAt));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [items, [{ total }]] = await Promise.all([
+      db.select()
+        .from(users)
+        .where(where)
+        .orderBy(desc(users.id))
+        .limit(filters?.limit ?? 25)
+        .offset(filters?.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` })
+        .from(users)
+        .where(where),
+    ]);
+
+    return { items, total };
+  }
+
+  async updateUser(id: number, user: UserUpdate): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set(user.role ? { ...user, isAdmin: user.role === "admin" } : user)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(favorites).where(eq(favorites.userId, id));
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+      await tx.delete(hostTeamMembers).where(or(
+        eq(hostTeamMembers.userId, id),
+        inArray(hostTeamMembers.hostId, tx.select({ id: hosts.id }).from(hosts).where(eq(hosts.userId, id)))
+      ));
+      await tx.delete(hosts).where(eq(hosts.userId, id));
+      const [deletedUser] = await tx.delete(users)
+        .where(eq(users.id, id))
+        .returning();
+      return !!deletedUser;
+    });
+  }
+
+  // Password reset tokens
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [createdToken] = await db.insert(passwordResetTokens).values(token).returning();
+    return createdToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async markPasswordResetTokenUsed(id: number): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return token;
+  }
+
+  // Hosts
+  async getHost(id: number): Promise<Host | undefined> {
+    const [host] = await db.select().from(hosts).where(eq(hosts.id, id));
+    return host;
+  }
+
+  async getHostByUserId(userId: number): Promise<Host | undefined> {
+    const [host] = await db.select().from(hosts).where(eq(hosts.userId, userId));
+    return host;
+  }
+
+  async getHostBySlug(slug: string): Promise<Host | undefined> {
+    const [host] = await db.select().from(hosts).where(eq(hosts.slug, slug));
+    return host;
+  }
+
+  async createHost(host: InsertHost): Promise<Host> {
+    const [createdHost] = await db.insert(hosts).values(host).returning();
+    return createdHost;
+  }
+
+  async updateHost(id: number, host: Partial<InsertHost>): Promise<Host | undefined> {
+    const [updatedHost] = await db.update(hosts)
+      .set({ ...host, updatedAt: new Date() })
+      .where(eq(hosts.id, id))
+      .returning();
+    return updatedHost;
+  }
+
+  // Host team members
+  async getTeamMembers(hostId: number): Promise<HostTeamMember[]> {
+    return await db.select()
+      .from(hostTeamMembers)
+      .where(eq(hostTeamMembers.hostId, hostId))
+      .orderBy(hostTeamMembers.id);
+  }
+
+  async getTeamMember(id: number): Promise<HostTeamMember | undefined> {
+    const [member] = await db.select().from(hostTeamMembers).where(eq(hostTeamMembers.id, id));
+    return member;
+  }
+
+  async getTeamMemberByTokenHash(inviteTokenHash: string): Promise<HostTeamMember | undefined> {
+    const [member] = await db.select()
+      .from(hostTeamMembers)
+      .where(eq(hostTeamMembers.inviteTokenHash, inviteTokenHash));
+    return member;
+  }
+
+  async getTeamMembershipsByUserId(userId: number): Promise<HostTeamMember[]> {
+    return await db.select()
+      .from(hostTeamMembers)
+      .where(and(eq(hostTeamMembers.userId, userId), isNotNull(hostTeamMembers.acceptedAt)))
+      .orderBy(hostTeamMembers.id);
+  }
+
+  async createTeamMember(member: InsertHostTeamMember): Promise<HostTeamMember> {
+    const [createdMember] = await db.insert(hostTeamMembers).values(member).returning();
+    return createdMember;
+  }
+
+  async updateTeamMember(id: number, member: Partial<Pick<HostTeamMember, "role" | "propertyIds">>): Promise<HostTeamMember | undefined> {
+    const [updatedMember] = await db.update(hostTeamMembers)
+      .set({ ...member, updatedAt: new Date() })
+      .where(eq(hostTeamMembers.id, id))
+      .returning();
+    return updatedMember;
+  }
+
+  async acceptTeamInvite(id: number, userId: number): Promise<HostTeamMember | undefined> {
+    const now = new Date();
+    const [acceptedMember] = await db.update(hostTeamMembers)
+      .set({ userId, acceptedAt: now, updatedAt: now })
+      .where(and(eq(hostTeamMembers.id, id), isNull(hostTeamMembers.acceptedAt)))
+      .returning();
+    return acceptedMember;
+  }
+
+  async deleteTeamMember(id: number): Promise<boolean> {
+    const [deletedMember] = await db.delete(hostTeamMembers)
+      .where(eq(hostTeamMembers.id, id))
+      .returning();
+    return !!deletedMember;
+  }
+
   // Properties
   async getProperties(limit = 10, offset = 0): Promise<Property[]> {
     return await db.select()
@@ -92,17 +309,24 @@ export class DatabaseStorage implements IStorage {
   async getPropertiesByCustomerId(customerId: string, offset = 0): Promise<Property[]> {
     return await db.select()
       .from(properties)
-      .where(like(properties.platformId, `${customerId}:%`))
+      .where(or(
+        like(properties.platformId, `${customerId}:%`),
+        like(properties.platformId, `${customerId}/%`)
+      ))
       .orderBy(desc(properties.createdAt))
       .offset(offset);
   }
 
-  async updatePropertyByExternalId(externalId: string, propertyData: Partial<InsertProperty>): Promise<Property> {
-    const [updatedProperty] = await db.update(properties)
-      .set({ ...propertyData, updatedAt: new Date() })
-      .where(eq(properties.externalId, externalId))
-      .returning();
-    return updatedProperty;
+  async getPublishedPropertiesByHost(hostUserId: number): Promise<Property[]> {
+    return await db.select()
+      .from(properties)
+      .where(and(
+        eq(properties.hostId, hostUserId),
+        eq(properties.isActive, true),
+        eq(properties.status, "active"),
+        isNotNull(properties.publishedAt)
+      ))
+      .orderBy(desc(properties.publishedAt));
   }
 
   async getPropertiesByCity(cityName: string, limit = 10, offset = 0): Promise<Property[]> {
@@ -116,69 +340,165 @@ export class DatabaseStorage implements IStorage {
       .offset(offset);
   }
 
-  async searchProperties(query: string, filters?: any): Promise<Property[]> {
+  async searchProperties(query: string, filters?: PropertySearchFilters): Promise<Property[]> {
     try {
-      const conditions = [eq(properties.isActive, true)];
-
-      // Handle special keyword commands
-      if (query === 'isPublished:true') {
-        conditions.push(sql`${properties.publishedAt} IS NOT NULL`);
-      } else if (query === 'isPublished:false') {
-        conditions.push(sql`${properties.publishedAt} IS NULL`);
-      } else if (query && query.trim() !== '') {
-        const searchTerm = `%${query}%`;
-        conditions.push(sql`(
-          ${properties.name} ILIKE ${searchTerm} OR
-          ${properties.city} ILIKE ${searchTerm} OR
-          ${properties.country} ILIKE ${searchTerm} OR
-          ${properties.location} ILIKE ${searchTerm}
-        )`);
-      }
-
-      // Apply filters
-      if (filters) {
-        if (filters.minPrice) {
-          conditions.push(gte(properties.price, filters.minPrice));
-        }
-        if (filters.maxPrice) {
-          conditions.push(lte(properties.price, filters.maxPrice));
-        }
-        if (filters.bedrooms) {
-          conditions.push(gte(properties.bedrooms, filters.bedrooms));
-        }
-        if (filters.bathrooms) {
-          conditions.push(gte(properties.bathrooms, filters.bathrooms));
-        }
-        if (filters.guests || filters.maxGuests) {
-          conditions.push(gte(properties.maxGuests, filters.guests || filters.maxGuests));
-        }
-        if (filters.city) {
-          conditions.push(eq(properties.city, filters.city));
-        }
-        if (filters.country) {
-          conditions.push(eq(properties.country, filters.country));
-        }
-        if (filters.type || filters.propertyType) {
-          conditions.push(eq(properties.type, filters.type || filters.propertyType));
-        }
-        if (filters.isPublished !== undefined) {
-          if (filters.isPublished) {
-            conditions.push(sql`${properties.publishedAt} IS NOT NULL`);
-          } else {
-            conditions.push(sql`${properties.publishedAt} IS NULL`);
-          }
-        }
-      }
-
       return await db.select()
         .from(properties)
-        .where(and(...conditions));
+        .where(and(...this.searchConditions(query, filters)));
     } catch (error) {
       console.error("❌ Error in searchProperties:", error);
       return [];
     }
   }
 
+  async searchPropertiesPage(
+    query: string,
+    filters: PropertySearchFilters,
+    options: PropertySearchOptions
+  ): Promise<{ items: Property[]; total: number }> {
+    const where = and(...this.searchConditions(query, filters));
+
+    const [items, [{ total }]] = await Promise.all([
+      db.select()
+        .from(properties)
+        .where(where)
+        .orderBy(...this.searchOrder(options), asc(properties.id))
+        .limit(options.limit ?? 12)
+        .offset(options.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` })
+        .from(properties)
+        .where(where),
+    ]);
+
+    return { items, total };
+  }
+
+  // Conditions shared by searchProperties and searchPropertiesPage; keep in step with MemStorage.searchProperties
+  private searchConditions(query: string, filters: PropertySearchFilters = {}) {
+    const conditions = [eq(properties.isActive, true)];
+
+    // Handle special keyword commands
+    if (query === 'isPublished:true') {
+      conditions.push(sql`${properties.publishedAt} IS NOT NULL`);
+    } else if (query === 'isPublished:false') {
+      conditions.push(sql`${properties.publishedAt} IS NULL`);
+    } else if (query && query.trim() !== '') {
+      // Match the text literally, like MemStorage does
+      const searchTerm = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(sql`(
+        ${properties.name} ILIKE ${searchTerm} OR
+        ${properties.city} ILIKE ${searchTerm} OR
+        ${properties.country} ILIKE ${searchTerm} OR
+        ${properties.location} ILIKE ${searchTerm}
+      )`);
+    }
+
+    // Apply filters
+    if (filters.city) {
+      conditions.push(sql`lower(${properties.city}) = ${filters.city.toLowerCase()}`);
+    }
+    if (filters.propertyType) {
+      conditions.push(sql`lower(${properties.type}) = ${filters.propertyType.toLowerCase()}`);
+    }
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(properties.price, filters.minPrice));
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(properties.price, filters.maxPrice));
+    }
+    if (filters.guests !== undefined) {
+      conditions.push(gte(properties.maxGuests, filters.guests));
+    }
+    if (filters.bedrooms !== undefined) {
+      conditions.push(gte(properties.bedrooms, filters.bedrooms));
+    }
+    if (filters.bathrooms !== undefined) {
+      conditions.push(gte(properties.bathrooms, filters.bathrooms));
+    }
+    for (const amenity of filters.amenities ?? []) {
+      conditions.push(sql`EXISTS (
+        SELECT 1 FROM unnest(${properties.amenities}) AS amenity WHERE lower(amenity) = ${amenity.toLowerCase()}
+      )`);
+    }
+
+    return conditions;
+  }
+
+  // ORDER BY of the public property search; matches comparePropertySearchResults in storage.ts
+  private searchOrder({ sort = "newest", origin }: PropertySearchOptions) {
+    switch (sort) {
+      case "price_asc":
+        return [asc(properties.price)];
+      case "price_desc":
+        return [desc(properties.price)];
+      case "rating":
+        return [sql`${properties.rating} DESC NULLS LAST`, sql`${properties.reviewCount} DESC NULLS LAST`];
+      case "distance": {
+        if (!origin) return [];
+        const scale = Math.cos(origin.latitude * Math.PI / 180);
+        return [sql`(power(${properties.latitude} - ${origin.latitude}, 2) +
+          power((${properties.longitude} - ${origin.longitude}) * ${scale}, 2)) ASC NULLS LAST`];
+      }
+      case "newest":
+        return [sql`${properties.createdAt} DESC NULLS LAST`];
+    }
+  }
+
+
+  async getAdminProperties(filters: AdminPropertyFilters): Promise<{ items: Property[]; total: number }> {
+    const conditions = [];
+
+    if (filters.search) {
+      const searchTerm = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(properties.name, searchTerm),
+        ilike(properties.title, searchTerm),
+        ilike(properties.city, searchTerm),
+        ilike(properties.platformId, searchTerm)
+      ));
+    }
+    if (filters.status) {
+      conditions.push(eq(properties.status, filters.status));
+    }
+    if (filters.source === "manual") {
+      conditions.push(isNull(properties.externalSource));
+    } else if (filters.source) {
+      conditions.push(eq(properties.externalSource, filters.source));
+    }
+    if (filters.published !== undefined) {
+      conditions.push(filters.published ? isNotNull(properties.publishedAt) : isNull(properties.publishedAt));
+    }
+    if (filters.featured !== undefined) {
+      conditions.push(filters.featured ? eq(properties.isFeatured, true) : sql`${properties.isFeatured} IS NOT TRUE`);
+    }
+    if (filters.access) {
+      const { hostIds, propertyIds } = filters.access;
+      conditions.push(or(
+        hostIds.length > 0 ? inArray(properties.hostId, hostIds) : sql`false`,
+        propertyIds.length > 0 ? inArray(properties.id, propertyIds) : sql`false`
+      ));
+    }
+
+    const sortColumn = properties[filters.sort ?? "updatedAt"];
+    const order = filters.direction === "asc"
+      ? sql`${sortColumn} ASC NULLS LAST`
+      : sql`${sortColumn} DESC NULLS LAST`;
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [items, [{ total }]] = await Promise.all([
+      db.select()
+        .from(properties)
+        .where(where)
+        .orderBy(order, asc(properties.id))
+        .limit(filters.limit ?? 25)
+        .offset(filters.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` })
+        .from(properties)
+        .where(where),
+    ]);
+
+    return { items, total };
+  }
 
   async createProperty(property: InsertProperty): Promise<Property> {
     // Generate slug from title (or name if title is not available) if not provided
@@ -197,13 +517,30 @@ export class DatabaseStorage implements IStorage {
     return createdProperty;
   }
 
-  async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property | undefined> {
-    const [updatedProperty] = await db.update(properties)
-      .set(property)
-      .where(eq(properties.id, id))
-      .returning();
-    
-    return updatedProperty;
+  async updateProperty(
+    id: number,
+    property: Partial<InsertProperty>,
+    revision: PropertyRevisionContext = { source: "system" }
+  ): Promise<Property | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existingProperty] = await tx.select()
+        .from(properties)
+        .where(eq(properties.id, id))
+        .for("update");
+      if (!existingProperty) return undefined;
+
+      const [updatedProperty] = await tx.update(properties)
+        .set({ ...property, updatedAt: new Date() })
+        .where(eq(properties.id, id))
+        .returning();
+
+      const changes = getPropertyChanges(existingProperty, updatedProperty);
+      if (Object.keys(changes).length > 0) {
+        await tx.insert(propertyRevisions).values({ propertyId: id, changes, ...revision });
+      }
+
+      return updatedProperty;
+    });
   }
 
   async deleteProperty(id: number): Promise<boolean> {
@@ -218,6 +555,22 @@ export class DatabaseStorage implements IStorage {
     return !!updatedProperty;
   }
 
+  // Property revisions
+  async getPropertyRevisions(propertyId: number, limit = 50): Promise<PropertyRevision[]> {
+    return await db.select()
+      .from(propertyRevisions)
+      .where(eq(propertyRevisions.propertyId, propertyId))
+      .orderBy(desc(propertyRevisions.createdAt), desc(propertyRevisions.id))
+      .limit(limit);
+  }
+
+  async getPropertyRevision(id: number): Promise<PropertyRevision | undefined> {
+    const [revision] = await db.select()
+      .from(propertyRevisions)
+      .where(eq(propertyRevisions.id, id));
+    return revision;
+  }
+
   // Cities
   async getCities(limit = 10): Promise<City[]> {
     return await db.select()
@@ -286,6 +639,13 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(reviews.date));
   }
 
+  async getReviewsByUserId(userId: number): Promise<Review[]> {
+    return await db.select()
+      .from(reviews)
+      .where(eq(reviews.userId, userId))
+      .orderBy(desc(reviews.date));
+  }
+
   async createReview(review: InsertReview): Promise<Review> {
     const [createdReview] = await db.insert(reviews)
       .values(review)
@@ -393,4 +753,531 @@ export class DatabaseStorage implements IStorage {
     
     return !!favorite;
   }
-}
\ No newline at end of file
+
+  // Bookings
+  async getBookings(filters?: BookingFilters): Promise<Booking[]> {
+    const conditions = [];
+
+    if (filters?.propertyId !== undefined) {
+      conditions.push(eq(bookings.propertyId, filters.propertyId));
+    }
+    if (filters?.userId !== undefined) {
+      conditions.push(eq(bookings.userId, filters.userId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(bookings.status, filters.status));
+    }
+    if (filters?.source) {
+      conditions.push(eq(bookings.source, filters.source));
+    }
+    if (filters?.from) {
+      conditions.push(gt(bookings.checkOut, filters.from));
+    }
+    if (filters?.to) {
+      conditions.push(lt(bookings.checkIn, filters.to));
+    }
+
+    return await db.select()
+      .from(bookings)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(bookings.checkIn);
+  }
+
+  async getBooking(id: number): Promise<Booking | undefined> {
+    const [booking] = await db.select()
+      .from(bookings)
+      .where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async getBookingByExternalId(externalId: string): Promise<Booking | undefined> {
+    const [booking] = await db.select()
+      .from(bookings)
+      .where(eq(bookings.externalId, externalId));
+    return booking;
+  }
+
+  async getBookingByPaymentIntentId(paymentIntentId: string): Promise<Booking | undefined> {
+    const [booking] = await db.select()
+      .from(bookings)
+      .where(eq(bookings.paymentIntentId, paymentIntentId));
+    return booking;
+  }
+
+  async createBooking(booking: InsertBooking, options: BookingWriteOptions = {}): Promise<Booking> {
+    return await db.transaction(async (tx) => {
+      if (isHoldingStatus(booking.status ?? "inquiry") && !options.skipAvailabilityCheck) {
+        await this.assertAvailable(tx, booking.propertyId, booking.checkIn, booking.checkOut);
+      }
+
+      const [createdBooking] = await tx.insert(bookings)
+        .values({
+          ...booking,
+          ...bookingStatusTimestamps({ confirmedAt: null, cancelledAt: null }, booking.status)
+        })
+        .returning();
+
+      return createdBooking;
+    });
+  }
+
+  async updateBooking(id: number, booking: Partial<InsertBooking>, options: BookingWriteOptions = {}): Promise<Booking | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existingBooking] = await tx.select()
+        .from(bookings)
+        .where(eq(bookings.id, id));
+      if (!existingBooking) return undefined;
+
+      const merged = { ...existingBooking, ...booking };
+      if (claimsNewNights(existingBooking, merged) && !options.skipAvailabilityCheck) {
+        await this.assertAvailable(tx, merged.propertyId, merged.checkIn, merged.checkOut, id);
+      }
+
+      const [updatedBooking] = await tx.update(bookings)
+        .set({
+          ...booking,
+          ...bookingStatusTimestamps(existingBooking, booking.status),
+          updatedAt: new Date()
+        })
+        .where(eq(bookings.id, id))
+        .returning();
+
+      return updatedBooking;
+    });
+  }
+
+  async updateBookingStatus(id: number, status: BookingStatus): Promise<Booking | undefined> {
+    return this.updateBooking(id, { status });
+  }
+
+  // Serialize reservations per property with a transaction-scoped advisory lock,
+  // then check for overlaps before the caller writes
+  private async assertAvailable(
+    tx: Transaction,
+    propertyId: number,
+    checkIn: string,
+    checkOut: string,
+    excludeBookingId?: number
+  ): Promise<void> {
+    await this.lockPropertyAvailability(tx, propertyId);
+
+    const overlappingBookings = await this.getOverlappingBookings(tx, propertyId, checkIn, checkOut, excludeBookingId);
+
+    const overlappingBlocks = await tx.select()
+      .from(availabilityBlocks)
+      .where(and(
+        eq(availabilityBlocks.propertyId, propertyId),
+        lt(availabilityBlocks.startDate, checkOut),
+        gt(availabilityBlocks.endDate, checkIn)
+      ));
+
+    const conflict = findAvailabilityConflict(checkIn, checkOut, overlappingBookings, overlappingBlocks, excludeBookingId);
+    if (conflict) {
+      throw new AvailabilityConflictError(conflict);
+    }
+  }
+
+  private async lockPropertyAvailability(tx: Transaction, propertyId: number): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('property_availability'), ${propertyId})`);
+  }
+
+  // Bookings holding any night of [checkIn, checkOut)
+  private async getOverlappingBookings(
+    tx: Transaction,
+    propertyId: number,
+    checkIn: string,
+    checkOut: string,
+    excludeBookingId?: number
+  ): Promise<Booking[]> {
+    return await tx.select()
+      .from(bookings)
+      .where(and(
+        eq(bookings.propertyId, propertyId),
+        inArray(bookings.status, HOLDING_BOOKING_STATUSES),
+        lt(bookings.checkIn, checkOut),
+        gt(bookings.checkOut, checkIn),
+        excludeBookingId !== undefined ? ne(bookings.id, excludeBookingId) : undefined
+      ));
+  }
+
+  // Availability
+  async getAvailabilityBlocks(propertyId: number, from?: string, to?: string): Promise<AvailabilityBlock[]> {
+    const conditions = [eq(availabilityBlocks.propertyId, propertyId)];
+
+    if (from) {
+      conditions.push(gt(availabilityBlocks.endDate, from));
+    }
+    if (to) {
+      conditions.push(lt(availabilityBlocks.startDate, to));
+    }
+
+    return await db.select()
+      .from(availabilityBlocks)
+      .where(and(...conditions))
+      .orderBy(availabilityBlocks.startDate);
+  }
+
+  async getAvailabilityBlock(id: number): Promise<AvailabilityBlock | undefined> {
+    const [block] = await db.select().from(availabilityBlocks).where(eq(availabilityBlocks.id, id));
+    return block;
+  }
+
+  async createAvailabilityBlock(block: InsertAvailabilityBlock, options: AvailabilityBlockWriteOptions = {}): Promise<AvailabilityBlock> {
+    return await db.transaction(async (tx) => {
+      if (options.rejectBookedNights) {
+        await this.lockPropertyAvailability(tx, block.propertyId);
+        const overlappingBookings = await this.getOverlappingBookings(tx, block.propertyId, block.startDate, block.endDate);
+        const conflict = findAvailabilityConflict(block.startDate, block.endDate, overlappingBookings, []);
+        if (conflict) {
+          throw new AvailabilityConflictError(conflict);
+        }
+      }
+
+      const [createdBlock] = await tx.insert(availabilityBlocks)
+        .values(block)
+        .returning();
+
+      return createdBlock;
+    });
+  }
+
+  async deleteAvailabilityBlock(id: number): Promise<boolean> {
+    const result = await db.delete(availabilityBlocks)
+      .where(eq(availabilityBlocks.id, id));
+
+    return !!result.rowCount && result.rowCount > 0;
+  }
+
+  // Calendar sync
+  async getPropertiesWithCalendarSync(): Promise<Property[]> {
+    return await db.select()
+      .from(properties)
+      .where(and(
+        eq(properties.isActive, true),
+        isNotNull(properties.calendarSyncUrl),
+        ne(properties.calendarSyncUrl, "")
+      ));
+  }
+
+  async getPropertyCalendar(propertyId: number): Promise<PropertyCalendar | undefined> {
+    const [calendar] = await db.select()
+      .from(propertyCalendars)
+      .where(eq(propertyCalendars.propertyId, propertyId));
+    return calendar;
+  }
+
+  async upsertPropertyCalendar(propertyId: number, calendar: Partial<InsertPropertyCalendar>): Promise<PropertyCalendar> {
+    const [savedCalendar] = await db.insert(propertyCalendars)
+      .values({ ...calendar, propertyId })
+      .onConflictDoUpdate({
+        target: propertyCalendars.propertyId,
+        set: { ...calendar, updatedAt: new Date() }
+      })
+      .returning();
+
+    return savedCalendar;
+  }
+
+  // Pricing rules
+  async getPricingRules(propertyId: number): Promise<PricingRule[]> {
+    return await db.select()
+      .from(pricingRules)
+      .where(eq(pricingRules.propertyId, propertyId))
+      .orderBy(desc(pricingRules.priority), pricingRules.id);
+  }
+
+  async getPricingRule(id: number): Promise<PricingRule | undefined> {
+    const [rule] = await db.select()
+      .from(pricingRules)
+      .where(eq(pricingRules.id, id));
+    return rule;
+  }
+
+  async createPricingRule(rule: InsertPricingRule): Promise<PricingRule> {
+    const [createdRule] = await db.insert(pricingRules)
+      .values(rule)
+      .returning();
+
+    return createdRule;
+  }
+
+  async updatePricingRule(id: number, rule: Partial<InsertPricingRule>): Promise<PricingRule | undefined> {
+    const [updatedRule] = await db.update(pricingRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(pricingRules.id, id))
+      .returning();
+
+    return updatedRule;
+  }
+
+  async deletePricingRule(id: number): Promise<boolean> {
+    const result = await db.delete(pricingRules)
+      .where(eq(pricingRules.id, id));
+
+    return !!result.rowCount && result.rowCount > 0;
+  }
+
+  // Webhook events
+  async getWebhookEvents(filters?: WebhookEventFilters): Promise<WebhookEvent[]> {
+    const conditions = [];
+    if (filters?.source) conditions.push(eq(webhookEvents.source, filters.source));
+    if (filters?.eventType) conditions.push(eq(webhookEvents.eventType, filters.eventType));
+    if (filters?.status) conditions.push(eq(webhookEvents.status, filters.status));
+
+    return await db.select()
+      .from(webhookEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookEvents.id))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async getWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select()
+      .from(webhookEvents)
+      .where(eq(webhookEvents.id, id));
+    return event;
+  }
+
+  async getWebhookEventByEventId(source: string, eventId: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select()
+      .from(webhookEvents)
+      .where(and(
+        eq(webhookEvents.source, source),
+        eq(webhookEvents.eventId, eventId)
+      ));
+    return event;
+  }
+
+  async createWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined> {
+    // The unique (source, event_id) index settles concurrent duplicate deliveries
+    const [createdEvent] = await db.insert(webhookEvents)
+      .values(event)
+      .onConflictDoNothing({ target: [webhookEvents.source, webhookEvents.eventId] })
+      .returning();
+
+    return createdEvent;
+  }
+
+  async updateWebhookEvent(id: number, event: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined> {
+    const [updatedEvent] = await db.update(webhookEvents)
+      .set({ ...event, updatedAt: new Date() })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+
+    return updatedEvent;
+  }
+
+  async claimWebhookEvent(id: number, staleBefore: Date): Promise<WebhookEvent | undefined> {
+    const [claimedEvent] = await db.update(webhookEvents)
+      .set({
+        status: "processing",
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(webhookEvents.id, id),
+        or(ne(webhookEvents.status, "processing"), lt(webhookEvents.updatedAt, staleBefore))
+      ))
+      .returning();
+
+    return claimedEvent;
+  }
+
+  async getDueWebhookEvents(now: Date): Promise<WebhookEvent[]> {
+    return await db.select()
+      .from(webhookEvents)
+      .where(and(
+        eq(webhookEvents.status, "failed"),
+        lte(webhookEvents.nextAttemptAt, now)
+      ))
+      .orderBy(webhookEvents.id);
+  }
+
+  // Hospitable connections
+  async getHospitableConnections(): Promise<HospitableConnection[]> {
+    return await db.select()
+      .from(hospitableConnections)
+      .orderBy(hospitableConnections.customerId);
+  }
+
+  async getHospitableConnection(customerId: string): Promise<HospitableConnection | undefined> {
+    const [connection] = await db.select()
+      .from(hospitableConnections)
+      .where(eq(hospitableConnections.customerId, customerId));
+    return connection;
+  }
+
+  async upsertHospitableConnection(customerId: string, connection: Partial<InsertHospitableConnection>): Promise<HospitableConnection> {
+    const [savedConnection] = await db.insert(hospitableConnections)
+      .values({ ...connection, customerId })
+      .onConflictDoUpdate({
+        target: hospitableConnections.customerId,
+        set: { ...connection, updatedAt: new Date() },
+      })
+      .returning();
+
+    return savedConnection;
+  }
+
+  // API integrations
+  async getApiIntegrations(): Promise<ApiIntegration[]> {
+    return await db.select().from(apiIntegrations).orderBy(apiIntegrations.id);
+  }
+
+  // Job runs
+  async getJobRuns(filters?: JobRunFilters): Promise<JobRun[]> {
+    const conditions = [];
+    if (filters?.jobType) conditions.push(eq(jobRuns.jobType, filters.jobType));
+    if (filters?.targetIds) conditions.push(inArray(jobRuns.targetId, filters.targetIds));
+    if (filters?.status) conditions.push(eq(jobRuns.status, filters.status));
+
+    return await db.select()
+      .from(jobRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobRuns.id))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async getLatestJobRun(jobType: JobType, targetId: string): Promise<JobRun | undefined> {
+    const [latestRun] = await this.getJobRuns({ jobType, targetIds: [targetId], limit: 1 });
+    return latestRun;
+  }
+
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [newRun] = await db.insert(jobRuns).values(run).returning();
+    return newRun;
+  }
+
+  async updateJobRun(id: number, run: Partial<InsertJobRun>): Promise<JobRun | undefined> {
+    const [updatedRun] = await db.update(jobRuns)
+      .set(run)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+
+  // Queue jobs
+  async getQueueJobs(filters?: QueueJobFilters): Promise<QueueJob[]> {
+    const conditions = [];
+    if (filters?.kind) conditions.push(eq(queueJobs.kind, filters.kind));
+    if (filters?.groupKey) conditions.push(eq(queueJobs.groupKey, filters.groupKey));
+    if (filters?.status) conditions.push(eq(queueJobs.status, filters.status));
+    if (filters?.createdBy !== undefined) conditions.push(eq(queueJobs.createdBy, filters.createdBy));
+
+    return await db.select()
+      .from(queueJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(queueJobs.id))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async getQueueJob(id: number): Promise<QueueJob | undefined> {
+    const [job] = await db.select()
+      .from(queueJobs)
+      .where(eq(queueJobs.id, id));
+    return job;
+  }
+
+  async createQueueJob(job: InsertQueueJob): Promise<QueueJob> {
+    const [newJob] = await db.insert(queueJobs).values(job).returning();
+    return newJob;
+  }
+
+  async updateQueueJob(id: number, job: Partial<InsertQueueJob>): Promise<QueueJob | undefined> {
+    const [updatedJob] = await db.update(queueJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(queueJobs.id, id))
+      .returning();
+    return updatedJob;
+  }
+
+  // Claims are serialized with a transaction-scoped advisory lock so the per-group
+  // running count can't be raced by another instance; SKIP LOCKED keeps rows being
+  // updated elsewhere (progress, retries) from blocking the claim
+  async claimQueueJob(workerId: string, now: Date, maxPerGroup: number): Promise<QueueJob | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('queue_jobs'))`);
+
+      const [nextJob] = await tx.select({ id: queueJobs.id, attempts: queueJobs.attempts })
+        .from(queueJobs)
+        .where(and(
+          eq(queueJobs.status, "queued"),
+          lte(queueJobs.runAt, now),
+          sql`(
+            SELECT count(*) FROM ${queueJobs} AS running_jobs
+            WHERE running_jobs.status = 'running' AND running_jobs.group_key = ${queueJobs.groupKey}
+          ) < ${maxPerGroup}`
+        ))
+        .orderBy(queueJobs.runAt, queueJobs.id)
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!nextJob) return undefined;
+
+      const [claimedJob] = await tx.update(queueJobs)
+        .set({
+          status: "running",
+          attempts: nextJob.attempts + 1,
+          lockedBy: workerId,
+          updatedAt: new Date()
+        })
+        .where(eq(queueJobs.id, nextJob.id))
+        .returning();
+      return claimedJob;
+    });
+  }
+
+  async releaseStaleQueueJobs(staleBefore: Date): Promise<number> {
+    const releasedJobs = await db.update(queueJobs)
+      .set({ status: "queued", lockedBy: null, runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(queueJobs.status, "running"), lt(queueJobs.updatedAt, staleBefore)))
+      .returning({ id: queueJobs.id });
+    return releasedJobs.length;
+  }
+
+  // Rate limiting: refill and take in one statement so instances can't both spend the last token
+  async takeRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<number> {
+    await db.insert(rateLimitBuckets)
+      .values({ key, tokens: capacity })
+      .onConflictDoNothing();
+
+    const refilledTokens = sql`LEAST(
+      ${capacity}::float8,
+      ${rateLimitBuckets.tokens} + EXTRACT(EPOCH FROM (now() - ${rateLimitBuckets.updatedAt})) * ${refillPerSecond}::float8
+    )`;
+
+    const [takenToken] = await db.update(rateLimitBuckets)
+      .set({ tokens: sql`${refilledTokens} - 1`, updatedAt: sql`now()` })
+      .where(and(eq(rateLimitBuckets.key, key), sql`${refilledTokens} >= 1`))
+      .returning({ tokens: rateLimitBuckets.tokens });
+    if (takenToken) return 0;
+
+    const [bucket] = await db.select({ tokens: refilledTokens })
+      .from(rateLimitBuckets)
+      .where(eq(rateLimitBuckets.key, key));
+    const missingTokens = 1 - Number(bucket?.tokens ?? 0);
+    return Math.max(1, Math.ceil((missingTokens / refillPerSecond) * 1000));
+  }
+
+  // Audit log
+  async getAuditLogEntries(filters?: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions = [];
+    if (filters?.actorId !== undefined) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters?.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters?.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters?.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters?.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters?.to) conditions.push(lt(auditLog.createdAt, filters.to));
+
+    return await db.select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.id))
+      .limit(filters?.limit ?? 100)
+      .offset(filters?.offset ?? 0);
+  }
+
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [newEntry] = await db.insert(auditLog).values(entry).returning();
+    return newEntry;
+  }
+}
@@ -5,6 +5,6 @@ import * as schema from "../shared/schema";
 
 const { Pool } = pg;
 
-const pool = new Pool(getDbConfig());
+export const pool = new Pool(getDbConfig());
 
 export const db = drizzle(pool, { schema });
@@ -2,21 +2,31 @@
 
 import type { Request, Response, Router } from 'express';
 import axios from 'axios';
-import { verifyWebhookSignature, processWebhookEvent } from './utils/webhook-helpers';
+import { verifyWebhookSignature, getWebhookEventId } from './utils/webhook-helpers';
+import { receiveWebhookEvent } from './webhook-events';
+import { reconnectHospitableCustomer, saveHospitableTokens } from './hospitable-connections';
+import { canImportCustomerListings } from './hosts';
+import { requireRole } from './utils/authorization';
 
 /**
  * Register Hospitable authentication routes
  */
 export function registerHospitableAuthRoutes(router: Router) {
-  // Token exchange route
-  router.post('/auth/hospitable/token', async (req: Request, res: Response) => {
+  // Token exchange route; only the customer's host (or an admin) may connect it
+  router.post('/auth/hospitable/token', requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       const { code } = req.body;
+      // The OAuth state carries the customer ID when the auth link was generated for one
+      const customerId: string | undefined = req.body.customerId || req.body.customer_id || req.body.state;
 
       if (!code) {
         return res.status(400).json({ error: 'Authorization code is required' });
       }
 
+      if (customerId && !(await canImportCustomerListings(req.user!, String(customerId)))) {
+        return res.status(403).json({ error: 'This Hospitable account is connected to another host' });
+      }
+
       const clientId = process.env.NEXT_PUBLIC_HOSPITABLE_CLIENT_ID;
       const clientSecret = process.env.HOSPITABLE_CLIENT_SECRET;
       const redirectUri = process.env.NEXT_PUBLIC_HOSPITABLE_REDIRECT_URI;
@@ -37,6 +47,11 @@ export function registerHospitableAuthRoutes(router: Router) {
         redirect_uri: redirectUri
       });
 
+      if (customerId) {
+        await saveHospitableTokens(customerId, response.data);
+        await reconnectHospitableCustomer(customerId, 'oauth.authorized', req);
+      }
+
       return res.json(response.data);
     } catch (error: any) {
       console.error('Token exchange error:', error);
@@ -156,8 +171,8 @@ export function registerHospitableAuthRoutes(router: Router) {
         return res.status(500).json({ error: 'Webhook configuration error' });
       }
       
-      // Verify signature using our helper
-      const isValid = verifyWebhookSignature(req.body, signature, webhookSecret);
+      // Verify signature using our helper (against the exact bytes that were signed)
+      const isValid = verifyWebhookSignature(req.rawBody?.toString('utf8') ?? req.body, signature, webhookSecret);
       
       if (!isValid) {
         console.warn('Webhook signature verification failed');
@@ -180,7 +195,7 @@ export function registerHospitableAuthRoutes(router: Router) {
       }
       
       // Extract event and data from webhook body
-      const { event, data } = req.body;
+      const { event } = req.body;
       
       if (!event) {
         console.warn('Missing event type in webhook payload');
@@ -198,15 +213,24 @@ export function registerHospitableAuthRoutes(router: Router) {
         console.log('Payload sample:', JSON.stringify(req.body).substring(0, 200) + '...');
       }
       
-      // Process event with our utility function
-      processWebhookEvent(event, data);
+      // Store the delivery, then process it; failures are retried from the store
+      const { event: storedEvent, duplicate } = await receiveWebhookEvent({
+        source: 'hospitable',
+        eventId: getWebhookEventId(req.body, req.rawBody),
+        eventType: event,
+        payload: req.body,
+        signatureStatus: isValid ? 'valid' : 'invalid',
+      });
       
-      // Return success response
+      // Acknowledge once stored, so Hospitable doesn't redeliver events we retry ourselves
       return res.json({ 
         received: true,
         timestamp: timestamp,
         event: event,
-        message: 'Webhook processed successfully'
+        eventId: storedEvent.eventId,
+        status: storedEvent.status,
+        duplicate,
+        message: duplicate ? 'Webhook already received' : 'Webhook processed'
       });
     } catch (error: any) {
       console.error('Webhook processing error:', error);
@@ -1,5 +1,6 @@
-import axios from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
 import dotenv from "dotenv";
+import { getHospitableTokens, saveHospitableTokens } from './hospitable-connections';
 dotenv.config();
 
 
@@ -12,6 +13,7 @@ interface HospitableTokenResponse {
   refresh_token: string;
   token_type: string;
   expires_in: number;
+  scope?: string;
 }
 
 interface HospitableCustomer {
@@ -24,13 +26,33 @@ interface HospitableCustomer {
 }
 
 /**
- * Create a server-side API client for Hospitable with token management
+ * Create a server-side API client for Hospitable with token management.
+ * Given a customer ID, the customer's tokens are loaded from the connection registry
+ * on first use, and refreshed or newly exchanged tokens are written back to it.
+ *
+ * @param customerId Hospitable customer whose tokens to use
  */
-export function createServerApiClient() {
+export function createServerApiClient(customerId?: string) {
   // State for token storage
   let accessToken: string | null = null;
   let refreshToken: string | null = null;
   let tokenExpiry: number | null = null;
+  let storedTokensLoad: Promise<void> | null = null;
+
+  /**
+   * Load the customer's stored tokens once, shared by concurrent requests
+   */
+  function loadStoredTokens(): Promise<void> {
+    if (!customerId) return Promise.resolve();
+
+    storedTokensLoad ??= getHospitableTokens(customerId).then(storedTokens => {
+      if (!storedTokens) return;
+      accessToken = storedTokens.accessToken;
+      refreshToken = storedTokens.refreshToken;
+      tokenExpiry = storedTokens.expiresAt?.getTime() ?? null;
+    });
+    return storedTokensLoad;
+  }
   
   // Base axios instance with common settings
   const client = axios.create({
@@ -43,14 +65,13 @@ export function createServerApiClient() {
   
   // Add token to requests if available
   client.interceptors.request.use(async (config) => {
+    await loadStoredTokens();
+
     // Check if token is about to expire (within 5 minutes)
     if (tokenExpiry && Date.now() > tokenExpiry - 5 * 60 * 1000) {
       try {
         // Refresh token
-        const newTokens = await refreshAccessToken();
-        accessToken = newTokens.access_token;
-        refreshToken = newTokens.refresh_token;
-        tokenExpiry = Date.now() + newTokens.expires_in * 1000;
+        await refreshAccessToken();
       } catch (error) {
         console.error('Failed to refresh token:', error);
         // Token refresh failed, proceed with old token or without token
@@ -69,6 +90,8 @@ export function createServerApiClient() {
    * Refresh access token using refresh token
    */
   async function refreshAccessToken(): Promise<HospitableTokenResponse> {
+    await loadStoredTokens();
+
     if (!refreshToken) {
       throw new Error('No refresh token available');
     }
@@ -92,6 +115,7 @@ export function createServerApiClient() {
         client_secret: clientSecret
       });
       
+      await setTokens(response.data);
       return response.data;
     } catch (error) {
       console.error('Error refreshing token:', error);
@@ -100,13 +124,17 @@ export function createServerApiClient() {
   }
   
   /**
-   * Set tokens from an authorization code exchange
-   * Note: Would later change logic to persist tokens securely in DB
+   * Set tokens from an authorization code exchange or refresh,
+   * persisting them for the customer if the client has one
    */
-  function setTokens(tokenResponse: HospitableTokenResponse): void {
+  async function setTokens(tokenResponse: HospitableTokenResponse): Promise<void> {
     accessToken = tokenResponse.access_token;
-    refreshToken = tokenResponse.refresh_token;
+    refreshToken = tokenResponse.refresh_token || refreshToken;
     tokenExpiry = Date.now() + tokenResponse.expires_in * 1000;
+
+    if (customerId) {
+      await saveHospitableTokens(customerId, tokenResponse);
+    }
   }
   
   /**
@@ -135,7 +163,7 @@ export function createServerApiClient() {
       });
       
       const tokenData = response.data;
-      setTokens(tokenData);
+      await setTokens(tokenData);
       
       return tokenData;
     } catch (error) {
@@ -177,80 +205,57 @@ export function createServerApiClient() {
   }
   
   /**
-   * Get all listings for a specific customer
+   * Request options for the customer endpoints. The client's customer token is used when
+   * there is one (added, and refreshed when it is about to expire, by the request
+   * interceptor); before the customer has connected, the platform token is used instead.
+   */
+  async function customerRequestConfig(): Promise<AxiosRequestConfig> {
+    await loadStoredTokens();
+    if (accessToken) return {};
+
+    const platformToken = process.env.HOSPITABLE_PLATFORM_TOKEN;
+    if (!platformToken) {
+      throw new Error('Missing HOSPITABLE_PLATFORM_TOKEN environment variable');
+    }
+    return { headers: { Authorization: `Bearer ${platformToken}` } };
+  }
+  
+  /**
+   * Get all listings for a specific customer.
+   * Errors are thrown so callers can tell a failure (e.g. 429) from a customer without listings.
    */
   async function getCustomerListings(customerId: string): Promise<any[]> {
     try {
-      // Make authenticated request to get customer listings
       console.log(`[Hospitable Client] Fetching listings for customer ${customerId}`);
-      // const response = await client.get(`/customers/${customerId}/listings`);
-
-      const platformToken = process.env.HOSPITABLE_PLATFORM_TOKEN;
-      
-      if (!platformToken) {
-        throw new Error('Missing HOSPITABLE_PLATFORM_TOKEN environment variable');
-      }
-      
-      // Create customer using platform token for authorization
-      const response = await axios.get(
-        `https://connect.hospitable.com/api/v1/customers/${customerId}/listings`,
-        
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Connect-Version': HOSPITABLE_API_VERSION,
-            'Authorization': `Bearer ${platformToken}`
-          }
-        }
-      );
+      const response = await client.get(`/customers/${customerId}/listings`, await customerRequestConfig());
 
       console.log(`[Hospitable Client] Got ${response.data.data?.length || 0} listings for customer ${customerId}`);
-      // console.log(`[Hospitable Client] Fetched listings for customer ${customerId}:`, response.data.data);
 
       return response.data.data || [];
     } catch (error) {
       console.error(`Error fetching listings for customer ${customerId}:`, error);
-      return [];
+      throw error;
     }
   }
   
   /**
-   * Get images for a specific listing
+   * Get images for a specific listing (throws on errors, like getCustomerListings)
    */
   async function getListingImages(customerId: string, listingId: string): Promise<any[]> {
     try {
       console.log(`[Hospitable Client] Fetching images for listing ${listingId} of customer ${customerId}`);
-      
-      // Make authenticated request to get listing images
-      // const response = await client.get(`/customers/${customerId}/listings/${listingId}/images`);
-      
-      const platformToken = process.env.HOSPITABLE_PLATFORM_TOKEN;
-      
-      if (!platformToken) {
-        throw new Error('Missing HOSPITABLE_PLATFORM_TOKEN environment variable');
-      }
-      
-      // Create customer using platform token for authorization
-      const response = await axios.get(
-        `https://connect.hospitable.com/api/v1/customers/${customerId}/listings/${listingId}/images`,
-        
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Connect-Version': HOSPITABLE_API_VERSION,
-            'Authorization': `Bearer ${platformToken}`
-          }
-        }
+      const response = await client.get(
+        `/customers/${customerId}/listings/${listingId}/images`,
+        await customerRequestConfig()
       );
       
-      // console.log(`[Hospitable Client] Fetched images for listing ${listingId}:`, response.data.data);
       console.log(`[Hospitable Client] Got ${response.data.data?.length || 0} images for listing ${listingId}`);
       
       // Return empty array if no data or images
       return response.data.data || [];
     } catch (error) {
       console.error(`Error fetching images for listing ${listingId}:`, error);
-      return [];
+      throw error;
     }
   }
   
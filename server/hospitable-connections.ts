@@ -0,0 +1,187 @@
+// hospitable-connections.ts - Registry of Hospitable customers: OAuth tokens and connection state,
+// hiding a customer's listings while their access is gone
+
+import type { Request } from 'express';
+import type {
+  HospitableConnection,
+  HospitableConnectionStatus,
+  PublicHospitableConnection,
+} from '@shared/schema';
+import { storage } from './storage-factory';
+import { recordAuditEvent } from './audit-log';
+import { decryptSecret, encryptSecret } from './utils/token-encryption';
+
+// Property status for listings taken offline because their customer disconnected
+export const DISCONNECTED_PROPERTY_STATUS = 'disconnected';
+
+export interface ConnectionChangeResult {
+  connection: HospitableConnection;
+  propertyCount: number; // Properties unpublished or restored by the change
+}
+
+// Token endpoint response (authorization code exchange or refresh)
+export interface OAuthTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+// Decrypted tokens of a connected customer
+export interface HospitableTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+  scopes: string[];
+}
+
+/**
+ * Strip the encrypted tokens before a connection leaves the server
+ */
+export function toPublicConnection(connection: HospitableConnection): PublicHospitableConnection {
+  const { accessToken: _accessToken, refreshToken: _refreshToken, ...publicConnection } = connection;
+  return publicConnection;
+}
+
+/**
+ * Store a customer's tokens, encrypted.
+ * A refresh response without a new refresh token keeps the stored one.
+ *
+ * @param customerId Hospitable customer ID
+ * @param tokenResponse Response from the Hospitable token endpoint
+ */
+export async function saveHospitableTokens(
+  customerId: string,
+  tokenResponse: OAuthTokenResponse
+): Promise<HospitableConnection> {
+  return await storage.upsertHospitableConnection(customerId, {
+    accessToken: encryptSecret(tokenResponse.access_token),
+    ...(tokenResponse.refresh_token ? { refreshToken: encryptSecret(tokenResponse.refresh_token) } : {}),
+    tokenExpiresAt: tokenResponse.expires_in ? new Date(Date.now() + tokenResponse.expires_in * 1000) : null,
+    ...(tokenResponse.scope ? { scopes: tokenResponse.scope.split(/[\s,]+/).filter(Boolean) } : {}),
+  });
+}
+
+/**
+ * Load a customer's tokens.
+ * Revoked customers and tokens that can no longer be decrypted count as having none.
+ */
+export async function getHospitableTokens(customerId: string): Promise<HospitableTokens | undefined> {
+  const connection = await storage.getHospitableConnection(customerId);
+  if (!connection?.accessToken || connection.status === 'revoked') return undefined;
+
+  try {
+    return {
+      accessToken: decryptSecret(connection.accessToken),
+      refreshToken: connection.refreshToken ? decryptSecret(connection.refreshToken) : null,
+      expiresAt: connection.tokenExpiresAt,
+      scopes: connection.scopes ?? [],
+    };
+  } catch (error) {
+    console.error(`Could not decrypt Hospitable tokens for customer ${customerId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Record a customer created in Hospitable whose authorization is still pending
+ */
+export async function registerPendingHospitableCustomer(customerId: string): Promise<HospitableConnection> {
+  const existingConnection = await storage.getHospitableConnection(customerId);
+  if (existingConnection) return existingConnection;
+
+  return await storage.upsertHospitableConnection(customerId, { status: 'pending' });
+}
+
+/**
+ * Record that a customer's listings were just imported
+ */
+export async function markHospitableCustomerSynced(customerId: string): Promise<void> {
+  await storage.upsertHospitableConnection(customerId, { lastSyncedAt: new Date() });
+}
+
+/**
+ * Record that a customer disconnected or revoked our access, and unpublish their live listings.
+ * Only published properties are touched and they are marked `disconnected`,
+ * so a reconnection restores exactly those and leaves drafts alone.
+ *
+ * @param customerId Hospitable customer ID
+ * @param status disconnected or revoked
+ * @param event The webhook event that reported the change
+ * @param req The request that made the change, for the audit log (null for webhooks)
+ */
+export async function disconnectHospitableCustomer(
+  customerId: string,
+  status: Exclude<HospitableConnectionStatus, 'connected'>,
+  event: string,
+  req: Request | null = null
+): Promise<ConnectionChangeResult> {
+  const previousConnection = await storage.getHospitableConnection(customerId);
+  const connection = await storage.upsertHospitableConnection(customerId, {
+    status,
+    lastEvent: event,
+    disconnectedAt: new Date(),
+    // Revoked tokens are useless, don't keep them around
+    ...(status === 'revoked' ? { accessToken: null, refreshToken: null, tokenExpiresAt: null } : {}),
+  });
+
+  const customerProperties = await storage.getPropertiesByCustomerId(customerId);
+  let propertyCount = 0;
+
+  for (const property of customerProperties) {
+    if (property.isActive === false || property.status === DISCONNECTED_PROPERTY_STATUS) continue;
+
+    await storage.updateProperty(property.id, { isActive: false, status: DISCONNECTED_PROPERTY_STATUS });
+    propertyCount++;
+  }
+
+  console.log(`Hospitable customer ${customerId} ${status}, unpublished ${propertyCount} properties`);
+  await recordAuditEvent(req, {
+    action: status === 'revoked' ? 'hospitable.revoke' : 'hospitable.disconnect',
+    entityType: 'hospitable_customer',
+    entityId: customerId,
+    before: previousConnection && toPublicConnection(previousConnection),
+    after: { ...toPublicConnection(connection), unpublishedProperties: propertyCount },
+  });
+  return { connection, propertyCount };
+}
+
+/**
+ * Record that a customer (re)connected and republish the listings their disconnect took offline
+ *
+ * @param customerId Hospitable customer ID
+ * @param event The webhook event that reported the change
+ * @param req The request that made the change, for the audit log (null for webhooks)
+ */
+export async function reconnectHospitableCustomer(
+  customerId: string,
+  event: string,
+  req: Request | null = null
+): Promise<ConnectionChangeResult> {
+  const previousConnection = await storage.getHospitableConnection(customerId);
+  const connection = await storage.upsertHospitableConnection(customerId, {
+    status: 'connected',
+    lastEvent: event,
+    connectedAt: new Date(),
+  });
+
+  const customerProperties = await storage.getPropertiesByCustomerId(customerId);
+  let propertyCount = 0;
+
+  for (const property of customerProperties) {
+    if (property.status !== DISCONNECTED_PROPERTY_STATUS) continue;
+
+    await storage.updateProperty(property.id, { isActive: true, status: 'active' });
+    propertyCount++;
+  }
+
+  console.log(`Hospitable customer ${customerId} connected, restored ${propertyCount} properties`);
+  await recordAuditEvent(req, {
+    action: 'hospitable.connect',
+    entityType: 'hospitable_customer',
+    entityId: customerId,
+    before: previousConnection && toPublicConnection(previousConnection),
+    after: { ...toPublicConnection(connection), restoredProperties: propertyCount },
+  });
+  return { connection, propertyCount };
+}
@@ -1,35 +1,39 @@
 import { Request, Response } from 'express';
 import axios from 'axios';
+import type { QueueJob, User } from '@shared/schema';
+import {
+  importListingsRequestSchema,
+  type ImportPreview,
+  type ImportPreviewEntry,
+  type ImportSelection,
+} from '@shared/import-preview';
 import { storage } from './storage-factory';
 import { createServerApiClient } from './hospitable-client';
+import {
+  enqueueQueueJob,
+  registerQueueJobHandler,
+  withHospitableRateLimit,
+  type QueueJobContext,
+} from './job-queue';
+import {
+  markHospitableCustomerSynced,
+  reconnectHospitableCustomer,
+  registerPendingHospitableCustomer,
+} from './hospitable-connections';
+import { recordAuditEvent } from './audit-log';
+import { canImportCustomerListings, resolveCustomerHost } from './hosts';
+import { hasPropertyPermission, hasRole, sendForbidden } from './utils/authorization';
+import {
+  diffImportableFields,
+  mapHospitableListingToProperty,
+  omitLockedFields,
+  pickImportableFields,
+} from './utils/listing-helpers';
 import dotenv from "dotenv";
-import countries from 'i18n-iso-countries';
-import path from 'node:path';
-import { fileURLToPath } from 'node:url';
-import fs from 'node:fs/promises';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-const enLocalePath = path.join(__dirname, '../node_modules/i18n-iso-countries/langs/en.json');
-const enLocaleContent = await fs.readFile(enLocalePath, 'utf-8');
-const enLocale = JSON.parse(enLocaleContent);
-
-countries.registerLocale(enLocale);
-
-
-
-// Import correct type for properties from schema
 
 dotenv.config();
 
-// Register countries for i18n-iso-countries
-countries.registerLocale(enLocale);
-
-// Rate limiting control
-const apiRateLimits: Record<string, { count: number, timestamp: number, queue: any[] }> = {};
-const MAX_REQUESTS_PER_MINUTE = 30; // Typical API rate limit
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
+export const IMPORT_LISTINGS_JOB = 'hospitable.import_listings';
 
 /**
  * Extract customer ID and listing ID from platform ID
@@ -49,115 +53,56 @@ function extractPropertyIds(platformId: string): { customerId: string | null; li
 }
 
 /**
- * Check if we're being rate limited and manage the request queue
- */
-function checkRateLimit(key: string): boolean {
-  const now = Date.now();
-  
-  // Initialize rate limit data if it doesn't exist
-  if (!apiRateLimits[key]) {
-    apiRateLimits[key] = { count: 0, timestamp: now, queue: [] };
-  }
-  
-  const limit = apiRateLimits[key];
-  
-  // Reset count if window has passed
-  if (now - limit.timestamp > RATE_LIMIT_WINDOW_MS) {
-    limit.count = 0;
-    limit.timestamp = now;
-  }
-  
-  // Check if we're at the limit
-  if (limit.count >= MAX_REQUESTS_PER_MINUTE) {
-    return true; // We're rate limited
-  }
-  
-  // Increment count
-  limit.count++;
-  return false; // Not rate limited
-}
-
-/**
- * Process a queued request after rate limit window resets
+ * Import a customer's listings.
+ * With ?dryRun=true nothing is written; the answer is a per-listing diff against the stored properties.
+ * A selection (picked from that diff) is always queued; otherwise the stored properties are returned
+ * when they were refreshed recently, and an import job is queued (202 with its ID) when not.
  */
-async function processQueue(key: string): Promise<void> {
-  const limit = apiRateLimits[key];
-  if (!limit || limit.queue.length === 0) return;
-  
-  const request = limit.queue.shift();
-  if (!request) return;
-  
+export async function importCustomerListings(req: Request, res: Response): Promise<void> {
   try {
-    const result = await request.fn();
-    request.resolve(result);
-  } catch (error) {
-    request.reject(error);
-  }
-  
-  // Process next item in queue if rate limit allows
-  if (!checkRateLimit(key) && limit.queue.length > 0) {
-    setTimeout(() => processQueue(key), 1000); // Slight delay between requests
-  } else if (limit.queue.length > 0) {
-    // Schedule next batch when rate limit resets
-    const timeToReset = RATE_LIMIT_WINDOW_MS - (Date.now() - limit.timestamp);
-    setTimeout(() => {
-      limit.count = 0;
-      limit.timestamp = Date.now();
-      processQueue(key);
-    }, timeToReset + 100); // Add small buffer
-  }
-}
-
-/**
- * Enqueue a rate-limited API request
- */
-function enqueueRequest<T>(key: string, fn: () => Promise<T>): Promise<T> {
-  return new Promise((resolve, reject) => {
-    // Initialize rate limit data if it doesn't exist
-    if (!apiRateLimits[key]) {
-      apiRateLimits[key] = { count: 0, timestamp: Date.now(), queue: [] };
+    const parsed = importListingsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: parsed.error.errors[0]?.message ?? 'Invalid import request', errors: parsed.error.errors });
+      return;
     }
+    const { customerId, shouldAvoidUpdateForCustomer, selection } = parsed.data;
 
-    const limit = apiRateLimits[key];
-
-    // Add to queue
-    limit.queue.push({ fn, resolve, reject });
-
-    // If we're not rate limited and this is the only item, process immediately
-    if (limit.queue.length === 1 && !checkRateLimit(key)) {
-      processQueue(key);
+    // Listings of a customer another host already hosts stay theirs
+    if (!(await canImportCustomerListings(req.user!, customerId))) {
+      res.status(403).json({ message: 'This Hospitable account is connected to another host' });
+      return;
     }
-  });
-}
-
 
-/**
- * Process a batch of properties for import with proper rate limiting
- */
-export async function importCustomerListings(req: Request, res: Response): Promise<void> {
-  try {
-    const { customerId , shouldAvoidUpdateForCustomer } = req.body;
-    
-    if (!customerId) {
-      res.status(400).json({ message: 'Customer ID is required' });
+    if (req.query.dryRun === 'true') {
+      res.status(200).json(await previewCustomerListings(customerId, req.user!));
       return;
     }
-    const allCustomerListings = await storage.getPropertiesByCustomerId(customerId);
-    // Get updatedAt timestamp for first property if allCustomerListings is not empty
-    interface Property {
-      id: number | string;
-      updatedAt: string | Date;
-      [key: string]: any;
+
+    if (selection) {
+      const job = await enqueueQueueJob(
+        IMPORT_LISTINGS_JOB,
+        `hospitable:${customerId}`,
+        { customerId, userId: req.user!.id, selection },
+        { createdBy: req.user!.id }
+      );
+      await recordAuditEvent(req, {
+        action: 'hospitable.import',
+        entityType: 'hospitable_customer',
+        entityId: customerId,
+        after: { jobId: job.id, selection },
+      });
+      res.status(202).json({ jobId: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` });
+      return;
     }
 
-    const allCustomerListingsTyped: Property[] | undefined = allCustomerListings;
-    const firstProperty: Property | undefined = allCustomerListingsTyped?.sort(
-      (a: Property, b: Property) =>
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    const allCustomerListings = await storage.getPropertiesByCustomerId(customerId);
+    // Get updatedAt timestamp for the most recently updated property, if any
+    const firstProperty = [...allCustomerListings].sort(
+      (a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0)
     )[0];
 
-    const firstPropertyUpdatedAt = firstProperty ? new Date(firstProperty.updatedAt) : null;
-    if ((allCustomerListings && firstPropertyUpdatedAt) || shouldAvoidUpdateForCustomer) {
+    const firstPropertyUpdatedAt = firstProperty?.updatedAt ?? null;
+    if (firstPropertyUpdatedAt || shouldAvoidUpdateForCustomer) {
       const lastUpdated = firstPropertyUpdatedAt;
       const now = new Date();
       let daysDiff = 0;
@@ -176,119 +121,26 @@ export async function importCustomerListings(req: Request, res: Response): Promi
     }
 
 
-    // Create API client
-    const client = createServerApiClient();
-    
-    // Log request information
-    console.log(`[API Route] Fetching listings for customer: ${customerId}`);
-    
-    // Fetch customer listings with rate limiting
-    const rateLimitKey = `customer_listings_${customerId}`;
-    const response = await enqueueRequest(rateLimitKey, () => 
-      client.getCustomerListings(customerId)
+    // Importing can take a while and has to respect Hospitable's rate limits, so it runs
+    // in the job queue; the client polls /api/jobs/:id for progress
+    const pendingImport = (await storage.getQueueJobs({ kind: IMPORT_LISTINGS_JOB, groupKey: `hospitable:${customerId}`, limit: 10 }))
+      .find(job => job.status === 'queued' || job.status === 'running');
+    const job = pendingImport ?? await enqueueQueueJob(
+      IMPORT_LISTINGS_JOB,
+      `hospitable:${customerId}`,
+      { customerId, userId: req.user!.id },
+      { createdBy: req.user!.id }
     );
-    
-    console.log(`[API Route] Retrieved ${response?.length || 0} listings for customer ${customerId}`);
-    
-    if (!response?.length) {
-      res.status(404).json({ message: 'No properties found in Hospitable account' });
-      return;
+    if (!pendingImport) {
+      await recordAuditEvent(req, {
+        action: 'hospitable.import',
+        entityType: 'hospitable_customer',
+        entityId: customerId,
+        after: { jobId: job.id },
+      });
     }
-    
-    // Import each property into database
-    let importedCount = 0;
-    const importedProperties = [];
-    
-    for (const prop of response) {
-      try {
-        // Check if property already exists
-        let existingProperty = await storage.getPropertyByExternalId(prop.id);
-        console.log(`Property ${prop.id} exists: ${!!existingProperty}`);
-        
-        
-        
-        const propertyData = {
-          name: prop.private_name || prop.public_name || 'Unnamed Property',
-          title: prop.public_name || prop.private_name || 'Unnamed Property',
-          description: prop.description || 'Beautiful property',
-          price: Number(prop.base_price) || 99,
-          imageUrl: (prop.picture || prop.photos?.[0]?.url || '').replace(/\/im(?=\/)/g, ''),
-          additionalImages: prop.photos?.slice(1).map((p: any) => p.url.replace(/\/im(?=\/)/g, '')) || [],
-
-          city: prop.address?.city || 'Unknown',
-          state: prop.address?.state || '',
-          zipCode: prop.address?.zipcode || '',
-          country: (() => {
-            const code = prop.address?.country_code;
-            if (!code) return 'Unknown';
-            const name = countries.getName(code.toUpperCase(), 'en', { select: 'official' });
-            return name || code; // fallback to code if name is undefined
-          })(),
-          location: `${prop.address?.city || ''}, ${prop.address?.state || ''}, ${prop.address?.country_code || ''}`
-            .replace(/, ,/g, ',')
-            .replace(/^, /, '')
-            .replace(/, $/, ''),
-
-          latitude: prop.address?.latitude ? Number(prop.address.latitude) : null,
-          longitude: prop.address?.longitude ? Number(prop.address.longitude) : null,
-          bedrooms: prop.bedrooms ? Number(prop.bedrooms) : 1,
-          bathrooms: prop.bathrooms ? Number(prop.bathrooms) : 1,
-          maxGuests: prop.max_guests ? Number(prop.max_guests) : 2,
-          type: prop.property_type || 'Apartment',
-          
-          // Store the detailed capacity object from the Hospitable API
-          capacity: prop.capacity ? {
-            max: prop.capacity.max ? Number(prop.capacity.max) : (prop.max_guests ? Number(prop.max_guests) : 2),
-            beds: prop.capacity.beds ? Number(prop.capacity.beds) : (prop.beds ? Number(prop.beds) : 1),
-            bedrooms: prop.capacity.bedrooms ? Number(prop.capacity.bedrooms) : (prop.bedrooms ? Number(prop.bedrooms) : 1),
-            bathrooms: prop.capacity.bathrooms ? Number(prop.capacity.bathrooms) : (prop.bathrooms ? Number(prop.bathrooms) : 1)
-          } : null,
-          
-          // Store amenities
-          amenities: prop.amenities || [],
-          featuredAmenities: prop.featured_amenities || prop.amenities?.slice(0, 6) || [],
-          
-          // External API identifiers
-          externalId: prop.id,
-          externalSource: 'hospitable',
-          platformId: `${customerId}:${prop.id}`,
-          
-          // SEO fields
-          slug: `${prop.id}-${(prop.public_name || prop.private_name || 'property').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
-          
-          // Required fields for DB
-          hostId: 1, // Default host ID
-          hostName: prop.host_name || 'StayDirectly Host'
-        };
-
-        
-
-        propertyData.additionalImages = existingProperty?.additionalImages?.length
-        ? existingProperty.additionalImages.map((url: string) => url.replace(/\/im(?=\/)/g, ''))
-        : prop.photos?.slice(1).map((p: any) => p.url.replace(/\/im(?=\/)/g, '')) || [];
-
 
-        
-        if (existingProperty) {
-          // Update existing property
-          existingProperty = await storage.updatePropertyByExternalId(prop.id, propertyData);
-          console.log(`Updated existing property ${existingProperty.id} for listing ${prop.id}`);
-        } else {
-          // Create new property
-          const newProperty = await storage.createProperty(propertyData);
-          existingProperty = newProperty;
-          console.log(`Created new property ${newProperty.id} for listing ${prop.id}`);
-        }
-        
-        importedProperties.push(existingProperty);
-        importedCount++;
-      } catch (error) {
-        console.error(`Error importing property ${prop.id}:`, error);
-      }
-    }
-    
-    console.log(`Successfully imported ${importedCount} properties`);
-    res.status(200).json(importedProperties);
+    res.status(202).json({ jobId: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` });
   } catch (error) {
     console.error('Error importing Hospitable listings:', error);
     res.status(500).json({
@@ -298,6 +150,145 @@ export async function importCustomerListings(req: Request, res: Response): Promi
   }
 }
 
+/**
+ * Compare a customer's Hospitable listings with the stored properties without writing anything
+ */
+async function previewCustomerListings(customerId: string, user: User): Promise<ImportPreview> {
+  const client = createServerApiClient(customerId);
+  const listings = await withHospitableRateLimit(customerId, () => client.getCustomerListings(customerId));
+  const entries: ImportPreviewEntry[] = [];
+  const listedPropertyIds = new Set<number>();
+
+  for (const listing of listings) {
+    const listingId = String(listing.id);
+    const existingProperty = await storage.getPropertyByExternalId(listingId);
+    const propertyData = mapHospitableListingToProperty(listing, {
+      customerId,
+      hostId: existingProperty?.hostId ?? user.id,
+      host: existingProperty ? await storage.getHostByUserId(existingProperty.hostId) : undefined,
+      existingProperty,
+    });
+
+    if (!existingProperty) {
+      entries.push({ listingId, name: propertyData.name, status: 'new', propertyId: null, changes: [], canApply: true });
+      continue;
+    }
+
+    listedPropertyIds.add(existingProperty.id);
+    const changes = diffImportableFields(propertyData, existingProperty);
+    entries.push({
+      listingId,
+      name: existingProperty.name,
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      propertyId: existingProperty.id,
+      changes,
+      canApply: await hasPropertyPermission(user, existingProperty, 'property.edit'),
+    });
+  }
+
+  // Stored properties whose listing is gone upstream
+  for (const property of await storage.getPropertiesByCustomerId(customerId)) {
+    if (listedPropertyIds.has(property.id)) continue;
+    entries.push({
+      listingId: property.externalId ?? '',
+      name: property.name,
+      status: 'missing',
+      propertyId: property.id,
+      changes: [],
+      canApply: false,
+    });
+  }
+
+  return { customerId, entries };
+}
+
+/**
+ * Queue job: import a customer's listings on behalf of the user who requested it.
+ * With a selection only the picked listings are imported, and only the picked fields
+ * are written on properties that already exist.
+ * Result: { importedCount, propertyIds }
+ */
+async function importListingsJob(job: QueueJob, context: QueueJobContext): Promise<Record<string, any>> {
+  const { customerId, userId } = job.payload;
+  const selection: ImportSelection | undefined = job.payload.selection;
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new Error(`User ${userId} no longer exists`);
+  }
+
+  const client = createServerApiClient(customerId);
+  console.log(`[Job ${job.id}] Fetching listings for customer: ${customerId}`);
+  const listings = await withHospitableRateLimit(customerId, () => client.getCustomerListings(customerId));
+  console.log(`[Job ${job.id}] Retrieved ${listings.length} listings for customer ${customerId}`);
+
+  if (!listings.length) {
+    throw new Error('No properties found in Hospitable account');
+  }
+
+  const customerHost = await resolveCustomerHost(customerId, user);
+  const propertyIds: number[] = [];
+  await context.reportProgress(0, listings.length);
+
+  for (const [index, prop] of listings.entries()) {
+    try {
+      const selectedFields = selection?.[String(prop.id)];
+      if (selection && !selectedFields) continue;
+
+      // Check if property already exists
+      const existingProperty = await storage.getPropertyByExternalId(prop.id);
+
+      // Hosts and their team can only refresh listings they may edit
+      if (existingProperty && !(await hasPropertyPermission(user, existingProperty, 'property.edit'))) {
+        console.warn(`User ${user.id} cannot update property ${existingProperty.id}, skipping listing ${prop.id}`);
+        continue;
+      }
+
+      const propertyData = mapHospitableListingToProperty(prop, {
+        customerId,
+        hostId: existingProperty?.hostId ?? customerHost?.userId ?? user.id, // New listings belong to the customer's host
+        host: existingProperty ? await storage.getHostByUserId(existingProperty.hostId) : customerHost,
+        existingProperty,
+      });
+
+      if (existingProperty && selectedFields) {
+        // Only the fields picked from the import preview
+        if (selectedFields.length === 0) continue;
+        const updatedProperty = await storage.updateProperty(
+          existingProperty.id,
+          omitLockedFields(existingProperty, pickImportableFields(propertyData, selectedFields)),
+          { source: 'import', userId: user.id }
+        );
+        console.log(`Updated ${selectedFields.join(', ')} of property ${existingProperty.id} for listing ${prop.id}`);
+        if (updatedProperty) propertyIds.push(updatedProperty.id);
+      } else if (existingProperty) {
+        // Update existing property
+        const updatedProperty = await storage.updateProperty(
+          existingProperty.id,
+          omitLockedFields(existingProperty, propertyData),
+          { source: 'import', userId: user.id }
+        );
+        console.log(`Updated existing property ${existingProperty.id} for listing ${prop.id}`);
+        if (updatedProperty) propertyIds.push(updatedProperty.id);
+      } else {
+        // Create new property
+        const newProperty = await storage.createProperty(propertyData);
+        console.log(`Created new property ${newProperty.id} for listing ${prop.id}`);
+        propertyIds.push(newProperty.id);
+      }
+    } catch (error) {
+      console.error(`Error importing property ${prop.id}:`, error);
+    } finally {
+      await context.reportProgress(index + 1, listings.length);
+    }
+  }
+
+  console.log(`Successfully imported ${propertyIds.length} properties`);
+  await markHospitableCustomerSynced(customerId);
+  return { importedCount: propertyIds.length, propertyIds };
+}
+
+registerQueueJobHandler(IMPORT_LISTINGS_JOB, importListingsJob);
+
 /**
  * Fetch property images with rate limiting and caching
  */
@@ -344,14 +335,11 @@ export async function fetchPropertyImages(req: Request, res: Response): Promise<
       }
     }
     
-    // Rate limit key for this API endpoint
-    const rateLimitKey = `property_images_${customerId}`;
-    
     try {
       // Fetch images from API with rate limiting
-      const client = createServerApiClient();
+      const client = createServerApiClient(customerId);
       
-      const images = await enqueueRequest(rateLimitKey, () => 
+      const images = await withHospitableRateLimit(customerId, () =>
         client.getListingImages(customerId, listingId)
       );
       
@@ -373,10 +361,16 @@ export async function fetchPropertyImages(req: Request, res: Response): Promise<
       
       // Store in property data
       if (property) {
-        await storage.updateProperty(property.id, {
-          imageUrl: mainImage,
-          additionalImages,
+        const updatedProperty = await storage.updateProperty(property.id, {
+          ...omitLockedFields(property, { imageUrl: mainImage, additionalImages }),
           imagesStoredAt: new Date()
+        }, { source: 'sync', userId: req.user?.id });
+        await recordAuditEvent(req, {
+          action: 'property.refresh_images',
+          entityType: 'property',
+          entityId: property.id,
+          before: property,
+          after: updatedProperty,
         });
       }
       
@@ -417,6 +411,33 @@ export async function fetchPropertyImages(req: Request, res: Response): Promise<
   }
 }
 
+/**
+ * Fetch property images for a signed-in user. Only editors of the listing's property may
+ * refresh it; listings not imported yet need a host who may import the customer's listings.
+ */
+export async function refreshPropertyImages(req: Request, res: Response): Promise<void> {
+  try {
+    const { customerId, listingId } = req.body;
+
+    if (customerId && listingId) {
+      const property = await storage.getPropertyByPlatformId(`${customerId}:${listingId}`);
+      const allowed = property
+        ? await hasPropertyPermission(req.user, property, 'property.edit')
+        : hasRole(req.user, 'host', 'admin') && await canImportCustomerListings(req.user!, String(customerId));
+      if (!allowed) {
+        sendForbidden(res);
+        return;
+      }
+    }
+  } catch (error) {
+    console.error('Error checking property image access:', error);
+    res.status(500).json({ message: 'Error fetching property images' });
+    return;
+  }
+
+  await fetchPropertyImages(req, res);
+}
+
 /**
  * Mark properties for publishing
  */
@@ -442,12 +463,29 @@ export async function markPropertiesForPublishing(req: Request, res: Response):
           continue;
         }
         
-        // Mark as published
+        if (!(await hasPropertyPermission(req.user, property, 'property.edit'))) {
+          console.warn(`User ${req.user?.id} cannot publish property ${property.id}, skipping`);
+          continue;
+        }
+        
+        const isAdmin = req.user?.role === 'admin';
+        if (property.status === 'disconnected' && !isAdmin) {
+          console.warn(`Property ${property.id} is disconnected from Hospitable, skipping`);
+          continue;
+        }
+        
+        // Mark as published. Reactivating and verifying a listing is left to admins.
         const updated = await storage.updateProperty(property.id, {
-          isActive: true,
-          isVerified: true,
+          ...(isAdmin ? { isActive: true, isVerified: true } : {}),
           status: 'active',
           publishedAt: new Date()
+        }, { source: 'admin_ui', userId: req.user?.id });
+        await recordAuditEvent(req, {
+          action: 'property.publish',
+          entityType: 'property',
+          entityId: property.id,
+          before: property,
+          after: updated,
         });
         
         updatedProperties.push(updated);
@@ -498,7 +536,19 @@ export async function connectHospitable(req: Request, res: Response): Promise<vo
       console.log(`[API Route] Creating new customer with data: ${JSON.stringify(req.body)}`);
 
       const client = createServerApiClient();
-      const customer = await client.createCustomer(req.body);
+      const customer: any = await client.createCustomer(req.body);
+
+      // Track the customer until they authorize access
+      const createdCustomerId = customer?.data?.id ?? customer?.id;
+      if (createdCustomerId) {
+        await registerPendingHospitableCustomer(String(createdCustomerId));
+        await recordAuditEvent(req, {
+          action: 'hospitable.create_customer',
+          entityType: 'hospitable_customer',
+          entityId: String(createdCustomerId),
+          after: customer?.data ?? customer,
+        });
+      }
       
       res.status(201).json(customer);
       return;
@@ -507,8 +557,13 @@ export async function connectHospitable(req: Request, res: Response): Promise<vo
     // Exchange auth code for token
     if (action === 'token' && code) {
       console.log(`[API Route] Exchanging code for token: ${code}`);
-      const client = createServerApiClient();
+      const client = createServerApiClient(customerId);
       const tokenResponse = await client.exchangeCodeForToken(code);
+
+      // The client persisted the tokens; mark the customer connected
+      if (customerId) {
+        await reconnectHospitableCustomer(customerId, 'oauth.authorized', req);
+      }
       
       res.status(200).json(tokenResponse);
       return;
@@ -528,6 +583,7 @@ export async function connectHospitable(req: Request, res: Response): Promise<vo
 export default {
   importCustomerListings,
   fetchPropertyImages,
+  refreshPropertyImages,
   markPropertiesForPublishing,
   connectHospitable
 };
\ No newline at end of file
@@ -0,0 +1,107 @@
+// host-teams.ts - Host teams: invite links, accepting them and who may manage a team
+
+import crypto from 'crypto';
+import type { Host, HostTeamMember, PublicHostTeamMember, User } from '@shared/schema';
+import type { TeamInvite } from '@shared/host-teams';
+import { storage } from './storage-factory';
+
+export const TEAM_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class TeamInviteError extends Error {
+  constructor(message = 'This invite is invalid or has expired') {
+    super(message);
+    this.name = 'TeamInviteError';
+  }
+}
+
+function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Strip the invite token hash before a member leaves the server
+ */
+export function toPublicTeamMember(member: HostTeamMember): PublicHostTeamMember {
+  const { inviteTokenHash: _inviteTokenHash, ...publicMember } = member;
+  return publicMember;
+}
+
+/**
+ * Admins, the account holder and members with the owner role manage a host's team
+ */
+export async function canManageTeam(user: Pick<User, 'id' | 'role'> | undefined, host: Host): Promise<boolean> {
+  if (!user) return false;
+  if (user.role === 'admin' || host.userId === user.id) return true;
+
+  const memberships = await storage.getTeamMembershipsByUserId(user.id);
+  return memberships.some(member => member.hostId === host.id && member.role === 'owner');
+}
+
+/**
+ * Invite someone to a host's team. Only the token's hash is stored, so the link
+ * has to be passed on now; it cannot be looked up later.
+ *
+ * @throws TeamInviteError when the scope names properties of another host,
+ *   or the email already belongs to the team
+ */
+export async function inviteTeamMember(
+  host: Host,
+  invite: TeamInvite,
+  invitedBy: number
+): Promise<{ member: HostTeamMember; token: string }> {
+  for (const propertyId of invite.propertyIds ?? []) {
+    const property = await storage.getProperty(propertyId);
+    if (property?.hostId !== host.userId) {
+      throw new TeamInviteError(`Property ${propertyId} is not hosted by ${host.displayName}`);
+    }
+  }
+
+  const existingMember = (await storage.getTeamMembers(host.id)).find(member => member.email === invite.email);
+  if (existingMember && (existingMember.acceptedAt || existingMember.expiresAt.getTime() >= Date.now())) {
+    throw new TeamInviteError(`${invite.email} is already on the team or invited`);
+  }
+  if (existingMember) {
+    // An expired invite makes way for the new one
+    await storage.deleteTeamMember(existingMember.id);
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const member = await storage.createTeamMember({
+    hostId: host.id,
+    email: invite.email,
+    role: invite.role,
+    propertyIds: invite.propertyIds,
+    inviteTokenHash: hashInviteToken(token),
+    invitedBy,
+    expiresAt: new Date(Date.now() + TEAM_INVITE_TTL_MS),
+  });
+  return { member, token };
+}
+
+/**
+ * Join a team with an invite token. The invite must have been sent to the user's
+ * email address. Guests become hosts so they can reach the host dashboard.
+ *
+ * @throws TeamInviteError when the token is unknown, expired, already used or meant for someone else
+ */
+export async function acceptTeamInvite(token: string, user: User): Promise<HostTeamMember> {
+  const invite = await storage.getTeamMemberByTokenHash(hashInviteToken(token));
+  if (!invite || invite.acceptedAt || invite.expiresAt.getTime() < Date.now()) {
+    throw new TeamInviteError();
+  }
+  if (user.email?.toLowerCase() !== invite.email) {
+    throw new TeamInviteError(`This invite was sent to ${invite.email}. Sign in with that account to accept it.`);
+  }
+
+  const host = await storage.getHost(invite.hostId);
+  if (host?.userId === user.id) {
+    throw new TeamInviteError('You cannot join your own team');
+  }
+
+  // Claiming the invite first keeps two concurrent requests from both using it
+  const member = await storage.acceptTeamInvite(invite.id, user.id);
+  if (!member) {
+    throw new TeamInviteError();
+  }
+  return member;
+}
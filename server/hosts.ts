@@ -0,0 +1,125 @@
+// hosts.ts - Public host profiles and which host a Hospitable customer's listings belong to
+
+import type { Host, Property, User } from '@shared/schema';
+import { storage } from './storage-factory';
+
+/**
+ * Turn a display name into a profile slug, e.g. "Sarah O'Neil" -> "sarah-o-neil"
+ */
+export function slugifyHostName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 60)
+    .replace(/^-+|-+$/g, '') || 'host';
+}
+
+/**
+ * Get a user's host profile, creating it from their account on first use.
+ * The slug comes from their name, with the user ID appended when it is taken.
+ */
+export async function getOrCreateHostProfile(user: User): Promise<Host> {
+  const existingHost = await storage.getHostByUserId(user.id);
+  if (existingHost) return existingHost;
+
+  const displayName = user.fullName || user.username;
+  const baseSlug = slugifyHostName(displayName);
+  const slug = await storage.getHostBySlug(baseSlug) ? `${baseSlug}-${user.id}` : baseSlug;
+
+  try {
+    return await storage.createHost({
+      userId: user.id,
+      slug,
+      displayName,
+      joinedAt: user.createdAt ?? new Date(),
+    });
+  } catch (error) {
+    // Another request created the profile first
+    const host = await storage.getHostByUserId(user.id);
+    if (host) return host;
+    throw error;
+  }
+}
+
+export class CustomerHostMismatchError extends Error {
+  constructor(customerId: string) {
+    super(`Hospitable customer ${customerId} is connected to another host`);
+    this.name = 'CustomerHostMismatchError';
+  }
+}
+
+/**
+ * The host already known to host a Hospitable customer's listings: the host linked to
+ * the customer's connection, otherwise the host of the customer's other properties
+ *
+ * @returns The host's user ID, or undefined when the customer has no host yet
+ */
+async function getCustomerHostUserId(customerId: string): Promise<number | undefined> {
+  const connection = await storage.getHospitableConnection(customerId);
+  if (connection?.hostId) {
+    const host = await storage.getHost(connection.hostId);
+    if (host) return host.userId;
+  }
+
+  const [customerProperty] = await storage.getPropertiesByCustomerId(customerId);
+  return customerProperty?.hostId;
+}
+
+/**
+ * Whether a user may import a Hospitable customer's listings: admins always, hosts
+ * only when the customer has no other host yet
+ */
+export async function canImportCustomerListings(user: Pick<User, 'id' | 'role'>, customerId: string): Promise<boolean> {
+  if (user.role === 'admin') return true;
+  const hostUserId = await getCustomerHostUserId(customerId);
+  return hostUserId === undefined || hostUserId === user.id;
+}
+
+/**
+ * Find the host new listings of a Hospitable customer belong to.
+ * The host linked to the customer's connection, then the host of the customer's other
+ * properties, then the importing user. The host found is linked to the customer's
+ * connection if it has none yet.
+ *
+ * @param customerId Hospitable customer ID
+ * @param importingUser The user importing the listings, if any (none for webhooks)
+ * @returns The host, or undefined when nobody is known to host the customer's listings
+ * @throws CustomerHostMismatchError when a host imports a customer another host already hosts
+ */
+export async function resolveCustomerHost(customerId: string, importingUser?: User): Promise<Host | undefined> {
+  const connection = await storage.getHospitableConnection(customerId);
+  const hostUserId = await getCustomerHostUserId(customerId);
+
+  if (importingUser && importingUser.role !== 'admin' && hostUserId !== undefined && hostUserId !== importingUser.id) {
+    throw new CustomerHostMismatchError(customerId);
+  }
+
+  const hostUser = hostUserId !== undefined ? await storage.getUser(hostUserId) : importingUser;
+  const host = hostUser ? await getOrCreateHostProfile(hostUser) : undefined;
+
+  if (host && connection && !connection.hostId) {
+    await storage.upsertHospitableConnection(customerId, { hostId: host.id });
+  }
+  return host;
+}
+
+/**
+ * Average rating over a host's properties, weighted by each property's review count
+ */
+export function aggregateHostRating(properties: Property[]): { rating: number | null; reviewCount: number } {
+  let reviewCount = 0;
+  let ratingSum = 0;
+
+  for (const property of properties) {
+    if (property.rating == null || !property.reviewCount) continue;
+    reviewCount += property.reviewCount;
+    ratingSum += property.rating * property.reviewCount;
+  }
+
+  return {
+    rating: reviewCount > 0 ? Math.round((ratingSum / reviewCount) * 100) / 100 : null,
+    reviewCount,
+  };
+}
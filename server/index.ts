@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startSyncJobScheduler } from "./sync-jobs";
+import { startWebhookRetryScheduler } from "./webhook-events";
+import { startQueueWorker } from "./job-queue";
+import { startCheckoutHoldSweeper } from "./checkout";
 import http, { RequestOptions } from "http";
 import https from "https";
 import dotenv from "dotenv";
@@ -17,7 +21,18 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
-app.use(express.json());
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
+// Keep the raw bytes so payment webhooks can verify their signature
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use((err, req, res, next) => {
   if (err.status === 429) {
@@ -142,6 +157,10 @@ app.use((req, res, next) => {
   },
   () => {
     log(`serving on port ${port}`);
+    startSyncJobScheduler();
+    startWebhookRetryScheduler();
+    startQueueWorker();
+    startCheckoutHoldSweeper();
   }
 ).on("error", (err) => {
   console.error(`❌ Failed to start server on port ${port}:`, err.message);
@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { QueueJob } from '@shared/schema';
+import { storage } from './storage-factory';
+import {
+  RetryableJobError,
+  classifyJobError,
+  enqueueQueueJob,
+  getQueueRetryDelayMs,
+  registerQueueJobHandler,
+  retryQueueJob,
+  runQueueJob,
+} from './job-queue';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// What axios throws for an HTTP error response, or with no response for network errors
+function httpError(status?: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(status ? `Request failed with status code ${status}` : 'socket hang up'), {
+    isAxiosError: true,
+    response: status ? { status, headers } : undefined,
+  });
+}
+
+// Claims the next job as a worker would, far enough ahead that backed-off jobs are due
+async function claimDue(maxPerGroup = 1): Promise<QueueJob | undefined> {
+  return await storage.claimQueueJob('test-worker', new Date(Date.now() + 24 * 60 * MINUTE), maxPerGroup);
+}
+
+async function claimAndRun(jobId: number): Promise<QueueJob> {
+  const claimed = await claimDue();
+  assert.equal(claimed?.id, jobId);
+  return await runQueueJob(claimed!);
+}
+
+function assertDelay(job: QueueJob, startedAt: number, expectedMs: number) {
+  const delay = job.runAt.getTime() - startedAt;
+  assert.ok(delay >= expectedMs && delay < expectedMs + 5 * SECOND, `retry in ${delay}ms, expected about ${expectedMs}ms`);
+}
+
+test('retries back off exponentially from 30 seconds up to 30 minutes', () => {
+  assert.equal(getQueueRetryDelayMs(0), 30 * SECOND);
+  assert.equal(getQueueRetryDelayMs(1), 30 * SECOND);
+  assert.equal(getQueueRetryDelayMs(2), MINUTE);
+  assert.equal(getQueueRetryDelayMs(3), 2 * MINUTE);
+  assert.equal(getQueueRetryDelayMs(6), 16 * MINUTE);
+  assert.equal(getQueueRetryDelayMs(7), 30 * MINUTE);
+  assert.equal(getQueueRetryDelayMs(20), 30 * MINUTE);
+});
+
+test('rate limiting, server and network errors are retried; other errors are not', () => {
+  assert.deepEqual(classifyJobError(httpError(429, { 'retry-after': '12' })), { retryable: true, retryAfterMs: 12 * SECOND });
+  assert.deepEqual(classifyJobError(httpError(503)), { retryable: true, retryAfterMs: undefined });
+  assert.deepEqual(classifyJobError(httpError()), { retryable: true, retryAfterMs: undefined });
+  assert.deepEqual(classifyJobError(new RetryableJobError('busy', 5 * SECOND)), { retryable: true, retryAfterMs: 5 * SECOND });
+
+  assert.deepEqual(classifyJobError(httpError(404)), { retryable: false });
+  assert.deepEqual(classifyJobError(httpError(401)), { retryable: false });
+  assert.deepEqual(classifyJobError(new Error('Listing has no address')), { retryable: false });
+});
+
+test('a job that keeps failing is retried with backoff, then dead-lettered', async () => {
+  let calls = 0;
+  registerQueueJobHandler('test.flaky', async () => {
+    calls++;
+    throw httpError(503);
+  });
+  const job = await enqueueQueueJob('test.flaky', 'customer-flaky', {}, { maxAttempts: 3 });
+
+  let startedAt = Date.now();
+  const first = await claimAndRun(job.id);
+  assert.equal(first.status, 'queued');
+  assert.equal(first.attempts, 1);
+  assert.equal(first.lockedBy, null);
+  assertDelay(first, startedAt, 30 * SECOND);
+
+  startedAt = Date.now();
+  const second = await claimAndRun(job.id);
+  assert.equal(second.status, 'queued');
+  assertDelay(second, startedAt, MINUTE);
+
+  const third = await claimAndRun(job.id);
+  assert.equal(third.status, 'dead');
+  assert.equal(third.attempts, 3);
+  assert.match(third.lastError ?? '', /503/);
+  assert.ok(third.finishedAt);
+  assert.equal(calls, 3);
+  assert.equal(await claimDue(), undefined, 'dead jobs are not picked up again');
+
+  // An admin can send a dead job round again from scratch
+  const retried = await retryQueueJob(job.id);
+  assert.equal(retried?.status, 'queued');
+  assert.equal(retried?.attempts, 0);
+  assert.equal(retried?.finishedAt, null);
+  assert.equal((await claimAndRun(job.id)).status, 'queued');
+  await storage.updateQueueJob(job.id, { status: 'failed' });
+});
+
+test('a Retry-After longer than the backoff is honoured', async () => {
+  registerQueueJobHandler('test.rate-limited', async () => {
+    throw httpError(429, { 'retry-after': '120' });
+  });
+  const job = await enqueueQueueJob('test.rate-limited', 'customer-limited', {});
+
+  const startedAt = Date.now();
+  const retried = await claimAndRun(job.id);
+  assert.equal(retried.status, 'queued');
+  assertDelay(retried, startedAt, 2 * MINUTE);
+  await storage.updateQueueJob(job.id, { status: 'failed' });
+});
+
+test('errors that retrying will not fix fail the job straight away', async () => {
+  registerQueueJobHandler('test.broken', async () => {
+    throw httpError(404);
+  });
+  const job = await enqueueQueueJob('test.broken', 'customer-broken', {}, { maxAttempts: 5 });
+
+  const failed = await claimAndRun(job.id);
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.attempts, 1);
+  assert.ok(failed.finishedAt);
+  assert.equal(await retryQueueJob(job.id + 1000), undefined);
+});
+
+test('a successful job stores its progress and result', async () => {
+  registerQueueJobHandler('test.import', async (job, context) => {
+    await context.reportProgress(2, 2);
+    return { imported: job.payload.listingIds.length };
+  });
+  const job = await enqueueQueueJob('test.import', 'customer-ok', { listingIds: ['a', 'b'] });
+
+  const done = await claimAndRun(job.id);
+  assert.equal(done.status, 'succeeded');
+  assert.deepEqual(done.progress, { done: 2, total: 2 });
+  assert.deepEqual(done.result, { imported: 2 });
+  assert.equal(await retryQueueJob(job.id), undefined, 'only dead or failed jobs can be retried');
+});
+
+test('jobs of one group run one at a time', async () => {
+  const first = await enqueueQueueJob('test.import', 'customer-busy', { listingIds: [] });
+  const second = await enqueueQueueJob('test.import', 'customer-busy', { listingIds: [] });
+
+  assert.equal((await claimDue())?.id, first.id);
+  assert.equal(await claimDue(), undefined, 'the second job waits for the first');
+  assert.equal((await claimDue(2))?.id, second.id);
+});
@@ -0,0 +1,235 @@
+// job-queue.ts - Durable queue for long-running Hospitable API work (e.g. listing imports)
+// Jobs live in queue_jobs, so they survive restarts and are shared by every server instance.
+// Hospitable calls go through per-customer token buckets kept in storage for the same reason.
+
+import { hostname } from 'os';
+import type { InsertQueueJob, QueueJob } from '@shared/schema';
+import { storage } from './storage-factory';
+
+export interface QueueJobContext {
+  // Record how far the job got; also tells other workers the job is still alive
+  reportProgress(done: number, total: number): Promise<void>;
+}
+
+/**
+ * Runs one job; the returned object is stored as the job's result.
+ * Throw RetryableJobError (or let a 429/5xx/network error through) to have the job retried.
+ */
+export type QueueJobHandler = (job: QueueJob, context: QueueJobContext) => Promise<Record<string, any> | void>;
+
+/**
+ * A failure that is worth retrying later
+ */
+export class RetryableJobError extends Error {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RetryableJobError';
+  }
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 2;
+const DEFAULT_WORKER_CONCURRENCY = 2;
+const MAX_RUNNING_JOBS_PER_GROUP = 1; // e.g. one import per Hospitable customer at a time
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const STALE_JOB_MS = 10 * 60 * 1000; // Running jobs silent this long are assumed to be from a dead worker
+
+// Hospitable allows roughly 30 requests per minute per customer
+const HOSPITABLE_BUCKET_CAPACITY = 30;
+const HOSPITABLE_REFILL_PER_SECOND = 30 / 60;
+
+const handlers = new Map<string, QueueJobHandler>();
+const workerId = `${hostname()}:${process.pid}`;
+let activeJobs = 0;
+
+/**
+ * Register the handler for a job kind (once, at module load)
+ */
+export function registerQueueJobHandler(kind: string, handler: QueueJobHandler): void {
+  handlers.set(kind, handler);
+}
+
+/**
+ * Queue a job for the worker
+ *
+ * @param kind Registered handler to run
+ * @param groupKey Jobs sharing a group run one at a time
+ * @param payload Handler input, stored as JSON
+ */
+export async function enqueueQueueJob(
+  kind: string,
+  groupKey: string,
+  payload: Record<string, any>,
+  options: Pick<InsertQueueJob, 'createdBy' | 'maxAttempts'> = {}
+): Promise<QueueJob> {
+  const job = await storage.createQueueJob({ kind, groupKey, payload, status: 'queued', ...options });
+  console.log(`Queued job ${job.id} (${kind}) for ${groupKey}`);
+  return job;
+}
+
+/**
+ * Backoff before retry n: 30 seconds doubling per attempt, capped at 30 minutes
+ */
+export function getQueueRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether an error is worth retrying, and how long the API asked us to wait.
+ * Rate limiting (429), server errors (5xx) and requests that never got a response are retried.
+ */
+export function classifyJobError(error: any): { retryable: boolean; retryAfterMs?: number } {
+  if (error instanceof RetryableJobError) {
+    return { retryable: true, retryAfterMs: error.retryAfterMs };
+  }
+  if (!error?.isAxiosError) {
+    return { retryable: false };
+  }
+
+  const status: number | undefined = error.response?.status;
+  if (status !== undefined && status !== 429 && status < 500) {
+    return { retryable: false };
+  }
+
+  const retryAfterSeconds = parseInt(error.response?.headers?.['retry-after']);
+  return {
+    retryable: true,
+    retryAfterMs: isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds * 1000,
+  };
+}
+
+/**
+ * Wait until the token bucket for a key has a token and take it
+ */
+export async function waitForRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<void> {
+  for (;;) {
+    const waitMs = await storage.takeRateLimitToken(key, capacity, refillPerSecond);
+    if (waitMs === 0) return;
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
+
+/**
+ * Call the Hospitable API for a customer once their rate limit allows it
+ */
+export async function withHospitableRateLimit<T>(customerId: string, request: () => Promise<T>): Promise<T> {
+  await waitForRateLimitToken(`hospitable:${customerId}`, HOSPITABLE_BUCKET_CAPACITY, HOSPITABLE_REFILL_PER_SECOND);
+  return await request();
+}
+
+/**
+ * Run a claimed job and record the outcome: succeeded, queued again with backoff,
+ * dead after its last attempt, or failed for errors that retrying won't fix
+ */
+export async function runQueueJob(job: QueueJob): Promise<QueueJob> {
+  const handler = handlers.get(job.kind);
+  if (!handler) {
+    return (await storage.updateQueueJob(job.id, {
+      status: 'failed',
+      lastError: `No handler registered for ${job.kind}`,
+      lockedBy: null,
+      finishedAt: new Date(),
+    }))!;
+  }
+
+  const context: QueueJobContext = {
+    async reportProgress(done, total) {
+      await storage.updateQueueJob(job.id, { progress: { done, total } });
+    },
+  };
+
+  try {
+    const result = await handler(job, context);
+    return (await storage.updateQueueJob(job.id, {
+      status: 'succeeded',
+      result: result ?? null,
+      lastError: null,
+      lockedBy: null,
+      finishedAt: new Date(),
+    }))!;
+  } catch (error: any) {
+    const { retryable, retryAfterMs } = classifyJobError(error);
+    const canRetry = retryable && job.attempts < job.maxAttempts;
+    const status = canRetry ? 'queued' : retryable ? 'dead' : 'failed';
+    console.error(`Job ${job.id} (${job.kind}) attempt ${job.attempts} failed, now ${status}:`, error.message);
+
+    return (await storage.updateQueueJob(job.id, {
+      status,
+      lastError: error.message || String(error),
+      lockedBy: null,
+      runAt: canRetry ? new Date(Date.now() + Math.max(retryAfterMs ?? 0, getQueueRetryDelayMs(job.attempts))) : job.runAt,
+      finishedAt: canRetry ? null : new Date(),
+    }))!;
+  }
+}
+
+/**
+ * Claim and run the next due job, if any
+ */
+export async function processNextQueueJob(): Promise<QueueJob | undefined> {
+  const job = await storage.claimQueueJob(workerId, new Date(), MAX_RUNNING_JOBS_PER_GROUP);
+  if (!job) return undefined;
+  return await runQueueJob(job);
+}
+
+/**
+ * Queue a dead or failed job again with a fresh series of attempts
+ *
+ * @returns The job, or undefined if it doesn't exist or is still pending
+ */
+export async function retryQueueJob(id: number): Promise<QueueJob | undefined> {
+  const job = await storage.getQueueJob(id);
+  if (!job || (job.status !== 'dead' && job.status !== 'failed')) return undefined;
+
+  return await storage.updateQueueJob(id, {
+    status: 'queued',
+    attempts: 0,
+    runAt: new Date(),
+    lastError: null,
+    finishedAt: null,
+  });
+}
+
+/**
+ * Poll for due jobs on an interval and run up to JOB_QUEUE_CONCURRENCY (default 2) at once.
+ * The interval comes from JOB_QUEUE_POLL_SECONDS (default 2); 0 disables the worker.
+ * Jobs left running by a crashed worker are queued again once they go quiet.
+ *
+ * @returns The timer, or null when disabled
+ */
+export function startQueueWorker(): NodeJS.Timeout | null {
+  const seconds = parseInt(process.env.JOB_QUEUE_POLL_SECONDS || `${DEFAULT_POLL_INTERVAL_SECONDS}`);
+  const concurrency = parseInt(process.env.JOB_QUEUE_CONCURRENCY || `${DEFAULT_WORKER_CONCURRENCY}`) || 1;
+  if (!seconds || seconds <= 0) {
+    console.log('Job queue worker disabled');
+    return null;
+  }
+
+  const poll = async () => {
+    const released = await storage.releaseStaleQueueJobs(new Date(Date.now() - STALE_JOB_MS));
+    if (released > 0) {
+      console.log(`Re-queued ${released} stale jobs`);
+    }
+
+    while (activeJobs < concurrency) {
+      const job = await storage.claimQueueJob(workerId, new Date(), MAX_RUNNING_JOBS_PER_GROUP);
+      if (!job) break;
+
+      activeJobs++;
+      runQueueJob(job)
+        .catch(error => console.error(`Job ${job.id} could not be recorded:`, error))
+        .finally(() => { activeJobs--; });
+    }
+  };
+
+  console.log(`Job queue worker ${workerId} polling every ${seconds} seconds`);
+  const timer = setInterval(() => {
+    poll().catch(error => {
+      console.error('Job queue poll failed:', error);
+    });
+  }, seconds * 1000);
+
+  // Don't keep the process alive just for the worker
+  timer.unref();
+  return timer;
+}
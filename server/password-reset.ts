@@ -0,0 +1,65 @@
+// password-reset.ts - One-time password reset links issued by admins
+
+import crypto from 'crypto';
+import type { User } from '@shared/schema';
+import { storage } from './storage-factory';
+import { hashPassword } from './utils/password';
+
+export const PASSWORD_RESET_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class PasswordResetError extends Error {
+  constructor(message = 'This reset link is invalid or has expired') {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a reset token for a user. Only its hash is stored, so the token
+ * has to be handed to the user now; it cannot be looked up later.
+ *
+ * @param createdBy The admin issuing it
+ */
+export async function issuePasswordResetToken(
+  userId: number,
+  createdBy: number | null
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+
+  await storage.createPasswordResetToken({
+    userId,
+    tokenHash: hashResetToken(token),
+    createdBy,
+    expiresAt,
+  });
+  return { token, expiresAt };
+}
+
+/**
+ * Set a new password with a reset token. The token is used up even if the
+ * account is suspended, which still keeps the user from logging in.
+ *
+ * @throws PasswordResetError when the token is unknown, expired or already used
+ */
+export async function resetPasswordWithToken(token: string, password: string): Promise<User> {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() < Date.now()) {
+    throw new PasswordResetError();
+  }
+
+  // Claiming the token first keeps two concurrent requests from both using it
+  if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+    throw new PasswordResetError();
+  }
+
+  const user = await storage.updateUser(resetToken.userId, { password: await hashPassword(password) });
+  if (!user) {
+    throw new PasswordResetError();
+  }
+  return user;
+}
@@ -0,0 +1,219 @@
+// payment-gateway.ts - Payment provider abstraction (Stripe in production, an in-memory fake for local use)
+
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import dotenv from 'dotenv';
+dotenv.config();
+
+export type PaymentIntentStatus = 'requires_payment' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string;
+  amount: number; // Smallest currency unit (cents)
+  currency: string;
+  status: PaymentIntentStatus;
+}
+
+export interface CreatePaymentIntentParams {
+  amount: number; // Smallest currency unit (cents)
+  currency: string;
+  bookingId: number;
+  propertyId: number;
+  description?: string;
+  receiptEmail?: string | null;
+}
+
+/**
+ * Normalized webhook event; provider events we don't act on come back as 'ignored'
+ */
+export interface PaymentEvent {
+  type: 'payment_succeeded' | 'payment_failed' | 'payment_cancelled' | 'ignored';
+  paymentIntentId: string | null;
+  providerEventType: string;
+}
+
+/**
+ * Thrown when a webhook payload fails signature verification or can't be parsed
+ */
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentWebhookError';
+  }
+}
+
+export interface PaymentGateway {
+  readonly name: 'stripe' | 'fake';
+  // Key the browser needs to collect card details, if the provider has one
+  readonly publishableKey: string | null;
+  createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  cancelPaymentIntent(paymentIntentId: string): Promise<void>;
+  parseWebhookEvent(rawBody: Buffer, signature: string | undefined): PaymentEvent;
+}
+
+/**
+ * Convert a major-unit amount (e.g. dollars) to the smallest currency unit
+ */
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export class StripePaymentGateway implements PaymentGateway {
+  readonly name = 'stripe' as const;
+  private stripe: Stripe;
+
+  constructor(
+    secretKey: string,
+    private webhookSecret: string,
+    readonly publishableKey: string | null
+  ) {
+    this.stripe = new Stripe(secretKey);
+  }
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const intent = await this.stripe.paymentIntents.create({
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      description: params.description,
+      receipt_email: params.receiptEmail ?? undefined,
+      automatic_payment_methods: { enabled: true },
+      metadata: {
+        bookingId: params.bookingId.toString(),
+        propertyId: params.propertyId.toString(),
+      },
+    });
+
+    return {
+      id: intent.id,
+      clientSecret: intent.client_secret!,
+      amount: intent.amount,
+      currency: intent.currency,
+      status: 'requires_payment',
+    };
+  }
+
+  async cancelPaymentIntent(paymentIntentId: string): Promise<void> {
+    await this.stripe.paymentIntents.cancel(paymentIntentId);
+  }
+
+  parseWebhookEvent(rawBody: Buffer, signature: string | undefined): PaymentEvent {
+    if (!signature) {
+      throw new PaymentWebhookError('Missing Stripe-Signature header');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    } catch (error) {
+      throw new PaymentWebhookError(error instanceof Error ? error.message : 'Invalid signature');
+    }
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return { type: 'payment_succeeded', paymentIntentId: event.data.object.id, providerEventType: event.type };
+      case 'payment_intent.payment_failed':
+        return { type: 'payment_failed', paymentIntentId: event.data.object.id, providerEventType: event.type };
+      case 'payment_intent.canceled':
+        return { type: 'payment_cancelled', paymentIntentId: event.data.object.id, providerEventType: event.type };
+      default:
+        return { type: 'ignored', paymentIntentId: null, providerEventType: event.type };
+    }
+  }
+}
+
+/**
+ * In-memory gateway for development and tests. No money moves: intents are
+ * settled by posting `{ "type": "payment_succeeded", "paymentIntentId": "..." }`
+ * (or payment_failed / payment_cancelled) to the payment webhook.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake' as const;
+  readonly publishableKey = null;
+  private intents = new Map<string, PaymentIntent>();
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const id = `pi_fake_${crypto.randomBytes(12).toString('hex')}`;
+    const intent: PaymentIntent = {
+      id,
+      clientSecret: `${id}_secret_${crypto.randomBytes(12).toString('hex')}`,
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      status: 'requires_payment',
+    };
+    this.intents.set(id, intent);
+    return intent;
+  }
+
+  async cancelPaymentIntent(paymentIntentId: string): Promise<void> {
+    const intent = this.intents.get(paymentIntentId);
+    if (intent) {
+      intent.status = 'cancelled';
+    }
+  }
+
+  getPaymentIntent(paymentIntentId: string): PaymentIntent | undefined {
+    return this.intents.get(paymentIntentId);
+  }
+
+  parseWebhookEvent(rawBody: Buffer, _signature: string | undefined): PaymentEvent {
+    let payload: { type?: string; paymentIntentId?: string };
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new PaymentWebhookError('Webhook body is not valid JSON');
+    }
+
+    const intent = payload.paymentIntentId ? this.intents.get(payload.paymentIntentId) : undefined;
+    if (!intent) {
+      throw new PaymentWebhookError(`Unknown payment intent: ${payload.paymentIntentId}`);
+    }
+
+    switch (payload.type) {
+      case 'payment_succeeded':
+        intent.status = 'succeeded';
+        return { type: payload.type, paymentIntentId: intent.id, providerEventType: payload.type };
+      case 'payment_failed':
+        intent.status = 'failed';
+        return { type: payload.type, paymentIntentId: intent.id, providerEventType: payload.type };
+      case 'payment_cancelled':
+        intent.status = 'cancelled';
+        return { type: payload.type, paymentIntentId: intent.id, providerEventType: payload.type };
+    }
+    return { type: 'ignored', paymentIntentId: null, providerEventType: payload.type ?? 'unknown' };
+  }
+}
+
+let gateway: PaymentGateway | null | undefined;
+
+/**
+ * Resolve the configured payment gateway.
+ * Stripe is used when STRIPE_SECRET_KEY is set; otherwise the fake gateway, except
+ * in production where checkout stays disabled (null) until Stripe is configured.
+ */
+export function getPaymentGateway(): PaymentGateway | null {
+  if (gateway !== undefined) return gateway;
+
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (secretKey) {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      console.warn('STRIPE_WEBHOOK_SECRET is not set - payment webhooks will be rejected');
+    }
+    gateway = new StripePaymentGateway(secretKey, webhookSecret || '', process.env.STRIPE_PUBLISHABLE_KEY || null);
+  } else if (process.env.NODE_ENV === 'production') {
+    console.warn('STRIPE_SECRET_KEY is not set - direct checkout is disabled');
+    gateway = null;
+  } else {
+    console.log('Using FakePaymentGateway (set STRIPE_SECRET_KEY to take real payments)');
+    gateway = new FakePaymentGateway();
+  }
+  return gateway;
+}
+
+/**
+ * Override the gateway (tests and local tooling)
+ */
+export function setPaymentGateway(override: PaymentGateway | null): void {
+  gateway = override;
+}
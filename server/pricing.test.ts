@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PricingRule, Property } from '@shared/schema';
+import { storage } from './storage-factory';
+import { calculateQuote, priceNight } from './pricing';
+import { getMinStayForArrival } from './utils/pricing-rules';
+
+// 2034-01-01 is a Sunday, so 2034-01-06 and 2034-01-07 are the first Friday and Saturday
+async function pricedProperty(overrides: Partial<Property> = {}): Promise<Property> {
+  const property = await storage.getProperty(1);
+  assert.ok(property, 'sample property 1 exists');
+  return {
+    ...property,
+    price: 100,
+    weekendPrice: 150,
+    weeklyPrice: 600,
+    monthlyPrice: 2000,
+    cleaningFee: 50,
+    serviceFee: 20,
+    taxRate: 10,
+    ...overrides,
+  };
+}
+
+let nextRuleId = 1;
+function rule(overrides: Partial<PricingRule>): PricingRule {
+  return {
+    id: nextRuleId++,
+    propertyId: 1,
+    name: 'Rule',
+    startDate: null,
+    endDate: null,
+    daysOfWeek: null,
+    nightlyPrice: null,
+    adjustmentPercent: null,
+    minStay: null,
+    priority: 0,
+    isActive: true,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+function stay(checkIn: string, checkOut: string) {
+  return { checkIn, checkOut, guests: 2 };
+}
+
+test('weekend nights use the weekend rate, and fees and taxes are added once', async () => {
+  const quote = calculateQuote(await pricedProperty(), stay('2034-01-05', '2034-01-08'));
+
+  assert.deepEqual(quote.nights.map(night => [night.date, night.price, night.isWeekend]), [
+    ['2034-01-05', 100, false],
+    ['2034-01-06', 150, true],
+    ['2034-01-07', 150, true],
+  ]);
+  assert.equal(quote.subtotal, 400);
+  assert.equal(quote.discount, null);
+  // (400 + 50 cleaning + 20 service) plus 10% tax
+  assert.equal(quote.taxes, 47);
+  assert.equal(quote.total, 517);
+});
+
+test('the highest-priority rule covering a night replaces or adjusts its price', async () => {
+  const property = await pricedProperty();
+  const rules = [
+    rule({ name: 'January', startDate: '2034-01-01', endDate: '2034-01-31', adjustmentPercent: 20 }),
+    rule({ name: 'Event night', startDate: '2034-01-05', endDate: '2034-01-05', nightlyPrice: 300, priority: 1 }),
+    rule({ name: 'Switched off', nightlyPrice: 1, priority: 10, isActive: false }),
+  ];
+
+  const quote = calculateQuote(property, stay('2034-01-05', '2034-01-08'), rules);
+
+  assert.deepEqual(quote.nights.map(night => night.price), [300, 180, 180]);
+  assert.deepEqual(quote.nights.map(night => night.ruleId), [rules[1].id, rules[0].id, rules[0].id]);
+  assert.equal(quote.subtotal, 660);
+});
+
+test('rules restricted to days of week, ties, rounding and negative prices', async () => {
+  const property = await pricedProperty({ price: 99.99 });
+
+  const sundays = rule({ daysOfWeek: [0], adjustmentPercent: 12.5 });
+  assert.equal(priceNight(property, [sundays], '2034-01-01').price, 112.49);
+  assert.equal(priceNight(property, [sundays], '2034-01-02').price, 99.99);
+
+  // Equal priority: the most recently created rule wins
+  const older = rule({ nightlyPrice: 200 });
+  const newer = rule({ nightlyPrice: 250 });
+  assert.equal(priceNight(property, [newer, older], '2034-01-02').price, 250);
+
+  // A discount can't make a night cost less than nothing
+  assert.equal(priceNight(property, [rule({ adjustmentPercent: -150 })], '2034-01-02').price, 0);
+});
+
+test('weekly and monthly prices discount long stays when they beat the nightly total', async () => {
+  const property = await pricedProperty();
+
+  // Mon-Sun: five weekday nights at 100, Friday and Saturday at 150
+  const week = calculateQuote(property, stay('2034-01-02', '2034-01-09'));
+  assert.equal(week.subtotal, 800);
+  assert.deepEqual(week.discount, { type: 'weekly', amount: 200 });
+  assert.equal(week.total, 737);
+
+  const month = calculateQuote(property, stay('2034-01-02', '2034-01-30'));
+  assert.equal(month.subtotal, 3200);
+  assert.deepEqual(month.discount, { type: 'monthly', amount: 1200 });
+
+  // Longer stays are prorated from the 28-night price
+  const longer = calculateQuote(property, stay('2034-01-02', '2034-02-01'));
+  assert.equal(longer.subtotal, 3400);
+  assert.deepEqual(longer.discount, { type: 'monthly', amount: 1257.14 });
+
+  const pricierWeek = calculateQuote(await pricedProperty({ weeklyPrice: 900 }), stay('2034-01-02', '2034-01-09'));
+  assert.equal(pricierWeek.discount, null);
+  assert.equal(pricierWeek.subtotal, 800);
+});
+
+test('a rule covering the arrival night replaces the minimum stay', () => {
+  const rules = [
+    rule({ startDate: '2034-12-30', endDate: '2035-01-01', minStay: 3 }),
+    rule({ startDate: '2034-12-31', endDate: '2034-12-31', minStay: 5, priority: 1 }),
+  ];
+
+  assert.equal(getMinStayForArrival(2, rules, '2034-12-29'), 2);
+  assert.equal(getMinStayForArrival(2, rules, '2034-12-30'), 3);
+  assert.equal(getMinStayForArrival(2, rules, '2034-12-31'), 5);
+  assert.equal(getMinStayForArrival(null, [], '2034-12-31'), null);
+});
@@ -0,0 +1,107 @@
+// pricing.ts - Server-side stay pricing (nightly rates, length-of-stay discounts, fees and taxes)
+
+import type { PricingRule, Property } from '@shared/schema';
+import type { PriceQuote, QuoteNight, QuoteRequest, StayDiscountType } from '@shared/pricing';
+import { eachNight } from './utils/availability-helpers';
+import { findApplicableRule } from './utils/pricing-rules';
+
+const WEEKLY_NIGHTS = 7;
+const MONTHLY_NIGHTS = 28;
+
+// Friday and Saturday nights use the weekend rate
+const WEEKEND_DAYS = [5, 6];
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function isWeekendNight(date: string): boolean {
+  return WEEKEND_DAYS.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+}
+
+/**
+ * Price a single night: the weekend rate on Friday/Saturday, then the
+ * highest-priority pricing rule either replaces or adjusts that price
+ */
+export function priceNight(
+  property: Pick<Property, 'price' | 'weekendPrice'>,
+  rules: PricingRule[],
+  date: string
+): QuoteNight {
+  const isWeekend = isWeekendNight(date);
+  const basePrice = isWeekend && property.weekendPrice ? property.weekendPrice : property.price;
+  const rule = findApplicableRule(rules, date, 'price');
+
+  let price = basePrice;
+  if (rule?.nightlyPrice != null) {
+    price = rule.nightlyPrice;
+  } else if (rule?.adjustmentPercent != null) {
+    price = roundCurrency(basePrice * (1 + rule.adjustmentPercent / 100));
+  }
+
+  return { date, price: Math.max(price, 0), isWeekend, ruleId: rule?.id ?? null };
+}
+
+/**
+ * Pick the length-of-stay discount for a stay.
+ * weeklyPrice covers 7 nights and monthlyPrice 28 nights; longer stays are prorated
+ * from that per-night rate. The discount only applies when it beats the nightly subtotal.
+ */
+function getStayDiscount(
+  property: Pick<Property, 'weeklyPrice' | 'monthlyPrice'>,
+  nightCount: number,
+  subtotal: number
+): PriceQuote['discount'] {
+  let type: StayDiscountType | null = null;
+  let discountedTotal = subtotal;
+
+  if (nightCount >= MONTHLY_NIGHTS && property.monthlyPrice) {
+    type = 'monthly';
+    discountedTotal = (property.monthlyPrice / MONTHLY_NIGHTS) * nightCount;
+  } else if (nightCount >= WEEKLY_NIGHTS && property.weeklyPrice) {
+    type = 'weekly';
+    discountedTotal = (property.weeklyPrice / WEEKLY_NIGHTS) * nightCount;
+  }
+
+  const amount = roundCurrency(subtotal - discountedTotal);
+  return type && amount > 0 ? { type, amount } : null;
+}
+
+/**
+ * Build the price quote for a stay at a property.
+ * Callers are expected to have validated the dates, stay length and availability.
+ *
+ * @param property The property being booked
+ * @param request Stay dates and guest count
+ * @param rules The property's pricing rules
+ */
+export function calculateQuote(property: Property, request: QuoteRequest, rules: PricingRule[] = []): PriceQuote {
+  const nights = eachNight(request.checkIn, request.checkOut)
+    .map(date => priceNight(property, rules, date));
+
+  const subtotal = roundCurrency(nights.reduce((sum, night) => sum + night.price, 0));
+  const discount = getStayDiscount(property, nights.length, subtotal);
+  const cleaningFee = property.cleaningFee ?? 0;
+  const serviceFee = property.serviceFee ?? 0;
+  const taxRate = property.taxRate ?? 0;
+
+  const taxable = subtotal - (discount?.amount ?? 0) + cleaningFee + serviceFee;
+  const taxes = roundCurrency(taxable * taxRate / 100);
+
+  return {
+    propertyId: property.id,
+    checkIn: request.checkIn,
+    checkOut: request.checkOut,
+    guests: request.guests,
+    currency: 'USD',
+    nights,
+    nightCount: nights.length,
+    subtotal,
+    discount,
+    cleaningFee,
+    serviceFee,
+    taxRate,
+    taxes,
+    total: roundCurrency(taxable + taxes),
+  };
+}
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertProperty } from '@shared/schema';
+import { storage } from './storage-factory';
+import { getRevertUpdate } from './utils/revision-helpers';
+import { isDisconnectedStatusChange, omitAdminOnlyPropertyFields } from './utils/property-helpers';
+
+// Applies an update and returns the revision it recorded
+async function revisionOf(propertyId: number, update: Partial<InsertProperty>) {
+  assert.ok(await storage.updateProperty(propertyId, update, { source: 'admin' }));
+  const [revision] = await storage.getPropertyRevisions(propertyId, 1);
+  assert.ok(revision, 'the update recorded a revision');
+  return revision;
+}
+
+test('getRevertUpdate puts back the previous value of every changed field', async () => {
+  const before = (await storage.getProperty(1))!;
+  const revision = await revisionOf(1, { name: 'Renamed', price: before.price + 50 });
+
+  assert.deepEqual(getRevertUpdate(revision), { name: before.name, price: before.price });
+});
+
+test('a host restore leaves admin-only fields as they are', async () => {
+  const before = (await storage.getProperty(2))!;
+  const revision = await revisionOf(2, { name: 'Featured listing', isFeatured: !before.isFeatured, isVerified: true });
+
+  const update = omitAdminOnlyPropertyFields(getRevertUpdate(revision));
+
+  assert.deepEqual(update, { name: before.name });
+});
+
+test('restoring into or out of disconnected is left to admins', async () => {
+  await storage.updateProperty(3, { status: 'active' });
+  const disconnect = await revisionOf(3, { status: 'disconnected' });
+  const reconnect = await revisionOf(3, { status: 'active' });
+
+  // Reverting the reconnect would disconnect the property again
+  assert.equal(isDisconnectedStatusChange('active', getRevertUpdate(reconnect).status), true);
+  // Reverting the disconnect would bring it back while it is disconnected
+  assert.equal(isDisconnectedStatusChange('disconnected', getRevertUpdate(disconnect).status), true);
+
+  const unpublish = await revisionOf(3, { status: 'inactive' });
+  assert.equal(isDisconnectedStatusChange('inactive', getRevertUpdate(unpublish).status), false);
+  assert.equal(isDisconnectedStatusChange('disconnected', undefined), false);
+});
@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertProperty } from '@shared/schema';
+import { propertySearchParamsSchema } from '@shared/property-search';
+import { MemStorage, type IStorage } from './storage';
+import { DatabaseStorage } from './database-storage';
+
+// The same search contract is checked against both backends. `npm test` runs without a
+// database, so the DatabaseStorage half only runs when DATABASE_URL (and the PG_* settings
+// getDbConfig reads) point at a database it may write fixture properties to.
+
+const MARKER = `Parity${Date.now()}`;
+
+type FixtureKey = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+const FIXTURES: Record<FixtureKey, Partial<InsertProperty>> = {
+  A: { city: 'Lisbon', type: 'Apartment', price: 120, maxGuests: 4, bedrooms: 2, bathrooms: 1, amenities: ['WiFi', 'Pool'], rating: 4.8, reviewCount: 10, latitude: 38.72, longitude: -9.14 },
+  B: { city: 'Lisbon', type: 'Villa', price: 300, maxGuests: 8, bedrooms: 4, bathrooms: 3, amenities: ['WiFi', 'Pool', 'Parking'], rating: 4.9, reviewCount: 3, latitude: 38.69, longitude: -9.42 },
+  C: { city: 'Porto', type: 'House', price: 90, maxGuests: 2, bedrooms: 1, bathrooms: 1, amenities: ['wifi'], rating: 4.2, reviewCount: 8, latitude: 41.15, longitude: -8.61 },
+  D: { city: 'Porto', type: 'Apartment', price: 150, maxGuests: 6, bedrooms: 3, bathrooms: 2, amenities: ['Kitchen'], rating: 4.8, reviewCount: 25, latitude: 41.16, longitude: -8.63 },
+  E: { city: 'Faro', type: 'apartment', price: 60, maxGuests: 2, bedrooms: 1, bathrooms: 1, amenities: [], rating: 3.9, reviewCount: 1, latitude: 37.02, longitude: -7.93 },
+  // Deactivated properties never match
+  F: { city: 'Lisbon', type: 'Apartment', price: 100, maxGuests: 4, bedrooms: 2, bathrooms: 1, amenities: ['WiFi'], rating: 5, reviewCount: 1, isActive: false },
+};
+
+async function seed(store: IStorage): Promise<Map<number, FixtureKey>> {
+  const keysById = new Map<number, FixtureKey>();
+  for (const [key, fixture] of Object.entries(FIXTURES) as [FixtureKey, Partial<InsertProperty>][]) {
+    const property = await store.createProperty({
+      name: `${MARKER} ${key}`,
+      description: 'Search parity fixture',
+      location: `${fixture.city}, Portugal`,
+      city: fixture.city!,
+      country: 'Portugal',
+      price: fixture.price!,
+      bedrooms: fixture.bedrooms!,
+      bathrooms: fixture.bathrooms!,
+      maxGuests: fixture.maxGuests!,
+      imageUrl: 'https://example.com/fixture.jpg',
+      hostId: 1,
+      hostName: 'Fixture Host',
+      ...fixture,
+    });
+    keysById.set(property.id, key);
+  }
+  return keysById;
+}
+
+// Runs a search the way GET /api/properties/search does, from raw query values
+async function search(store: IStorage, keysById: Map<number, FixtureKey>, query: Record<string, string> = {}) {
+  const { q, sort, lat, lng, page, pageSize, ...filters } = propertySearchParamsSchema.parse({ q: MARKER, ...query });
+  const { items, total } = await store.searchPropertiesPage(q, filters, {
+    sort,
+    origin: lat !== undefined && lng !== undefined ? { latitude: lat, longitude: lng } : undefined,
+    limit: pageSize,
+    offset: (page - 1) * pageSize,
+  });
+  return { keys: items.map(item => keysById.get(item.id)), total };
+}
+
+async function checkSearchContract(store: IStorage) {
+  const keysById = await seed(store);
+  const matching = async (query: Record<string, string>) =>
+    (await search(store, keysById, { sort: 'price_asc', ...query })).keys.sort();
+
+  assert.deepEqual(await matching({}), ['A', 'B', 'C', 'D', 'E']);
+  assert.deepEqual(await matching({ city: 'LISBON' }), ['A', 'B']);
+  assert.deepEqual(await matching({ propertyType: 'apartment' }), ['A', 'D', 'E']);
+  assert.deepEqual(await matching({ minPrice: '100', maxPrice: '200' }), ['A', 'D']);
+  assert.deepEqual(await matching({ guests: '6' }), ['B', 'D']);
+  assert.deepEqual(await matching({ bedrooms: '3', bathrooms: '2' }), ['B', 'D']);
+  assert.deepEqual(await matching({ amenities: 'wifi,POOL' }), ['A', 'B']);
+  assert.deepEqual(await matching({ amenities: 'WiFi' }), ['A', 'B', 'C']);
+  assert.deepEqual(await matching({ city: 'Porto', amenities: 'Pool' }), []);
+
+  // Pages split one ordering; the total counts every match
+  const pages = await Promise.all(['1', '2', '3'].map(page => search(store, keysById, { sort: 'price_asc', pageSize: '2', page })));
+  assert.deepEqual(pages.map(result => result.keys), [['E', 'C'], ['A', 'D'], ['B']]);
+  assert.deepEqual(pages.map(result => result.total), [5, 5, 5]);
+  assert.deepEqual((await search(store, keysById, { sort: 'price_asc', pageSize: '2', page: '4' })).keys, []);
+
+  assert.deepEqual((await search(store, keysById, { sort: 'price_desc' })).keys, ['B', 'D', 'A', 'C', 'E']);
+  // Equal ratings: more reviews first
+  assert.deepEqual((await search(store, keysById, { sort: 'rating' })).keys, ['B', 'D', 'A', 'C', 'E']);
+  assert.deepEqual(
+    (await search(store, keysById, { sort: 'distance', lat: '41.15', lng: '-8.62' })).keys,
+    ['C', 'D', 'A', 'B', 'E']
+  );
+}
+
+test('search params are parsed from the URL query', () => {
+  const params = propertySearchParamsSchema.parse({ q: ' loft ', amenities: 'WiFi, Pool,,', minPrice: '50', guests: '3', bathrooms: '1.5' });
+
+  assert.equal(params.q, 'loft');
+  assert.deepEqual(params.amenities, ['WiFi', 'Pool']);
+  assert.equal(params.minPrice, 50);
+  assert.equal(params.guests, 3);
+  assert.equal(params.bathrooms, 1.5);
+  assert.equal(params.sort, 'newest');
+  assert.equal(params.page, 1);
+  assert.equal(params.pageSize, 12);
+
+  assert.equal(propertySearchParamsSchema.safeParse({ sort: 'distance' }).success, false);
+  assert.equal(propertySearchParamsSchema.safeParse({ pageSize: '500' }).success, false);
+  assert.equal(propertySearchParamsSchema.safeParse({ minPrice: 'cheap' }).success, false);
+});
+
+test('MemStorage filters, sorts and pages searches to the shared contract', async () => {
+  await checkSearchContract(new MemStorage());
+});
+
+test(
+  'DatabaseStorage filters, sorts and pages searches to the shared contract',
+  { skip: !process.env.DATABASE_URL && 'needs DATABASE_URL' },
+  async () => {
+    const store = new DatabaseStorage();
+    try {
+      await checkSearchContract(store);
+    } finally {
+      const fixtures = await store.searchProperties(MARKER);
+      await Promise.all(fixtures.map(property => store.deleteProperty(property.id)));
+    }
+  }
+);
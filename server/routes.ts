@@ -7,15 +7,69 @@ import {
   insertPropertySchema, 
   insertReviewSchema, 
   insertFavoriteSchema,
-  properties
+  insertBookingSchema,
+  insertAvailabilityBlockSchema,
+  insertPricingRuleSchema,
+  type InsertPricingRule,
+  bookingStatuses,
+  webhookEventStatuses,
+  jobTypes,
+  queueJobStatuses,
+  isoDateSchema,
+  properties,
+  type Property
 } from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { setupSitemapRoutes } from "./sitemap";
 import { registerHospitableAuthRoutes } from "./hospitable-auth";
+import { setupAuth, toPublicUser } from "./auth";
 import { createServerApiClient } from "./hospitable-client";
 import hospitable_controller from "./hospitable-flow-controller";
+import { CalendarFeedUrlError, syncPropertyCalendar } from "./calendar-sync";
+import { generatePropertyICalendar } from "./utils/ical-generator";
+import { calculateQuote } from "./pricing";
+import { createCheckoutSession, applyPaymentEvent, cancelBookingPaymentIntent } from "./checkout";
+import { getPaymentGateway, PaymentWebhookError } from "./payment-gateway";
+import { replayWebhookEvents } from "./webhook-events";
+import { toPublicConnection } from "./hospitable-connections";
+import { SyncJobRunningError, getJobTargetProperties, getSyncJobs, runSyncJob } from "./sync-jobs";
+import { retryQueueJob } from "./job-queue";
+import { recordAuditEvent } from "./audit-log";
+import { issuePasswordResetToken } from "./password-reset";
+import { aggregateHostRating, canImportCustomerListings, getOrCreateHostProfile, resolveCustomerHost } from "./hosts";
+import { TeamInviteError, acceptTeamInvite, canManageTeam, inviteTeamMember, toPublicTeamMember } from "./host-teams";
+import { checkoutRequestSchema, quoteRequestSchema, type CheckoutStatus } from "@shared/pricing";
+import { propertySearchParamsSchema, type PropertySearchPage } from "@shared/property-search";
+import {
+  adminPropertyQuerySchema,
+  bulkPropertyActionSchema,
+  type AdminPropertyPage,
+  type BulkPropertyActionResult
+} from "@shared/admin-properties";
+import {
+  adminUserQuerySchema,
+  suspendUserSchema,
+  updateUserSchema,
+  type AdminUserDetail,
+  type AdminUserPage,
+  type PasswordResetLink
+} from "@shared/admin-users";
+import {
+  acceptTeamInviteSchema,
+  teamInviteSchema,
+  updateTeamMemberSchema,
+  type PropertyPermission,
+  type TeamInviteLink,
+  type TeamMembership
+} from "@shared/host-teams";
+import {
+  assignConnectionHostSchema,
+  updateHostProfileSchema,
+  type HostProfile
+} from "@shared/hosts";
+import crypto from "crypto";
 import dotenv from "dotenv";
 import {
   generalRateLimiter,
@@ -23,10 +77,80 @@ import {
   userRateLimiter,
   createCustomRateLimiter,
 } from './utils/rateLimiter';
+import { canTransitionBooking, getAllowedBookingTransitions } from './utils/booking-helpers';
+import {
+  AvailabilityConflictError,
+  addDays,
+  countNights,
+  findAvailabilityConflict,
+  getMinStayByDate,
+  getUnavailableDates,
+  MAX_STAY_NIGHTS,
+  validateStayLength,
+} from './utils/availability-helpers';
+import {
+  canManageProperty,
+  getPropertyAccessScope,
+  hasPropertyPermission,
+  requireAuth,
+  requirePropertyPermission,
+  requireRole,
+  sendForbidden,
+  sendUnauthenticated,
+} from './utils/authorization';
+import { omitLockedFields } from './utils/listing-helpers';
+import { getRevertUpdate } from './utils/revision-helpers';
+import {
+  EMBED_FIELDS,
+  getAdminOnlyPropertyFields,
+  isDisconnectedStatusChange,
+  omitAdminOnlyPropertyFields,
+} from './utils/property-helpers';
 
 
 dotenv.config();
 
+// Public URL of a property's .ics export feed
+function buildCalendarExportUrl(req: Request, propertyId: number, token: string): string {
+  return `${req.protocol}://${req.get("host")}/api/properties/${propertyId}/calendar.ics?token=${encodeURIComponent(token)}`;
+}
+
+// Constant-time comparison so feed tokens can't be guessed byte by byte
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+// Body of PATCH /api/properties/:id: property columns plus the unpublish flag and the
+// embed aliases the edit dialog sends
+const propertyUpdateSchema = insertPropertySchema.partial().extend({
+  unpublish: z.boolean().optional(),
+  bookingWidgetHtml: z.string().nullable().optional(),
+  reviewsWidgetHtml: z.string().nullable().optional(),
+}).strict();
+
+// Property edits need embed.edit for the embed fields and property.edit for anything else
+function getPropertyEditPermissions(req: Request): PropertyPermission[] {
+  const fields = Object.keys(req.body ?? {});
+  const permissions: PropertyPermission[] = [];
+  if (fields.some(field => EMBED_FIELDS.includes(field))) permissions.push("embed.edit");
+  if (fields.length === 0 || fields.some(field => !EMBED_FIELDS.includes(field))) permissions.push("property.edit");
+  return permissions;
+}
+
+// Check a pricing rule makes sense as a whole (used after merging PATCH updates)
+function validatePricingRule(rule: Partial<InsertPricingRule>): string | null {
+  if (rule.startDate && rule.endDate && rule.endDate < rule.startDate) {
+    return "End date must be on or after start date";
+  }
+  if (rule.nightlyPrice == null && rule.adjustmentPercent == null && rule.minStay == null) {
+    return "A pricing rule must set a nightly price, a price adjustment or a minimum stay";
+  }
+  return null;
+}
+
 // Helper function to extract customerId and listingId from platformId
 function extractPropertyIds(platformId: string): { customerId: string | null; listingId: string | null } {
   if (!platformId) {
@@ -64,6 +188,9 @@ const customSearchLimiter = createCustomRateLimiter({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and login (must come before any route that reads req.user)
+  setupAuth(app);
+
   // SEO Routes
   const seoRouter = Router();
   
@@ -91,9 +218,9 @@ Sitemap: https://staydirectly.com/sitemap.xml
   
   // Hospitable flow routes
   // app.post('/api/hospitable/connect', hospitable_controller.connectHospitable);
-  app.post('/api/hospitable/import-listings',userRateLimiter, hospitable_controller.importCustomerListings);
-  app.post('/api/hospitable/fetch-property-images', userRateLimiter, hospitable_controller.fetchPropertyImages);
-  app.post('/api/hospitable/publish-properties',strictRateLimiter, hospitable_controller.markPropertiesForPublishing);
+  app.post('/api/hospitable/import-listings', requireRole('host', 'admin'), userRateLimiter, hospitable_controller.importCustomerListings);
+  app.post('/api/hospitable/fetch-property-images', requireAuth, userRateLimiter, hospitable_controller.refreshPropertyImages);
+  app.post('/api/hospitable/publish-properties', requireAuth, strictRateLimiter, hospitable_controller.markPropertiesForPublishing);
   
   // API route for fetching property images
   app.get('/api/hospitable/property-images/:customerId/:listingId',userRateLimiter,  async (req: Request, res: Response) => {
@@ -173,290 +300,1704 @@ Sitemap: https://staydirectly.com/sitemap.xml
       
       // If isPublished parameter is provided, filter by published status
       if (isPublished === 'true') {
-        const properties = await storage.searchProperties('isPublished:true', { limit, offset });
+        const properties = await storage.searchProperties('isPublished:true');
         return res.json(properties);
       } else if (isPublished === 'false') {
-        const properties = await storage.searchProperties('isPublished:false', { limit, offset });
+        const properties = await storage.searchProperties('isPublished:false');
         return res.json(properties);
       } else if (isPublished === 'all') {
         // Return all properties regardless of published status
         const properties = await storage.getProperties(limit, offset);
         return res.json(properties);
       }
-      
-      // Default behavior - get all properties
-      const properties = await storage.getProperties(limit, offset);
-      res.json(properties);
+      
+      // Default behavior - get all properties
+      const properties = await storage.getProperties(limit, offset);
+      res.json(properties);
+    } catch (error) {
+      console.error('Error fetching properties:', error);
+      res.status(500).json({ message: "Failed to fetch properties", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+
+
+  app.get("/api/properties/featured",  async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 4;
+      const properties = await storage.getFeaturedProperties(limit);
+      res.json(properties);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch featured properties" });
+    }
+  });
+
+  app.get("/api/properties/search", customSearchLimiter, async (req: Request, res: Response) => {
+    try {
+      console.log(`[API Route] Full URL: ${req.protocol}://${req.get('host')}${req.originalUrl}`);
+      const { q, sort, lat, lng, page, pageSize, ...filters } = propertySearchParamsSchema.parse(req.query);
+
+      const { items, total } = await storage.searchPropertiesPage(q, filters, {
+        sort,
+        origin: lat !== undefined && lng !== undefined ? { latitude: lat, longitude: lng } : undefined,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      const result: PropertySearchPage = { items, total, page, pageSize };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      console.error('Error in /api/properties/search:', error);
+      res.status(500).json({ message: "Failed to search properties" });
+    }
+  });
+
+
+  app.get("/api/properties/:id", generalRateLimiter,  async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const property = await storage.getProperty(id);
+      
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      res.json(property);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch property" });
+    }
+  });
+
+  // Profile of the host of a property; 404 until the host has one
+  app.get("/api/properties/:id/host", generalRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const property = await storage.getProperty(parseInt(req.params.id));
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const host = await storage.getHostByUserId(property.hostId);
+      if (!host) {
+        return res.status(404).json({ message: "Host not found" });
+      }
+      res.json(host);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch host" });
+    }
+  });
+
+  // Public host profile with the host's published properties
+  app.get("/api/hosts/:slug", generalRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const host = await storage.getHostBySlug(req.params.slug);
+      if (!host) {
+        return res.status(404).json({ message: "Host not found" });
+      }
+
+      const hostProperties = await storage.getPublishedPropertiesByHost(host.userId);
+      const result: HostProfile = { host, properties: hostProperties, ...aggregateHostRating(hostProperties) };
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch host" });
+    }
+  });
+
+  app.post("/api/properties", requireRole("host", "admin"), strictRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const propertyData = insertPropertySchema.parse(req.body);
+      // Hosts can only create properties they host themselves
+      if (req.user!.role !== "admin") {
+        const adminOnlyFields = getAdminOnlyPropertyFields(propertyData, ["hostId", "hostName", "hostImage"]);
+        if (adminOnlyFields.length > 0) {
+          return res.status(403).json({ message: `Only admins can set ${adminOnlyFields.join(", ")}` });
+        }
+        propertyData.hostId = req.user!.id;
+      }
+      const property = await storage.createProperty(propertyData);
+      await recordAuditEvent(req, { action: "property.create", entityType: "property", entityId: property.id, after: property });
+      res.status(201).json(property);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid property data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create property" });
+    }
+  });
+  
+  app.patch("/api/properties/:id", requirePropertyPermission(getPropertyEditPermissions), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { unpublish, ...propertyData }: Record<string, any> = propertyUpdateSchema.parse(req.body);
+
+      if (req.user!.role !== "admin") {
+        const adminOnlyFields = getAdminOnlyPropertyFields(propertyData);
+        if (adminOnlyFields.length > 0) {
+          return res.status(403).json({ message: `Only admins can change ${adminOnlyFields.join(", ")}` });
+        }
+        if (isDisconnectedStatusChange(res.locals.property.status, propertyData.status)) {
+          return res.status(403).json({ message: "Only admins can change the status of a disconnected property" });
+        }
+      }
+      
+      // If unpublishing, remove publishedAt field
+      const isUnpublish = unpublish === true;
+      if (isUnpublish) {
+        propertyData.publishedAt = null;
+      }
+      if (propertyData.bookingWidgetHtml) {
+        propertyData.bookingWidgetUrl = propertyData.bookingWidgetHtml;
+        delete propertyData.bookingWidgetHtml;
+      }
+      if (propertyData.reviewsWidgetHtml) {
+        propertyData.reviewWidgetCode = propertyData.reviewsWidgetHtml;
+        delete propertyData.reviewsWidgetHtml;
+      }
+      if (propertyData.lockedFields === null) {
+        propertyData.lockedFields = [];
+      }
+
+      const updatedProperty = await storage.updateProperty(id, propertyData, { source: "admin_ui", userId: req.user!.id });
+      await recordAuditEvent(req, {
+        action: isUnpublish ? "property.unpublish" : "property.update",
+        entityType: "property",
+        entityId: id,
+        before: res.locals.property,
+        after: updatedProperty,
+      });
+      res.json(updatedProperty);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid property data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update property" });
+    }
+  });
+  
+  app.delete("/api/properties/:id", requirePropertyPermission("property.delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      // Soft delete the property
+      const success = await storage.deleteProperty(id);
+      
+      if (success) {
+        await recordAuditEvent(req, { action: "property.delete", entityType: "property", entityId: id, before: res.locals.property });
+        res.status(200).json({ message: "Property deleted successfully" });
+      } else {
+        res.status(500).json({ message: "Failed to delete property" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete property" });
+    }
+  });
+
+  // Change history of a property, newest first, with the username of whoever made each change
+  app.get("/api/properties/:id/revisions", requirePropertyPermission("property.edit"), async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const revisions = await storage.getPropertyRevisions(parseInt(req.params.id), limit);
+
+      const userIds = Array.from(new Set(revisions.map(revision => revision.userId).filter((id): id is number => id !== null)));
+      const usernames = new Map<number, string>();
+      for (const userId of userIds) {
+        const user = await storage.getUser(userId);
+        if (user) usernames.set(userId, user.username);
+      }
+
+      res.json(revisions.map(revision => ({
+        ...revision,
+        username: revision.userId !== null ? usernames.get(revision.userId) ?? null : null,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch property history" });
+    }
+  });
+
+  // Roll back the fields a revision changed to their previous values (recorded as a new revision)
+  app.post("/api/properties/:id/revisions/:revisionId/restore", requirePropertyPermission("property.edit"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revision = await storage.getPropertyRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.propertyId !== id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      let update = getRevertUpdate(revision);
+      if (req.user!.role !== "admin") {
+        // Hosts restore what they could have edited themselves; admin-only fields stay as they are
+        update = omitAdminOnlyPropertyFields(update);
+        if (isDisconnectedStatusChange(res.locals.property.status, update.status)) {
+          return res.status(403).json({ message: "Only admins can change the status of a disconnected property" });
+        }
+      }
+
+      const updatedProperty = await storage.updateProperty(id, update, {
+        source: "restore",
+        userId: req.user!.id,
+        restoredFromId: revision.id,
+      });
+      await recordAuditEvent(req, {
+        action: "property.restore",
+        entityType: "property",
+        entityId: id,
+        before: res.locals.property,
+        after: updatedProperty,
+      });
+      res.json(updatedProperty);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore property revision" });
+    }
+  });
+
+  // Cities API
+  app.get("/api/cities", async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const cities = await storage.getCities(limit);
+      res.json(cities);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cities" });
+    }
+  });
+
+  app.get("/api/cities/featured", async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 4;
+      const cities = await storage.getFeaturedCities(limit);
+      res.json(cities);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch featured cities" });
+    }
+  });
+
+  app.get("/api/cities/:name", async (req: Request, res: Response) => {
+    try {
+      const city = await storage.getCityByName(req.params.name);
+      
+      if (!city) {
+        return res.status(404).json({ message: "City not found" });
+      }
+      
+      res.json(city);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch city" });
+    }
+  });
+
+  app.post("/api/cities", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const cityData = insertCitySchema.parse(req.body);
+      const city = await storage.createCity(cityData);
+      await recordAuditEvent(req, { action: "city.create", entityType: "city", entityId: city.id, after: city });
+      res.status(201).json(city);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid city data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create city" });
+    }
+  });
+
+  app.get("/api/cities/:name/properties", async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+      const properties = await storage.getPropertiesByCity(req.params.name, limit, offset);
+      res.json(properties);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch city properties" });
+    }
+  });
+
+  // Neighborhoods API
+  app.get("/api/cities/:id/neighborhoods", async (req: Request, res: Response) => {
+    try {
+      const cityId = parseInt(req.params.id);
+      const neighborhoods = await storage.getNeighborhoods(cityId);
+      res.json(neighborhoods);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch neighborhoods" });
+    }
+  });
+
+  // Reviews API
+  app.get("/api/properties/:id/reviews", async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const reviews = await storage.getReviews(propertyId);
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post("/api/reviews", async (req: Request, res: Response) => {
+    try {
+      const reviewData = insertReviewSchema.parse(req.body);
+      const review = await storage.createReview(reviewData);
+      await recordAuditEvent(req, { action: "review.create", entityType: "review", entityId: review.id, after: review });
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  // Favorites API (for the logged-in user)
+  app.get("/api/favorites", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const favorites = await storage.getFavorites(req.user!.id);
+      res.json(favorites);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch favorites" });
+    }
+  });
+
+  app.post("/api/favorites", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const favoriteData = insertFavoriteSchema.parse({ ...req.body, userId: req.user!.id });
+      const favorite = await storage.addFavorite(favoriteData);
+      await recordAuditEvent(req, { action: "favorite.add", entityType: "favorite", entityId: favorite.id, after: favorite });
+      res.status(201).json(favorite);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid favorite data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add favorite" });
+    }
+  });
+
+  app.delete("/api/favorites", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { propertyId } = req.body;
+      if (!propertyId) {
+        return res.status(400).json({ message: "Missing propertyId" });
+      }
+      
+      const success = await storage.removeFavorite(req.user!.id, parseInt(propertyId));
+      
+      if (!success) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      
+      await recordAuditEvent(req, {
+        action: "favorite.remove",
+        entityType: "favorite",
+        before: { userId: req.user!.id, propertyId: parseInt(propertyId) },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove favorite" });
+    }
+  });
+
+  app.get("/api/favorites/check", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.query.propertyId as string);
+      
+      if (isNaN(propertyId)) {
+        return res.status(400).json({ message: "Invalid propertyId" });
+      }
+      
+      const isFavorite = await storage.isFavorite(req.user!.id, propertyId);
+      res.json({ isFavorite });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check favorite status" });
+    }
+  });
+
+  // Bookings API
+  app.get("/api/bookings", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { propertyId, userId, status, source } = req.query;
+
+      // Hosts and their team only see bookings for a property they may view bookings of
+      if (req.user!.role !== "admin") {
+        const property = propertyId ? await storage.getProperty(parseInt(propertyId as string)) : undefined;
+        if (!property || !(await hasPropertyPermission(req.user, property, "booking.view"))) {
+          return sendForbidden(res);
+        }
+      }
+
+      if (status && !bookingStatuses.includes(status as any)) {
+        return res.status(400).json({ message: `Invalid status. Expected one of: ${bookingStatuses.join(", ")}` });
+      }
+
+      const bookings = await storage.getBookings({
+        propertyId: propertyId ? parseInt(propertyId as string) : undefined,
+        userId: userId ? parseInt(userId as string) : undefined,
+        status: status as typeof bookingStatuses[number] | undefined,
+        source: source as string | undefined,
+      });
+      res.json(bookings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  app.get("/api/bookings/:id", requirePropertyPermission("booking.view", async (req) =>
+    (await storage.getBooking(parseInt(req.params.id)))?.propertyId
+  ), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const booking = await storage.getBooking(id);
+
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      res.json(booking);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch booking" });
+    }
+  });
+
+  app.post("/api/bookings", async (req: Request, res: Response) => {
+    try {
+      const bookingData = insertBookingSchema.parse(req.body);
+
+      // New bookings always enter the lifecycle at the start
+      if (bookingData.status && !["inquiry", "pending"].includes(bookingData.status)) {
+        return res.status(400).json({ message: "New bookings must start as an inquiry or pending" });
+      }
+
+      const property = await storage.getProperty(bookingData.propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      // Anyone may send an inquiry; nights are only held by checkout or by the property's own team
+      if (bookingData.status && bookingData.status !== "inquiry") {
+        if (!req.isAuthenticated()) {
+          return sendUnauthenticated(res);
+        }
+        if (!(await hasPropertyPermission(req.user, property, "booking.manage"))) {
+          return sendForbidden(res);
+        }
+      }
+
+      const rules = await storage.getPricingRules(property.id);
+      const stayError = validateStayLength(property, bookingData.checkIn, bookingData.checkOut, rules);
+      if (stayError) {
+        return res.status(400).json({ message: stayError });
+      }
+
+      const booking = await storage.createBooking(bookingData);
+      await recordAuditEvent(req, { action: "booking.create", entityType: "booking", entityId: booking.id, after: booking });
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booking data", errors: error.errors });
+      }
+      if (error instanceof AvailabilityConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
+  app.patch("/api/bookings/:id/status", requirePropertyPermission("booking.manage", async (req) =>
+    (await storage.getBooking(parseInt(req.params.id)))?.propertyId
+  ), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status } = z.object({ status: z.enum(bookingStatuses) }).parse(req.body);
+
+      const booking = await storage.getBooking(id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (!canTransitionBooking(booking.status, status)) {
+        return res.status(400).json({
+          message: `Cannot change booking status from ${booking.status} to ${status}`,
+          allowed: getAllowedBookingTransitions(booking.status),
+        });
+      }
+
+      const updatedBooking = await storage.updateBookingStatus(id, status);
+      if (status === "cancelled") {
+        // Stop an unpaid checkout from still being paid for
+        await cancelBookingPaymentIntent(booking, getPaymentGateway());
+      }
+      await recordAuditEvent(req, {
+        action: "booking.status_change",
+        entityType: "booking",
+        entityId: id,
+        before: booking,
+        after: updatedBooking,
+      });
+      res.json(updatedBooking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booking status", errors: error.errors });
+      }
+      if (error instanceof AvailabilityConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update booking status" });
+    }
+  });
+
+  // Availability API
+  app.get("/api/properties/:id/availability", async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const today = new Date().toISOString().substring(0, 10);
+      const { from, to } = z.object({
+        from: isoDateSchema.default(today),
+        to: isoDateSchema.optional(),
+      }).parse(req.query);
+      const end = to ?? addDays(from, 90);
+
+      if (end <= from) {
+        return res.status(400).json({ message: "'to' must be after 'from'" });
+      }
+      if (countNights(from, end) > MAX_STAY_NIGHTS) {
+        return res.status(400).json({ message: `Availability range cannot exceed ${MAX_STAY_NIGHTS} days` });
+      }
+
+      const property = await storage.getProperty(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const [bookings, blocks, rules] = await Promise.all([
+        storage.getBookings({ propertyId, from, to: end }),
+        storage.getAvailabilityBlocks(propertyId, from, end),
+        storage.getPricingRules(propertyId),
+      ]);
+
+      res.json({
+        propertyId,
+        from,
+        to: end,
+        minStay: property.minStay,
+        maxStay: property.maxStay,
+        minStayByDate: getMinStayByDate(from, end, property.minStay, rules),
+        unavailableDates: getUnavailableDates(from, end, bookings, blocks),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  // Price quote API
+  app.post("/api/properties/:id/quote", generalRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const quoteRequest = quoteRequestSchema.parse(req.body);
+
+      const property = await storage.getProperty(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const rules = await storage.getPricingRules(propertyId);
+      const stayError = validateStayLength(property, quoteRequest.checkIn, quoteRequest.checkOut, rules);
+      if (stayError) {
+        return res.status(400).json({ message: stayError });
+      }
+      if (quoteRequest.guests > property.maxGuests) {
+        return res.status(400).json({ message: `This property allows at most ${property.maxGuests} guests` });
+      }
+
+      const [bookings, blocks] = await Promise.all([
+        storage.getBookings({ propertyId, from: quoteRequest.checkIn, to: quoteRequest.checkOut }),
+        storage.getAvailabilityBlocks(propertyId, quoteRequest.checkIn, quoteRequest.checkOut),
+      ]);
+      const conflict = findAvailabilityConflict(quoteRequest.checkIn, quoteRequest.checkOut, bookings, blocks);
+      if (conflict) {
+        return res.status(409).json({ message: "Selected dates are not available" });
+      }
+
+      res.json(calculateQuote(property, quoteRequest, rules));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to calculate quote" });
+    }
+  });
+
+  // Checkout API
+  app.post("/api/checkout", async (req: Request, res: Response) => {
+    try {
+      const checkoutRequest = checkoutRequestSchema.parse(req.body);
+
+      const gateway = getPaymentGateway();
+      if (!gateway) {
+        return res.status(503).json({ message: "Online payments are not available" });
+      }
+
+      const property = await storage.getProperty(checkoutRequest.propertyId);
+      if (!property || property.isActive === false) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const rules = await storage.getPricingRules(property.id);
+      const stayError = validateStayLength(property, checkoutRequest.checkIn, checkoutRequest.checkOut, rules);
+      if (stayError) {
+        return res.status(400).json({ message: stayError });
+      }
+      if (checkoutRequest.guests > property.maxGuests) {
+        return res.status(400).json({ message: `This property allows at most ${property.maxGuests} guests` });
+      }
+
+      const session = await createCheckoutSession(property, checkoutRequest, rules, gateway);
+      await recordAuditEvent(req, {
+        action: "booking.checkout",
+        entityType: "booking",
+        entityId: session.bookingId,
+        after: { ...checkoutRequest, paymentIntentId: session.paymentIntentId, quote: session.quote },
+      });
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid checkout request", errors: error.errors });
+      }
+      if (error instanceof AvailabilityConflictError) {
+        return res.status(409).json({ message: "Selected dates are no longer available" });
+      }
+      console.error("Checkout failed:", error);
+      res.status(500).json({ message: "Failed to start checkout" });
+    }
+  });
+
+  // Lets the guest who is paying follow their booking without an account; the payment intent id proves it is theirs
+  app.get("/api/checkout/:bookingId", async (req: Request, res: Response) => {
+    try {
+      const bookingId = parseInt(req.params.bookingId);
+      const paymentIntentId = typeof req.query.paymentIntentId === "string" ? req.query.paymentIntentId : "";
+
+      const booking = await storage.getBooking(bookingId);
+      if (!booking || !paymentIntentId || booking.paymentIntentId !== paymentIntentId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const checkoutStatus: CheckoutStatus = {
+        bookingId: booking.id,
+        status: booking.status,
+        paymentStatus: booking.paymentStatus,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+      };
+      res.json(checkoutStatus);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch checkout status" });
+    }
+  });
+
+  // Payment gateway webhook (Stripe, or the fake gateway in development)
+  app.post("/api/payments/webhook", async (req: Request, res: Response) => {
+    const gateway = getPaymentGateway();
+    if (!gateway) {
+      return res.status(503).json({ message: "Online payments are not available" });
+    }
+
+    try {
+      const rawBody = req.rawBody instanceof Buffer ? req.rawBody : Buffer.from(JSON.stringify(req.body ?? {}));
+      const signature = req.headers["stripe-signature"];
+      const event = gateway.parseWebhookEvent(rawBody, Array.isArray(signature) ? signature[0] : signature);
+
+      const booking = await applyPaymentEvent(event, gateway);
+      if (booking) {
+        await recordAuditEvent(req, { action: "booking.payment_event", entityType: "booking", entityId: booking.id, after: booking });
+      }
+      res.json({ received: true, bookingId: booking?.id ?? null });
+    } catch (error) {
+      if (error instanceof PaymentWebhookError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Payment webhook failed:", error);
+      res.status(500).json({ message: "Failed to process payment webhook" });
+    }
+  });
+
+  // Pricing rules API
+  app.get("/api/properties/:id/pricing-rules", requirePropertyPermission("pricing.manage"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const rules = await storage.getPricingRules(propertyId);
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pricing rules" });
+    }
+  });
+
+  app.post("/api/properties/:id/pricing-rules", requirePropertyPermission("pricing.manage"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const ruleData = insertPricingRuleSchema.parse({ ...req.body, propertyId });
+
+      const ruleError = validatePricingRule(ruleData);
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+
+      const property = await storage.getProperty(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const rule = await storage.createPricingRule(ruleData);
+      await recordAuditEvent(req, { action: "pricing_rule.create", entityType: "pricing_rule", entityId: rule.id, after: rule });
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pricing rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create pricing rule" });
+    }
+  });
+
+  app.patch("/api/pricing-rules/:id", requirePropertyPermission("pricing.manage", async (req) =>
+    (await storage.getPricingRule(parseInt(req.params.id)))?.propertyId
+  ), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const ruleData = insertPricingRuleSchema.omit({ propertyId: true }).partial().parse(req.body);
+
+      const existingRule = await storage.getPricingRule(id);
+      if (!existingRule) {
+        return res.status(404).json({ message: "Pricing rule not found" });
+      }
+
+      const ruleError = validatePricingRule({ ...existingRule, ...ruleData });
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+
+      const rule = await storage.updatePricingRule(id, ruleData);
+      await recordAuditEvent(req, {
+        action: "pricing_rule.update",
+        entityType: "pricing_rule",
+        entityId: id,
+        before: existingRule,
+        after: rule,
+      });
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pricing rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update pricing rule" });
+    }
+  });
+
+  app.delete("/api/pricing-rules/:id", requirePropertyPermission("pricing.manage", async (req) =>
+    (await storage.getPricingRule(parseInt(req.params.id)))?.propertyId
+  ), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingRule = await storage.getPricingRule(id);
+      const success = await storage.deletePricingRule(id);
+
+      if (!success) {
+        return res.status(404).json({ message: "Pricing rule not found" });
+      }
+
+      await recordAuditEvent(req, { action: "pricing_rule.delete", entityType: "pricing_rule", entityId: id, before: existingRule });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete pricing rule" });
+    }
+  });
+
+  app.get("/api/properties/:id/availability/blocks", requirePropertyPermission("calendar.view"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const blocks = await storage.getAvailabilityBlocks(propertyId);
+      res.json(blocks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch availability blocks" });
+    }
+  });
+
+  app.post("/api/properties/:id/availability/blocks", requirePropertyPermission("calendar.manage"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const blockData = insertAvailabilityBlockSchema.parse({
+        ...req.body,
+        propertyId,
+        source: "manual",
+      });
+
+      if (blockData.endDate <= blockData.startDate) {
+        return res.status(400).json({ message: "End date must be after start date" });
+      }
+
+      const property = await storage.getProperty(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      // Don't let a manual block silently cover nights a guest already holds
+      const block = await storage.createAvailabilityBlock(blockData, { rejectBookedNights: true });
+      await recordAuditEvent(req, { action: "availability_block.create", entityType: "availability_block", entityId: block.id, after: block });
+      res.status(201).json(block);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid availability block", errors: error.errors });
+      }
+      if (error instanceof AvailabilityConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create availability block" });
+    }
+  });
+
+  app.delete("/api/availability/blocks/:id", requirePropertyPermission("calendar.manage", async (req) =>
+    (await storage.getAvailabilityBlock(parseInt(req.params.id)))?.propertyId
+  ), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingBlock = await storage.getAvailabilityBlock(id);
+      const success = await storage.deleteAvailabilityBlock(id);
+
+      if (!success) {
+        return res.status(404).json({ message: "Availability block not found" });
+      }
+
+      await recordAuditEvent(req, {
+        action: "availability_block.delete",
+        entityType: "availability_block",
+        entityId: id,
+        before: existingBlock,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete availability block" });
+    }
+  });
+
+  // Calendar sync (iCal import) API
+  app.get("/api/properties/:id/calendar", requirePropertyPermission("calendar.view"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getProperty(propertyId);
+
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const calendar = await storage.getPropertyCalendar(propertyId);
+      res.json({
+        propertyId,
+        calendarSyncUrl: property.calendarSyncUrl,
+        importStatus: calendar?.importStatus ?? "never",
+        importError: calendar?.importError ?? null,
+        importedEventCount: calendar?.importedEventCount ?? 0,
+        lastImportedAt: calendar?.lastImportedAt ?? null,
+        exportUrl: calendar?.exportToken ? buildCalendarExportUrl(req, propertyId, calendar.exportToken) : null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch calendar status" });
+    }
+  });
+
+  app.post("/api/properties/:id/calendar/sync", requirePropertyPermission("calendar.manage"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getProperty(propertyId);
+
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!property.calendarSyncUrl) {
+        return res.status(400).json({ message: "Property has no calendar sync URL" });
+      }
+
+      const result = await syncPropertyCalendar(property);
+      await recordAuditEvent(req, { action: "calendar.sync", entityType: "property", entityId: propertyId, after: result });
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof CalendarFeedUrlError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(502).json({ message: "Calendar sync failed", error: error.message });
+    }
+  });
+
+  // Issue a new export feed token; the previous feed URL stops working immediately
+  app.post("/api/properties/:id/calendar/export-token", requirePropertyPermission("calendar.manage"), async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getProperty(propertyId);
+
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const exportToken = crypto.randomBytes(24).toString("base64url");
+      await storage.upsertPropertyCalendar(propertyId, { exportToken });
+      await recordAuditEvent(req, { action: "calendar.rotate_export_token", entityType: "property", entityId: propertyId });
+
+      res.json({ exportUrl: buildCalendarExportUrl(req, propertyId, exportToken) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to rotate calendar export token" });
+    }
+  });
+
+  // iCal export feed (bookings and manual blocks) for other channels to subscribe to
+  app.get("/api/properties/:id/calendar.ics", async (req: Request, res: Response) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const calendar = await storage.getPropertyCalendar(propertyId);
+
+      // Same response for unknown properties and bad tokens
+      if (!calendar?.exportToken || !token || !tokensMatch(calendar.exportToken, token)) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      const property = await storage.getProperty(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      // Recent past stays are kept so channels don't flag them as removed right after check-out
+      const from = addDays(new Date().toISOString().substring(0, 10), -30);
+      const [bookings, blocks] = await Promise.all([
+        storage.getBookings({ propertyId, from }),
+        storage.getAvailabilityBlocks(propertyId, from),
+      ]);
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="property-${propertyId}.ics"`);
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(generatePropertyICalendar(property, bookings, blocks));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate calendar feed" });
+    }
+  });
+
+  // Webhook event log (admin only)
+  app.get("/api/admin/webhook-events", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { status, eventType, source, limit } = req.query;
+
+      if (status && !webhookEventStatuses.includes(status as any)) {
+        return res.status(400).json({ message: `Invalid status. Expected one of: ${webhookEventStatuses.join(", ")}` });
+      }
+
+      const events = await storage.getWebhookEvents({
+        status: status as typeof webhookEventStatuses[number] | undefined,
+        eventType: eventType as string | undefined,
+        source: source as string | undefined,
+        limit: limit ? Math.min(parseInt(limit as string) || 100, 500) : undefined,
+      });
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook events" });
+    }
+  });
+
+  app.get("/api/admin/webhook-events/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const event = await storage.getWebhookEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook event" });
+    }
+  });
+
+  // Run stored events again, e.g. after fixing whatever made them fail
+  app.post("/api/admin/webhook-events/replay", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { ids } = z.object({
+        ids: z.array(z.number().int().positive()).min(1).max(100),
+      }).parse(req.body);
+
+      const events = await replayWebhookEvents(Array.from(new Set(ids)));
+      await recordAuditEvent(req, {
+        action: "webhook_event.replay",
+        entityType: "webhook_event",
+        after: { ids, statuses: Object.fromEntries(events.map(event => [event.id, event.status])) },
+      });
+      res.json({
+        replayed: events.length,
+        processed: events.filter(event => event.status === "processed").length,
+        events,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid replay request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to replay webhook events" });
+    }
+  });
+
+  app.post("/api/admin/webhook-events/:id/replay", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const [event] = await replayWebhookEvents([parseInt(req.params.id)]);
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+      await recordAuditEvent(req, {
+        action: "webhook_event.replay",
+        entityType: "webhook_event",
+        entityId: event.id,
+        after: { status: event.status, lastError: event.lastError },
+      });
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to replay webhook event" });
+    }
+  });
+
+  // Hospitable customer connections and how many of their listings are live (admin only)
+  app.get("/api/admin/hospitable-connections", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const connections = await storage.getHospitableConnections();
+      const withCounts = await Promise.all(connections.map(async connection => {
+        const customerProperties = await storage.getPropertiesByCustomerId(connection.customerId);
+        const host = connection.hostId ? await storage.getHost(connection.hostId) : undefined;
+        return {
+          ...toPublicConnection(connection),
+          host: host ? { id: host.id, slug: host.slug, displayName: host.displayName } : null,
+          propertyCount: customerProperties.length,
+          activePropertyCount: customerProperties.filter(property => property.isActive !== false).length,
+        };
+      }));
+      res.json(withCounts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch Hospitable connections" });
+    }
+  });
+
+  // Choose the host new listings of a customer are assigned to (admin only).
+  // Properties already imported keep their host.
+  app.patch("/api/admin/hospitable-connections/:customerId/host", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { customerId } = req.params;
+      const { hostId } = assignConnectionHostSchema.parse(req.body);
+      const connection = await storage.getHospitableConnection(customerId);
+      if (!connection) {
+        return res.status(404).json({ message: "Hospitable connection not found" });
+      }
+      if (hostId !== null && !(await storage.getHost(hostId))) {
+        return res.status(400).json({ message: "Host not found" });
+      }
+
+      const updatedConnection = await storage.upsertHospitableConnection(customerId, { hostId });
+      await recordAuditEvent(req, {
+        action: "hospitable.assign_host",
+        entityType: "hospitable_customer",
+        entityId: customerId,
+        before: { hostId: connection.hostId },
+        after: { hostId },
+      });
+      res.json(toPublicConnection(updatedConnection));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid host", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to assign host" });
+    }
+  });
+
+  // Sync jobs and their run history. Admins see every job; hosts pass the customerId
+  // of listings they host and only see that customer's jobs
+  app.get("/api/admin/jobs", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    try {
+      const customerId = req.query.customerId as string | undefined;
+
+      if (req.user!.role !== "admin") {
+        if (!customerId) {
+          return res.status(400).json({ message: "customerId is required" });
+        }
+        const customerProperties = await storage.getPropertiesByCustomerId(customerId);
+        if (!customerProperties.some(property => canManageProperty(req.user, property))) {
+          return sendForbidden(res);
+        }
+      }
+
+      const jobs = await getSyncJobs(customerId);
+      const runs = await storage.getJobRuns({
+        targetIds: customerId ? jobs.map(job => job.targetId) : undefined,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 50, 500) : 50,
+      });
+      res.json({ jobs, runs });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sync jobs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/run", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    try {
+      const { jobType, targetId } = z.object({
+        jobType: z.enum(jobTypes),
+        targetId: z.string().min(1),
+      }).parse(req.body);
+
+      const targetProperties = await getJobTargetProperties(jobType, targetId);
+      if (req.user!.role !== "admin" && !targetProperties.some(property => canManageProperty(req.user, property))) {
+        return sendForbidden(res);
+      }
+
+      const run = await runSyncJob(jobType, targetId);
+      await recordAuditEvent(req, { action: "sync_job.run", entityType: jobType, entityId: targetId, after: run });
+      res.json(run);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid job request", errors: error.errors });
+      }
+      if (error instanceof SyncJobRunningError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to run sync job" });
+    }
+  });
+
+  // Progress of a queued job (e.g. a listing import), for the user who queued it
+  app.get("/api/jobs/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getQueueJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.createdBy !== req.user!.id && req.user!.role !== "admin") {
+        return sendForbidden(res);
+      }
+      res.json(job);
     } catch (error) {
-      console.error('Error fetching properties:', error);
-      res.status(500).json({ message: "Failed to fetch properties", error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({ message: "Failed to fetch job" });
     }
   });
 
+  // Job queue, including dead-lettered jobs (admin only)
+  app.get("/api/admin/queue-jobs", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const { status, kind, limit } = req.query;
+
+      if (status && !queueJobStatuses.includes(status as any)) {
+        return res.status(400).json({ message: `Invalid status. Expected one of: ${queueJobStatuses.join(", ")}` });
+      }
 
+      const jobs = await storage.getQueueJobs({
+        status: status as typeof queueJobStatuses[number] | undefined,
+        kind: kind as string | undefined,
+        limit: limit ? Math.min(parseInt(limit as string) || 100, 500) : undefined,
+      });
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch queue jobs" });
+    }
+  });
 
-  app.get("/api/properties/featured",  async (req: Request, res: Response) => {
+  app.post("/api/admin/queue-jobs/:id/retry", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 4;
-      const properties = await storage.getFeaturedProperties(limit);
-      res.json(properties);
+      const job = await retryQueueJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "No dead or failed job with that ID" });
+      }
+      await recordAuditEvent(req, { action: "queue_job.retry", entityType: "queue_job", entityId: job.id, after: job });
+      res.json(job);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch featured properties" });
+      res.status(500).json({ message: "Failed to retry queue job" });
     }
   });
 
-  app.get("/api/properties/search", customSearchLimiter, async (req: Request, res: Response) => {
+  // Who changed what, newest first
+  app.get("/api/admin/audit-log", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      console.log(`[API Route] Full URL: ${req.protocol}://${req.get('host')}${req.originalUrl}`);
-      console.log(`[API Route] Query = ${req.query.q}`);
-      console.log(`[API Route] Filters (raw) = ${req.query.filters}`);
+      const { actorId, action, entityType, entityId, from, to, limit, offset } = req.query;
 
-      const query = (req.query.q as string) || "";
-      const filters = req.query.filters ? JSON.parse(req.query.filters as string) : undefined;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
 
-      const properties = await storage.searchProperties(query, filters);
-      res.json(properties);
+      const entries = await storage.getAuditLogEntries({
+        actorId: actorId ? parseInt(actorId as string) : undefined,
+        action: action as string | undefined,
+        entityType: entityType as string | undefined,
+        entityId: entityId as string | undefined,
+        from: fromDate,
+        to: toDate,
+        limit: limit ? Math.min(parseInt(limit as string) || 100, 500) : undefined,
+        offset: offset ? parseInt(offset as string) || 0 : undefined,
+      });
+
+      const actorIds = Array.from(new Set(entries.map(entry => entry.actorId).filter((id): id is number => id !== null)));
+      const usernames = new Map<number, string>();
+      for (const id of actorIds) {
+        const user = await storage.getUser(id);
+        if (user) usernames.set(id, user.username);
+      }
+
+      res.json(entries.map(entry => ({
+        ...entry,
+        username: entry.actorId !== null ? usernames.get(entry.actorId) ?? null : null,
+      })));
     } catch (error) {
-      console.error('Error in /api/properties/search:', error);
-      res.status(500).json({ message: "Failed to search properties" });
+      res.status(500).json({ message: "Failed to fetch audit log" });
     }
   });
 
+  // Property table of the admin dashboard; hosts only see their own properties and those their teams work on
+  app.get("/api/admin/properties", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { page, pageSize, ...filters } = adminPropertyQuerySchema.parse(req.query);
 
-  app.get("/api/properties/:id", generalRateLimiter,  async (req: Request, res: Response) => {
+      const { items, total } = await storage.getAdminProperties({
+        ...filters,
+        access: await getPropertyAccessScope(req.user!),
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      const result: AdminPropertyPage = { items, total, page, pageSize };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid property filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch properties" });
+    }
+  });
+
+  // Publish, unpublish, feature, unfeature or delete several properties at once
+  app.post("/api/admin/properties/bulk", requireAuth, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const property = await storage.getProperty(id);
-      
-      if (!property) {
-        return res.status(404).json({ message: "Property not found" });
+      const { action, ids } = bulkPropertyActionSchema.parse(req.body);
+      const isAdmin = req.user!.role === "admin";
+      // isFeatured is an admin-only field (see HOST_EDITABLE_PROPERTY_FIELDS)
+      if ((action === "feature" || action === "unfeature") && !isAdmin) {
+        return res.status(403).json({ message: "Only admins can feature properties" });
       }
-      
-      res.json(property);
+      const result: BulkPropertyActionResult = { action, succeeded: [], failed: [] };
+
+      for (const id of Array.from(new Set(ids))) {
+        const property = await storage.getProperty(id);
+        if (!property) {
+          result.failed.push({ id, message: "Property not found" });
+          continue;
+        }
+        if (!(await hasPropertyPermission(req.user, property, action === "delete" ? "property.delete" : "property.edit"))) {
+          result.failed.push({ id, message: "Forbidden" });
+          continue;
+        }
+        if ((action === "publish" || action === "unpublish") && property.status === "disconnected" && !isAdmin) {
+          result.failed.push({ id, message: "Only admins can change the status of a disconnected property" });
+          continue;
+        }
+
+        try {
+          if (action === "delete") {
+            await storage.deleteProperty(id);
+            await recordAuditEvent(req, { action: "property.delete", entityType: "property", entityId: id, before: property });
+          } else {
+            // isActive is admin-only too: hosts publish and unpublish through status, so they
+            // can't bring back a property an admin deactivated
+            const changes: Partial<Property> = {
+              publish: { ...(isAdmin ? { isActive: true } : {}), status: "active", publishedAt: new Date() },
+              unpublish: { ...(isAdmin ? { isActive: false } : {}), status: "inactive", publishedAt: null },
+              feature: { isFeatured: true },
+              unfeature: { isFeatured: false },
+            }[action];
+            const updated = await storage.updateProperty(id, changes, { source: "admin_ui", userId: req.user!.id });
+            await recordAuditEvent(req, { action: `property.${action}`, entityType: "property", entityId: id, before: property, after: updated });
+          }
+          result.succeeded.push(id);
+        } catch (error) {
+          result.failed.push({ id, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch property" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk action", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to apply bulk action" });
     }
   });
 
-  app.post("/api/properties", strictRateLimiter, async (req: Request, res: Response) => {
+  // User management
+  app.get("/api/admin/users", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const propertyData = insertPropertySchema.parse(req.body);
-      const property = await storage.createProperty(propertyData);
-      res.status(201).json(property);
+      const { page, pageSize, ...filters } = adminUserQuerySchema.parse(req.query);
+
+      const { items, total } = await storage.getUsers({
+        ...filters,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      const result: AdminUserPage = { items: items.map(toPublicUser), total, page, pageSize };
+      res.json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid property data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid user filters", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create property" });
+      res.status(500).json({ message: "Failed to fetch users" });
     }
   });
-  
-  app.patch("/api/properties/:id", async (req: Request, res: Response) => {
+
+  // An account with its favorites, reviews and bookings, so support never has to log in as the user
+  app.get("/api/admin/users/:id", requireRole("admin"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const propertyData = req.body;
-      
-      // Ensure the property exists
-      const existingProperty = await storage.getProperty(id);
-      if (!existingProperty) {
-        return res.status(404).json({ message: "Property not found" });
-      }
-      
-      // If unpublishing, remove publishedAt field
-      if (propertyData.unpublish === true) {
-        propertyData.publishedAt = null;
-        delete propertyData.unpublish;
-      }
-      if (propertyData.bookingWidgetHtml) {
-        propertyData.bookingWidgetUrl = propertyData.bookingWidgetHtml;
-        delete propertyData.bookingWidgetHtml;
-      }
-      if (propertyData.reviewsWidgetHtml) {
-        propertyData.reviewWidgetCode = propertyData.reviewsWidgetHtml;
-        delete propertyData.reviewsWidgetHtml;
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      
-      const updatedProperty = await storage.updateProperty(id, propertyData);
-      res.json(updatedProperty);
+      const [favorites, reviews, bookings] = await Promise.all([
+        storage.getFavorites(id),
+        storage.getReviewsByUserId(id),
+        storage.getBookings({ userId: id }),
+      ]);
+      const result: AdminUserDetail = { user: toPublicUser(user), favorites, reviews, bookings };
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update property" });
+      res.status(500).json({ message: "Failed to fetch user" });
     }
   });
-  
-  app.delete("/api/properties/:id", async (req: Request, res: Response) => {
+
+  app.patch("/api/admin/users/:id", requireRole("admin"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      
-      // Ensure the property exists
-      const existingProperty = await storage.getProperty(id);
-      if (!existingProperty) {
-        return res.status(404).json({ message: "Property not found" });
+      const userData = updateUserSchema.parse(req.body);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      // Soft delete the property
-      const success = await storage.deleteProperty(id);
-      
-      if (success) {
-        res.status(200).json({ message: "Property deleted successfully" });
-      } else {
-        res.status(500).json({ message: "Failed to delete property" });
+
+      // Keep admins from locking themselves out
+      if (id === req.user!.id && userData.role && userData.role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+      if (userData.email && userData.email.toLowerCase() !== user.email?.toLowerCase()) {
+        const existingUser = await storage.getUserByEmail(userData.email);
+        if (existingUser && existingUser.id !== id) {
+          return res.status(409).json({ message: "An account with this email already exists" });
+        }
       }
+
+      const updatedUser = await storage.updateUser(id, userData);
+      await recordAuditEvent(req, {
+        action: userData.role && userData.role !== user.role ? "user.role_change" : "user.update",
+        entityType: "user",
+        entityId: id,
+        before: toPublicUser(user),
+        after: updatedUser && toPublicUser(updatedUser),
+      });
+      res.json(updatedUser && toPublicUser(updatedUser));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete property" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user" });
     }
   });
 
-  // Cities API
-  app.get("/api/cities", async (req: Request, res: Response) => {
+  // Suspended users cannot log in and their sessions end on the next request
+  app.post("/api/admin/users/:id/suspend", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const cities = await storage.getCities(limit);
-      res.json(cities);
+      const id = parseInt(req.params.id);
+      const { reason } = suspendUserSchema.parse(req.body ?? {});
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot suspend your own account" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.updateUser(id, { suspendedAt: new Date(), suspendedReason: reason || null });
+      await recordAuditEvent(req, {
+        action: "user.suspend",
+        entityType: "user",
+        entityId: id,
+        before: toPublicUser(user),
+        after: updatedUser && toPublicUser(updatedUser),
+      });
+      res.json(updatedUser && toPublicUser(updatedUser));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch cities" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid suspension data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to suspend user" });
     }
   });
 
-  app.get("/api/cities/featured", async (req: Request, res: Response) => {
+  app.post("/api/admin/users/:id/unsuspend", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 4;
-      const cities = await storage.getFeaturedCities(limit);
-      res.json(cities);
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.updateUser(id, { suspendedAt: null, suspendedReason: null });
+      await recordAuditEvent(req, {
+        action: "user.unsuspend",
+        entityType: "user",
+        entityId: id,
+        before: toPublicUser(user),
+        after: updatedUser && toPublicUser(updatedUser),
+      });
+      res.json(updatedUser && toPublicUser(updatedUser));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch featured cities" });
+      res.status(500).json({ message: "Failed to unsuspend user" });
     }
   });
 
-  app.get("/api/cities/:name", async (req: Request, res: Response) => {
+  app.delete("/api/admin/users/:id", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const city = await storage.getCityByName(req.params.name);
-      
-      if (!city) {
-        return res.status(404).json({ message: "City not found" });
+      const id = parseInt(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
       }
-      
-      res.json(city);
+
+      const user = await storage.getUser(id);
+      if (!user || !(await storage.deleteUser(id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAuditEvent(req, { action: "user.delete", entityType: "user", entityId: id, before: toPublicUser(user) });
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch city" });
+      res.status(500).json({ message: "Failed to delete user" });
     }
   });
 
-  app.post("/api/cities", async (req: Request, res: Response) => {
+  // Issue a one-time reset link for the admin to pass on; the token cannot be shown again
+  app.post("/api/admin/users/:id/password-reset", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const cityData = insertCitySchema.parse(req.body);
-      const city = await storage.createCity(cityData);
-      res.status(201).json(city);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid city data", errors: error.errors });
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.status(500).json({ message: "Failed to create city" });
+
+      const { token, expiresAt } = await issuePasswordResetToken(id, req.user!.id);
+      await recordAuditEvent(req, {
+        action: "user.password_reset_issued",
+        entityType: "user",
+        entityId: id,
+        after: { expiresAt },
+      });
+
+      const result: PasswordResetLink = {
+        token,
+        resetUrl: `${req.protocol}://${req.get("host")}/reset-password?token=${token}`,
+        expiresAt: expiresAt.toISOString(),
+      };
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create password reset link" });
     }
   });
 
-  app.get("/api/cities/:name/properties", async (req: Request, res: Response) => {
+  // The signed-in host's public profile, created from their account on first use
+  app.get("/api/host-profile", requireRole("host", "admin"), async (req: Request, res: Response) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-      const properties = await storage.getPropertiesByCity(req.params.name, limit, offset);
-      res.json(properties);
+      res.json(await getOrCreateHostProfile(req.user!));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch city properties" });
+      res.status(500).json({ message: "Failed to fetch host profile" });
     }
   });
 
-  // Neighborhoods API
-  app.get("/api/cities/:id/neighborhoods", async (req: Request, res: Response) => {
+  app.patch("/api/host-profile", requireRole("host", "admin"), async (req: Request, res: Response) => {
     try {
-      const cityId = parseInt(req.params.id);
-      const neighborhoods = await storage.getNeighborhoods(cityId);
-      res.json(neighborhoods);
+      const profileData = updateHostProfileSchema.parse(req.body);
+      const host = await getOrCreateHostProfile(req.user!);
+
+      if (profileData.slug && profileData.slug !== host.slug) {
+        const existingHost = await storage.getHostBySlug(profileData.slug);
+        if (existingHost && existingHost.id !== host.id) {
+          return res.status(409).json({ message: "This profile URL is already taken" });
+        }
+      }
+
+      const updatedHost = await storage.updateHost(host.id, profileData);
+      await recordAuditEvent(req, {
+        action: "host.update",
+        entityType: "host",
+        entityId: host.id,
+        before: host,
+        after: updatedHost,
+      });
+      res.json(updatedHost);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch neighborhoods" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid host profile", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update host profile" });
     }
   });
 
-  // Reviews API
-  app.get("/api/properties/:id/reviews", async (req: Request, res: Response) => {
+  // Host teams: the account holder, admins and members with the owner role manage a team
+  app.get("/api/teams/:hostId/members", requireAuth, async (req: Request, res: Response) => {
     try {
-      const propertyId = parseInt(req.params.id);
-      const reviews = await storage.getReviews(propertyId);
-      res.json(reviews);
+      const host = await storage.getHost(parseInt(req.params.hostId));
+      if (!host) {
+        return res.status(404).json({ message: "Host not found" });
+      }
+      if (!(await canManageTeam(req.user, host))) {
+        return sendForbidden(res);
+      }
+
+      const members = await storage.getTeamMembers(host.id);
+      res.json(members.map(toPublicTeamMember));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch reviews" });
+      res.status(500).json({ message: "Failed to fetch team members" });
     }
   });
 
-  app.post("/api/reviews", async (req: Request, res: Response) => {
+  // Invite someone by email; the link has to be passed on now and cannot be shown again
+  app.post("/api/teams/:hostId/invites", requireAuth, async (req: Request, res: Response) => {
     try {
-      const reviewData = insertReviewSchema.parse(req.body);
-      const review = await storage.createReview(reviewData);
-      res.status(201).json(review);
+      const invite = teamInviteSchema.parse(req.body);
+      const host = await storage.getHost(parseInt(req.params.hostId));
+      if (!host) {
+        return res.status(404).json({ message: "Host not found" });
+      }
+      if (!(await canManageTeam(req.user, host))) {
+        return sendForbidden(res);
+      }
+
+      const { member, token } = await inviteTeamMember(host, invite, req.user!.id);
+      await recordAuditEvent(req, {
+        action: "team.invite",
+        entityType: "team_member",
+        entityId: member.id,
+        after: toPublicTeamMember(member),
+      });
+
+      const result: TeamInviteLink = {
+        member: toPublicTeamMember(member),
+        token,
+        inviteUrl: `${req.protocol}://${req.get("host")}/team-invite?token=${token}`,
+        expiresAt: member.expiresAt.toISOString(),
+      };
+      res.status(201).json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid invite", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create review" });
+      if (error instanceof TeamInviteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to invite team member" });
     }
   });
 
-  // Favorites API (these would normally require authentication)
-  app.get("/api/users/:userId/favorites", async (req: Request, res: Response) => {
+  app.patch("/api/teams/:hostId/members/:memberId", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const favorites = await storage.getFavorites(userId);
-      res.json(favorites);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch favorites" });
-    }
-  });
+      const memberData = updateTeamMemberSchema.parse(req.body);
+      const host = await storage.getHost(parseInt(req.params.hostId));
+      const member = await storage.getTeamMember(parseInt(req.params.memberId));
+      if (!host || !member || member.hostId !== host.id) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      if (!(await canManageTeam(req.user, host))) {
+        return sendForbidden(res);
+      }
+      for (const propertyId of memberData.propertyIds ?? []) {
+        if ((await storage.getProperty(propertyId))?.hostId !== host.userId) {
+          return res.status(400).json({ message: `Property ${propertyId} is not hosted by ${host.displayName}` });
+        }
+      }
 
-  app.post("/api/favorites", async (req: Request, res: Response) => {
-    try {
-      const favoriteData = insertFavoriteSchema.parse(req.body);
-      const favorite = await storage.addFavorite(favoriteData);
-      res.status(201).json(favorite);
+      const updatedMember = await storage.updateTeamMember(member.id, memberData);
+      await recordAuditEvent(req, {
+        action: "team.member_update",
+        entityType: "team_member",
+        entityId: member.id,
+        before: toPublicTeamMember(member),
+        after: updatedMember && toPublicTeamMember(updatedMember),
+      });
+      res.json(updatedMember && toPublicTeamMember(updatedMember));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid favorite data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid team member data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to add favorite" });
+      res.status(500).json({ message: "Failed to update team member" });
     }
   });
 
-  app.delete("/api/favorites", async (req: Request, res: Response) => {
+  // Revoke an invite or remove a member; members may also leave a team themselves
+  app.delete("/api/teams/:hostId/members/:memberId", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { userId, propertyId } = req.body;
-      if (!userId || !propertyId) {
-        return res.status(400).json({ message: "Missing userId or propertyId" });
+      const host = await storage.getHost(parseInt(req.params.hostId));
+      const member = await storage.getTeamMember(parseInt(req.params.memberId));
+      if (!host || !member || member.hostId !== host.id) {
+        return res.status(404).json({ message: "Team member not found" });
       }
-      
-      const success = await storage.removeFavorite(parseInt(userId), parseInt(propertyId));
-      
-      if (!success) {
-        return res.status(404).json({ message: "Favorite not found" });
+      if (member.userId !== req.user!.id && !(await canManageTeam(req.user, host))) {
+        return sendForbidden(res);
       }
-      
+
+      await storage.deleteTeamMember(member.id);
+      await recordAuditEvent(req, {
+        action: "team.member_remove",
+        entityType: "team_member",
+        entityId: member.id,
+        before: toPublicTeamMember(member),
+      });
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to remove favorite" });
+      res.status(500).json({ message: "Failed to remove team member" });
     }
   });
 
-  app.get("/api/favorites/check", async (req: Request, res: Response) => {
+  // Teams the signed-in user belongs to
+  app.get("/api/team-memberships", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      const propertyId = parseInt(req.query.propertyId as string);
-      
-      if (isNaN(userId) || isNaN(propertyId)) {
-        return res.status(400).json({ message: "Invalid userId or propertyId" });
+      const memberships: TeamMembership[] = [];
+      for (const member of await storage.getTeamMembershipsByUserId(req.user!.id)) {
+        const host = await storage.getHost(member.hostId);
+        if (!host) continue;
+        memberships.push({
+          member: toPublicTeamMember(member),
+          host: { id: host.id, slug: host.slug, displayName: host.displayName },
+        });
       }
-      
-      const isFavorite = await storage.isFavorite(userId, propertyId);
-      res.json({ isFavorite });
+      res.json(memberships);
     } catch (error) {
-      res.status(500).json({ message: "Failed to check favorite status" });
+      res.status(500).json({ message: "Failed to fetch team memberships" });
+    }
+  });
+
+  app.post("/api/team-invites/accept", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { token } = acceptTeamInviteSchema.parse(req.body);
+      const member = await acceptTeamInvite(token, req.user!);
+      await recordAuditEvent(req, {
+        action: "team.invite_accept",
+        entityType: "team_member",
+        entityId: member.id,
+        after: toPublicTeamMember(member),
+      });
+      const host = await storage.getHost(member.hostId);
+      const membership: TeamMembership = {
+        member: toPublicTeamMember(member),
+        host: { id: member.hostId, slug: host?.slug ?? "", displayName: host?.displayName ?? "" },
+      };
+      res.json(membership);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invite", errors: error.errors });
+      }
+      if (error instanceof TeamInviteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to accept invite" });
     }
   });
 
@@ -624,7 +2165,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
   });
   
   // Update property SEO data
-  app.put(`${hospitable.property}/seo`, async (req: Request, res: Response) => {
+  app.put(`${hospitable.property}/seo`, requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
       const seoUpdates = req.body;
@@ -635,6 +2176,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
       // or storing custom SEO fields in our database
       
       console.log(`Would update SEO data for property ${id}:`, seoUpdates);
+      await recordAuditEvent(req, { action: "hospitable_property.update_seo", entityType: "hospitable_property", entityId: id, after: seoUpdates });
       
       return res.json({ 
         success: true, 
@@ -649,10 +2191,16 @@ Sitemap: https://staydirectly.com/sitemap.xml
     }
   });
 
-  app.post(hospitable.properties, async (req: Request, res: Response) => {
+  app.post(hospitable.properties, requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       const api = createServerApiClient();
       const property = await api.createProperty(req.body);
+      await recordAuditEvent(req, {
+        action: "hospitable_property.create",
+        entityType: "hospitable_property",
+        entityId: property?.id,
+        after: property,
+      });
       res.status(201).json(property);
     } catch (error: any) {
       res.status(500).json({ message: "Failed to create property in Hospitable", error: error.message });
@@ -695,21 +2243,33 @@ Sitemap: https://staydirectly.com/sitemap.xml
     }
   });
 
-  app.post(hospitable.bookings, async (req: Request, res: Response) => {
+  app.post(hospitable.bookings, requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       const api = createServerApiClient();
       const booking = await api.createBooking(req.body);
+      await recordAuditEvent(req, {
+        action: "hospitable_booking.create",
+        entityType: "hospitable_booking",
+        entityId: booking?.id,
+        after: booking,
+      });
       res.status(201).json(booking);
     } catch (error: any) {
       res.status(500).json({ message: "Failed to create booking in Hospitable", error: error.message });
     }
   });
 
-  app.patch(`${hospitable.booking}/status`, async (req: Request, res: Response) => {
+  app.patch(`${hospitable.booking}/status`, requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       const api = createServerApiClient();
       const { status } = req.body;
       const booking = await api.updateBookingStatus(req.params.id, status);
+      await recordAuditEvent(req, {
+        action: "hospitable_booking.status_change",
+        entityType: "hospitable_booking",
+        entityId: req.params.id,
+        after: { status },
+      });
       res.json(booking);
     } catch (error: any) {
       res.status(500).json({ message: "Failed to update booking status in Hospitable", error: error.message });
@@ -770,7 +2330,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
   });
 
   // Auth code generation for customer authorization
-  app.post(hospitable.authCodes, async (req: Request, res: Response) => {
+  app.post(hospitable.authCodes, requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       console.log(`${hospitable.authCodes} API route called (wrong one)`)
       console.log('[API Route] Generating auth code...');
@@ -805,6 +2365,13 @@ Sitemap: https://staydirectly.com/sitemap.xml
         });
       }
 
+      await recordAuditEvent(req, {
+        action: 'hospitable.auth_code',
+        entityType: 'hospitable_customer',
+        entityId: String(customerId),
+        after: { expiresAt: authData.data.expires_at },
+      });
+
       res.json({
         authUrl: authData.data.return_url,
         expiresAt: authData.data.expires_at
@@ -820,7 +2387,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
 
   // Connect API route for customer creation and auth code generation
   // Import Hospitable listings into the database
-  app.post('/api/hospitable/import-listings', async (req: Request, res: Response) => {
+  app.post('/api/hospitable/import-listings', requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       console.log('/api/hospitable/import-listings API route called (wrong one)');
       // Extract customer ID from request body
@@ -829,6 +2396,10 @@ Sitemap: https://staydirectly.com/sitemap.xml
       if (!customerId) {
         return res.status(400).json({ message: 'Customer ID is required for importing listings' });
       }
+
+      if (!(await canImportCustomerListings(req.user!, String(customerId)))) {
+        return res.status(403).json({ message: 'This Hospitable account is connected to another host' });
+      }
       
       // Use the platform token for this operation
       const token = process.env.HOSPITABLE_PLATFORM_TOKEN;
@@ -867,11 +2438,16 @@ Sitemap: https://staydirectly.com/sitemap.xml
       // Import each property into our database
       let importedCount = 0;
       let importedProperties = [];
+      const customerHost = await resolveCustomerHost(String(customerId), req.user!);
       
       for (const prop of hospProperties) {
         try {
           // Check if property already exists by ID
           let existingProperty = await storage.getProperty(Number(prop.id));
+          if (existingProperty && !(await hasPropertyPermission(req.user, existingProperty, 'property.edit'))) {
+            console.warn(`User ${req.user?.id} cannot update property ${existingProperty.id}, skipping`);
+            continue;
+          }
           
           const propertyData = {
             name: prop.private_name || prop.public_name || 'Unnamed Property',
@@ -898,8 +2474,8 @@ Sitemap: https://staydirectly.com/sitemap.xml
               bathrooms: prop.capacity.bathrooms ? Number(prop.capacity.bathrooms) : (prop.bathrooms ? Number(prop.bathrooms) : 1)
             } : null,
             amenities: prop.amenities || [],
-            hostId: 1, // Default host ID
-            hostName: 'Property Owner',
+            hostId: existingProperty?.hostId ?? customerHost?.userId ?? req.user!.id,
+            hostName: existingProperty?.hostName ?? customerHost?.displayName ?? 'Property Owner',
             rating: 4.5,
             reviewCount: 0,
             type: prop.property_type || 'Apartment',
@@ -922,7 +2498,11 @@ Sitemap: https://staydirectly.com/sitemap.xml
           let property;
           if (existingProperty) {
             // Update existing property
-            property = await storage.updateProperty(existingProperty.id, propertyData);
+            property = await storage.updateProperty(
+              existingProperty.id,
+              omitLockedFields(existingProperty, propertyData),
+              { source: 'import', userId: req.user!.id }
+            );
             console.log(`Updated existing property ${existingProperty.id}`);
           } else {
             // Create new property
@@ -1329,11 +2909,10 @@ Sitemap: https://staydirectly.com/sitemap.xml
       
       // Update property with the image URLs
       await storage.updateProperty(property.id, {
-        imageUrl: mainImage,
-        additionalImages: additionalImages as string[],
+        ...omitLockedFields(property, { imageUrl: mainImage, additionalImages: additionalImages as string[] }),
         // Use the explicit timestamp field
         updatedAt: new Date() // This updates the last modified timestamp
-      });
+      }, { source: 'sync' });
       
       // Make a separate call to update the imagesStoredAt field
       // This is a workaround for TypeScript issues with the property schema
@@ -1731,7 +3310,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
     }
   });
 
-  app.post('/api/hospitable/mark-for-publishing', async (req: Request, res: Response) => {
+  app.post('/api/hospitable/mark-for-publishing', requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       console.log('/api/hospitable/mark-for-publishing API route called (wrong one)');
       // Extract customer ID and listing IDs from request body
@@ -1744,6 +3323,10 @@ Sitemap: https://staydirectly.com/sitemap.xml
       if (!listingIds || !Array.isArray(listingIds) || listingIds.length === 0) {
         return res.status(400).json({ message: 'At least one listing ID is required' });
       }
+
+      if (!(await canImportCustomerListings(req.user!, String(customerId)))) {
+        return res.status(403).json({ message: 'This Hospitable account is connected to another host' });
+      }
       
       console.log(`[API Route] Marking ${listingIds.length} listings for publishing for customer: ${customerId}`);
       
@@ -1780,6 +3363,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
       
       // Import and mark selected properties for publishing
       let publishedProperties = [];
+      const customerHost = await resolveCustomerHost(String(customerId), req.user!);
       
       for (const prop of selectedProperties) {
         try {
@@ -1790,6 +3374,11 @@ Sitemap: https://staydirectly.com/sitemap.xml
           const existingProperties = await storage.searchProperties(`platformId:${combinedPlatformId}`, {});
           let existingProperty = existingProperties.length > 0 ? existingProperties[0] : undefined;
           
+          if (existingProperty && !(await hasPropertyPermission(req.user, existingProperty, 'property.edit'))) {
+            console.warn(`[API Route] User ${req.user!.id} cannot publish property ${existingProperty.id}, skipping`);
+            continue;
+          }
+          
           const propertyData = {
             name: prop.private_name || prop.public_name || 'Unnamed Property',
             title: prop.public_name || prop.private_name || 'Unnamed Property',
@@ -1815,8 +3404,8 @@ Sitemap: https://staydirectly.com/sitemap.xml
               bathrooms: prop.capacity.bathrooms ? Number(prop.capacity.bathrooms) : (prop.bathrooms ? Number(prop.bathrooms) : 1)
             } : null,
             amenities: prop.amenities || [],
-            hostId: 1, // Default host ID
-            hostName: 'Property Owner',
+            hostId: existingProperty?.hostId ?? customerHost?.userId ?? req.user!.id,
+            hostName: existingProperty?.hostName ?? customerHost?.displayName ?? 'Property Owner',
             rating: 4.5,
             reviewCount: 0,
             type: prop.property_type || 'Apartment',
@@ -1842,7 +3431,11 @@ Sitemap: https://staydirectly.com/sitemap.xml
           try {
             if (existingProperty) {
               // Update existing property and mark as published
-              property = await storage.updateProperty(existingProperty.id, propertyData);
+              property = await storage.updateProperty(
+                existingProperty.id,
+                omitLockedFields(existingProperty, propertyData),
+                { source: 'import', userId: req.user!.id }
+              );
               console.log(`[API Route] Updated and published existing property ${existingProperty.id}`);
             } else {
               // Check if a property with the same slug exists
@@ -1856,10 +3449,10 @@ Sitemap: https://staydirectly.com/sitemap.xml
               if (existingWithSlug) {
                 // If exists, update instead of creating
                 property = await storage.updateProperty(existingWithSlug.id, {
-                  ...propertyData,
+                  ...omitLockedFields(existingWithSlug, propertyData),
                   // Add unique timestamp to slug to avoid collision
                   slug: `${slug}-${Date.now().toString().slice(-6)}`
-                });
+                }, { source: 'import', userId: req.user!.id });
                 console.log(`[API Route] Updated existing property with same slug ${existingWithSlug.id}`);
               } else {
                 // Create new property and mark as published
@@ -1963,7 +3556,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
   });
 
   // Manual image fetching for a single property
-  app.post('/api/hospitable/fetch-property-images', async (req: Request, res: Response) => {
+  app.post('/api/hospitable/fetch-property-images', requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       console.log('/api/hospitable/fetch-property-images API route called (wrong one)');
       const { propertyId, platformId } = req.body;
@@ -1971,6 +3564,14 @@ Sitemap: https://staydirectly.com/sitemap.xml
       if (!propertyId || !platformId) {
         return res.status(400).json({ message: 'propertyId and platformId are required' });
       }
+
+      const property = await storage.getProperty(Number(propertyId));
+      if (!property) {
+        return res.status(404).json({ message: 'Property not found' });
+      }
+      if (!(await hasPropertyPermission(req.user, property, 'property.edit'))) {
+        return sendForbidden(res);
+      }
       
       // Extract customerId and listingId from platformId
       console.log(`[API Route] Received fetch request for property ${propertyId} with platformId "${platformId}"`);
@@ -2030,7 +3631,7 @@ Sitemap: https://staydirectly.com/sitemap.xml
     }
   });
 
-  app.post(hospitable.connect, async (req: Request, res: Response) => {
+  app.post(hospitable.connect, requireRole('host', 'admin'), async (req: Request, res: Response) => {
     try {
       console.log(`${hospitable.connect} API route called (wrong one)`);
       const { action } = req.query;
@@ -2071,6 +3672,13 @@ Sitemap: https://staydirectly.com/sitemap.xml
               });
             }
 
+            await recordAuditEvent(req, {
+              action: 'hospitable.create_customer',
+              entityType: 'hospitable_customer',
+              entityId: String(data.data.id),
+              after: data.data,
+            });
+
             // Generate auth code
             console.log('[API Route] Generating auth code...');
             const authRequestBody = {
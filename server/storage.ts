@@ -1,30 +1,212 @@
 import { 
-  users, type User, type InsertUser,
+  users, type User, type InsertUser, type UserRole,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  hosts, type Host, type InsertHost,
+  hostTeamMembers, type HostTeamMember, type InsertHostTeamMember,
   properties, type Property, type InsertProperty,
   cities, type City, type InsertCity,
   reviews, type Review, type InsertReview,
   neighborhoods, type Neighborhood, type InsertNeighborhood,
-  favorites, type Favorite, type InsertFavorite
+  favorites, type Favorite, type InsertFavorite,
+  bookings, type Booking, type InsertBooking, type BookingStatus,
+  availabilityBlocks, type AvailabilityBlock, type InsertAvailabilityBlock,
+  propertyCalendars, type PropertyCalendar, type InsertPropertyCalendar,
+  propertyRevisions, type PropertyRevision, type InsertPropertyRevision,
+  auditLog, type AuditLogEntry, type InsertAuditLogEntry,
+  pricingRules, type PricingRule, type InsertPricingRule,
+  webhookEvents, type WebhookEvent, type InsertWebhookEvent, type WebhookEventStatus,
+  hospitableConnections, type HospitableConnection, type InsertHospitableConnection,
+  apiIntegrations, type ApiIntegration,
+  jobRuns, type JobRun, type InsertJobRun, type JobType, type JobRunStatus,
+  queueJobs, type QueueJob, type InsertQueueJob, type QueueJobStatus
 } from "@shared/schema";
+import type { AdminPropertySortField } from "@shared/admin-properties";
+import type { PropertySearchFilters, PropertySearchSort } from "@shared/property-search";
+import {
+  AvailabilityConflictError,
+  findAvailabilityConflict,
+  isHoldingStatus,
+  rangesOverlap
+} from "./utils/availability-helpers";
+import { hashPassword } from "./utils/password";
+import { getPropertyChanges } from "./utils/revision-helpers";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+
+const MemoryStore = createMemoryStore(session);
+
+// Who made a property update and through what; recorded on its revision
+export type PropertyRevisionContext = Pick<InsertPropertyRevision, "source" | "userId" | "restoredFromId">;
+
+// Fields admins can change on an account
+export type UserUpdate = Partial<Pick<User, "email" | "fullName" | "role" | "password" | "suspendedAt" | "suspendedReason">>;
+
+// Filters and paging of the admin user list
+export interface UserFilters {
+  search?: string; // Matches username, email and full name
+  role?: UserRole;
+  suspended?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+// Properties a non-admin user can reach: those hosted by one of hostIds (user IDs)
+// and those listed in propertyIds
+export interface PropertyAccessScope {
+  hostIds: number[];
+  propertyIds: number[];
+}
+
+// Filters and paging of the admin property table
+export interface AdminPropertyFilters {
+  search?: string; // Matches name, title, city and platform ID
+  status?: string;
+  source?: string; // externalSource, or "manual" for properties without one
+  published?: boolean;
+  featured?: boolean;
+  access?: PropertyAccessScope;
+  sort?: AdminPropertySortField;
+  direction?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+// Sorting and paging of the public property search
+export interface PropertySearchOptions {
+  sort?: PropertySearchSort;
+  origin?: { latitude: number; longitude: number }; // Needed by the distance sort
+  limit?: number;
+  offset?: number;
+}
+
+// Filters accepted when listing bookings
+export interface BookingFilters {
+  propertyId?: number;
+  userId?: number;
+  status?: BookingStatus;
+  source?: string;
+  from?: string; // Only bookings with nights on or after this date
+  to?: string; // Only bookings with nights before this date
+}
+
+// How a booking is written
+export interface BookingWriteOptions {
+  // Upstream channels such as Hospitable already took the booking, so it is stored even if it overlaps
+  skipAvailabilityCheck?: boolean;
+}
+
+// How an availability block is written
+export interface AvailabilityBlockWriteOptions {
+  // Refuse the block if it covers nights a booking holds (under the same lock bookings take)
+  rejectBookedNights?: boolean;
+}
+
+// Filters accepted when listing webhook events
+export interface WebhookEventFilters {
+  source?: string;
+  eventType?: string;
+  status?: WebhookEventStatus;
+  limit?: number;
+}
+
+// Filters accepted when listing queue jobs
+export interface QueueJobFilters {
+  kind?: string;
+  groupKey?: string;
+  status?: QueueJobStatus;
+  createdBy?: number;
+  limit?: number;
+}
+
+// Filters accepted when browsing the audit log
+export interface AuditLogFilters {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Filters accepted when listing job runs
+export interface JobRunFilters {
+  jobType?: JobType;
+  targetIds?: string[];
+  status?: JobRunStatus;
+  limit?: number;
+}
 
 // Extend the storage interface with the CRUD methods for all entities
 export interface IStorage {
+  // Login sessions
+  sessionStore: session.Store;
+
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Newest first; total counts all matches before paging
+  getUsers(filters?: UserFilters): Promise<{ items: User[]; total: number }>;
+  updateUser(id: number, user: UserUpdate): Promise<User | undefined>;
+  // Also removes the user's favorites and reset tokens; bookings and reviews are kept for history
+  deleteUser(id: number): Promise<boolean>;
+  
+  // Password reset tokens
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Marks an unused token used; undefined if it was already used, so a token works only once
+  markPasswordResetTokenUsed(id: number): Promise<PasswordResetToken | undefined>;
+  
+  // Hosts
+  getHost(id: number): Promise<Host | undefined>;
+  getHostByUserId(userId: number): Promise<Host | undefined>;
+  getHostBySlug(slug: string): Promise<Host | undefined>;
+  createHost(host: InsertHost): Promise<Host>;
+  updateHost(id: number, host: Partial<InsertHost>): Promise<Host | undefined>;
+  
+  // Host team members
+  getTeamMembers(hostId: number): Promise<HostTeamMember[]>;
+  getTeamMember(id: number): Promise<HostTeamMember | undefined>;
+  getTeamMemberByTokenHash(inviteTokenHash: string): Promise<HostTeamMember | undefined>;
+  // Accepted memberships of a user, across all teams
+  getTeamMembershipsByUserId(userId: number): Promise<HostTeamMember[]>;
+  createTeamMember(member: InsertHostTeamMember): Promise<HostTeamMember>;
+  updateTeamMember(id: number, member: Partial<Pick<HostTeamMember, "role" | "propertyIds">>): Promise<HostTeamMember | undefined>;
+  // Accept a pending invite; undefined when it was accepted already
+  acceptTeamInvite(id: number, userId: number): Promise<HostTeamMember | undefined>;
+  deleteTeamMember(id: number): Promise<boolean>;
   
   // Properties
   getProperties(limit?: number, offset?: number): Promise<Property[]>;
   getFeaturedProperties(limit?: number): Promise<Property[]>;
   getProperty(id: number): Promise<Property | undefined>;
   getPropertyBySlug(slug: string): Promise<Property | undefined>;
+  getPropertyByExternalId(externalId: string): Promise<Property | undefined>;
+  getPropertyByPlatformId(platformId: string): Promise<Property | undefined>;
+  // Properties imported from a Hospitable customer (platformId "customerId:listingId" or "customerId/listingId")
+  getPropertiesByCustomerId(customerId: string, offset?: number): Promise<Property[]>;
   getPropertiesByCity(cityName: string, limit?: number, offset?: number): Promise<Property[]>;
-  searchProperties(query: string, filters?: any): Promise<Property[]>;
+  // Active, published properties of a host, by the host's user ID (properties.hostId)
+  getPublishedPropertiesByHost(hostUserId: number): Promise<Property[]>;
+  // Active properties matching a text query and filters. The queries "isPublished:true"
+  // and "isPublished:false" match on published state instead of text
+  searchProperties(query: string, filters?: PropertySearchFilters): Promise<Property[]>;
+  // One page of searchProperties' matches; total counts all matches before paging
+  searchPropertiesPage(query: string, filters: PropertySearchFilters, options: PropertySearchOptions): Promise<{ items: Property[]; total: number }>;
+  // Every property, active or not, for the admin table; total counts all matches before paging
+  getAdminProperties(filters: AdminPropertyFilters): Promise<{ items: Property[]; total: number }>;
   createProperty(property: InsertProperty): Promise<Property>;
-  updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property | undefined>;
+  // Records a property revision when a tracked field changes (source "system" unless told otherwise)
+  updateProperty(id: number, property: Partial<InsertProperty>, revision?: PropertyRevisionContext): Promise<Property | undefined>;
   deleteProperty(id: number): Promise<boolean>;
   
+  // Property revisions (newest first)
+  getPropertyRevisions(propertyId: number, limit?: number): Promise<PropertyRevision[]>;
+  getPropertyRevision(id: number): Promise<PropertyRevision | undefined>;
+  
   // Cities
   getCities(limit?: number): Promise<City[]>;
   getFeaturedCities(limit?: number): Promise<City[]>;
@@ -36,6 +218,7 @@ export interface IStorage {
   
   // Reviews
   getReviews(propertyId: number): Promise<Review[]>;
+  getReviewsByUserId(userId: number): Promise<Review[]>;
   createReview(review: InsertReview): Promise<Review>;
   deleteReview(id: number): Promise<boolean>;
   
@@ -48,37 +231,167 @@ export interface IStorage {
   addFavorite(favorite: InsertFavorite): Promise<Favorite>;
   removeFavorite(userId: number, propertyId: number): Promise<boolean>;
   isFavorite(userId: number, propertyId: number): Promise<boolean>;
+  
+  // Bookings
+  getBookings(filters?: BookingFilters): Promise<Booking[]>;
+  getBooking(id: number): Promise<Booking | undefined>;
+  getBookingByExternalId(externalId: string): Promise<Booking | undefined>;
+  getBookingByPaymentIntentId(paymentIntentId: string): Promise<Booking | undefined>;
+  createBooking(booking: InsertBooking, options?: BookingWriteOptions): Promise<Booking>;
+  updateBooking(id: number, booking: Partial<InsertBooking>, options?: BookingWriteOptions): Promise<Booking | undefined>;
+  updateBookingStatus(id: number, status: BookingStatus): Promise<Booking | undefined>;
+  
+  // Availability
+  getAvailabilityBlocks(propertyId: number, from?: string, to?: string): Promise<AvailabilityBlock[]>;
+  getAvailabilityBlock(id: number): Promise<AvailabilityBlock | undefined>;
+  createAvailabilityBlock(block: InsertAvailabilityBlock, options?: AvailabilityBlockWriteOptions): Promise<AvailabilityBlock>;
+  deleteAvailabilityBlock(id: number): Promise<boolean>;
+  
+  // Calendar sync
+  getPropertiesWithCalendarSync(): Promise<Property[]>;
+  getPropertyCalendar(propertyId: number): Promise<PropertyCalendar | undefined>;
+  upsertPropertyCalendar(propertyId: number, calendar: Partial<InsertPropertyCalendar>): Promise<PropertyCalendar>;
+  
+  // Pricing rules
+  getPricingRules(propertyId: number): Promise<PricingRule[]>;
+  getPricingRule(id: number): Promise<PricingRule | undefined>;
+  createPricingRule(rule: InsertPricingRule): Promise<PricingRule>;
+  updatePricingRule(id: number, rule: Partial<InsertPricingRule>): Promise<PricingRule | undefined>;
+  deletePricingRule(id: number): Promise<boolean>;
+  
+  // Webhook events
+  getWebhookEvents(filters?: WebhookEventFilters): Promise<WebhookEvent[]>;
+  getWebhookEvent(id: number): Promise<WebhookEvent | undefined>;
+  getWebhookEventByEventId(source: string, eventId: string): Promise<WebhookEvent | undefined>;
+  // Returns undefined when the same delivery (source + eventId) is already stored
+  createWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined>;
+  updateWebhookEvent(id: number, event: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined>;
+  // Mark an event as processing and count the attempt, unless another run holds it.
+  // A claim not released since staleBefore is treated as abandoned.
+  claimWebhookEvent(id: number, staleBefore: Date): Promise<WebhookEvent | undefined>;
+  // Failed events whose next retry is due
+  getDueWebhookEvents(now: Date): Promise<WebhookEvent[]>;
+  
+  // Hospitable connections
+  getHospitableConnections(): Promise<HospitableConnection[]>;
+  getHospitableConnection(customerId: string): Promise<HospitableConnection | undefined>;
+  upsertHospitableConnection(customerId: string, connection: Partial<InsertHospitableConnection>): Promise<HospitableConnection>;
+  
+  // API integrations
+  getApiIntegrations(): Promise<ApiIntegration[]>;
+  
+  // Job runs (newest first)
+  getJobRuns(filters?: JobRunFilters): Promise<JobRun[]>;
+  getLatestJobRun(jobType: JobType, targetId: string): Promise<JobRun | undefined>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: number, run: Partial<InsertJobRun>): Promise<JobRun | undefined>;
+  
+  // Queue jobs (newest first)
+  getQueueJobs(filters?: QueueJobFilters): Promise<QueueJob[]>;
+  getQueueJob(id: number): Promise<QueueJob | undefined>;
+  createQueueJob(job: InsertQueueJob): Promise<QueueJob>;
+  updateQueueJob(id: number, job: Partial<InsertQueueJob>): Promise<QueueJob | undefined>;
+  // Take the next due queued job for a worker, skipping groups already running maxPerGroup jobs
+  claimQueueJob(workerId: string, now: Date, maxPerGroup: number): Promise<QueueJob | undefined>;
+  // Put running jobs without a sign of life since staleBefore back in the queue; returns how many
+  releaseStaleQueueJobs(staleBefore: Date): Promise<number>;
+  
+  // Token bucket rate limiting: takes a token and returns 0, or returns the ms until one is available
+  takeRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<number>;
+  
+  // Audit log (newest first)
+  getAuditLogEntries(filters?: AuditLogFilters): Promise<AuditLogEntry[]>;
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private hosts: Map<number, Host>;
+  private hostTeamMembers: Map<number, HostTeamMember>;
   private properties: Map<number, Property>;
   private cities: Map<number, City>;
   private reviews: Map<number, Review>;
   private neighborhoods: Map<number, Neighborhood>;
   private favorites: Map<number, Favorite>;
+  private bookings: Map<number, Booking>;
+  private availabilityBlocks: Map<number, AvailabilityBlock>;
+  private propertyCalendars: Map<number, PropertyCalendar>; // keyed by propertyId
+  private propertyRevisions: Map<number, PropertyRevision>;
+  private pricingRules: Map<number, PricingRule>;
+  private webhookEvents: Map<number, WebhookEvent>;
+  private hospitableConnections: Map<string, HospitableConnection>; // keyed by customerId
+  private apiIntegrations: Map<number, ApiIntegration>;
+  private jobRuns: Map<number, JobRun>;
+  private queueJobs: Map<number, QueueJob>;
+  private rateLimitBuckets: Map<string, { tokens: number; updatedAt: number }>;
+  private auditLog: AuditLogEntry[];
   
   private userIdCounter: number;
+  private passwordResetTokenIdCounter: number;
+  private hostIdCounter: number;
+  private hostTeamMemberIdCounter: number;
   private propertyIdCounter: number;
   private cityIdCounter: number;
   private reviewIdCounter: number;
   private neighborhoodIdCounter: number;
   private favoriteIdCounter: number;
+  private bookingIdCounter: number;
+  private availabilityBlockIdCounter: number;
+  private propertyCalendarIdCounter: number;
+  private propertyRevisionIdCounter: number;
+  private pricingRuleIdCounter: number;
+  private webhookEventIdCounter: number;
+  private hospitableConnectionIdCounter: number;
+  private jobRunIdCounter: number;
+  private queueJobIdCounter: number;
   
   constructor() {
     this.users = new Map();
+    this.passwordResetTokens = new Map();
+    this.hosts = new Map();
+    this.hostTeamMembers = new Map();
     this.properties = new Map();
     this.cities = new Map();
     this.reviews = new Map();
     this.neighborhoods = new Map();
     this.favorites = new Map();
+    this.bookings = new Map();
+    this.availabilityBlocks = new Map();
+    this.propertyCalendars = new Map();
+    this.propertyRevisions = new Map();
+    this.pricingRules = new Map();
+    this.webhookEvents = new Map();
+    this.hospitableConnections = new Map();
+    this.apiIntegrations = new Map();
+    this.jobRuns = new Map();
+    this.queueJobs = new Map();
+    this.rateLimitBuckets = new Map();
+    this.auditLog = [];
     
     this.userIdCounter = 1;
+    this.passwordResetTokenIdCounter = 1;
+    this.hostIdCounter = 1;
+    this.hostTeamMemberIdCounter = 1;
     this.propertyIdCounter = 1;
     this.cityIdCounter = 1;
     this.reviewIdCounter = 1;
     this.neighborhoodIdCounter = 1;
     this.favoriteIdCounter = 1;
+    this.bookingIdCounter = 1;
+    this.availabilityBlockIdCounter = 1;
+    this.propertyCalendarIdCounter = 1;
+    this.propertyRevisionIdCounter = 1;
+    this.pricingRuleIdCounter = 1;
+    this.webhookEventIdCounter = 1;
+    this.hospitableConnectionIdCounter = 1;
+    this.jobRunIdCounter = 1;
+    this.queueJobIdCounter = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000 // Prune expired sessions daily
+    });
     
     // Initialize with sample data
     this.initializeData();
@@ -95,6 +408,12 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email?.toLowerCase() === email.toLowerCase(),
+    );
+  }
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const user: User = { 
@@ -102,13 +421,203 @@ export class MemStorage implements IStorage {
       id, 
       email: insertUser.email ?? null,
       fullName: insertUser.fullName ?? null,
-      isAdmin: null,
+      role: insertUser.role ?? "guest",
+      isAdmin: insertUser.role === "admin",
+      suspendedAt: null,
+      suspendedReason: null,
       createdAt: null
     };
     this.users.set(id, user);
     return user;
   }
   
+  async getUsers(filters?: UserFilters): Promise<{ items: User[]; total: number }> {
+    const search = filters?.search?.toLowerCase();
+    const offset = filters?.offset ?? 0;
+    
+    const matches = Array.from(this.users.values())
+      .filter(user => {
+        if (search && ![user.username, user.email, user.fullName]
+          .some(value => value?.toLowerCase().includes(search))) return false;
+        if (filters?.role && user.role !== filters.role) return false;
+        if (filters?.suspended !== undefined && !!user.suspendedAt !== filters.suspended) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id);
+    
+    return {
+      items: matches.slice(offset, offset + (filters?.limit ?? 25)),
+      total: matches.length,
+    };
+  }
+  
+  async updateUser(id: number, update: UserUpdate): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = {
+      ...user,
+      ...update,
+      isAdmin: update.role ? update.role === "admin" : user.isAdmin,
+    };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    if (!this.users.delete(id)) return false;
+    
+    Array.from(this.favorites.values())
+      .filter(favorite => favorite.userId === id)
+      .forEach(favorite => this.favorites.delete(favorite.id));
+    Array.from(this.passwordResetTokens.values())
+      .filter(token => token.userId === id)
+      .forEach(token => this.passwordResetTokens.delete(token.id));
+    const hostIds = Array.from(this.hosts.values())
+      .filter(host => host.userId === id)
+      .map(host => host.id);
+    hostIds.forEach(hostId => this.hosts.delete(hostId));
+    Array.from(this.hostTeamMembers.values())
+      .filter(member => member.userId === id || hostIds.includes(member.hostId))
+      .forEach(member => this.hostTeamMembers.delete(member.id));
+    return true;
+  }
+  
+  // Password reset tokens
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenIdCounter++;
+    const newToken: PasswordResetToken = {
+      ...token,
+      id,
+      createdBy: token.createdBy ?? null,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.set(id, newToken);
+    return newToken;
+  }
+  
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+  
+  async markPasswordResetTokenUsed(id: number): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return undefined;
+    
+    const usedToken = { ...token, usedAt: new Date() };
+    this.passwordResetTokens.set(id, usedToken);
+    return usedToken;
+  }
+  
+  // Hosts
+  async getHost(id: number): Promise<Host | undefined> {
+    return this.hosts.get(id);
+  }
+  
+  async getHostByUserId(userId: number): Promise<Host | undefined> {
+    return Array.from(this.hosts.values()).find(host => host.userId === userId);
+  }
+  
+  async getHostBySlug(slug: string): Promise<Host | undefined> {
+    return Array.from(this.hosts.values()).find(host => host.slug === slug);
+  }
+  
+  async createHost(insertHost: InsertHost): Promise<Host> {
+    if (Array.from(this.hosts.values()).some(host => host.userId === insertHost.userId || host.slug === insertHost.slug)) {
+      throw new Error(`A host with user ${insertHost.userId} or slug "${insertHost.slug}" already exists`);
+    }
+    
+    const id = this.hostIdCounter++;
+    const now = new Date();
+    const host: Host = {
+      ...insertHost,
+      id,
+      bio: insertHost.bio ?? null,
+      avatarUrl: insertHost.avatarUrl ?? null,
+      languages: insertHost.languages ?? null,
+      responseRate: insertHost.responseRate ?? null,
+      joinedAt: insertHost.joinedAt ?? now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.hosts.set(id, host);
+    return host;
+  }
+  
+  async updateHost(id: number, update: Partial<InsertHost>): Promise<Host | undefined> {
+    const host = this.hosts.get(id);
+    if (!host) return undefined;
+    if (update.slug && Array.from(this.hosts.values()).some(other => other.id !== id && other.slug === update.slug)) {
+      throw new Error(`A host with slug "${update.slug}" already exists`);
+    }
+    
+    const updatedHost: Host = { ...host, ...update, updatedAt: new Date() };
+    this.hosts.set(id, updatedHost);
+    return updatedHost;
+  }
+  
+  // Host team members
+  async getTeamMembers(hostId: number): Promise<HostTeamMember[]> {
+    return Array.from(this.hostTeamMembers.values())
+      .filter(member => member.hostId === hostId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getTeamMember(id: number): Promise<HostTeamMember | undefined> {
+    return this.hostTeamMembers.get(id);
+  }
+  
+  async getTeamMemberByTokenHash(inviteTokenHash: string): Promise<HostTeamMember | undefined> {
+    return Array.from(this.hostTeamMembers.values()).find(member => member.inviteTokenHash === inviteTokenHash);
+  }
+  
+  async getTeamMembershipsByUserId(userId: number): Promise<HostTeamMember[]> {
+    return Array.from(this.hostTeamMembers.values())
+      .filter(member => member.userId === userId && member.acceptedAt !== null)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createTeamMember(member: InsertHostTeamMember): Promise<HostTeamMember> {
+    const id = this.hostTeamMemberIdCounter++;
+    const now = new Date();
+    const newMember: HostTeamMember = {
+      ...member,
+      id,
+      userId: null,
+      propertyIds: member.propertyIds ?? null,
+      invitedBy: member.invitedBy ?? null,
+      acceptedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.hostTeamMembers.set(id, newMember);
+    return newMember;
+  }
+  
+  async updateTeamMember(id: number, update: Partial<Pick<HostTeamMember, "role" | "propertyIds">>): Promise<HostTeamMember | undefined> {
+    const member = this.hostTeamMembers.get(id);
+    if (!member) return undefined;
+    
+    const updatedMember: HostTeamMember = { ...member, ...update, updatedAt: new Date() };
+    this.hostTeamMembers.set(id, updatedMember);
+    return updatedMember;
+  }
+  
+  async acceptTeamInvite(id: number, userId: number): Promise<HostTeamMember | undefined> {
+    const member = this.hostTeamMembers.get(id);
+    if (!member || member.acceptedAt) return undefined;
+    
+    const now = new Date();
+    const acceptedMember: HostTeamMember = { ...member, userId, acceptedAt: now, updatedAt: now };
+    this.hostTeamMembers.set(id, acceptedMember);
+    return acceptedMember;
+  }
+  
+  async deleteTeamMember(id: number): Promise<boolean> {
+    return this.hostTeamMembers.delete(id);
+  }
+  
   // Properties
   async getProperties(limit = 10, offset = 0): Promise<Property[]> {
     return Array.from(this.properties.values())
@@ -131,54 +640,125 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getPropertyByExternalId(externalId: string): Promise<Property | undefined> {
+    return Array.from(this.properties.values()).find(
+      property => property.externalId === externalId
+    );
+  }
+
+  async getPropertyByPlatformId(platformId: string): Promise<Property | undefined> {
+    return Array.from(this.properties.values()).find(
+      property => property.platformId === platformId
+    );
+  }
+  
+  async getPropertiesByCustomerId(customerId: string, offset = 0): Promise<Property[]> {
+    return Array.from(this.properties.values())
+      .filter(property =>
+        !!property.platformId &&
+        (property.platformId.startsWith(`${customerId}:`) || property.platformId.startsWith(`${customerId}/`))
+      )
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(offset);
+  }
+  
   async getPropertiesByCity(cityName: string, limit = 10, offset = 0): Promise<Property[]> {
     return Array.from(this.properties.values())
       .filter(property => property.city.toLowerCase() === cityName.toLowerCase())
       .slice(offset, offset + limit);
   }
   
-  async searchProperties(query: string, filters?: any): Promise<Property[]> {
-    // Handle special case for isPublished
-    if (query === 'isPublished:true') {
-      return Array.from(this.properties.values())
-        .filter(property => property.publishedAt !== null && property.publishedAt !== undefined);
-    } else if (query === 'isPublished:false') {
-      return Array.from(this.properties.values())
-        .filter(property => property.publishedAt === null || property.publishedAt === undefined);
-    }
-    
+  async getPublishedPropertiesByHost(hostUserId: number): Promise<Property[]> {
+    return Array.from(this.properties.values())
+      .filter(property =>
+        property.hostId === hostUserId &&
+        property.isActive !== false &&
+        property.status === "active" &&
+        !!property.publishedAt
+      )
+      .sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+  }
+  
+  async searchProperties(query: string, filters: PropertySearchFilters = {}): Promise<Property[]> {
     const searchTerm = query.toLowerCase();
-    let results = Array.from(this.properties.values()).filter(property => {
-      return (
-        property.name.toLowerCase().includes(searchTerm) ||
-        property.city.toLowerCase().includes(searchTerm) ||
-        property.country.toLowerCase().includes(searchTerm) ||
-        property.location.toLowerCase().includes(searchTerm)
-      );
-    });
-    
-    // Apply filters if they exist
-    if (filters) {
-      if (filters.minPrice) {
-        results = results.filter(p => p.price >= filters.minPrice);
-      }
-      if (filters.maxPrice) {
-        results = results.filter(p => p.price <= filters.maxPrice);
-      }
-      if (filters.bedrooms) {
-        results = results.filter(p => p.bedrooms >= filters.bedrooms);
+    const lowerCase = (values: string[] | null | undefined) => (values ?? []).map(value => value.toLowerCase());
+
+    return Array.from(this.properties.values()).filter(property => {
+      if (property.isActive === false) return false;
+
+      // Handle special keyword commands
+      if (query === 'isPublished:true') {
+        if (!property.publishedAt) return false;
+      } else if (query === 'isPublished:false') {
+        if (property.publishedAt) return false;
+      } else if (searchTerm.trim() && ![property.name, property.city, property.country, property.location]
+        .some(value => value.toLowerCase().includes(searchTerm))) {
+        return false;
       }
-      if (filters.isPublished !== undefined) {
-        if (filters.isPublished === true) {
-          results = results.filter(p => p.publishedAt !== null && p.publishedAt !== undefined);
-        } else {
-          results = results.filter(p => p.publishedAt === null || p.publishedAt === undefined);
-        }
+
+      // Apply filters; keep in step with DatabaseStorage.searchConditions
+      if (filters.city && property.city.toLowerCase() !== filters.city.toLowerCase()) return false;
+      if (filters.propertyType && property.type?.toLowerCase() !== filters.propertyType.toLowerCase()) return false;
+      if (filters.minPrice !== undefined && property.price < filters.minPrice) return false;
+      if (filters.maxPrice !== undefined && property.price > filters.maxPrice) return false;
+      if (filters.guests !== undefined && property.maxGuests < filters.guests) return false;
+      if (filters.bedrooms !== undefined && property.bedrooms < filters.bedrooms) return false;
+      if (filters.bathrooms !== undefined && property.bathrooms < filters.bathrooms) return false;
+      if (filters.amenities?.length) {
+        const amenities = lowerCase(property.amenities);
+        if (!lowerCase(filters.amenities).every(amenity => amenities.includes(amenity))) return false;
       }
-      // Add more filters as needed
-    }
-    
-    return results;
+      return true;
+    });
+  }
+
+  async searchPropertiesPage(
+    query: string,
+    filters: PropertySearchFilters,
+    options: PropertySearchOptions
+  ): Promise<{ items: Property[]; total: number }> {
+    const offset = options.offset ?? 0;
+    const matches = (await this.searchProperties(query, filters))
+      .sort(comparePropertySearchResults(options));
+
+    return {
+      items: matches.slice(offset, offset + (options.limit ?? 12)),
+      total: matches.length,
+    };
+  }
+  
+  async getAdminProperties(filters: AdminPropertyFilters): Promise<{ items: Property[]; total: number }> {
+    const search = filters.search?.toLowerCase();
+    const sort = filters.sort ?? "updatedAt";
+    const direction = filters.direction === "asc" ? 1 : -1;
+    const offset = filters.offset ?? 0;
+
+    const matches = Array.from(this.properties.values())
+      .filter(property => {
+        if (search && ![property.name, property.title, property.city, property.platformId]
+          .some(value => value?.toLowerCase().includes(search))) return false;
+        if (filters.status && property.status !== filters.status) return false;
+        if (filters.source === "manual" ? !!property.externalSource : filters.source && property.externalSource !== filters.source) return false;
+        if (filters.published !== undefined && !!property.publishedAt !== filters.published) return false;
+        if (filters.featured !== undefined && !!property.isFeatured !== filters.featured) return false;
+        if (filters.access && !filters.access.hostIds.includes(property.hostId) &&
+          !filters.access.propertyIds.includes(property.id)) return false;
+        return true;
+      })
+      .sort((a, b) => {
+        const first = a[sort] instanceof Date ? (a[sort] as Date).getTime() : a[sort];
+        const second = b[sort] instanceof Date ? (b[sort] as Date).getTime() : b[sort];
+        // Empty values go last in either direction
+        if (first === null || first === undefined) return second === null || second === undefined ? a.id - b.id : 1;
+        if (second === null || second === undefined) return -1;
+        if (first === second) return a.id - b.id;
+        return (first < second ? -1 : 1) * direction;
+      });
+
+    return {
+      items: matches.slice(offset, offset + (filters.limit ?? 25)),
+      total: matches.length,
+    };
   }
   
   async createProperty(property: InsertProperty): Promise<Property> {
@@ -215,6 +795,7 @@ export class MemStorage implements IStorage {
       amenities: (property.amenities as string[]) ?? [],
       additionalImages: property.additionalImages ?? [],
       keywords: property.keywords ?? [],
+      lockedFields: property.lockedFields ?? [],
     
       // JSON fields
       bedroomDetails: (property.bedroomDetails as { id: number; name: string; beds: { type: string; count: number; }[]; image: string; }[]) ?? [],
@@ -271,7 +852,11 @@ export class MemStorage implements IStorage {
     return newProperty;
   }
   
-async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property | undefined> {
+async updateProperty(
+  id: number,
+  property: Partial<InsertProperty>,
+  revision: PropertyRevisionContext = { source: "system" }
+): Promise<Property | undefined> {
   const existingProperty = this.properties.get(id);
   if (!existingProperty) return undefined;
 
@@ -283,9 +868,25 @@ async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Pro
   const updatedProperty = { 
     ...existingProperty, 
     ...property, 
-    bedroomDetails: updatedBedroomDetails 
+    bedroomDetails: updatedBedroomDetails,
+    updatedAt: new Date()
   };
   this.properties.set(id, updatedProperty);
+
+  const changes = getPropertyChanges(existingProperty, updatedProperty);
+  if (Object.keys(changes).length > 0) {
+    const revisionId = this.propertyRevisionIdCounter++;
+    this.propertyRevisions.set(revisionId, {
+      id: revisionId,
+      propertyId: id,
+      changes,
+      userId: revision.userId ?? null,
+      source: revision.source ?? "system",
+      restoredFromId: revision.restoredFromId ?? null,
+      createdAt: new Date(),
+    });
+  }
+
   return updatedProperty;
 }
   
@@ -293,6 +894,18 @@ async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Pro
     return this.properties.delete(id);
   }
   
+  // Property revisions
+  async getPropertyRevisions(propertyId: number, limit = 50): Promise<PropertyRevision[]> {
+    return Array.from(this.propertyRevisions.values())
+      .filter(revision => revision.propertyId === propertyId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getPropertyRevision(id: number): Promise<PropertyRevision | undefined> {
+    return this.propertyRevisions.get(id);
+  }
+  
   // Cities
   async getCities(limit = 10): Promise<City[]> {
     return Array.from(this.cities.values()).slice(0, limit);
@@ -361,6 +974,12 @@ async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Pro
       .filter(review => review.propertyId === propertyId);
   }
   
+  async getReviewsByUserId(userId: number): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter(review => review.userId === userId)
+      .sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0));
+  }
+  
   async createReview(review: InsertReview): Promise<Review> {
     const id = this.reviewIdCounter++;
     const newReview: Review = { 
@@ -486,6 +1105,544 @@ async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Pro
     );
   }
   
+  // Bookings
+  async getBookings(filters?: BookingFilters): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => {
+        if (!filters) return true;
+        if (filters.propertyId !== undefined && booking.propertyId !== filters.propertyId) return false;
+        if (filters.userId !== undefined && booking.userId !== filters.userId) return false;
+        if (filters.status && booking.status !== filters.status) return false;
+        if (filters.source && booking.source !== filters.source) return false;
+        if (filters.from && booking.checkOut <= filters.from) return false;
+        if (filters.to && booking.checkIn >= filters.to) return false;
+        return true;
+      })
+      .sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+  }
+  
+  async getBooking(id: number): Promise<Booking | undefined> {
+    return this.bookings.get(id);
+  }
+  
+  async getBookingByExternalId(externalId: string): Promise<Booking | undefined> {
+    return Array.from(this.bookings.values()).find(
+      booking => booking.externalId === externalId
+    );
+  }
+  
+  async getBookingByPaymentIntentId(paymentIntentId: string): Promise<Booking | undefined> {
+    return Array.from(this.bookings.values()).find(
+      booking => booking.paymentIntentId === paymentIntentId
+    );
+  }
+  
+  async createBooking(booking: InsertBooking, options: BookingWriteOptions = {}): Promise<Booking> {
+    const status = booking.status ?? "inquiry";
+    // Check and insert without awaiting in between, so no other request can claim the nights
+    if (isHoldingStatus(status) && !options.skipAvailabilityCheck) {
+      this.assertAvailable(booking.propertyId, booking.checkIn, booking.checkOut);
+    }
+    
+    const id = this.bookingIdCounter++;
+    const now = new Date();
+    const newBooking: Booking = {
+      id,
+      propertyId: booking.propertyId,
+      userId: booking.userId ?? null,
+      guestName: booking.guestName,
+      guestEmail: booking.guestEmail ?? null,
+      guestPhone: booking.guestPhone ?? null,
+      guests: booking.guests ?? 1,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      totalPrice: booking.totalPrice ?? null,
+      currency: booking.currency ?? "USD",
+      status,
+      source: booking.source ?? "direct",
+      externalId: booking.externalId ?? null,
+      notes: booking.notes ?? null,
+      paymentStatus: booking.paymentStatus ?? "unpaid",
+      paymentIntentId: booking.paymentIntentId ?? null,
+      confirmedAt: status === "confirmed" ? now : null,
+      cancelledAt: status === "cancelled" ? now : null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.bookings.set(id, newBooking);
+    return newBooking;
+  }
+  
+  async updateBooking(id: number, booking: Partial<InsertBooking>, options: BookingWriteOptions = {}): Promise<Booking | undefined> {
+    const existingBooking = this.bookings.get(id);
+    if (!existingBooking) return undefined;
+    
+    const updatedBooking: Booking = {
+      ...existingBooking,
+      ...booking,
+      ...bookingStatusTimestamps(existingBooking, booking.status),
+      updatedAt: new Date()
+    };
+    if (claimsNewNights(existingBooking, updatedBooking) && !options.skipAvailabilityCheck) {
+      this.assertAvailable(updatedBooking.propertyId, updatedBooking.checkIn, updatedBooking.checkOut, id);
+    }
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+  
+  async updateBookingStatus(id: number, status: BookingStatus): Promise<Booking | undefined> {
+    return this.updateBooking(id, { status });
+  }
+  
+  private assertAvailable(propertyId: number, checkIn: string, checkOut: string, excludeBookingId?: number): void {
+    const conflict = findAvailabilityConflict(
+      checkIn,
+      checkOut,
+      Array.from(this.bookings.values()).filter(b => b.propertyId === propertyId),
+      Array.from(this.availabilityBlocks.values()).filter(b => b.propertyId === propertyId),
+      excludeBookingId
+    );
+    if (conflict) {
+      throw new AvailabilityConflictError(conflict);
+    }
+  }
+  
+  // Availability
+  async getAvailabilityBlocks(propertyId: number, from?: string, to?: string): Promise<AvailabilityBlock[]> {
+    return Array.from(this.availabilityBlocks.values())
+      .filter(block =>
+        block.propertyId === propertyId &&
+        rangesOverlap(from ?? block.startDate, to ?? block.endDate, block.startDate, block.endDate)
+      )
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+  
+  async getAvailabilityBlock(id: number): Promise<AvailabilityBlock | undefined> {
+    return this.availabilityBlocks.get(id);
+  }
+  
+  async createAvailabilityBlock(block: InsertAvailabilityBlock, options: AvailabilityBlockWriteOptions = {}): Promise<AvailabilityBlock> {
+    // Check and insert without awaiting in between, like createBooking
+    if (options.rejectBookedNights) {
+      const conflict = findAvailabilityConflict(
+        block.startDate,
+        block.endDate,
+        Array.from(this.bookings.values()).filter(b => b.propertyId === block.propertyId),
+        []
+      );
+      if (conflict) {
+        throw new AvailabilityConflictError(conflict);
+      }
+    }
+
+    const id = this.availabilityBlockIdCounter++;
+    const newBlock: AvailabilityBlock = {
+      id,
+      propertyId: block.propertyId,
+      startDate: block.startDate,
+      endDate: block.endDate,
+      source: block.source ?? "manual",
+      externalUid: block.externalUid ?? null,
+      note: block.note ?? null,
+      createdAt: new Date()
+    };
+    this.availabilityBlocks.set(id, newBlock);
+    return newBlock;
+  }
+  
+  async deleteAvailabilityBlock(id: number): Promise<boolean> {
+    return this.availabilityBlocks.delete(id);
+  }
+  
+  // Calendar sync
+  async getPropertiesWithCalendarSync(): Promise<Property[]> {
+    return Array.from(this.properties.values())
+      .filter(property => property.isActive !== false && !!property.calendarSyncUrl);
+  }
+  
+  async getPropertyCalendar(propertyId: number): Promise<PropertyCalendar | undefined> {
+    return this.propertyCalendars.get(propertyId);
+  }
+  
+  async upsertPropertyCalendar(propertyId: number, calendar: Partial<InsertPropertyCalendar>): Promise<PropertyCalendar> {
+    const now = new Date();
+    const existingCalendar = this.propertyCalendars.get(propertyId) ?? {
+      id: this.propertyCalendarIdCounter++,
+      propertyId,
+      importStatus: "never",
+      importError: null,
+      importedEventCount: 0,
+      lastImportedAt: null,
+      exportToken: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    const updatedCalendar: PropertyCalendar = {
+      ...existingCalendar,
+      ...calendar,
+      propertyId,
+      updatedAt: now
+    };
+    this.propertyCalendars.set(propertyId, updatedCalendar);
+    return updatedCalendar;
+  }
+  
+  // Pricing rules
+  async getPricingRules(propertyId: number): Promise<PricingRule[]> {
+    return Array.from(this.pricingRules.values())
+      .filter(rule => rule.propertyId === propertyId)
+      .sort((a, b) => (b.priority - a.priority) || (a.id - b.id));
+  }
+  
+  async getPricingRule(id: number): Promise<PricingRule | undefined> {
+    return this.pricingRules.get(id);
+  }
+  
+  async createPricingRule(rule: InsertPricingRule): Promise<PricingRule> {
+    const id = this.pricingRuleIdCounter++;
+    const now = new Date();
+    const newRule: PricingRule = {
+      id,
+      propertyId: rule.propertyId,
+      name: rule.name,
+      startDate: rule.startDate ?? null,
+      endDate: rule.endDate ?? null,
+      daysOfWeek: rule.daysOfWeek ?? null,
+      nightlyPrice: rule.nightlyPrice ?? null,
+      adjustmentPercent: rule.adjustmentPercent ?? null,
+      minStay: rule.minStay ?? null,
+      priority: rule.priority ?? 0,
+      isActive: rule.isActive ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.pricingRules.set(id, newRule);
+    return newRule;
+  }
+  
+  async updatePricingRule(id: number, rule: Partial<InsertPricingRule>): Promise<PricingRule | undefined> {
+    const existingRule = this.pricingRules.get(id);
+    if (!existingRule) return undefined;
+    
+    const updatedRule: PricingRule = {
+      ...existingRule,
+      ...rule,
+      updatedAt: new Date()
+    };
+    this.pricingRules.set(id, updatedRule);
+    return updatedRule;
+  }
+  
+  async deletePricingRule(id: number): Promise<boolean> {
+    return this.pricingRules.delete(id);
+  }
+  
+  // Webhook events
+  async getWebhookEvents(filters?: WebhookEventFilters): Promise<WebhookEvent[]> {
+    return Array.from(this.webhookEvents.values())
+      .filter(event => {
+        if (!filters) return true;
+        if (filters.source && event.source !== filters.source) return false;
+        if (filters.eventType && event.eventType !== filters.eventType) return false;
+        if (filters.status && event.status !== filters.status) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filters?.limit ?? 100);
+  }
+  
+  async getWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    return this.webhookEvents.get(id);
+  }
+  
+  async getWebhookEventByEventId(source: string, eventId: string): Promise<WebhookEvent | undefined> {
+    return Array.from(this.webhookEvents.values()).find(
+      event => event.source === source && event.eventId === eventId
+    );
+  }
+  
+  async createWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined> {
+    const source = event.source ?? "hospitable";
+    if (await this.getWebhookEventByEventId(source, event.eventId)) return undefined;
+    
+    const id = this.webhookEventIdCounter++;
+    const now = new Date();
+    const newEvent: WebhookEvent = {
+      id,
+      source,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      payload: event.payload,
+      signatureStatus: event.signatureStatus,
+      status: event.status ?? "received",
+      attempts: event.attempts ?? 0,
+      lastError: event.lastError ?? null,
+      nextAttemptAt: event.nextAttemptAt ?? null,
+      processedAt: event.processedAt ?? null,
+      receivedAt: now,
+      updatedAt: now
+    };
+    this.webhookEvents.set(id, newEvent);
+    return newEvent;
+  }
+  
+  async updateWebhookEvent(id: number, event: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined> {
+    const existingEvent = this.webhookEvents.get(id);
+    if (!existingEvent) return undefined;
+    
+    const updatedEvent: WebhookEvent = {
+      ...existingEvent,
+      ...event,
+      updatedAt: new Date()
+    };
+    this.webhookEvents.set(id, updatedEvent);
+    return updatedEvent;
+  }
+  
+  async claimWebhookEvent(id: number, staleBefore: Date): Promise<WebhookEvent | undefined> {
+    const existingEvent = this.webhookEvents.get(id);
+    if (!existingEvent) return undefined;
+    if (existingEvent.status === "processing" && existingEvent.updatedAt && existingEvent.updatedAt > staleBefore) {
+      return undefined;
+    }
+    
+    return this.updateWebhookEvent(id, {
+      status: "processing",
+      attempts: existingEvent.attempts + 1
+    });
+  }
+  
+  async getDueWebhookEvents(now: Date): Promise<WebhookEvent[]> {
+    return Array.from(this.webhookEvents.values())
+      .filter(event => event.status === "failed" && !!event.nextAttemptAt && event.nextAttemptAt <= now)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Hospitable connections
+  async getHospitableConnections(): Promise<HospitableConnection[]> {
+    return Array.from(this.hospitableConnections.values())
+      .sort((a, b) => a.customerId.localeCompare(b.customerId));
+  }
+  
+  async getHospitableConnection(customerId: string): Promise<HospitableConnection | undefined> {
+    return this.hospitableConnections.get(customerId);
+  }
+  
+  async upsertHospitableConnection(customerId: string, connection: Partial<InsertHospitableConnection>): Promise<HospitableConnection> {
+    const now = new Date();
+    const existingConnection = this.hospitableConnections.get(customerId) ?? {
+      id: this.hospitableConnectionIdCounter++,
+      customerId,
+      status: "connected" as const,
+      lastEvent: null,
+      accessToken: null,
+      refreshToken: null,
+      tokenExpiresAt: null,
+      scopes: null,
+      hostId: null,
+      connectedAt: null,
+      disconnectedAt: null,
+      lastSyncedAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    const updatedConnection: HospitableConnection = {
+      ...existingConnection,
+      ...connection,
+      customerId,
+      updatedAt: now
+    };
+    this.hospitableConnections.set(customerId, updatedConnection);
+    return updatedConnection;
+  }
+  
+  // API integrations
+  async getApiIntegrations(): Promise<ApiIntegration[]> {
+    return Array.from(this.apiIntegrations.values());
+  }
+  
+  // Job runs
+  async getJobRuns(filters?: JobRunFilters): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter(run => {
+        if (!filters) return true;
+        if (filters.jobType && run.jobType !== filters.jobType) return false;
+        if (filters.targetIds && !filters.targetIds.includes(run.targetId)) return false;
+        if (filters.status && run.status !== filters.status) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filters?.limit ?? 100);
+  }
+  
+  async getLatestJobRun(jobType: JobType, targetId: string): Promise<JobRun | undefined> {
+    const [latestRun] = await this.getJobRuns({ jobType, targetIds: [targetId], limit: 1 });
+    return latestRun;
+  }
+  
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const id = this.jobRunIdCounter++;
+    const newRun: JobRun = {
+      id,
+      jobType: run.jobType,
+      targetId: run.targetId,
+      status: run.status ?? "running",
+      trigger: run.trigger ?? "schedule",
+      result: run.result ?? null,
+      error: run.error ?? null,
+      startedAt: new Date(),
+      finishedAt: run.finishedAt ?? null
+    };
+    this.jobRuns.set(id, newRun);
+    return newRun;
+  }
+  
+  async updateJobRun(id: number, run: Partial<InsertJobRun>): Promise<JobRun | undefined> {
+    const existingRun = this.jobRuns.get(id);
+    if (!existingRun) return undefined;
+    
+    const updatedRun: JobRun = { ...existingRun, ...run };
+    this.jobRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+  
+  // Queue jobs
+  async getQueueJobs(filters?: QueueJobFilters): Promise<QueueJob[]> {
+    return Array.from(this.queueJobs.values())
+      .filter(job => {
+        if (!filters) return true;
+        if (filters.kind && job.kind !== filters.kind) return false;
+        if (filters.groupKey && job.groupKey !== filters.groupKey) return false;
+        if (filters.status && job.status !== filters.status) return false;
+        if (filters.createdBy !== undefined && job.createdBy !== filters.createdBy) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filters?.limit ?? 100);
+  }
+  
+  async getQueueJob(id: number): Promise<QueueJob | undefined> {
+    return this.queueJobs.get(id);
+  }
+  
+  async createQueueJob(job: InsertQueueJob): Promise<QueueJob> {
+    const id = this.queueJobIdCounter++;
+    const now = new Date();
+    const newJob: QueueJob = {
+      id,
+      kind: job.kind,
+      groupKey: job.groupKey,
+      payload: job.payload,
+      status: job.status ?? "queued",
+      attempts: job.attempts ?? 0,
+      maxAttempts: job.maxAttempts ?? 5,
+      runAt: job.runAt ?? now,
+      lockedBy: job.lockedBy ?? null,
+      progress: job.progress ?? null,
+      result: job.result ?? null,
+      lastError: job.lastError ?? null,
+      createdBy: job.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: job.finishedAt ?? null
+    };
+    this.queueJobs.set(id, newJob);
+    return newJob;
+  }
+  
+  async updateQueueJob(id: number, job: Partial<InsertQueueJob>): Promise<QueueJob | undefined> {
+    const existingJob = this.queueJobs.get(id);
+    if (!existingJob) return undefined;
+    
+    const updatedJob: QueueJob = {
+      ...existingJob,
+      ...job,
+      updatedAt: new Date()
+    };
+    this.queueJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async claimQueueJob(workerId: string, now: Date, maxPerGroup: number): Promise<QueueJob | undefined> {
+    const jobs = Array.from(this.queueJobs.values());
+    const runningPerGroup = (groupKey: string) =>
+      jobs.filter(job => job.status === "running" && job.groupKey === groupKey).length;
+    
+    const nextJob = jobs
+      .filter(job => job.status === "queued" && job.runAt <= now && runningPerGroup(job.groupKey) < maxPerGroup)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!nextJob) return undefined;
+    
+    return this.updateQueueJob(nextJob.id, {
+      status: "running",
+      attempts: nextJob.attempts + 1,
+      lockedBy: workerId
+    });
+  }
+  
+  async releaseStaleQueueJobs(staleBefore: Date): Promise<number> {
+    let released = 0;
+    for (const job of Array.from(this.queueJobs.values())) {
+      if (job.status === "running" && job.updatedAt && job.updatedAt < staleBefore) {
+        await this.updateQueueJob(job.id, { status: "queued", lockedBy: null, runAt: new Date() });
+        released++;
+      }
+    }
+    return released;
+  }
+  
+  // Rate limiting
+  async takeRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<number> {
+    const now = Date.now();
+    const bucket = this.rateLimitBuckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+    
+    if (tokens < 1) {
+      this.rateLimitBuckets.set(key, { tokens, updatedAt: now });
+      return Math.ceil(((1 - tokens) / refillPerSecond) * 1000);
+    }
+    
+    this.rateLimitBuckets.set(key, { tokens: tokens - 1, updatedAt: now });
+    return 0;
+  }
+  
+  // Audit log
+  async getAuditLogEntries(filters?: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const offset = filters?.offset ?? 0;
+    return this.auditLog
+      .filter(entry => {
+        if (!filters) return true;
+        if (filters.actorId !== undefined && entry.actorId !== filters.actorId) return false;
+        if (filters.action && entry.action !== filters.action) return false;
+        if (filters.entityType && entry.entityType !== filters.entityType) return false;
+        if (filters.entityId && entry.entityId !== filters.entityId) return false;
+        if (filters.from && entry.createdAt! < filters.from) return false;
+        if (filters.to && entry.createdAt! >= filters.to) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id)
+      .slice(offset, offset + (filters?.limit ?? 100));
+  }
+  
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const newEntry: AuditLogEntry = {
+      id: this.auditLog.length + 1,
+      actorId: entry.actorId ?? null,
+      actorRole: entry.actorRole ?? null,
+      ip: entry.ip ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLog.push(newEntry);
+    return newEntry;
+  }
+  
   // Initialize with sample data
   private initializeData() {
     // Create sample cities
@@ -777,14 +1934,75 @@ async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Pro
       reviews.forEach(review => this.createReview(review));
     }
     
-    // Create sample user
-    this.createUser({
+    // Create sample user (an admin, so the sample data can be managed)
+    hashPassword("password123").then(password => this.createUser({
       username: "testuser",
-      password: "password123"
-    });
+      password,
+      role: "admin"
+    }));
   }
 }
 
+// A booking update needs an availability check when it starts holding nights
+// or moves the nights it already holds
+export function claimsNewNights(
+  existing: Pick<Booking, "status" | "checkIn" | "checkOut">,
+  updated: Pick<Booking, "status" | "checkIn" | "checkOut">
+): boolean {
+  if (!isHoldingStatus(updated.status)) return false;
+  return !isHoldingStatus(existing.status) ||
+    existing.checkIn !== updated.checkIn ||
+    existing.checkOut !== updated.checkOut;
+}
+
+// Stamp confirmedAt / cancelledAt the first time a booking reaches those statuses
+export function bookingStatusTimestamps(
+  existing: Pick<Booking, "confirmedAt" | "cancelledAt">,
+  status?: BookingStatus
+): Pick<Booking, "confirmedAt" | "cancelledAt"> {
+  const now = new Date();
+  return {
+    confirmedAt: status === "confirmed" && !existing.confirmedAt ? now : existing.confirmedAt,
+    cancelledAt: status === "cancelled" && !existing.cancelledAt ? now : existing.cancelledAt
+  };
+}
+
+// Order of the public property search; properties without the sorted value go last.
+// Distance is the flat-earth approximation, which orders nearby properties the same as the real one
+function comparePropertySearchResults({ sort = "newest", origin }: PropertySearchOptions) {
+  const sortValue = (property: Property): number | null => {
+    switch (sort) {
+      case "price_asc":
+        return property.price;
+      case "price_desc":
+        return -property.price;
+      case "rating":
+        return property.rating === null ? null : -property.rating;
+      case "distance": {
+        if (!origin || property.latitude === null || property.longitude === null) return null;
+        const latitudeDelta = property.latitude - origin.latitude;
+        const longitudeDelta = (property.longitude - origin.longitude) * Math.cos(origin.latitude * Math.PI / 180);
+        return latitudeDelta * latitudeDelta + longitudeDelta * longitudeDelta;
+      }
+      case "newest":
+        return property.createdAt ? -property.createdAt.getTime() : null;
+    }
+  };
+
+  return (a: Property, b: Property) => {
+    const first = sortValue(a);
+    const second = sortValue(b);
+    if (first === null) return second === null ? a.id - b.id : 1;
+    if (second === null) return -1;
+    if (first === second) {
+      // Ratings backed by more reviews first
+      if (sort === "rating") return (b.reviewCount ?? 0) - (a.reviewCount ?? 0) || a.id - b.id;
+      return a.id - b.id;
+    }
+    return first - second;
+  };
+}
+
 function normalizeBedroomDetails(details: any): { id: number; name: string; beds: { type: string; count: number }[]; image: string }[] {
   return Object.values(details).map((detail: any) => ({
     id: detail.id,
@@ -0,0 +1,279 @@
+// sync-jobs.ts - Server-side scheduler for listing imports, image refreshes and iCal pulls.
+// Each job runs per target (Hospitable customer or property) on the cadence set by
+// api_integrations.syncFrequency, and every run is recorded in job_runs.
+
+import {
+  syncFrequencies,
+  type JobRun,
+  type JobType,
+  type Property,
+  type SyncFrequency,
+} from '@shared/schema';
+import { storage } from './storage-factory';
+import { createServerApiClient } from './hospitable-client';
+import { markHospitableCustomerSynced } from './hospitable-connections';
+import { withHospitableRateLimit } from './job-queue';
+import { syncPropertyCalendar } from './calendar-sync';
+import { cleanImageUrl, omitLockedFields } from './utils/listing-helpers';
+import { upsertHospitableProperty } from './utils/webhook-helpers';
+
+/**
+ * Runs one job for its target and returns the counts to record on the run
+ */
+export type SyncJobRunner = (targetId: string) => Promise<Record<string, number>>;
+
+export interface SyncJob {
+  jobType: JobType;
+  targetId: string; // Hospitable customer ID, or property ID for ical_sync
+  label: string;
+  frequency: SyncFrequency | null; // null while the integration is switched off
+  lastRun: JobRun | null;
+  nextRunAt: Date | null; // null while switched off; in the past when due
+}
+
+/**
+ * Thrown when a job is started while the same job for the same target is still running
+ */
+export class SyncJobRunningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncJobRunningError';
+  }
+}
+
+const DEFAULT_SCHEDULER_INTERVAL_MINUTES = 5;
+const MAX_IMAGES_PER_PROPERTY = 20;
+
+const FREQUENCY_MS: Record<SyncFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// The api_integrations.serviceType whose syncFrequency drives each job,
+// and the cadence used until such an integration is configured
+const JOB_SCHEDULES: Record<JobType, { serviceType: string; defaultFrequency: SyncFrequency }> = {
+  listing_import: { serviceType: 'hospitable', defaultFrequency: 'daily' },
+  image_refresh: { serviceType: 'hospitable', defaultFrequency: 'weekly' },
+  ical_sync: { serviceType: 'ical', defaultFrequency: 'hourly' },
+};
+
+// Jobs currently running ("jobType:targetId"), so scheduled and manual runs don't overlap
+const jobsInProgress = new Set<string>();
+
+async function importCustomerListingsJob(customerId: string): Promise<Record<string, number>> {
+  const client = createServerApiClient(customerId);
+  const listings = await withHospitableRateLimit(customerId, () => client.getCustomerListings(customerId));
+  const counts = { listings: listings.length, created: 0, updated: 0, skipped: 0 };
+
+  for (const listing of listings) {
+    const outcome = await upsertHospitableProperty({ ...listing, customer_id: customerId });
+    counts[outcome]++;
+  }
+
+  await markHospitableCustomerSynced(customerId);
+  return counts;
+}
+
+async function refreshCustomerImagesJob(customerId: string): Promise<Record<string, number>> {
+  const client = createServerApiClient(customerId);
+  const customerProperties = await storage.getPropertiesByCustomerId(customerId);
+  const counts = { properties: customerProperties.length, refreshed: 0, skipped: 0, failed: 0 };
+
+  for (const property of customerProperties) {
+    const listingId = property.externalId;
+    if (!listingId) {
+      counts.skipped++;
+      continue;
+    }
+
+    let images: any[];
+    try {
+      images = await withHospitableRateLimit(customerId, () => client.getListingImages(customerId, listingId));
+    } catch {
+      counts.failed++; // Already logged by the client
+      continue;
+    }
+    if (images.length === 0) {
+      counts.skipped++;
+      continue;
+    }
+
+    await storage.updateProperty(property.id, {
+      ...omitLockedFields(property, {
+        imageUrl: cleanImageUrl(images[0].url),
+        additionalImages: images.slice(1, MAX_IMAGES_PER_PROPERTY).map((image: any) => cleanImageUrl(image.url)),
+      }),
+      imagesStoredAt: new Date(),
+    }, { source: 'sync' });
+    counts.refreshed++;
+  }
+
+  return counts;
+}
+
+async function syncCalendarJob(propertyId: string): Promise<Record<string, number>> {
+  const property = await storage.getProperty(parseInt(propertyId));
+  if (!property) {
+    throw new Error(`Property ${propertyId} not found`);
+  }
+
+  const { created, updated, removed, unchanged, eventCount } = await syncPropertyCalendar(property);
+  return { created, updated, removed, unchanged, eventCount };
+}
+
+const JOB_RUNNERS: Record<JobType, SyncJobRunner> = {
+  listing_import: importCustomerListingsJob,
+  image_refresh: refreshCustomerImagesJob,
+  ical_sync: syncCalendarJob,
+};
+
+/**
+ * Cadence of each job type from the configured integrations.
+ * An inactive integration switches its jobs off; unknown frequencies fall back to the default.
+ */
+async function getJobFrequencies(): Promise<Record<JobType, SyncFrequency | null>> {
+  const integrations = await storage.getApiIntegrations();
+  const frequencies = {} as Record<JobType, SyncFrequency | null>;
+
+  for (const [jobType, schedule] of Object.entries(JOB_SCHEDULES) as [JobType, typeof JOB_SCHEDULES[JobType]][]) {
+    const integration = integrations.find(
+      integration => integration.serviceType.toLowerCase() === schedule.serviceType
+    );
+
+    if (integration && integration.isActive === false) {
+      frequencies[jobType] = null;
+    } else if (integration && syncFrequencies.includes(integration.syncFrequency as SyncFrequency)) {
+      frequencies[jobType] = integration.syncFrequency as SyncFrequency;
+    } else {
+      frequencies[jobType] = schedule.defaultFrequency;
+    }
+  }
+
+  return frequencies;
+}
+
+/**
+ * Properties a job target covers: the customer's imported properties, or the one property for ical_sync
+ */
+export async function getJobTargetProperties(jobType: JobType, targetId: string): Promise<Property[]> {
+  if (jobType === 'ical_sync') {
+    const property = await storage.getProperty(parseInt(targetId));
+    return property ? [property] : [];
+  }
+  return await storage.getPropertiesByCustomerId(targetId);
+}
+
+/**
+ * Every scheduled job with its last run and when it runs next.
+ * Connected Hospitable customers get a listing import and an image refresh,
+ * properties with a calendarSyncUrl an iCal pull.
+ *
+ * @param customerId Only jobs for this customer and its properties
+ */
+export async function getSyncJobs(customerId?: string): Promise<SyncJob[]> {
+  const frequencies = await getJobFrequencies();
+  const targets: Array<Pick<SyncJob, 'jobType' | 'targetId' | 'label'>> = [];
+
+  const connections = (await storage.getHospitableConnections())
+    .filter(connection => connection.status === 'connected')
+    .filter(connection => !customerId || connection.customerId === customerId);
+  for (const connection of connections) {
+    targets.push({ jobType: 'listing_import', targetId: connection.customerId, label: `Customer ${connection.customerId}` });
+    targets.push({ jobType: 'image_refresh', targetId: connection.customerId, label: `Customer ${connection.customerId}` });
+  }
+
+  const calendarProperties = customerId
+    ? (await storage.getPropertiesByCustomerId(customerId)).filter(property => !!property.calendarSyncUrl)
+    : await storage.getPropertiesWithCalendarSync();
+  for (const property of calendarProperties) {
+    targets.push({ jobType: 'ical_sync', targetId: String(property.id), label: property.name });
+  }
+
+  return await Promise.all(targets.map(async target => {
+    const frequency = frequencies[target.jobType];
+    const lastRun = await storage.getLatestJobRun(target.jobType, target.targetId) ?? null;
+    const lastStartedAt = lastRun?.startedAt?.getTime();
+
+    return {
+      ...target,
+      frequency,
+      lastRun,
+      nextRunAt: !frequency ? null : lastStartedAt ? new Date(lastStartedAt + FREQUENCY_MS[frequency]) : new Date(),
+    };
+  }));
+}
+
+/**
+ * Run one job now and record the run.
+ * A failure is recorded on the run rather than thrown.
+ *
+ * @param trigger What started the run (schedule or manual)
+ * @throws SyncJobRunningError if the same job is already running
+ */
+export async function runSyncJob(
+  jobType: JobType,
+  targetId: string,
+  trigger: 'schedule' | 'manual' = 'manual'
+): Promise<JobRun> {
+  const jobKey = `${jobType}:${targetId}`;
+  if (jobsInProgress.has(jobKey)) {
+    throw new SyncJobRunningError(`Job ${jobType} is already running for ${targetId}`);
+  }
+
+  jobsInProgress.add(jobKey);
+  try {
+    const run = await storage.createJobRun({ jobType, targetId, status: 'running', trigger });
+
+    try {
+      const result = await JOB_RUNNERS[jobType](targetId);
+      console.log(`Job ${jobType} for ${targetId} succeeded:`, result);
+      return (await storage.updateJobRun(run.id, { status: 'succeeded', result, finishedAt: new Date() }))!;
+    } catch (error: any) {
+      console.error(`Job ${jobType} for ${targetId} failed:`, error.message);
+      return (await storage.updateJobRun(run.id, { status: 'failed', error: error.message, finishedAt: new Date() }))!;
+    }
+  } finally {
+    jobsInProgress.delete(jobKey);
+  }
+}
+
+/**
+ * Run every job whose next run is due, one after another
+ */
+export async function runDueSyncJobs(now: Date = new Date()): Promise<JobRun[]> {
+  const dueJobs = (await getSyncJobs()).filter(job => job.nextRunAt && job.nextRunAt <= now);
+  const runs: JobRun[] = [];
+
+  for (const job of dueJobs) {
+    if (jobsInProgress.has(`${job.jobType}:${job.targetId}`)) continue;
+    runs.push(await runSyncJob(job.jobType, job.targetId, 'schedule'));
+  }
+
+  return runs;
+}
+
+/**
+ * Check for due jobs on an interval.
+ * The interval comes from SYNC_JOB_INTERVAL_MINUTES (default 5); 0 disables the scheduler.
+ *
+ * @returns The timer, or null when disabled
+ */
+export function startSyncJobScheduler(): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.SYNC_JOB_INTERVAL_MINUTES || `${DEFAULT_SCHEDULER_INTERVAL_MINUTES}`);
+  if (!minutes || minutes <= 0) {
+    console.log('Sync job scheduler disabled');
+    return null;
+  }
+
+  console.log(`Sync job scheduler checking for due jobs every ${minutes} minutes`);
+  const timer = setInterval(() => {
+    runDueSyncJobs().catch(error => {
+      console.error('Scheduled sync jobs failed:', error);
+    });
+  }, minutes * 60 * 1000);
+
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  return timer;
+}
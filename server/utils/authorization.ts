@@ -0,0 +1,157 @@
+// authorization.ts - Role, property-ownership and host team checks for Express routes
+// Every check answers 401 { message: 'Authentication required' } without a login
+// and 403 { message: 'Forbidden' } when the user may not perform the action.
+
+import type { NextFunction, Request, Response } from 'express';
+import type { Property, User, UserRole } from '@shared/schema';
+import { propertyPermissions, teamRolePermissions, type PropertyPermission } from '@shared/host-teams';
+import { storage } from '../storage-factory';
+import type { PropertyAccessScope } from '../storage';
+
+/**
+ * Resolves the property a request acts on (from params, query, or a child record)
+ */
+export type PropertyIdResolver = (req: Request) => number | undefined | Promise<number | undefined>;
+
+export function sendUnauthenticated(res: Response) {
+  return res.status(401).json({ message: 'Authentication required' });
+}
+
+export function sendForbidden(res: Response) {
+  return res.status(403).json({ message: 'Forbidden' });
+}
+
+export function hasRole(user: Pick<User, 'role'> | undefined, ...roles: UserRole[]): boolean {
+  return !!user && roles.includes(user.role);
+}
+
+/**
+ * Admins manage every property; hosts only the ones whose hostId is theirs
+ */
+export function canManageProperty(user: Pick<User, 'id' | 'role'> | undefined, property: Pick<Property, 'hostId'>): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  return user.role === 'host' && property.hostId === user.id;
+}
+
+/**
+ * What a user may do on a property: everything for admins and the property's host,
+ * and what their role grants for members of the host's team whose scope covers the property
+ */
+export async function getPropertyPermissions(
+  user: Pick<User, 'id' | 'role'> | undefined,
+  property: Pick<Property, 'id' | 'hostId'>
+): Promise<Set<PropertyPermission>> {
+  if (!user) return new Set();
+  if (canManageProperty(user, property)) return new Set(propertyPermissions);
+
+  const permissions = new Set<PropertyPermission>();
+  for (const member of await storage.getTeamMembershipsByUserId(user.id)) {
+    if (member.propertyIds && !member.propertyIds.includes(property.id)) continue;
+    const host = await storage.getHost(member.hostId);
+    if (host?.userId !== property.hostId) continue;
+    teamRolePermissions[member.role].forEach(permission => permissions.add(permission));
+  }
+  return permissions;
+}
+
+/**
+ * Whether a user holds all the given permissions on a property
+ */
+export async function hasPropertyPermission(
+  user: Pick<User, 'id' | 'role'> | undefined,
+  property: Pick<Property, 'id' | 'hostId'>,
+  ...required: PropertyPermission[]
+): Promise<boolean> {
+  const permissions = await getPropertyPermissions(user, property);
+  return required.every(permission => permissions.has(permission));
+}
+
+/**
+ * Properties a user reaches through their own listings and their team memberships.
+ * Admins reach every property and get undefined.
+ */
+export async function getPropertyAccessScope(user: Pick<User, 'id' | 'role'>): Promise<PropertyAccessScope | undefined> {
+  if (user.role === 'admin') return undefined;
+
+  const scope: PropertyAccessScope = { hostIds: [user.id], propertyIds: [] };
+  for (const member of await storage.getTeamMembershipsByUserId(user.id)) {
+    if (member.propertyIds) {
+      // The property IDs still have to belong to the team's host
+      const host = await storage.getHost(member.hostId);
+      for (const propertyId of member.propertyIds) {
+        const property = await storage.getProperty(propertyId);
+        if (host && property?.hostId === host.userId) scope.propertyIds.push(propertyId);
+      }
+    } else {
+      const host = await storage.getHost(member.hostId);
+      if (host) scope.hostIds.push(host.userId);
+    }
+  }
+  return scope;
+}
+
+/**
+ * Reject requests without a logged-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return sendUnauthenticated(res);
+  }
+  next();
+}
+
+/**
+ * Only let users with one of the given roles through
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return sendUnauthenticated(res);
+    }
+    if (!hasRole(req.user, ...roles)) {
+      return sendForbidden(res);
+    }
+    next();
+  };
+}
+
+/**
+ * Only let users through who hold the given permissions on the property:
+ * admins, the property's host and members of the host's team whose role grants them.
+ * The property is loaded once and left on res.locals.property for the handler.
+ *
+ * @param required The permissions, or a function picking them from the request
+ * @param resolvePropertyId Where to find the property ID (defaults to req.params.id)
+ */
+export function requirePropertyPermission(
+  required: PropertyPermission | ((req: Request) => PropertyPermission[]),
+  resolvePropertyId: PropertyIdResolver = (req) => parseInt(req.params.id)
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return sendUnauthenticated(res);
+    }
+
+    try {
+      const propertyId = await resolvePropertyId(req);
+      if (propertyId === undefined || isNaN(propertyId)) {
+        return res.status(404).json({ message: 'Not found' });
+      }
+
+      const property = await storage.getProperty(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: 'Property not found' });
+      }
+      const permissions = typeof required === 'function' ? required(req) : [required];
+      if (!(await hasPropertyPermission(req.user, property, ...permissions))) {
+        return sendForbidden(res);
+      }
+
+      res.locals.property = property;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
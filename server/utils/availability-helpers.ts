@@ -0,0 +1,168 @@
+// availability-helpers.ts - Night/date arithmetic and overlap checks for property availability
+// All dates are YYYY-MM-DD strings; ranges are [start, end) so a check-out day is free for the next check-in.
+
+import type { AvailabilityBlock, Booking, BookingStatus, PricingRule, Property } from '@shared/schema';
+import { getMinStayForArrival } from './pricing-rules';
+
+/**
+ * Booking statuses that occupy the property's nights.
+ * Inquiries and cancelled bookings leave the calendar open.
+ */
+export const HOLDING_BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'checked_in', 'completed'];
+
+/**
+ * Thrown by storage when a reservation would overlap booked or blocked nights
+ */
+export class AvailabilityConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvailabilityConflictError';
+  }
+}
+
+export function isHoldingStatus(status: BookingStatus | null | undefined): boolean {
+  return !!status && HOLDING_BOOKING_STATUSES.includes(status);
+}
+
+/**
+ * Check whether two [start, end) date ranges share at least one night
+ */
+export function rangesOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date (UTC, so DST never shifts the result)
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().substring(0, 10);
+}
+
+/**
+ * Number of nights between check-in and check-out
+ */
+export function countNights(checkIn: string, checkOut: string): number {
+  const ms = Date.parse(`${checkOut}T00:00:00Z`) - Date.parse(`${checkIn}T00:00:00Z`);
+  return Math.round(ms / 86_400_000);
+}
+
+/**
+ * List every night in a [start, end) range
+ */
+export function eachNight(start: string, end: string): string[] {
+  const nights: string[] = [];
+  for (let night = start; night < end; night = addDays(night, 1)) {
+    nights.push(night);
+  }
+  return nights;
+}
+
+// Longest stay that can be quoted or booked, and longest availability range served
+export const MAX_STAY_NIGHTS = 366;
+
+/**
+ * Validate a stay against the property's minimum and maximum stay, and MAX_STAY_NIGHTS.
+ * A pricing rule covering the check-in night can replace the minimum stay.
+ *
+ * @returns An error message, or null when the stay length is allowed
+ */
+export function validateStayLength(
+  property: Pick<Property, 'minStay' | 'maxStay'>,
+  checkIn: string,
+  checkOut: string,
+  rules: PricingRule[] = []
+): string | null {
+  const nights = countNights(checkIn, checkOut);
+  const minStay = getMinStayForArrival(property.minStay, rules, checkIn);
+
+  if (nights < 1) {
+    return 'Check-out must be after check-in';
+  }
+  if (minStay && nights < minStay) {
+    return `Minimum stay is ${minStay} nights`;
+  }
+  if (property.maxStay && nights > property.maxStay) {
+    return `Maximum stay is ${property.maxStay} nights`;
+  }
+  if (nights > MAX_STAY_NIGHTS) {
+    return `Maximum stay is ${MAX_STAY_NIGHTS} nights`;
+  }
+  return null;
+}
+
+/**
+ * Find the first booking or block that overlaps the requested stay
+ *
+ * @returns A human readable description of the conflict, or null if the nights are free
+ */
+export function findAvailabilityConflict(
+  checkIn: string,
+  checkOut: string,
+  bookings: Booking[],
+  blocks: AvailabilityBlock[],
+  excludeBookingId?: number
+): string | null {
+  const booking = bookings.find(b =>
+    b.id !== excludeBookingId &&
+    isHoldingStatus(b.status) &&
+    rangesOverlap(checkIn, checkOut, b.checkIn, b.checkOut)
+  );
+  if (booking) {
+    return `Dates overlap booking ${booking.id} (${booking.checkIn} to ${booking.checkOut})`;
+  }
+
+  const block = blocks.find(b => rangesOverlap(checkIn, checkOut, b.startDate, b.endDate));
+  if (block) {
+    return `Dates overlap blocked period ${block.startDate} to ${block.endDate}`;
+  }
+
+  return null;
+}
+
+/**
+ * Collect the unavailable nights within [from, to)
+ */
+export function getUnavailableDates(
+  from: string,
+  to: string,
+  bookings: Booking[],
+  blocks: AvailabilityBlock[]
+): string[] {
+  const unavailable = new Set<string>();
+  const ranges = [
+    ...bookings.filter(b => isHoldingStatus(b.status)).map(b => [b.checkIn, b.checkOut]),
+    ...blocks.map(b => [b.startDate, b.endDate]),
+  ];
+
+  for (const [start, end] of ranges) {
+    const rangeStart = start > from ? start : from;
+    const rangeEnd = end < to ? end : to;
+    eachNight(rangeStart, rangeEnd).forEach(night => unavailable.add(night));
+  }
+
+  return Array.from(unavailable).sort();
+}
+
+/**
+ * Arrival dates within [from, to) whose minimum stay differs from the property's,
+ * because a pricing rule overrides it
+ */
+export function getMinStayByDate(
+  from: string,
+  to: string,
+  propertyMinStay: number | null,
+  rules: PricingRule[]
+): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  if (!rules.some(rule => rule.minStay != null)) return overrides;
+
+  for (const night of eachNight(from, to)) {
+    const minStay = getMinStayForArrival(propertyMinStay, rules, night);
+    if (minStay != null && minStay !== propertyMinStay) {
+      overrides[night] = minStay;
+    }
+  }
+  return overrides;
+}
@@ -0,0 +1,92 @@
+// booking-helpers.ts - Booking status state machine and Hospitable reservation mapping
+
+import type { BookingStatus, InsertBooking } from '@shared/schema';
+
+/**
+ * Allowed status transitions for a booking.
+ * Completed and cancelled bookings are final.
+ */
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  inquiry: ['pending', 'cancelled'],
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['checked_in', 'cancelled'],
+  checked_in: ['completed'],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Get the statuses a booking can move to from its current status
+ */
+export function getAllowedBookingTransitions(from: BookingStatus): BookingStatus[] {
+  return BOOKING_STATUS_TRANSITIONS[from] ?? [];
+}
+
+/**
+ * Check whether a booking may move from one status to another
+ */
+export function canTransitionBooking(from: BookingStatus, to: BookingStatus): boolean {
+  return getAllowedBookingTransitions(from).includes(to);
+}
+
+/**
+ * Map a Hospitable reservation status onto our booking lifecycle
+ *
+ * @param status Reservation status from the Hospitable payload
+ * @returns The matching booking status (defaults to 'pending')
+ */
+export function mapHospitableBookingStatus(status: string | undefined): BookingStatus {
+  switch ((status || '').toLowerCase()) {
+    case 'inquiry':
+    case 'request':
+      return 'inquiry';
+    case 'accepted':
+    case 'confirmed':
+      return 'confirmed';
+    case 'checked_in':
+    case 'checkedin':
+      return 'checked_in';
+    case 'completed':
+    case 'checked_out':
+      return 'completed';
+    case 'cancelled':
+    case 'canceled':
+    case 'declined':
+    case 'denied':
+    case 'expired':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Convert a Hospitable reservation payload into booking fields.
+ * Dates are trimmed to YYYY-MM-DD since Hospitable sends full timestamps.
+ *
+ * @param data Reservation data from the webhook payload
+ * @param propertyId Our internal property ID the reservation belongs to
+ */
+export function mapHospitableBookingToBooking(data: any, propertyId: number): InsertBooking {
+  const guest = data.guest || {};
+  const guestName = [guest.first_name, guest.last_name].filter(Boolean).join(' ')
+    || guest.name
+    || data.guest_name
+    || 'Hospitable Guest';
+
+  return {
+    propertyId,
+    guestName,
+    guestEmail: guest.email || data.guest_email || null,
+    guestPhone: guest.phone || data.guest_phone || null,
+    guests: Number(data.guests?.total ?? data.guest_count ?? data.guests) || 1,
+    checkIn: String(data.check_in || data.arrival_date).substring(0, 10),
+    checkOut: String(data.check_out || data.departure_date).substring(0, 10),
+    totalPrice: data.financials?.total?.amount ?? data.total_price ?? null,
+    currency: data.financials?.currency || data.currency || 'USD',
+    status: mapHospitableBookingStatus(data.status),
+    source: 'hospitable',
+    externalId: String(data.id),
+    notes: data.notes || null,
+  };
+}
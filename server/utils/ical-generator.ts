@@ -0,0 +1,111 @@
+// ical-generator.ts - Builds RFC 5545 availability feeds from local bookings and blocks
+
+import type { AvailabilityBlock, Booking, Property } from '@shared/schema';
+import { isHoldingStatus } from './availability-helpers';
+
+const UID_DOMAIN = 'staydirectly.com';
+
+/**
+ * Escape TEXT values (backslash, semicolon, comma and newlines)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets, continuing with a leading space
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date | null | undefined): string {
+  return (date ?? new Date(0)).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function buildEvent(uid: string, start: string, end: string, summary: string, stamp: Date | null | undefined): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatTimestamp(stamp)}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Generate the availability feed for a property.
+ * Only nights we own are exported: bookings that hold the calendar and manual blocks.
+ * Blocks imported from other calendars are left out so channels don't echo each other's events.
+ * UIDs are derived from record IDs so subscribers see updates rather than duplicates.
+ * Guest details are never included.
+ */
+export function generatePropertyICalendar(
+  property: Pick<Property, 'id' | 'name' | 'title'>,
+  bookings: Booking[],
+  blocks: AvailabilityBlock[]
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//StayDirectly//Availability ${property.id}//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(property.title || property.name)}`,
+  ];
+
+  for (const booking of bookings) {
+    if (!isHoldingStatus(booking.status)) continue;
+    lines.push(...buildEvent(
+      `booking-${booking.id}@${UID_DOMAIN}`,
+      booking.checkIn,
+      booking.checkOut,
+      'Reserved',
+      booking.updatedAt ?? booking.createdAt
+    ));
+  }
+
+  for (const block of blocks) {
+    if (block.source === 'ical') continue;
+    lines.push(...buildEvent(
+      `block-${block.id}@${UID_DOMAIN}`,
+      block.startDate,
+      block.endDate,
+      'Not available',
+      block.createdAt
+    ));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
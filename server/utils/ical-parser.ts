@@ -0,0 +1,140 @@
+// ical-parser.ts - Minimal RFC 5545 parser for availability feeds
+// Only the pieces needed to turn VEVENTs into blocked date ranges are supported.
+
+import { addDays } from './availability-helpers';
+
+export interface ICalEvent {
+  uid: string;
+  start: string; // YYYY-MM-DD, first blocked night
+  end: string; // YYYY-MM-DD, exclusive
+  summary?: string;
+  status?: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Unfold continuation lines (lines starting with a space or tab belong to the previous line)
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+function parseContentLine(line: string): ContentLine {
+  const colon = line.indexOf(':');
+  const head = colon === -1 ? line : line.substring(0, colon);
+  const value = colon === -1 ? '' : line.substring(colon + 1);
+  const [name, ...paramParts] = head.split(';');
+
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, paramValue = ''] = part.split('=');
+    params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Convert a DATE or DATE-TIME value to YYYY-MM-DD.
+ * Availability feeds block whole nights, so the time part is dropped.
+ */
+function toIsoDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Days in an ISO 8601 duration such as P3D or P1W (partial days round up to a night)
+ */
+function durationToDays(duration: string): number {
+  const match = duration.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 1;
+  const [, weeks, days, hours, minutes, seconds] = match.map(n => parseInt(n || '0'));
+  const hasTime = hours + minutes + seconds > 0;
+  return weeks * 7 + days + (hasTime ? 1 : 0);
+}
+
+/**
+ * Parse an iCalendar document into events with whole-night date ranges.
+ * Cancelled events and events without a UID or start date are skipped.
+ *
+ * @param text The raw .ics feed
+ * @returns Events in feed order
+ */
+export function parseICalendar(text: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  let current: Record<string, ContentLine> | null = null;
+  let depth = 0; // Nested components (e.g. VALARM) inside a VEVENT
+
+  for (const line of unfoldLines(text)) {
+    const contentLine = parseContentLine(line);
+
+    if (contentLine.name === 'BEGIN') {
+      if (contentLine.value.toUpperCase() === 'VEVENT' && !current) {
+        current = {};
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (contentLine.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && contentLine.value.toUpperCase() === 'VEVENT') {
+        const event = toEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0 && !current[contentLine.name]) {
+      current[contentLine.name] = contentLine;
+    }
+  }
+
+  return events;
+}
+
+function toEvent(props: Record<string, ContentLine>): ICalEvent | null {
+  const uid = props.UID?.value.trim();
+  const start = props.DTSTART ? toIsoDate(props.DTSTART.value) : null;
+  const status = props.STATUS?.value.toUpperCase();
+
+  if (!uid || !start || status === 'CANCELLED') {
+    return null;
+  }
+
+  let end = props.DTEND ? toIsoDate(props.DTEND.value) : null;
+  if (!end && props.DURATION) {
+    end = addDays(start, durationToDays(props.DURATION.value));
+  }
+  // A missing or zero-length end still blocks the start night
+  if (!end || end <= start) {
+    end = addDays(start, 1);
+  }
+
+  return {
+    uid,
+    start,
+    end,
+    summary: props.SUMMARY ? unescapeText(props.SUMMARY.value) : undefined,
+    status,
+  };
+}
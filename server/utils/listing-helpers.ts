@@ -0,0 +1,205 @@
+// listing-helpers.ts - Mapping Hospitable listings onto our properties
+
+import type { Host, InsertProperty, Property } from '@shared/schema';
+import { importableFields, type ImportableField, type ImportFieldChange } from '@shared/import-preview';
+import countries from 'i18n-iso-countries';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import fs from 'node:fs/promises';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const enLocalePath = path.join(__dirname, '../../node_modules/i18n-iso-countries/langs/en.json');
+const enLocale = JSON.parse(await fs.readFile(enLocalePath, 'utf-8'));
+
+countries.registerLocale(enLocale);
+
+export interface ListingMappingOptions {
+  customerId: string; // Hospitable customer the listing belongs to
+  hostId: number; // Our user who hosts the property
+  host?: Pick<Host, 'displayName' | 'avatarUrl'>; // Their host profile, which names the host over the listing
+  existingProperty?: Property; // The property being refreshed, if already imported
+}
+
+/**
+ * Property fields derived from each Hospitable listing field.
+ * Used to apply only what changed when a property.updated webhook lists its changes.
+ */
+const LISTING_FIELD_MAP: Record<string, (keyof InsertProperty)[]> = {
+  public_name: ['name', 'title'],
+  private_name: ['name', 'title'],
+  description: ['description'],
+  base_price: ['price'],
+  picture: ['imageUrl'],
+  photos: ['imageUrl', 'additionalImages'],
+  address: ['city', 'state', 'zipCode', 'country', 'location', 'latitude', 'longitude'],
+  bedrooms: ['bedrooms', 'capacity'],
+  bathrooms: ['bathrooms', 'capacity'],
+  beds: ['capacity'],
+  max_guests: ['maxGuests', 'capacity'],
+  capacity: ['capacity'],
+  property_type: ['type'],
+  amenities: ['amenities', 'featuredAmenities'],
+  featured_amenities: ['featuredAmenities'],
+  host_name: ['hostName'],
+};
+
+// Hospitable image URLs sometimes carry an extra "/im" path segment that breaks them
+export function cleanImageUrl(url: string): string {
+  return url.replace(/\/im(?=\/)/g, '');
+}
+
+function getCountryName(code: string | undefined): string {
+  if (!code) return 'Unknown';
+  const name = countries.getName(code.toUpperCase(), 'en', { select: 'official' });
+  return name || code; // fallback to code if name is undefined
+}
+
+/**
+ * Get the listing object out of a Hospitable property payload.
+ * Webhooks may nest the listing details under `listing`; the listings API returns them flat.
+ */
+export function getListingFromPayload(data: any): any {
+  return data?.listing ? { ...data, ...data.listing, id: data.id } : data;
+}
+
+/**
+ * Convert a Hospitable listing into property fields.
+ * Refreshing an already imported property keeps its stored additional images.
+ *
+ * @param listing Listing from the Hospitable API or a property webhook
+ * @param options Customer, host (with their profile, if any) and the existing property, if any
+ */
+export function mapHospitableListingToProperty(listing: any, options: ListingMappingOptions): InsertProperty {
+  const { customerId, hostId, host, existingProperty } = options;
+  const listingId = String(listing.id);
+
+  return {
+    name: listing.private_name || listing.public_name || 'Unnamed Property',
+    title: listing.public_name || listing.private_name || 'Unnamed Property',
+    description: listing.description || 'Beautiful property',
+    price: Number(listing.base_price) || 99,
+    imageUrl: cleanImageUrl(listing.picture || listing.photos?.[0]?.url || ''),
+    additionalImages: existingProperty?.additionalImages?.length
+      ? existingProperty.additionalImages.map(cleanImageUrl)
+      : listing.photos?.slice(1).map((photo: any) => cleanImageUrl(photo.url)) || [],
+
+    city: listing.address?.city || 'Unknown',
+    state: listing.address?.state || '',
+    zipCode: listing.address?.zipcode || '',
+    country: getCountryName(listing.address?.country_code),
+    location: `${listing.address?.city || ''}, ${listing.address?.state || ''}, ${listing.address?.country_code || ''}`
+      .replace(/, ,/g, ',')
+      .replace(/^, /, '')
+      .replace(/, $/, ''),
+
+    latitude: listing.address?.latitude ? Number(listing.address.latitude) : null,
+    longitude: listing.address?.longitude ? Number(listing.address.longitude) : null,
+    bedrooms: listing.bedrooms ? Number(listing.bedrooms) : 1,
+    bathrooms: listing.bathrooms ? Number(listing.bathrooms) : 1,
+    maxGuests: listing.max_guests ? Number(listing.max_guests) : 2,
+    type: listing.property_type || 'Apartment',
+
+    // Store the detailed capacity object from the Hospitable API
+    capacity: listing.capacity ? {
+      max: listing.capacity.max ? Number(listing.capacity.max) : (listing.max_guests ? Number(listing.max_guests) : 2),
+      beds: listing.capacity.beds ? Number(listing.capacity.beds) : (listing.beds ? Number(listing.beds) : 1),
+      bedrooms: listing.capacity.bedrooms ? Number(listing.capacity.bedrooms) : (listing.bedrooms ? Number(listing.bedrooms) : 1),
+      bathrooms: listing.capacity.bathrooms ? Number(listing.capacity.bathrooms) : (listing.bathrooms ? Number(listing.bathrooms) : 1)
+    } : null,
+
+    // Store amenities
+    amenities: listing.amenities || [],
+    featuredAmenities: listing.featured_amenities || listing.amenities?.slice(0, 6) || [],
+
+    // External API identifiers
+    externalId: listingId,
+    externalSource: 'hospitable',
+    platformId: `${customerId}:${listingId}`,
+
+    // SEO fields
+    slug: `${listingId}-${(listing.public_name || listing.private_name || 'property').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+
+    // Required fields for DB
+    hostId,
+    hostName: host?.displayName || listing.host_name || existingProperty?.hostName || 'StayDirectly Host',
+    hostImage: host?.avatarUrl ?? existingProperty?.hostImage ?? null,
+  };
+}
+
+/**
+ * Narrow mapped property fields down to those affected by the changed listing fields.
+ * Unknown listing fields are ignored, so an empty result means nothing we store changed.
+ *
+ * @param propertyData Output of mapHospitableListingToProperty
+ * @param changedFields Names of the listing fields that changed (keys of `data.changes`)
+ */
+export function pickChangedPropertyFields(
+  propertyData: InsertProperty,
+  changedFields: string[]
+): Partial<InsertProperty> {
+  const changes: Partial<InsertProperty> = {};
+
+  for (const field of changedFields) {
+    for (const propertyField of LISTING_FIELD_MAP[field] ?? []) {
+      (changes as Record<string, unknown>)[propertyField] = propertyData[propertyField];
+    }
+  }
+
+  return changes;
+}
+
+// Stored and mapped values compare equal when only null vs undefined differs
+function isSameValue(current: unknown, incoming: unknown): boolean {
+  return JSON.stringify(current ?? null) === JSON.stringify(incoming ?? null);
+}
+
+/**
+ * Drop the fields an editor locked on the property from synced changes
+ *
+ * @param property The stored property; nothing is dropped for new listings
+ * @param changes Fields a sync (import, webhook or image refresh) is about to write
+ */
+export function omitLockedFields<T extends Record<string, any>>(
+  property: Pick<Property, 'lockedFields'> | undefined,
+  changes: T
+): Partial<T> {
+  const lockedFields: string[] = property?.lockedFields ?? [];
+  if (lockedFields.length === 0) return changes;
+
+  return Object.fromEntries(
+    Object.entries(changes).filter(([field]) => !lockedFields.includes(field))
+  ) as Partial<T>;
+}
+
+/**
+ * Importable fields whose mapped value differs from what the property stores.
+ * Locked fields are left out since an import never writes them.
+ *
+ * @param propertyData Output of mapHospitableListingToProperty
+ * @param property The stored property
+ */
+export function diffImportableFields(propertyData: InsertProperty, property: Property): ImportFieldChange[] {
+  const lockedFields: string[] = property.lockedFields ?? [];
+  return importableFields
+    .filter(field => !lockedFields.includes(field))
+    .filter(field => !isSameValue(property[field], propertyData[field]))
+    .map(field => ({ field, current: property[field], incoming: propertyData[field] }));
+}
+
+/**
+ * Narrow mapped property fields down to the importable fields that were picked
+ */
+export function pickImportableFields(
+  propertyData: InsertProperty,
+  fields: ImportableField[]
+): Partial<InsertProperty> {
+  const picked: Partial<InsertProperty> = {};
+
+  for (const field of fields) {
+    (picked as Record<string, unknown>)[field] = propertyData[field];
+  }
+
+  return picked;
+}
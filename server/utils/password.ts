@@ -0,0 +1,29 @@
+// password.ts - Password hashing with scrypt (stored as "<hash>.<salt>", both hex)
+
+import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password with a random salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString('hex')}.${salt}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashHex, salt] = stored.split('.');
+  if (!hashHex || !salt) return false;
+
+  const storedHash = Buffer.from(hashHex, 'hex');
+  const suppliedHash = await scryptAsync(password, salt, storedHash.length || KEY_LENGTH);
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
@@ -0,0 +1,58 @@
+// pricing-rules.ts - Matching seasonal/date-specific pricing rules to nights
+
+import type { PricingRule } from '@shared/schema';
+
+/**
+ * Check whether a rule covers a night (YYYY-MM-DD).
+ * Rule dates are inclusive; missing dates or days of week mean "no restriction".
+ */
+export function ruleAppliesOn(rule: PricingRule, date: string): boolean {
+  if (rule.isActive === false) return false;
+  if (rule.startDate && date < rule.startDate) return false;
+  if (rule.endDate && date > rule.endDate) return false;
+
+  if (rule.daysOfWeek && rule.daysOfWeek.length > 0) {
+    const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (!rule.daysOfWeek.includes(dayOfWeek)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Order rules so the winning rule comes first: highest priority, then the most recently created
+ */
+export function sortRulesByPriority(rules: PricingRule[]): PricingRule[] {
+  return [...rules].sort((a, b) => (b.priority - a.priority) || (b.id - a.id));
+}
+
+/**
+ * Find the highest-priority rule that covers a night and sets the given field
+ *
+ * @param rules Rules for the property, in any order
+ * @param date The night to look up
+ * @param field Only rules that set this field are considered
+ */
+export function findApplicableRule(
+  rules: PricingRule[],
+  date: string,
+  field: 'price' | 'minStay'
+): PricingRule | undefined {
+  return sortRulesByPriority(rules).find(rule => {
+    const setsField = field === 'price'
+      ? rule.nightlyPrice != null || rule.adjustmentPercent != null
+      : rule.minStay != null;
+    return setsField && ruleAppliesOn(rule, date);
+  });
+}
+
+/**
+ * Minimum stay for an arrival on the given date: a matching rule replaces the property's minimum
+ */
+export function getMinStayForArrival(
+  propertyMinStay: number | null,
+  rules: PricingRule[],
+  checkIn: string
+): number | null {
+  return findApplicableRule(rules, checkIn, 'minStay')?.minStay ?? propertyMinStay;
+}
@@ -0,0 +1,51 @@
+// property-helpers.ts - Which property fields hosts may change and which are left to admins
+
+// Property fields holding the booking and review widget embeds (and their legacy aliases)
+export const EMBED_FIELDS = ['bookingWidgetUrl', 'reviewWidgetCode', 'bookingWidgetHtml', 'reviewsWidgetHtml'];
+
+// Property columns hosts and team members may change. The host, ratings, moderation flags,
+// platform IDs and sync bookkeeping are left to admins and the importers.
+export const HOST_EDITABLE_PROPERTY_FIELDS = [
+  'name', 'title', 'description', 'location', 'city', 'state', 'zipCode', 'country', 'neighborhood',
+  'latitude', 'longitude',
+  'price', 'weekendPrice', 'weeklyPrice', 'monthlyPrice', 'cleaningFee', 'serviceFee', 'taxRate', 'minStay', 'maxStay',
+  'type', 'propertySize', 'yearBuilt', 'bedrooms', 'bathrooms', 'maxGuests',
+  'amenities', 'featuredAmenities', 'capacity', 'bedroomDetails',
+  'imageUrl', 'additionalImages', 'videoUrl', 'virtualTourUrl',
+  'bookingWidgetUrl', 'reviewWidgetCode', 'calendarSyncUrl',
+  'slug', 'metaTitle', 'metaDescription', 'canonicalUrl', 'keywords', 'lockedFields',
+  'status',
+];
+
+/**
+ * Fields of a property body that only admins may set
+ *
+ * @param allowed Extra fields the caller lets hosts set
+ */
+export function getAdminOnlyPropertyFields(propertyData: object, allowed: string[] = []): string[] {
+  return Object.keys(propertyData).filter(field =>
+    !HOST_EDITABLE_PROPERTY_FIELDS.includes(field) && !EMBED_FIELDS.includes(field) && !allowed.includes(field)
+  );
+}
+
+/**
+ * The part of a property update hosts may apply, without the admin-only fields
+ */
+export function omitAdminOnlyPropertyFields<T extends object>(propertyData: T): Partial<T> {
+  const adminOnlyFields = new Set(getAdminOnlyPropertyFields(propertyData));
+  return Object.fromEntries(
+    Object.entries(propertyData).filter(([field]) => !adminOnlyFields.has(field))
+  ) as Partial<T>;
+}
+
+/**
+ * Whether setting a status moves a property into or out of 'disconnected'.
+ * Disconnected is set and cleared by the Hospitable connection, so only admins may do it by hand.
+ *
+ * @param currentStatus The property's status now
+ * @param nextStatus The status being set, undefined when the update leaves it alone
+ */
+export function isDisconnectedStatusChange(currentStatus: string | null, nextStatus: string | null | undefined): boolean {
+  if (nextStatus === undefined || nextStatus === currentStatus) return false;
+  return nextStatus === 'disconnected' || currentStatus === 'disconnected';
+}
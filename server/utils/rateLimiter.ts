@@ -3,13 +3,6 @@
 import rateLimit, { Options as RateLimitOptions } from 'express-rate-limit';
 import { Request } from 'express';
 
-// Extend Express Request type to include 'user' property
-declare module 'express-serve-static-core' {
-  interface Request {
-    user?: { id?: string };
-  }
-}
-
 /**
  * Generic IP-based rate limiter
  * - Applies to general public routes
@@ -41,8 +34,8 @@ export const userRateLimiter = rateLimit({
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 50,
   keyGenerator: (req: Request): string => {
-    // Use user ID or token if available, fallback to IP
-    return req.user?.id || req.headers['x-api-key']?.toString() || req.ip || 'unknown';
+    // Use the logged-in user's ID or token if available, fallback to IP
+    return req.user?.id?.toString() || req.headers['x-api-key']?.toString() || req.ip || 'unknown';
   },
   handler: (req, res) => {
     res.status(429).json({ error: 'Too many requests for this user/token.' });
@@ -0,0 +1,51 @@
+// revision-helpers.ts - Field diffs recorded in property_revisions and rolling them back
+
+import { getTableColumns } from 'drizzle-orm';
+import {
+  properties,
+  type InsertProperty,
+  type Property,
+  type PropertyFieldChange,
+  type PropertyRevision,
+} from '@shared/schema';
+
+// Bookkeeping columns that change on every sync; a change to only these is not worth a revision
+const UNTRACKED_FIELDS = new Set<string>(['id', 'createdAt', 'updatedAt', 'lastSyncedAt', 'imagesStoredAt']);
+
+// Timestamp columns, stored as ISO strings in the revision JSON
+const DATE_FIELDS = new Set<string>(
+  Object.entries(getTableColumns(properties))
+    .filter(([, column]) => column.dataType === 'date')
+    .map(([field]) => field)
+);
+
+/**
+ * Fields that differ between two versions of a property, with their old and new values
+ *
+ * @param before The property as stored before the update
+ * @param after The property as stored after it
+ */
+export function getPropertyChanges(before: Property, after: Property): Record<string, PropertyFieldChange> {
+  const changes: Record<string, PropertyFieldChange> = {};
+
+  for (const field of Object.keys(after) as (keyof Property)[]) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    if (JSON.stringify(before[field] ?? null) === JSON.stringify(after[field] ?? null)) continue;
+    changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+  }
+
+  return changes;
+}
+
+/**
+ * The update that puts every field a revision changed back to its previous value
+ */
+export function getRevertUpdate(revision: PropertyRevision): Partial<InsertProperty> {
+  const update: Record<string, unknown> = {};
+
+  for (const [field, { from }] of Object.entries(revision.changes)) {
+    update[field] = DATE_FIELDS.has(field) && typeof from === 'string' ? new Date(from) : from;
+  }
+
+  return update as Partial<InsertProperty>;
+}
@@ -0,0 +1,69 @@
+// token-encryption.ts - AES-256-GCM encryption for secrets stored in the database
+// Stored as "v1:<iv>:<auth tag>:<ciphertext>", each part base64.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const FORMAT_VERSION = 'v1';
+
+let cachedKey: Buffer | null = null;
+
+/**
+ * Load the 32-byte key from TOKEN_ENCRYPTION_KEY (hex or base64).
+ * Required in production; development falls back to a fixed key.
+ */
+function getEncryptionKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const configuredKey = process.env.TOKEN_ENCRYPTION_KEY;
+  if (configuredKey) {
+    const key = /^[0-9a-f]{64}$/i.test(configuredKey)
+      ? Buffer.from(configuredKey, 'hex')
+      : Buffer.from(configuredKey, 'base64');
+    if (key.length !== 32) {
+      throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes, as 64 hex characters or base64');
+    }
+    cachedKey = key;
+    return key;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be set in production');
+  }
+  console.warn('TOKEN_ENCRYPTION_KEY is not set - using an insecure development key');
+  cachedKey = createHash('sha256').update('staydirectly-dev-token-key').digest();
+  return cachedKey;
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, iv, authTag, ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join(':');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret.
+ * Throws if the value was tampered with or encrypted under another key.
+ */
+export function decryptSecret(stored: string): string {
+  const [version, iv, authTag, ciphertext] = stored.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
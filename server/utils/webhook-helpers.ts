@@ -2,6 +2,17 @@
 // Based on Hospitable webhook documentation: https://developer.hospitable.com/docs/connect-api-docs/tplzdxad3aa2w-payload-fields
 
 import crypto from 'crypto';
+import { storage } from '../storage-factory';
+import { mapHospitableBookingToBooking } from './booking-helpers';
+import { findAvailabilityConflict, isHoldingStatus } from './availability-helpers';
+import {
+  getListingFromPayload,
+  mapHospitableListingToProperty,
+  omitLockedFields,
+  pickChangedPropertyFields,
+} from './listing-helpers';
+import { disconnectHospitableCustomer, reconnectHospitableCustomer } from '../hospitable-connections';
+import { resolveCustomerHost } from '../hosts';
 
 /**
  * Verify the signature of a webhook request
@@ -46,154 +57,258 @@ export function verifyWebhookSignature(
 }
 
 /**
- * Process a webhook event based on type
+ * Identify a webhook delivery so redeliveries can be recognized.
+ * Uses the ID Hospitable puts on the payload, falling back to a hash of the body.
+ * 
+ * @param payload The parsed webhook payload
+ * @param rawBody The raw request body, when available
+ */
+export function getWebhookEventId(payload: any, rawBody?: Buffer | string): string {
+  if (payload?.id !== undefined && payload?.id !== null && payload.id !== '') {
+    return String(payload.id);
+  }
+  
+  const body = rawBody ?? JSON.stringify(payload);
+  return `sha256:${crypto.createHash('sha256').update(body).digest('hex')}`;
+}
+
+/**
+ * Process a webhook event based on type.
+ * Errors are thrown to the caller so the stored event can be marked failed and retried.
  * 
  * @param event The event type from the webhook payload
  * @param data The data from the webhook payload
  */
-export function processWebhookEvent(event: string, data: any): void {
+export async function processWebhookEvent(event: string, data: any): Promise<void> {
   // Log event with timestamp
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] Processing webhook event: ${event}`);
   
-  try {
-    switch (event) {
-      // Property events
-      case 'property.created':
-        handlePropertyCreated(data);
-        break;
-      case 'property.updated':
-        handlePropertyUpdated(data);
-        break;
-      case 'property.deleted':
-        handlePropertyDeleted(data);
-        break;
-      
-      // Booking events
-      case 'booking.created':
-        handleBookingCreated(data);
-        break;
-      case 'booking.updated':
-        handleBookingUpdated(data);
-        break;
-      case 'booking.deleted':
-        handleBookingDeleted(data);
-        break;
-      
-      // Customer events
-      case 'customer.connected':
-        handleCustomerConnected(data);
-        break;
-      case 'customer.disconnected':
-        handleCustomerDisconnected(data);
-        break;
-      
-      // Auth events
-      case 'auth.revoked':
-        handleAuthRevoked(data);
-        break;
-      
-      // Default handler for unrecognized events
-      default:
-        console.log(`[${timestamp}] Unhandled webhook event type: ${event}`);
-        console.log('Event data:', JSON.stringify(data).substring(0, 500) + '...');
-    }
-  } catch (error) {
-    console.error(`Error processing webhook event ${event}:`, error);
+  switch (event) {
+    // Property events
+    case 'property.created':
+      await handlePropertyCreated(data);
+      break;
+    case 'property.updated':
+      await handlePropertyUpdated(data);
+      break;
+    case 'property.deleted':
+      await handlePropertyDeleted(data);
+      break;
+    
+    // Booking events
+    case 'booking.created':
+      await handleBookingCreated(data);
+      break;
+    case 'booking.updated':
+      await handleBookingUpdated(data);
+      break;
+    case 'booking.deleted':
+      await handleBookingDeleted(data);
+      break;
+    
+    // Customer events
+    case 'customer.connected':
+      await handleCustomerConnected(data);
+      break;
+    case 'customer.disconnected':
+      await handleCustomerDisconnected(data);
+      break;
+    
+    // Auth events
+    case 'auth.revoked':
+      await handleAuthRevoked(data);
+      break;
+    
+    // Default handler for unrecognized events
+    default:
+      console.log(`[${timestamp}] Unhandled webhook event type: ${event}`);
+      console.log('Event data:', JSON.stringify(data).substring(0, 500) + '...');
   }
 }
 
 // Property event handlers
-function handlePropertyCreated(data: any): void {
-  // According to Hospitable's webhook documentation, property data comes in a specific format
-  console.log(`Property ${data.id} created. Name: ${data.listing?.public_name || data.name || 'Unknown'}`);
-  
-  // Log property details based on Hospitable API structure
-  if (data.listing) {
-    console.log(`Property details:
-      Public name: ${data.listing.public_name || 'N/A'}
-      Private name: ${data.listing.private_name || 'N/A'}
-      Platform ID: ${data.platform_id || 'N/A'}
-      Capacity: ${data.listing.capacity ? JSON.stringify(data.listing.capacity) : 'N/A'}
-      Status: ${data.listing.status || 'N/A'}
-    `);
-  }
+async function handlePropertyCreated(data: any): Promise<void> {
+  console.log(`Property ${data.id} created. Name: ${data.listing?.public_name || data.public_name || data.name || 'Unknown'}`);
   
-  // TODO: Add sync to database logic here
-  // Example: syncPropertyToDatabase(data);
+  await upsertHospitableProperty(data);
 }
 
-function handlePropertyUpdated(data: any): void {
-  // According to Hospitable's webhook documentation, property data comes in a specific format
-  console.log(`Property ${data.id} updated. Name: ${data.listing?.public_name || data.name || 'Unknown'}`);
+async function handlePropertyUpdated(data: any): Promise<void> {
+  console.log(`Property ${data.id} updated. Name: ${data.listing?.public_name || data.public_name || data.name || 'Unknown'}`);
   
-  // Log changes
-  if (data.changes && Object.keys(data.changes).length > 0) {
-    console.log('Changed fields:', Object.keys(data.changes).join(', '));
+  const changedFields = data.changes ? Object.keys(data.changes) : [];
+  if (changedFields.length > 0) {
+    console.log('Changed fields:', changedFields.join(', '));
   }
   
-  // TODO: Update property in database
-  // Example: updatePropertyInDatabase(data);
-  
-  // TODO: Clear any cached data for this property
-  // Example: clearPropertyCache(data.id);
+  await upsertHospitableProperty(data, changedFields);
 }
 
-function handlePropertyDeleted(data: any): void {
+async function handlePropertyDeleted(data: any): Promise<void> {
   console.log(`Property ${data.id} deleted.`);
   
-  // TODO: Mark property as inactive in database or remove it
-  // Example: markPropertyAsInactive(data.id);
+  // Keep the record (bookings and reviews point at it), just take it off the site
+  const property = await storage.getPropertyByExternalId(String(data.id));
+  if (!property) {
+    console.log(`Property ${data.id} not imported, nothing to deactivate`);
+    return;
+  }
+  
+  if (property.isActive !== false || property.status !== 'inactive') {
+    await storage.updateProperty(
+      property.id,
+      { isActive: false, status: 'inactive', lastSyncedAt: new Date() },
+      { source: 'webhook' }
+    );
+    console.log(`Deactivated local property ${property.id} for Hospitable property ${data.id}`);
+  }
+}
+
+/**
+ * Create or update a local property from a Hospitable property payload.
+ * Known properties only get the fields behind `changedFields` (all synced fields when
+ * none are listed); their host, slug and publishing state stay as they are.
+ * New listings are attached to the customer's host (see resolveCustomerHost) and wait
+ * unpublished until that host publishes them.
+ *
+ * @returns What happened to the listing
+ */
+export async function upsertHospitableProperty(
+  data: any,
+  changedFields: string[] = []
+): Promise<'created' | 'updated' | 'skipped'> {
+  const listing = getListingFromPayload(data);
+  const existingProperty = await storage.getPropertyByExternalId(String(listing.id));
+  
+  if (existingProperty) {
+    const customerId = existingProperty.platformId?.split(/[:/]/)[0] || String(data.customer_id ?? '');
+    const propertyData = mapHospitableListingToProperty(listing, {
+      customerId,
+      hostId: existingProperty.hostId,
+      host: await storage.getHostByUserId(existingProperty.hostId),
+      existingProperty,
+    });
+    const { slug: _slug, hostId: _hostId, platformId: _platformId, ...syncedFields } = propertyData;
+    
+    const changes = omitLockedFields(existingProperty, changedFields.length > 0
+      ? pickChangedPropertyFields(propertyData, changedFields)
+      : syncedFields);
+    
+    await storage.updateProperty(existingProperty.id, { ...changes, lastSyncedAt: new Date() }, { source: 'webhook' });
+    console.log(`Updated local property ${existingProperty.id} (${Object.keys(changes).join(', ') || 'no synced fields'})`);
+    return 'updated';
+  }
+  
+  const customerId = data.customer_id ?? data.customer?.id;
+  if (!customerId) {
+    console.log(`Property ${listing.id} has no customer, skipping`);
+    return 'skipped';
+  }
+  
+  const host = await resolveCustomerHost(String(customerId));
+  if (!host) {
+    console.log(`No host known for customer ${customerId} yet, skipping property ${listing.id} until it is imported`);
+    return 'skipped';
+  }
   
-  // TODO: Clear any cached data for this property
-  // Example: clearPropertyCache(data.id);
+  const property = await storage.createProperty({
+    ...mapHospitableListingToProperty(listing, { customerId: String(customerId), hostId: host.userId, host }),
+    isActive: false,
+    status: 'pending',
+    lastSyncedAt: new Date(),
+  });
+  console.log(`Created local property ${property.id} from Hospitable property ${listing.id}`);
+  return 'created';
 }
 
 // Booking event handlers
-function handleBookingCreated(data: any): void {
+async function handleBookingCreated(data: any): Promise<void> {
   console.log(`New booking ${data.id} created for property ${data.property_id || 'Unknown'}`);
   console.log(`Booking details: Check-in: ${data.check_in || 'Unknown'}, Check-out: ${data.check_out || 'Unknown'}`);
   
-  // TODO: Add booking to database
-  // Example: addBookingToDatabase(data);
+  await upsertHospitableBooking(data);
 }
 
-function handleBookingUpdated(data: any): void {
+async function handleBookingUpdated(data: any): Promise<void> {
   console.log(`Booking ${data.id} updated. Status: ${data.status || 'Unknown'}`);
   
-  // TODO: Update booking in database
-  // Example: updateBookingInDatabase(data);
+  await upsertHospitableBooking(data);
 }
 
-function handleBookingDeleted(data: any): void {
+async function handleBookingDeleted(data: any): Promise<void> {
   console.log(`Booking ${data.id} deleted.`);
   
-  // TODO: Remove booking from database or mark as cancelled
-  // Example: markBookingAsCancelled(data.id);
+  // Keep the record for history, just mark it as cancelled
+  const booking = await storage.getBookingByExternalId(String(data.id));
+  if (!booking) {
+    console.log(`Booking ${data.id} not found locally, nothing to cancel`);
+    return;
+  }
+  
+  if (booking.status !== 'cancelled') {
+    await storage.updateBookingStatus(booking.id, 'cancelled');
+  }
+}
+
+/**
+ * Create or update a local booking from a Hospitable reservation payload.
+ * Hospitable is the source of truth for these bookings, so its status is
+ * applied as-is rather than going through the transition checks, and the
+ * booking is stored even when it overlaps nights held here (the overlap is logged).
+ */
+async function upsertHospitableBooking(data: any): Promise<void> {
+  const property = await storage.getPropertyByExternalId(String(data.property_id));
+  if (!property) {
+    console.log(`Property ${data.property_id || 'Unknown'} not imported, skipping booking ${data.id}`);
+    return;
+  }
+  
+  const bookingData = mapHospitableBookingToBooking(data, property.id);
+  const existingBooking = await storage.getBookingByExternalId(bookingData.externalId!);
+  
+  if (isHoldingStatus(bookingData.status)) {
+    const conflict = findAvailabilityConflict(
+      bookingData.checkIn,
+      bookingData.checkOut,
+      await storage.getBookings({ propertyId: property.id, from: bookingData.checkIn, to: bookingData.checkOut }),
+      await storage.getAvailabilityBlocks(property.id, bookingData.checkIn, bookingData.checkOut),
+      existingBooking?.id
+    );
+    if (conflict) {
+      console.warn(`Hospitable booking ${data.id} double-books property ${property.id}: ${conflict}`);
+    }
+  }
+  
+  if (existingBooking) {
+    await storage.updateBooking(existingBooking.id, bookingData, { skipAvailabilityCheck: true });
+    console.log(`Updated local booking ${existingBooking.id} from Hospitable booking ${data.id}`);
+  } else {
+    const booking = await storage.createBooking(bookingData, { skipAvailabilityCheck: true });
+    console.log(`Created local booking ${booking.id} from Hospitable booking ${data.id}`);
+  }
 }
 
 // Customer event handlers
-function handleCustomerConnected(data: any): void {
+async function handleCustomerConnected(data: any): Promise<void> {
   console.log(`Customer ${data.id} connected their account.`);
   
-  // TODO: Update customer status in database
-  // Example: updateCustomerConnectionStatus(data.id, true);
+  await reconnectHospitableCustomer(String(data.id), 'customer.connected');
 }
 
-function handleCustomerDisconnected(data: any): void {
+async function handleCustomerDisconnected(data: any): Promise<void> {
   console.log(`Customer ${data.id} disconnected their account.`);
   
-  // TODO: Update customer status in database
-  // Example: updateCustomerConnectionStatus(data.id, false);
-  
-  // TODO: Mark associated properties as inactive or disconnected
-  // Example: markPropertiesAsDisconnected(data.id);
+  await disconnectHospitableCustomer(String(data.id), 'disconnected', 'customer.disconnected');
 }
 
 // Auth event handlers
-function handleAuthRevoked(data: any): void {
-  console.log(`Authorization revoked for customer ${data.customer_id || 'Unknown'}`);
+async function handleAuthRevoked(data: any): Promise<void> {
+  const customerId = data.customer_id ?? data.customer?.id ?? data.id;
+  console.log(`Authorization revoked for customer ${customerId || 'Unknown'}`);
   
-  // TODO: Update tokens and connection status in database
-  // Example: revokeCustomerTokens(data.customer_id);
-}
\ No newline at end of file
+  if (!customerId) {
+    throw new Error('auth.revoked payload has no customer ID');
+  }
+  await disconnectHospitableCustomer(String(customerId), 'revoked', 'auth.revoked');
+}
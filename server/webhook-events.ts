@@ -0,0 +1,170 @@
+// webhook-events.ts - Stores incoming webhooks and runs them with retries and replay
+
+import type { InsertWebhookEvent, WebhookEvent } from '@shared/schema';
+import { storage } from './storage-factory';
+import { processWebhookEvent } from './utils/webhook-helpers';
+
+/**
+ * Runs the side effects of one stored event.
+ * Swappable so retries and replays can be exercised without touching real data.
+ */
+export type WebhookEventHandler = (event: WebhookEvent) => Promise<void>;
+
+export interface ReceiveWebhookResult {
+  event: WebhookEvent;
+  duplicate: boolean;
+}
+
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// A run that hasn't finished after this long is assumed to have crashed
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_RETRY_INTERVAL_SECONDS = 60;
+
+/**
+ * Default handler: Hospitable payloads carry the event type and a `data` object
+ */
+export const handleHospitableWebhookEvent: WebhookEventHandler = async (event) => {
+  const payload = event.payload as { data?: unknown };
+  await processWebhookEvent(event.eventType, payload?.data);
+};
+
+/**
+ * Delay before the next automatic attempt: 1, 2, 4, 8... minutes, capped at 6 hours
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Store a delivery and process it right away.
+ * A redelivery of an already stored event is acknowledged without running it again.
+ */
+export async function receiveWebhookEvent(
+  delivery: InsertWebhookEvent,
+  handler: WebhookEventHandler = handleHospitableWebhookEvent
+): Promise<ReceiveWebhookResult> {
+  const event = await storage.createWebhookEvent(delivery);
+  if (!event) {
+    const existingEvent = await storage.getWebhookEventByEventId(delivery.source ?? 'hospitable', delivery.eventId);
+    console.log(`Duplicate webhook delivery ${delivery.eventId} (${delivery.eventType}), skipping`);
+    return { event: existingEvent!, duplicate: true };
+  }
+
+  return { event: await runWebhookEvent(event.id, handler), duplicate: false };
+}
+
+/**
+ * Process one stored event and record the outcome.
+ * Failures are scheduled for a retry with exponential backoff; after
+ * MAX_WEBHOOK_ATTEMPTS the event is marked dead and only a replay runs it again.
+ *
+ * @returns The updated event (unchanged if another run is already processing it)
+ */
+export async function runWebhookEvent(
+  id: number,
+  handler: WebhookEventHandler = handleHospitableWebhookEvent
+): Promise<WebhookEvent> {
+  const event = await storage.claimWebhookEvent(id, new Date(Date.now() - PROCESSING_TIMEOUT_MS));
+  if (!event) {
+    const currentEvent = await storage.getWebhookEvent(id);
+    if (!currentEvent) {
+      throw new Error(`Webhook event ${id} not found`);
+    }
+    return currentEvent;
+  }
+
+  try {
+    await handler(event);
+
+    const processedEvent = await storage.updateWebhookEvent(id, {
+      status: 'processed',
+      lastError: null,
+      nextAttemptAt: null,
+      processedAt: new Date(),
+    });
+    return processedEvent!;
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const isDead = event.attempts >= MAX_WEBHOOK_ATTEMPTS;
+    console.error(
+      `Webhook event ${id} (${event.eventType}) failed on attempt ${event.attempts}` +
+      `${isDead ? ', giving up' : ''}:`,
+      message
+    );
+
+    const failedEvent = await storage.updateWebhookEvent(id, {
+      status: isDead ? 'dead' : 'failed',
+      lastError: message,
+      nextAttemptAt: isDead ? null : new Date(Date.now() + getWebhookRetryDelayMs(event.attempts)),
+    });
+    return failedEvent!;
+  }
+}
+
+/**
+ * Run stored events again on request, whatever their status.
+ * Each replay starts a fresh series of attempts.
+ *
+ * @returns The updated events, skipping IDs that don't exist
+ */
+export async function replayWebhookEvents(
+  ids: number[],
+  handler: WebhookEventHandler = handleHospitableWebhookEvent
+): Promise<WebhookEvent[]> {
+  const results: WebhookEvent[] = [];
+
+  for (const id of ids) {
+    const event = await storage.getWebhookEvent(id);
+    if (!event) continue;
+
+    if (event.status !== 'processing') {
+      await storage.updateWebhookEvent(id, { attempts: 0, nextAttemptAt: null });
+    }
+    results.push(await runWebhookEvent(id, handler));
+  }
+
+  return results;
+}
+
+/**
+ * Run every failed event whose retry is due
+ */
+export async function retryDueWebhookEvents(
+  handler: WebhookEventHandler = handleHospitableWebhookEvent
+): Promise<WebhookEvent[]> {
+  const dueEvents = await storage.getDueWebhookEvents(new Date());
+  const results: WebhookEvent[] = [];
+
+  for (const event of dueEvents) {
+    results.push(await runWebhookEvent(event.id, handler));
+  }
+
+  return results;
+}
+
+/**
+ * Run retryDueWebhookEvents on an interval.
+ * The interval comes from WEBHOOK_RETRY_INTERVAL_SECONDS (default 60); 0 disables the scheduler.
+ *
+ * @returns The timer, or null when disabled
+ */
+export function startWebhookRetryScheduler(): NodeJS.Timeout | null {
+  const seconds = parseInt(process.env.WEBHOOK_RETRY_INTERVAL_SECONDS || `${DEFAULT_RETRY_INTERVAL_SECONDS}`);
+  if (!seconds || seconds <= 0) {
+    console.log('Webhook retry scheduler disabled');
+    return null;
+  }
+
+  console.log(`Webhook retry scheduler running every ${seconds} seconds`);
+  const timer = setInterval(() => {
+    retryDueWebhookEvents().catch(error => {
+      console.error('Scheduled webhook retry failed:', error);
+    });
+  }, seconds * 1000);
+
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { Property } from "./schema";
+
+// Columns the admin property table can be sorted by
+export const adminPropertySortFields = [
+  "name",
+  "status",
+  "price",
+  "rating",
+  "publishedAt",
+  "lastSyncedAt",
+  "imagesStoredAt",
+  "updatedAt",
+] as const;
+
+export type AdminPropertySortField = typeof adminPropertySortFields[number];
+
+// Query of GET /api/admin/properties
+// source is the property's externalSource, or "manual" for properties created here
+export const adminPropertyQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  status: z.string().trim().optional(),
+  source: z.string().trim().optional(),
+  published: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  featured: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(adminPropertySortFields).default("updatedAt"),
+  direction: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type AdminPropertyQuery = z.infer<typeof adminPropertyQuerySchema>;
+
+// Response of GET /api/admin/properties
+export interface AdminPropertyPage {
+  items: Property[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const bulkPropertyActions = ["publish", "unpublish", "feature", "unfeature", "delete"] as const;
+
+export type BulkPropertyAction = typeof bulkPropertyActions[number];
+
+// Body of POST /api/admin/properties/bulk
+export const bulkPropertyActionSchema = z.object({
+  action: z.enum(bulkPropertyActions),
+  ids: z.array(z.number().int().positive()).min(1).max(100),
+});
+
+// Response of POST /api/admin/properties/bulk; properties the user may not manage are reported as failed
+export interface BulkPropertyActionResult {
+  action: BulkPropertyAction;
+  succeeded: number[];
+  failed: { id: number; message: string }[];
+}
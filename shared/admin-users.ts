@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { userRoles, type Booking, type Property, type PublicUser, type Review } from "./schema";
+
+// Query of GET /api/admin/users
+export const adminUserQuerySchema = z.object({
+  search: z.string().trim().optional(), // Matches username, email and full name
+  role: z.enum(userRoles).optional(),
+  suspended: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type AdminUserQuery = z.infer<typeof adminUserQuerySchema>;
+
+// Response of GET /api/admin/users
+export interface AdminUserPage {
+  items: PublicUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Response of GET /api/admin/users/:id: the account and what it did, without logging in as the user
+export interface AdminUserDetail {
+  user: PublicUser;
+  favorites: Property[];
+  reviews: Review[];
+  bookings: Booking[];
+}
+
+// Body of PATCH /api/admin/users/:id
+export const updateUserSchema = z.object({
+  email: z.string().trim().email().nullable().optional(),
+  fullName: z.string().trim().nullable().optional(),
+  role: z.enum(userRoles).optional(),
+});
+
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Body of POST /api/admin/users/:id/suspend
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Response of POST /api/admin/users/:id/password-reset; the token is only shown this once
+export interface PasswordResetLink {
+  token: string;
+  resetUrl: string;
+  expiresAt: string;
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { teamRoles, type Host, type PublicHostTeamMember, type TeamRole } from "./schema";
+
+// What a team member may do on the properties their membership covers
+export const propertyPermissions = [
+  "property.edit", // Listing details, publishing and change history
+  "property.delete",
+  "embed.edit", // Booking and review widget embed codes
+  "pricing.manage",
+  "calendar.view", // Availability blocks and calendar sync state
+  "calendar.manage",
+  "booking.view",
+  "booking.manage", // Booking status changes
+] as const;
+
+export type PropertyPermission = typeof propertyPermissions[number];
+
+// The account holder and admins have every permission and may also manage the team;
+// of the members only owners may manage it
+export const teamRolePermissions: Record<TeamRole, readonly PropertyPermission[]> = {
+  owner: propertyPermissions,
+  manager: [
+    "property.edit",
+    "embed.edit",
+    "pricing.manage",
+    "calendar.view",
+    "calendar.manage",
+    "booking.view",
+    "booking.manage",
+  ],
+  co_host: ["calendar.view", "calendar.manage", "booking.view", "booking.manage"],
+  viewer: ["calendar.view", "booking.view"],
+};
+
+export const teamRoleLabels: Record<TeamRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  co_host: "Co-host",
+  viewer: "Viewer",
+};
+
+// Body of POST /api/teams/:hostId/invites
+export const teamInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(teamRoles),
+  propertyIds: z.array(z.number().int().positive()).max(500).nullable().default(null), // null for all properties
+});
+
+export type TeamInvite = z.infer<typeof teamInviteSchema>;
+
+// Body of PATCH /api/teams/:hostId/members/:memberId
+export const updateTeamMemberSchema = teamInviteSchema.pick({ role: true, propertyIds: true }).partial();
+
+// Body of POST /api/team-invites/accept
+export const acceptTeamInviteSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Response of POST /api/teams/:hostId/invites; the token is only shown this once
+export interface TeamInviteLink {
+  member: PublicHostTeamMember;
+  token: string;
+  inviteUrl: string;
+  expiresAt: string;
+}
+
+// Response of GET /api/team-memberships: the teams the signed-in user belongs to
+export interface TeamMembership {
+  member: PublicHostTeamMember;
+  host: Pick<Host, "id" | "slug" | "displayName">;
+}
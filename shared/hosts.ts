@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { insertHostSchema, type Host, type Property } from "./schema";
+
+// Body of PATCH /api/host-profile
+export const updateHostProfileSchema = insertHostSchema.pick({
+  slug: true,
+  displayName: true,
+  bio: true,
+  avatarUrl: true,
+  languages: true,
+  responseRate: true,
+}).partial();
+
+export type UpdateHostProfile = z.infer<typeof updateHostProfileSchema>;
+
+// Body of PATCH /api/admin/hospitable-connections/:customerId/host
+export const assignConnectionHostSchema = z.object({
+  hostId: z.number().int().positive().nullable(),
+});
+
+// Response of GET /api/hosts/:slug
+export interface HostProfile {
+  host: Host;
+  properties: Property[]; // Published properties only
+  rating: number | null; // Weighted by each property's review count; null without reviews
+  reviewCount: number;
+}
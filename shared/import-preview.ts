@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+// Property fields an import writes on a property that was imported before, in display order
+export const importableFields = [
+  "name",
+  "title",
+  "description",
+  "price",
+  "imageUrl",
+  "additionalImages",
+  "city",
+  "state",
+  "zipCode",
+  "country",
+  "location",
+  "latitude",
+  "longitude",
+  "bedrooms",
+  "bathrooms",
+  "maxGuests",
+  "type",
+  "capacity",
+  "amenities",
+  "featuredAmenities",
+  "hostName",
+] as const;
+
+export type ImportableField = typeof importableFields[number];
+
+// new: not imported yet; changed / unchanged: compared with the stored property;
+// missing: stored property whose listing is no longer in the Hospitable account
+export type ImportPreviewStatus = "new" | "changed" | "unchanged" | "missing";
+
+export interface ImportFieldChange {
+  field: ImportableField;
+  current: unknown;
+  incoming: unknown;
+}
+
+export interface ImportPreviewEntry {
+  listingId: string;
+  name: string;
+  status: ImportPreviewStatus;
+  propertyId: number | null; // Stored property, unless the listing is new
+  changes: ImportFieldChange[]; // Only for changed listings
+  canApply: boolean; // false for missing listings and properties of another host
+}
+
+// Response of POST /api/hospitable/import-listings?dryRun=true
+export interface ImportPreview {
+  customerId: string;
+  entries: ImportPreviewEntry[];
+}
+
+// Body of POST /api/hospitable/import-listings
+// selection maps listing IDs to the fields to write on their stored property; listings left out
+// are not touched and new listings in it are created in full. Without a selection everything is imported.
+export const importListingsRequestSchema = z.object({
+  customerId: z.string().trim().min(1, "Customer ID is required"),
+  shouldAvoidUpdateForCustomer: z.boolean().optional(),
+  selection: z.record(z.string(), z.array(z.enum(importableFields))).optional(),
+});
+
+export type ImportListingsRequest = z.infer<typeof importListingsRequestSchema>;
+export type ImportSelection = NonNullable<ImportListingsRequest["selection"]>;
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { isoDateSchema, type BookingStatus, type PaymentStatus } from "./schema";
+
+// Request body for POST /api/properties/:id/quote
+export const quoteRequestSchema = z.object({
+  checkIn: isoDateSchema,
+  checkOut: isoDateSchema,
+  guests: z.coerce.number().int().min(1).default(1),
+});
+
+export type QuoteRequest = z.infer<typeof quoteRequestSchema>;
+
+export type StayDiscountType = "weekly" | "monthly";
+
+export interface QuoteNight {
+  date: string; // YYYY-MM-DD
+  price: number;
+  isWeekend: boolean;
+  ruleId: number | null; // Pricing rule that set this night's price
+}
+
+// Price breakdown returned by the quote API (all amounts in `currency`)
+export interface PriceQuote {
+  propertyId: number;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  currency: string;
+  nights: QuoteNight[];
+  nightCount: number;
+  subtotal: number; // Sum of nightly prices before discounts
+  discount: {
+    type: StayDiscountType;
+    amount: number;
+  } | null;
+  cleaningFee: number;
+  serviceFee: number;
+  taxRate: number; // Percentage
+  taxes: number;
+  total: number;
+}
+
+// Request body for POST /api/checkout
+export const checkoutRequestSchema = quoteRequestSchema.extend({
+  propertyId: z.coerce.number().int().positive(),
+  guestName: z.string().trim().min(1, "Guest name is required"),
+  guestEmail: z.string().trim().email(),
+  guestPhone: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+});
+
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
+
+// Returned by POST /api/checkout; the client completes payment with `clientSecret`
+export interface CheckoutSession {
+  bookingId: number;
+  gateway: "stripe" | "fake";
+  paymentIntentId: string;
+  clientSecret: string;
+  publishableKey: string | null;
+  quote: PriceQuote;
+}
+
+// Returned by GET /api/checkout/:bookingId; only tells the paying guest how their booking stands
+export interface CheckoutStatus {
+  bookingId: number;
+  status: BookingStatus;
+  paymentStatus: PaymentStatus;
+  checkIn: string;
+  checkOut: string;
+}
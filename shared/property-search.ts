@@ -0,0 +1,52 @@
+import { z } from "zod";
+import type { Property } from "./schema";
+
+// Orderings of the public property search
+export const propertySearchSorts = ["newest", "price_asc", "price_desc", "rating", "distance"] as const;
+
+export type PropertySearchSort = typeof propertySearchSorts[number];
+
+// Amenities come as one comma separated query value ("WiFi,Pool") or as an array
+const amenityListSchema = z.preprocess(
+  value => (typeof value === "string" ? value.split(",") : value),
+  z.array(z.string().trim()).transform(amenities => amenities.filter(Boolean)).pipe(z.array(z.string()).max(20))
+);
+
+// What a property must offer to match a search. Counts are minimums, prices are per night;
+// both storage backends compare city, property type and amenities case-insensitively
+export const propertySearchFiltersSchema = z.object({
+  city: z.string().trim().min(1).optional(),
+  propertyType: z.string().trim().min(1).optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  guests: z.coerce.number().int().min(0).optional(),
+  bedrooms: z.coerce.number().int().min(0).optional(),
+  bathrooms: z.coerce.number().min(0).optional(),
+  amenities: amenityListSchema.optional(), // Every one of them
+});
+
+export type PropertySearchFilters = z.infer<typeof propertySearchFiltersSchema>;
+
+// Query of GET /api/properties/search and of the /search page
+// lat and lng are the origin of the distance sort
+export const propertySearchParamsSchema = propertySearchFiltersSchema.extend({
+  q: z.string().trim().default(""),
+  sort: z.enum(propertySearchSorts).default("newest"),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(12),
+}).refine(params => params.sort !== "distance" || (params.lat !== undefined && params.lng !== undefined), {
+  message: "Sorting by distance needs lat and lng",
+  path: ["sort"],
+});
+
+export type PropertySearchParams = z.infer<typeof propertySearchParamsSchema>;
+
+// Response of GET /api/properties/search
+export interface PropertySearchPage {
+  items: Property[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
@@ -6,6 +6,10 @@ import {
   reviews,
   neighborhoods,
   favorites,
+  bookings,
+  availabilityBlocks,
+  propertyCalendars,
+  pricingRules,
   apiIntegrations
 } from "./schema";
 
@@ -13,7 +17,8 @@ import {
 export const usersRelations = relations(users, ({ many }) => ({
   properties: many(properties, { relationName: "userProperties" }),
   reviews: many(reviews),
-  favorites: many(favorites)
+  favorites: many(favorites),
+  bookings: many(bookings)
 }));
 
 // Define property relations
@@ -28,7 +33,10 @@ export const propertiesRelations = relations(properties, ({ one, many }) => ({
     references: [cities.name]
   }),
   reviews: many(reviews),
-  favorites: many(favorites)
+  favorites: many(favorites),
+  bookings: many(bookings),
+  availabilityBlocks: many(availabilityBlocks),
+  pricingRules: many(pricingRules)
 }));
 
 // Define city relations
@@ -70,6 +78,42 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
   })
 }));
 
+// Define booking relations
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+  property: one(properties, {
+    fields: [bookings.propertyId],
+    references: [properties.id]
+  }),
+  user: one(users, {
+    fields: [bookings.userId],
+    references: [users.id]
+  })
+}));
+
+// Define availability block relations
+export const availabilityBlocksRelations = relations(availabilityBlocks, ({ one }) => ({
+  property: one(properties, {
+    fields: [availabilityBlocks.propertyId],
+    references: [properties.id]
+  })
+}));
+
+// Define pricing rule relations
+export const pricingRulesRelations = relations(pricingRules, ({ one }) => ({
+  property: one(properties, {
+    fields: [pricingRules.propertyId],
+    references: [properties.id]
+  })
+}));
+
+// Define property calendar relations
+export const propertyCalendarsRelations = relations(propertyCalendars, ({ one }) => ({
+  property: one(properties, {
+    fields: [propertyCalendars.propertyId],
+    references: [properties.id]
+  })
+}));
+
 // Define API integrations relations
 export const apiIntegrationsRelations = relations(apiIntegrations, ({ one }) => ({
   property: one(properties, {
@@ -1,28 +1,105 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, varchar, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, json, varchar, index, uniqueIndex, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
 // Users table (basic users schema, kept from original)
+// guest: books and saves favorites; host: manages their own properties; admin: manages everything
+export const userRoles = ["guest", "host", "admin"] as const;
+
+export type UserRole = typeof userRoles[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").unique(),
   fullName: text("full_name"),
-  isAdmin: boolean("is_admin").default(false),
+  role: text("role").$type<UserRole>().notNull().default("guest"),
+  isAdmin: boolean("is_admin").default(false), // Superseded by role
+  suspendedAt: timestamp("suspended_at"), // Suspended users cannot log in; null while active
+  suspendedReason: text("suspended_reason"),
+
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Relations will be defined after all tables are declared
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles).optional(),
+}).pick({
   username: true,
   password: true,
   email: true,
   fullName: true,
+  role: true,
 });
 
+// Request bodies for POST /api/auth/register and /api/auth/login
+// Self-registration always creates a guest, so role is not accepted here
+export const registerUserSchema = insertUserSchema.omit({ role: true }).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  email: z.string().trim().email().optional(),
+  fullName: z.string().trim().optional(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Request body for POST /api/auth/reset-password
+export const resetPasswordSchema = z.object({
+  token: z.string().trim().min(1, "Reset token is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Login sessions (managed by connect-pg-simple; declared here so migrations own the table)
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
+// One-time password reset links issued by admins; only a hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token in the link, hex
+  createdBy: integer("created_by"), // Admin who issued it
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("password_reset_tokens_user_idx").on(table.userId),
+}));
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+// Property fields editors can lock so Hospitable imports, webhooks and image refreshes leave them alone
+export const lockableFields = [
+  "name",
+  "title",
+  "description",
+  "price",
+  "imageUrl",
+  "additionalImages",
+  "amenities",
+  "featuredAmenities",
+  "metaTitle",
+  "metaDescription",
+  "keywords",
+] as const;
+
+export type LockableField = typeof lockableFields[number];
+
 // Properties table
 export const properties = pgTable("properties", {
   id: serial("id").primaryKey(),
@@ -46,7 +123,7 @@ export const properties = pgTable("properties", {
   monthlyPrice: integer("monthly_price"),
   cleaningFee: integer("cleaning_fee"),
   serviceFee: integer("service_fee"),
-  taxRate: doublePrecision("tax_rate"),
+  taxRate: doublePrecision("tax_rate"), // percentage, e.g. 12.5
   minStay: integer("min_stay").default(1),
   maxStay: integer("max_stay"),
   
@@ -107,12 +184,13 @@ export const properties = pgTable("properties", {
   metaDescription: text("meta_description"), // Custom SEO description
   canonicalUrl: text("canonical_url"), // Custom canonical URL
   keywords: text("keywords").array(), // SEO keywords
+  lockedFields: text("locked_fields").array().$type<LockableField[]>(), // Fields kept as edited locally on re-import
   
   // Flags and status
   isFeatured: boolean("is_featured").default(false),
   isActive: boolean("is_active").default(true),
   isVerified: boolean("is_verified").default(false),
-  status: text("status").default("active"), // active, pending, inactive
+  status: text("status").default("active"), // active, pending, inactive, disconnected (hidden while its Hospitable customer is disconnected)
   
   // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
@@ -124,13 +202,77 @@ export const properties = pgTable("properties", {
 // Define relations for properties
 // Relations will be defined later to avoid circular dependencies
 
-export const insertPropertySchema = createInsertSchema(properties).omit({
+export const insertPropertySchema = createInsertSchema(properties, {
+  lockedFields: z.array(z.enum(lockableFields)).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   publishedAt: true,
 });
 
+// Public host profiles; a host's properties carry their user ID in properties.hostId
+export const hosts = pgTable("hosts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(), // The host's account
+  slug: text("slug").notNull().unique(), // Profile URL: /host/:slug
+  displayName: text("display_name").notNull(), // Shown as the property's host name
+  bio: text("bio"),
+  avatarUrl: text("avatar_url"),
+  languages: text("languages").array(),
+  responseRate: integer("response_rate"), // Percentage of inquiries answered
+  joinedAt: timestamp("joined_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertHostSchema = createInsertSchema(hosts, {
+  slug: z.string().trim().min(2).max(80).regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and hyphens"),
+  displayName: z.string().trim().min(1, "Display name is required").max(100),
+  avatarUrl: z.string().trim().url().nullable().optional(),
+  languages: z.array(z.string().trim().min(1)).max(20).nullable().optional(),
+  responseRate: z.number().int().min(0).max(100).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Members of a host's team. Invites are pending until the invited user accepts them;
+// what each role may do is in shared/host-teams.ts
+export const teamRoles = ["owner", "manager", "co_host", "viewer"] as const;
+
+export type TeamRole = typeof teamRoles[number];
+
+export const hostTeamMembers = pgTable("host_team_members", {
+  id: serial("id").primaryKey(),
+  hostId: integer("host_id").notNull(), // hosts.id of the team's host account
+  userId: integer("user_id"), // Set once the invite is accepted
+  email: text("email").notNull(), // Where the invite was sent, lowercase
+  role: text("role").$type<TeamRole>().notNull(),
+  propertyIds: integer("property_ids").array(), // Properties the member works on; null for all of the host's
+  inviteTokenHash: text("invite_token_hash").notNull().unique(), // sha256 of the token in the invite link, hex
+  invitedBy: integer("invited_by"),
+  expiresAt: timestamp("expires_at").notNull(), // Of the invite
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  hostIdx: index("host_team_members_host_idx").on(table.hostId),
+  userIdx: index("host_team_members_user_idx").on(table.userId),
+}));
+
+export const insertHostTeamMemberSchema = createInsertSchema(hostTeamMembers, {
+  role: z.enum(teamRoles),
+  propertyIds: z.array(z.number().int().positive()).nullable().optional(),
+}).omit({
+  id: true,
+  userId: true,
+  acceptedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Cities table (for city pages)
 export const cities = pgTable("cities", {
   id: serial("id").primaryKey(),
@@ -235,6 +377,333 @@ export const insertFavoriteSchema = createInsertSchema(favorites).omit({
   createdAt: true,
 });
 
+// Calendar dates (stays, blocks) are stored and exchanged as YYYY-MM-DD strings
+export const isoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  // Date would roll 2024-02-30 over into March; a real date formats back to itself
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Expected a valid calendar date");
+
+// Booking lifecycle: inquiry → pending → confirmed → checked_in → completed,
+// with cancellation possible until the guest has checked in
+export const bookingStatuses = [
+  "inquiry",
+  "pending",
+  "confirmed",
+  "checked_in",
+  "completed",
+  "cancelled",
+] as const;
+
+export type BookingStatus = typeof bookingStatuses[number];
+
+// Payment state of a direct booking, tracked separately from the stay lifecycle
+export const paymentStatuses = [
+  "unpaid",
+  "pending",
+  "paid",
+  "failed",
+  "refunded",
+] as const;
+
+export type PaymentStatus = typeof paymentStatuses[number];
+
+// Bookings table (reservations made directly or synced from Hospitable)
+export const bookings = pgTable("bookings", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull(),
+  userId: integer("user_id"), // Registered guest, if any
+
+  // Guest details
+  guestName: text("guest_name").notNull(),
+  guestEmail: text("guest_email"),
+  guestPhone: text("guest_phone"),
+  guests: integer("guests").notNull().default(1),
+
+  // Stay dates (check-out is the morning the guest leaves)
+  checkIn: date("check_in").notNull(),
+  checkOut: date("check_out").notNull(),
+
+  // Pricing
+  totalPrice: doublePrecision("total_price"),
+  currency: text("currency").default("USD"),
+
+  // Status and origin
+  status: text("status").$type<BookingStatus>().notNull().default("inquiry"),
+  source: text("source").default("direct"), // direct, hospitable
+  externalId: text("external_id").unique(), // Reservation ID in Hospitable
+  notes: text("notes"),
+
+  // Payment
+  paymentStatus: text("payment_status").$type<PaymentStatus>().notNull().default("unpaid"),
+  paymentIntentId: text("payment_intent_id").unique(), // ID at the payment gateway
+
+  // Timestamps
+  confirmedAt: timestamp("confirmed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertBookingSchema = createInsertSchema(bookings, {
+  status: z.enum(bookingStatuses).optional(),
+  paymentStatus: z.enum(paymentStatuses).optional(),
+  checkIn: isoDateSchema,
+  checkOut: isoDateSchema,
+}).omit({
+  id: true,
+  confirmedAt: true,
+  cancelledAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Availability blocks (nights a property cannot be booked, e.g. owner stays or maintenance)
+export const availabilityBlocks = pgTable("availability_blocks", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull(),
+  startDate: date("start_date").notNull(), // First blocked night
+  endDate: date("end_date").notNull(), // Exclusive, like a booking's check-out
+  source: text("source").default("manual"), // manual, ical
+  externalUid: text("external_uid"), // UID of the imported calendar event
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAvailabilityBlockSchema = createInsertSchema(availabilityBlocks, {
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Pricing rules (seasonal, holiday and day-of-week overrides of the base nightly price)
+export const pricingRules = pgTable("pricing_rules", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull(),
+  name: text("name").notNull(), // e.g. "Summer season", "New Year's Eve"
+  startDate: date("start_date"), // First night the rule covers (open-ended if null)
+  endDate: date("end_date"), // Last night the rule covers, inclusive (open-ended if null)
+  daysOfWeek: integer("days_of_week").array(), // 0 = Sunday ... 6 = Saturday; all days if null
+  nightlyPrice: integer("nightly_price"), // Replaces the base/weekend price
+  adjustmentPercent: doublePrecision("adjustment_percent"), // Or adjusts it, e.g. 20 or -10
+  minStay: integer("min_stay"), // Replaces the property minStay for arrivals on covered nights
+  priority: integer("priority").notNull().default(0), // Highest priority wins when rules overlap
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPricingRuleSchema = createInsertSchema(pricingRules, {
+  name: z.string().min(1, "Name is required"),
+  startDate: isoDateSchema.nullable().optional(),
+  endDate: isoDateSchema.nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  nightlyPrice: z.number().int().min(0).nullable().optional(),
+  minStay: z.number().int().min(1).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Calendar sync state per property (iCal import from calendarSyncUrl, export feed token)
+export const propertyCalendars = pgTable("property_calendars", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().unique(),
+  importStatus: text("import_status").default("never"), // never, success, error
+  importError: text("import_error"),
+  importedEventCount: integer("imported_event_count").default(0),
+  lastImportedAt: timestamp("last_imported_at"),
+  exportToken: text("export_token").unique(), // Secret for the public .ics export URL
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPropertyCalendarSchema = createInsertSchema(propertyCalendars).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Where a property change came from (restore: rolled back from the history)
+export const revisionSources = ["admin_ui", "import", "webhook", "sync", "restore", "system"] as const;
+
+export type RevisionSource = typeof revisionSources[number];
+
+// A changed property field: its value before and after the change
+export type PropertyFieldChange = { from: unknown; to: unknown };
+
+// Property revisions table (one row per property update that changed something)
+export const propertyRevisions = pgTable("property_revisions", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull(),
+  changes: jsonb("changes").$type<Record<string, PropertyFieldChange>>().notNull(),
+  userId: integer("user_id"), // Who made the change; null for webhooks and background jobs
+  source: text("source").$type<RevisionSource>().notNull().default("system"),
+  restoredFromId: integer("restored_from_id"), // Revision rolled back, for source restore
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  propertyIdx: index("property_revisions_property_idx").on(table.propertyId, table.createdAt),
+}));
+
+export const insertPropertyRevisionSchema = createInsertSchema(propertyRevisions, {
+  source: z.enum(revisionSources).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Audit log table (who changed what through the API, with the entity before and after)
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // Signed-in user; null for guests, webhooks and background jobs
+  actorRole: text("actor_role"),
+  ip: text("ip"),
+  action: text("action").notNull(), // "<entity>.<verb>", e.g. property.update, hospitable.disconnect
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id"),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  actorIdx: index("audit_log_actor_idx").on(table.actorId),
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Whether a Hospitable customer grants us access to their account
+// (pending: customer created, authorization not completed yet)
+export const hospitableConnectionStatuses = ["pending", "connected", "disconnected", "revoked"] as const;
+
+export type HospitableConnectionStatus = typeof hospitableConnectionStatuses[number];
+
+// Hospitable connections table (one row per customer: OAuth tokens and connection state)
+export const hospitableConnections = pgTable("hospitable_connections", {
+  id: serial("id").primaryKey(),
+  customerId: text("customer_id").notNull().unique(), // Customer ID in Hospitable (prefix of properties.platformId)
+  hostId: integer("host_id"), // hosts.id of the host new listings of this customer are assigned to
+  status: text("status").$type<HospitableConnectionStatus>().notNull().default("connected"),
+  lastEvent: text("last_event"), // Webhook event that set the status
+
+  // OAuth tokens, encrypted at rest (see server/utils/token-encryption.ts)
+  accessToken: text("access_token"),
+  refreshToken: text("refresh_token"),
+  tokenExpiresAt: timestamp("token_expires_at"),
+  scopes: text("scopes").array(),
+
+  connectedAt: timestamp("connected_at"),
+  disconnectedAt: timestamp("disconnected_at"),
+  lastSyncedAt: timestamp("last_synced_at"), // Last listings import for this customer
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertHospitableConnectionSchema = createInsertSchema(hospitableConnections, {
+  status: z.enum(hospitableConnectionStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Webhook deliveries: received → processing → processed, or failed (retried with backoff)
+// until the last attempt, after which the event is dead-lettered for a manual replay
+export const webhookEventStatuses = [
+  "received",
+  "processing",
+  "processed",
+  "failed",
+  "dead",
+] as const;
+
+export type WebhookEventStatus = typeof webhookEventStatuses[number];
+
+export const webhookSignatureStatuses = ["valid", "invalid"] as const;
+
+export type WebhookSignatureStatus = typeof webhookSignatureStatuses[number];
+
+// Webhook events table (every delivery from an integration, kept for dedupe, retries and replay)
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  source: text("source").notNull().default("hospitable"),
+  eventId: text("event_id").notNull(), // Delivery ID from the sender, or a hash of the payload
+  eventType: text("event_type").notNull(), // e.g. booking.created
+  payload: jsonb("payload").notNull(),
+  signatureStatus: text("signature_status").$type<WebhookSignatureStatus>().notNull(),
+  status: text("status").$type<WebhookEventStatus>().notNull().default("received"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // When a failed event is retried
+  processedAt: timestamp("processed_at"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  sourceEventIdx: uniqueIndex("webhook_events_source_event_id_idx").on(table.source, table.eventId),
+}));
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents, {
+  signatureStatus: z.enum(webhookSignatureStatuses),
+  status: z.enum(webhookEventStatuses).optional(),
+}).omit({
+  id: true,
+  receivedAt: true,
+  updatedAt: true,
+});
+
+// Durable queue for long-running Hospitable API work (e.g. listing imports).
+// queued → running → succeeded; a retryable failure (429, 5xx, network) puts the job back in the
+// queue with backoff until its last attempt, after which it is dead-lettered for a manual retry.
+// failed: stopped by an error that retrying won't fix
+export const queueJobStatuses = ["queued", "running", "succeeded", "failed", "dead"] as const;
+
+export type QueueJobStatus = typeof queueJobStatuses[number];
+
+export const queueJobs = pgTable("queue_jobs", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // Handler that runs the job, e.g. hospitable.import_listings
+  groupKey: text("group_key").notNull(), // Concurrency group, e.g. "hospitable:<customerId>"
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  status: text("status").$type<QueueJobStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not picked up before this time (retry backoff)
+  lockedBy: text("locked_by"), // Worker running the job
+  progress: jsonb("progress").$type<{ done: number; total: number }>(),
+  result: jsonb("result").$type<Record<string, any>>(),
+  lastError: text("last_error"),
+  createdBy: integer("created_by"), // User who queued the job
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // Bumped by progress reports while running
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  statusRunAtIdx: index("queue_jobs_status_run_at_idx").on(table.status, table.runAt),
+  groupKeyIdx: index("queue_jobs_group_key_idx").on(table.groupKey),
+}));
+
+export const insertQueueJobSchema = createInsertSchema(queueJobs, {
+  status: z.enum(queueJobStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Token buckets shared by every server instance (e.g. Hospitable API calls per customer)
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(), // When tokens was last refilled
+});
+
 // API Integration table - for tracking external API services
 export const apiIntegrations = pgTable("api_integrations", {
   id: serial("id").primaryKey(),
@@ -256,12 +725,52 @@ export const insertApiIntegrationSchema = createInsertSchema(apiIntegrations).om
   updatedAt: true,
 });
 
+// Background sync jobs run by the server scheduler, each for one target:
+// listing_import / image_refresh per Hospitable customer, ical_sync per property
+export const jobTypes = ["listing_import", "image_refresh", "ical_sync"] as const;
+export const jobRunStatuses = ["running", "succeeded", "failed"] as const;
+export const syncFrequencies = ["hourly", "daily", "weekly"] as const;
+
+export type JobType = typeof jobTypes[number];
+export type JobRunStatus = typeof jobRunStatuses[number];
+export type SyncFrequency = typeof syncFrequencies[number];
+
+// Job runs table (history of scheduled and manually triggered sync jobs)
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobType: text("job_type").$type<JobType>().notNull(),
+  targetId: text("target_id").notNull(), // Hospitable customer ID, or property ID for ical_sync
+  status: text("status").$type<JobRunStatus>().notNull().default("running"),
+  trigger: text("trigger").notNull().default("schedule"), // schedule, manual
+  result: jsonb("result").$type<Record<string, number>>(), // Counts reported by the job
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  jobTargetIdx: index("job_runs_job_target_idx").on(table.jobType, table.targetId, table.startedAt),
+}));
+
+export const insertJobRunSchema = createInsertSchema(jobRuns, {
+  jobType: z.enum(jobTypes),
+  status: z.enum(jobRunStatuses).optional(),
+}).omit({
+  id: true,
+  startedAt: true,
+});
+
 export type ApiIntegration = typeof apiIntegrations.$inferSelect;
 export type InsertApiIntegration = z.infer<typeof insertApiIntegrationSchema>;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+export type QueueJob = typeof queueJobs.$inferSelect;
+export type InsertQueueJob = z.infer<typeof insertQueueJobSchema>;
 
 // Export types for database entities
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+// User as returned by the API (never includes the password hash)
+export type PublicUser = Omit<User, "password">;
 
 export type Property = typeof properties.$inferSelect;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
@@ -277,3 +786,40 @@ export type InsertNeighborhood = z.infer<typeof insertNeighborhoodSchema>;
 
 export type Favorite = typeof favorites.$inferSelect;
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
+
+export type Booking = typeof bookings.$inferSelect;
+export type InsertBooking = z.infer<typeof insertBookingSchema>;
+
+export type AvailabilityBlock = typeof availabilityBlocks.$inferSelect;
+export type InsertAvailabilityBlock = z.infer<typeof insertAvailabilityBlockSchema>;
+
+export type PropertyCalendar = typeof propertyCalendars.$inferSelect;
+export type InsertPropertyCalendar = z.infer<typeof insertPropertyCalendarSchema>;
+
+export type PropertyRevision = typeof propertyRevisions.$inferSelect;
+export type InsertPropertyRevision = z.infer<typeof insertPropertyRevisionSchema>;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+
+export type PricingRule = typeof pricingRules.$inferSelect;
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+
+export type Host = typeof hosts.$inferSelect;
+export type InsertHost = z.infer<typeof insertHostSchema>;
+
+export type HostTeamMember = typeof hostTeamMembers.$inferSelect;
+export type InsertHostTeamMember = z.infer<typeof insertHostTeamMemberSchema>;
+// Team member as returned by the API (never includes the invite token hash)
+export type PublicHostTeamMember = Omit<HostTeamMember, "inviteTokenHash">;
+
+export type HospitableConnection = typeof hospitableConnections.$inferSelect;
+export type InsertHospitableConnection = z.infer<typeof insertHospitableConnectionSchema>;
+// Connection as returned by the API (never includes the encrypted tokens)
+export type PublicHospitableConnection = Omit<HospitableConnection, "accessToken" | "refreshToken">;